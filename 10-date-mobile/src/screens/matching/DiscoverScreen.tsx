@@ -65,18 +65,20 @@ const DiscoverScreen: React.FC<DiscoverScreenProps> = ({ navigation }) => {
   
   // RTK Query hook for fetching potential matches with AI recommendations
   const { 
-    data: recommendations, 
+    data: recommendationsPage, 
     isLoading, 
     isError, 
     refetch 
   } = useGetRecommendationsQuery({
-    userId,
     limit: 10,
     includeDetails: true
   }, {
     skip: !userId
   });
   
+  // Swiped profiles are excluded server-side, so refetching yields the next batch
+  const recommendations = recommendationsPage?.recommendations;
+  
   // Mutation hook for swiping (like/pass)
   const [swipeProfile, { isLoading: isSwipeLoading }] = useSwipeProfileMutation();
   
@@ -193,7 +195,6 @@ const DiscoverScreen: React.FC<DiscoverScreenProps> = ({ navigation }) => {
     
     try {
       const result = await swipeProfile({
-        userId,
         targetUserId: currentProfile.userId,
         direction,
         isSuperLike,
@@ -209,7 +210,22 @@ const DiscoverScreen: React.FC<DiscoverScreenProps> = ({ navigation }) => {
       // Reset tracking data and move to next profile
       setSwipeStartTime(null);
       setCurrentIndex(prevIndex => prevIndex + 1);
-    } catch (error) {
+    } catch (error: any) {
+      // Daily quota used up: offer an upgrade when the tier allows it
+      if (error?.data?.error === 'QUOTA_EXCEEDED') {
+        const { message, upgradeAvailable } = error.data;
+        Alert.alert(
+          'Out of swipes',
+          message,
+          upgradeAvailable
+            ? [
+                { text: 'Not now', style: 'cancel' },
+                { text: 'Upgrade', onPress: () => navigation.navigate('Subscription') },
+              ]
+            : [{ text: 'OK' }]
+        );
+        return;
+      }
       Alert.alert('Error', 'Something went wrong while processing your swipe');
     }
   };
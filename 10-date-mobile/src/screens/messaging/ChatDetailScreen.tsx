@@ -20,7 +20,11 @@ import {
   Keyboard,
   Animated,
 } from 'react-native';
-import { useGetMessagesQuery, useSendMessageMutation } from '../../store/api';
+import {
+  useGetMessagesQuery,
+  useLazyGetMessagesQuery,
+  useSendMessageMutation,
+} from '../../store/api';
 import { useAppSelector } from '../../store';
 import { ChatDetailScreenProps } from '../../types/navigation';
 import { primaryColors, neutralColors, spacing, typography, shadows } from '../../theme';
@@ -28,6 +32,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { format } from 'date-fns';
 import { Socket } from 'socket.io-client';
 import { useSocketConnection } from '../../hooks/useSocketConnection';
+import { API_URL } from '../../config';
 
 // Message interface
 interface Message {
@@ -37,9 +42,16 @@ interface Message {
   timestamp: string;
   mediaUrl?: string;
   mediaType?: 'image' | 'video' | 'audio';
+  thumbnailUrl?: string | null;
   status: 'sent' | 'delivered' | 'read';
 }
 
+// Combine two runs of messages, oldest first, without duplicates
+const mergeMessages = (older: Message[], newer: Message[]) => {
+  const newerIds = new Set(newer.map(message => message.id));
+  return [...older.filter(message => !newerIds.has(message.id)), ...newer];
+};
+
 const ChatDetailScreen: React.FC<ChatDetailScreenProps> = ({ 
   route, 
   navigation 
@@ -54,20 +66,55 @@ const ChatDetailScreen: React.FC<ChatDetailScreenProps> = ({
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const flatListRef = useRef<FlatList>(null);
   const typingIndicatorOpacity = useRef(new Animated.Value(0)).current;
+  const [messagesData, setMessagesData] = useState<Message[]>([]);
+  const [hasEarlier, setHasEarlier] = useState(false);
+  const prependingRef = useRef(false);
+  const historyLoadedRef = useRef(false);
   
   // Get current user info from Redux
-  const { user } = useAppSelector(state => state.auth);
+  const { user, token } = useAppSelector(state => state.auth);
   
-  // RTK Query hooks
+  // RTK Query hooks; the query keeps the latest page live, and earlier
+  // pages are kept locally as the user scrolls back
   const { 
-    data: messagesData, 
+    data: latestPage, 
     isLoading, 
     isError, 
     refetch 
-  } = useGetMessagesQuery(matchId);
+  } = useGetMessagesQuery({ matchId });
+  const [fetchEarlierMessages, { isFetching: isLoadingEarlier }] = useLazyGetMessagesQuery();
   
   const [sendMessage, { isLoading: isSending }] = useSendMessageMutation();
   
+  // Merge the latest page into the loaded history
+  useEffect(() => {
+    if (!latestPage) return;
+    
+    if (!historyLoadedRef.current) {
+      historyLoadedRef.current = true;
+      setHasEarlier(latestPage.hasMore);
+    }
+    setMessagesData(prev => mergeMessages(prev, latestPage.messages));
+  }, [latestPage]);
+  
+  // Load the page before the oldest loaded message
+  const loadEarlierMessages = async () => {
+    if (!hasEarlier || isLoadingEarlier || !messagesData.length) return;
+    
+    try {
+      const page = await fetchEarlierMessages({
+        matchId,
+        before: messagesData[0].id,
+      }).unwrap();
+      
+      prependingRef.current = true;
+      setMessagesData(prev => mergeMessages(page.messages, prev));
+      setHasEarlier(page.hasMore);
+    } catch (error) {
+      console.error('Error loading earlier messages:', error);
+    }
+  };
+  
   // Socket connection for real-time messaging
   const socket = useSocketConnection();
   
@@ -83,8 +130,8 @@ const ChatDetailScreen: React.FC<ChatDetailScreenProps> = ({
     });
     
     // Listen for typing indicators
-    socket.on('typing', (data: { userId: string, matchId: string }) => {
-      if (data.matchId === matchId && data.userId !== user?.id) {
+    socket.on('typing', (data: { userId: string, matchId: string, isTyping: boolean }) => {
+      if (data.matchId === matchId && data.userId !== user?.id && data.isTyping) {
         setPartnerIsTyping(true);
         
         // Animate typing indicator
@@ -112,13 +159,13 @@ const ChatDetailScreen: React.FC<ChatDetailScreenProps> = ({
     });
     
     // Join the chat room
-    socket.emit('join_chat', { matchId });
+    socket.emit('joinRoom', { matchId });
     
     // Clean up listeners when component unmounts
     return () => {
       socket.off('message');
       socket.off('typing');
-      socket.emit('leave_chat', { matchId });
+      socket.emit('leaveRoom', { matchId });
       
       if (typingTimeoutRef.current) {
         clearTimeout(typingTimeoutRef.current);
@@ -153,11 +200,12 @@ const ChatDetailScreen: React.FC<ChatDetailScreenProps> = ({
     // Emit typing event to server
     if (text.length > 0 && !isTyping && socket) {
       setIsTyping(true);
-      socket.emit('typing', { matchId, userId: user?.id });
+      socket.emit('typingStart', { matchId });
       
       // Reset typing status after 3 seconds
       setTimeout(() => {
         setIsTyping(false);
+        socket.emit('typingStop', { matchId });
       }, 3000);
     }
   };
@@ -183,8 +231,13 @@ const ChatDetailScreen: React.FC<ChatDetailScreenProps> = ({
     }
   };
   
-  // Scroll to bottom of message list
+  // Scroll to bottom of message list, except right after loading history
   const scrollToBottom = () => {
+    if (prependingRef.current) {
+      prependingRef.current = false;
+      return;
+    }
+    
     if (flatListRef.current && messagesData?.length) {
       flatListRef.current.scrollToEnd({ animated: true });
     }
@@ -253,7 +306,11 @@ const ChatDetailScreen: React.FC<ChatDetailScreenProps> = ({
           >
             {item.mediaType === 'image' && (
               <Image
-                source={{ uri: item.mediaUrl }}
+                source={{
+                  uri: `${API_URL}${item.thumbnailUrl || item.mediaUrl}`,
+                  // Attachments are only served to the two users of the match
+                  headers: { Authorization: `Bearer ${token}` },
+                }}
                 style={styles.messageImage}
                 resizeMode="cover"
               />
@@ -261,7 +318,10 @@ const ChatDetailScreen: React.FC<ChatDetailScreenProps> = ({
             {item.mediaType === 'video' && (
               <View style={styles.videoContainer}>
                 <Image
-                  source={{ uri: item.mediaUrl }}
+                  source={{
+                    uri: `${API_URL}${item.mediaUrl}`,
+                    headers: { Authorization: `Bearer ${token}` },
+                  }}
                   style={styles.messageImage}
                   resizeMode="cover"
                 />
@@ -350,6 +410,21 @@ const ChatDetailScreen: React.FC<ChatDetailScreenProps> = ({
         contentContainerStyle={styles.messagesContent}
         inverted={false}
         onContentSizeChange={scrollToBottom}
+        onScroll={({ nativeEvent }) => {
+          if (nativeEvent.contentOffset.y < 50) {
+            loadEarlierMessages();
+          }
+        }}
+        scrollEventThrottle={200}
+        ListHeaderComponent={
+          isLoadingEarlier ? (
+            <ActivityIndicator
+              style={styles.earlierLoader}
+              size="small"
+              color={primaryColors.primary}
+            />
+          ) : null
+        }
         ListEmptyComponent={
           <View style={styles.emptyContainer}>
             <Text style={styles.emptyText}>Start a conversation with {userName}</Text>
@@ -435,6 +510,9 @@ const styles = StyleSheet.create({
   messagesList: {
     flex: 1,
   },
+  earlierLoader: {
+    paddingVertical: spacing.sm,
+  },
   messagesContent: {
     padding: spacing.md,
     paddingBottom: spacing.xl,
@@ -10,6 +10,13 @@ import { API_URL } from '../config';
 import AuthService from '../services/auth.service';
 import { RootState } from './index';
 
+// Card gestures mapped to the backend swipe directions
+const SWIPE_DIRECTIONS: Record<string, string> = {
+  right: 'like',
+  left: 'dislike',
+  up: 'superlike',
+};
+
 // Base query with auth token
 const baseQuery = fetchBaseQuery({
   baseUrl: API_URL,
@@ -93,36 +100,46 @@ export const api = createApi({
     
     // New recommendation endpoint with enhanced AI matching
     getRecommendations: builder.query({
-      query: ({ userId, limit = 10, includeDetails = true }) => ({
-        url: `matching/recommendations/${userId}`,
-        params: { limit, includeDetails }
+      query: ({ limit = 10, includeDetails = true, cursor, verifiedOnly }) => ({
+        url: 'matching/recommendations',
+        params: {
+          limit,
+          includeDetails,
+          ...(cursor ? { cursor } : {}),
+          ...(verifiedOnly !== undefined ? { verifiedOnly } : {}),
+        }
       }),
       providesTags: ['Match'],
     }),
     
     // New endpoint to get detailed match factors between users
     getMatchFactors: builder.query({
-      query: ({ userId, targetUserId }) => 
-        `matching/match-factors/${userId}/${targetUserId}`,
-      providesTags: (result, error, { userId, targetUserId }) => 
-        [{ type: 'Match', id: `${userId}-${targetUserId}` }],
+      query: ({ targetUserId }) => 
+        `matching/match-factors/${targetUserId}`,
+      providesTags: (result, error, { targetUserId }) => 
+        [{ type: 'Match', id: targetUserId }],
     }),
     
     // Enhanced swipe endpoint that includes behavioral data
     swipeProfile: builder.mutation({
-      query: ({ userId, targetUserId, direction, metadata }) => ({
+      query: ({ targetUserId, direction, metadata }) => ({
         url: 'matching/swipe',
         method: 'POST',
         body: { 
-          userId, 
           targetUserId, 
-          direction,
+          direction: SWIPE_DIRECTIONS[direction] || direction,
           metadata, // Behavioral data (swipe time, view duration, etc.)
         },
       }),
       invalidatesTags: ['Match'],
     }),
     
+    // Remaining daily likes, super likes, rewinds and boosts with reset times
+    getSwipeQuotas: builder.query({
+      query: () => 'matching/quotas',
+      providesTags: ['Match'],
+    }),
+    
     getMatches: builder.query({
       query: () => 'matching/matches',
       providesTags: ['Match'],
@@ -134,17 +151,33 @@ export const api = createApi({
       providesTags: ['Message'],
     }),
     getMessages: builder.query({
-      query: (matchId) => `messaging/conversations/${matchId}`,
-      providesTags: (result, error, matchId) => [{ type: 'Message', id: matchId }],
+      query: ({ matchId, before }) => ({
+        url: `messaging/conversations/${matchId}`,
+        params: before ? { before } : undefined,
+      }),
+      providesTags: (result, error, { matchId }) => [{ type: 'Message', id: matchId }],
     }),
     sendMessage: builder.mutation({
-      query: ({ matchId, content, mediaType, mediaUrl }) => ({
-        url: `messaging/conversations/${matchId}`,
+      query: ({ matchId, content, mediaId }) => ({
+        url: 'messaging/send',
         method: 'POST',
-        body: { content, mediaType, mediaUrl },
+        body: { matchId, content, mediaId },
       }),
       invalidatesTags: (result, error, { matchId }) => [{ type: 'Message', id: matchId }],
     }),
+    // Returns the `id` to send as `mediaId`
+    uploadAttachment: builder.mutation({
+      query: ({ matchId, file }) => {
+        const body = new FormData();
+        body.append('matchId', matchId);
+        body.append('file', file);
+        return {
+          url: 'messaging/attachments',
+          method: 'POST',
+          body,
+        };
+      },
+    }),
     
     // Subscription endpoints
     getSubscriptionPlans: builder.query({
@@ -180,10 +213,13 @@ export const {
   useGetRecommendationsQuery, // New hook for enhanced recommendations
   useGetMatchFactorsQuery, // New hook for match factors
   useSwipeProfileMutation,
+  useGetSwipeQuotasQuery,
   useGetMatchesQuery,
   useGetConversationsQuery,
   useGetMessagesQuery,
+  useLazyGetMessagesQuery,
   useSendMessageMutation,
+  useUploadAttachmentMutation,
   useGetSubscriptionPlansQuery,
   useGetCurrentSubscriptionQuery,
   useGetPreferencesQuery,
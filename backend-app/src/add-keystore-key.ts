@@ -0,0 +1,36 @@
+import 'dotenv/config';
+import { FileKeyProvider } from './common/key-providers/file-key.provider';
+
+/**
+ * Add a master key to the file keystore named by ENCRYPTION_KEYSTORE_PATH,
+ * creating it if needed. The new key wraps keys created after a restart;
+ * re-wrap the existing ones from the admin API (POST /admin/encryption/rotation).
+ *
+ * Usage: npm run keystore:add-key -- [--import-env-key]
+ *
+ * --import-env-key adds the current ENCRYPTION_MASTER_KEY instead of a new
+ * random key, to move an existing deployment onto the keystore.
+ */
+async function addKey() {
+  const path = process.env.ENCRYPTION_KEYSTORE_PATH;
+  const passphrase = process.env.ENCRYPTION_KEYSTORE_PASSPHRASE;
+  if (!path || !passphrase) {
+    throw new Error('ENCRYPTION_KEYSTORE_PATH and ENCRYPTION_KEYSTORE_PASSPHRASE are required');
+  }
+
+  let key: Buffer | undefined;
+  if (process.argv.includes('--import-env-key')) {
+    if (!process.env.ENCRYPTION_MASTER_KEY) {
+      throw new Error('ENCRYPTION_MASTER_KEY is not set');
+    }
+    key = Buffer.from(process.env.ENCRYPTION_MASTER_KEY, 'hex');
+  }
+
+  const version = await FileKeyProvider.addKey(path, passphrase, key);
+  console.log(`Added master key version ${version} to ${path}`);
+}
+
+addKey().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
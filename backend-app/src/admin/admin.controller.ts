@@ -13,14 +13,27 @@ import {
   ParseUUIDPipe,
   HttpStatus,
   HttpCode,
+  DefaultValuePipe,
+  ParseIntPipe,
+  ParseEnumPipe,
+  Req,
 } from '@nestjs/common';
+import { Request } from 'express';
 import { FileInterceptor } from '@nestjs/platform-express';
+import { ConfigService } from '@nestjs/config';
 import { UserService } from '../user/user.service';
 import { MatchingService } from '../matching/matching.service';
 import { PaymentsService } from '../payments/payments.service';
 import { NotificationsService } from '../notifications/notifications.service';
 import { AnalyticsService } from '../analytics/analytics.service';
 import { MediaService } from '../media/media.service';
+import { ModerationService } from '../moderation/moderation.service';
+import { ReportCategory, ReportStatus } from '../moderation/entities/report.entity';
+import { UpdateReportDto } from '../moderation/dto/update-report.dto';
+import { AssignReportDto } from '../moderation/dto/assign-report.dto';
+import { VerificationService } from '../verification/verification.service';
+import { VerificationStatus } from '../verification/entities/verification-request.entity';
+import { ReviewVerificationDto } from '../verification/dto/review-verification.dto';
 import { Roles } from '../auth/roles.decorator';
 import { RolesGuard } from '../auth/roles.guard';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
@@ -60,6 +73,9 @@ export class AdminController {
     private readonly notificationsService: NotificationsService,
     private readonly analyticsService: AnalyticsService,
     private readonly mediaService: MediaService,
+    private readonly moderationService: ModerationService,
+    private readonly verificationService: VerificationService,
+    private readonly configService: ConfigService,
   ) {}
 
   // User Management
@@ -82,7 +98,9 @@ export class AdminController {
   @Roles('admin')
   @Get('users/:id')
   async getUser(@Param('id', ParseUUIDPipe) id: string) {
-    return this.userService.getUserById(id, { includeDetails: true });
+    const user = await this.userService.getUserById(id, { includeDetails: true });
+    const reportHistory = await this.moderationService.getReportHistory(id);
+    return { ...user, reportHistory };
   }
 
   @Roles('admin')
@@ -119,22 +137,40 @@ export class AdminController {
   @Roles('admin')
   @Get('moderation/reports')
   async getReports(
-    @Query('page') page: number = 1,
-    @Query('limit') limit: number = 20,
-    @Query('status') status?: 'open' | 'resolved' | 'rejected',
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+    @Query('status', new ParseEnumPipe(ReportStatus, { optional: true })) status?: ReportStatus,
+    @Query('category', new ParseEnumPipe(ReportCategory, { optional: true })) category?: ReportCategory,
+    @Query('assignedTo', new ParseUUIDPipe({ optional: true })) assignedModeratorId?: string,
+  ) {
+    return this.moderationService.getReports({
+      page,
+      limit: Math.min(Math.max(limit, 1), 100),
+      status,
+      category,
+      assignedModeratorId,
+    });
+  }
+
+  @Roles('admin')
+  @Put('moderation/reports/:id/assign')
+  async assignReport(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() assignData: AssignReportDto,
+    @Req() request: Request,
   ) {
-    // Would connect to a ReportService in a real implementation
-    return { reports: [], total: 0 };
+    const adminId = this.getAdminId(request);
+    return this.moderationService.assignReport(id, assignData.moderatorId || adminId, adminId);
   }
 
   @Roles('admin')
   @Put('moderation/reports/:id')
   async updateReportStatus(
     @Param('id', ParseUUIDPipe) id: string,
-    @Body() updateData: { status: 'resolved' | 'rejected'; comment?: string },
+    @Body() updateData: UpdateReportDto,
+    @Req() request: Request,
   ) {
-    // Would connect to a ReportService in a real implementation
-    return { id, status: updateData.status };
+    return this.moderationService.updateReportStatus(id, this.getAdminId(request), updateData);
   }
 
   @Roles('admin')
@@ -255,7 +291,7 @@ export class AdminController {
   async getSystemSettings() {
     return {
       registration: { enabled: true },
-      matching: { dailyLimit: 100 },
+      matching: { dailyLimit: this.configService.get('matching.maxDailySwipes') },
       fees: { subscriptionAmount: 9.99 },
       features: { videoChat: true }
     };
@@ -300,22 +336,39 @@ export class AdminController {
   // Verification Management
   @Roles('admin')
   @Get('verifications')
-  async getPendingVerifications(
-    @Query('page') page: number = 1,
-    @Query('limit') limit: number = 20,
-    @Query('status') status: 'pending' | 'approved' | 'rejected' = 'pending',
+  async getVerifications(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+    @Query('status', new ParseEnumPipe(VerificationStatus, { optional: true })) status?: VerificationStatus,
   ) {
-    // Would connect to a verification service in a real implementation
-    return { verifications: [], total: 0 };
+    return this.verificationService.getRequests({
+      page,
+      limit: Math.min(Math.max(limit, 1), 100),
+      status: status ?? VerificationStatus.PENDING,
+    });
+  }
+
+  @Roles('admin')
+  @Get('verifications/:id/selfie')
+  async getVerificationSelfie(@Param('id', ParseUUIDPipe) id: string) {
+    return this.verificationService.getSelfie(id);
   }
 
   @Roles('admin')
   @Put('verifications/:id')
   async processVerification(
     @Param('id', ParseUUIDPipe) id: string,
-    @Body() updateData: { status: 'approved' | 'rejected'; reason?: string },
+    @Body() updateData: ReviewVerificationDto,
+    @Req() request: Request,
   ) {
-    // Would connect to a verification service in a real implementation
-    return { id, status: updateData.status };
+    return this.verificationService.reviewRequest(id, this.getAdminId(request), updateData);
+  }
+
+  private getAdminId(request: Request): string {
+    const adminId = request.user?.id;
+    if (!adminId) {
+      throw new Error('User ID not found in request');
+    }
+    return adminId;
   }
 }
@@ -4,11 +4,20 @@ import { UserEntity } from '../user/user.entity/user.entity';
 import { MatchEntity } from '../matching/match.entity/match.entity';
 import { SwipeEntity } from '../matching/match.entity/swipe.entity';
 import { SwipeDataEntity } from '../matching/match.entity/swipe-data.entity';
+import { MessageEntity } from '../messaging/message.entity/message.entity';
+import { EncryptionKeyEntity } from '../common/entities/encryption-key.entity';
 import { CacheModule } from '../cache/cache.module';
+import { ModerationModule } from '../moderation/moderation.module';
+import { AuthModule } from '../auth/auth.module';
+import { VerificationModule } from '../verification/verification.module';
 import { AdminController } from './admin.controller';
 import { AdminService } from './admin.service';
 import { MatchAnalyticsController } from './dashboard/match-analytics/match-analytics.controller';
 import { MatchAnalyticsService } from './dashboard/match-analytics/match-analytics.service';
+import { KeyRotationController } from './key-rotation/key-rotation.controller';
+import { KeyRotationService } from './key-rotation/key-rotation.service';
+import { KeyRotationJobEntity } from './key-rotation/key-rotation-job.entity';
+import { LockedAccountsController } from './locked-accounts/locked-accounts.controller';
 
 @Module({
   imports: [
@@ -17,16 +26,25 @@ import { MatchAnalyticsService } from './dashboard/match-analytics/match-analyti
       MatchEntity,
       SwipeEntity,
       SwipeDataEntity,
+      MessageEntity,
+      EncryptionKeyEntity,
+      KeyRotationJobEntity,
     ]),
     CacheModule,
+    ModerationModule,
+    AuthModule,
+    VerificationModule,
   ],
   controllers: [
     AdminController,
     MatchAnalyticsController,
+    KeyRotationController,
+    LockedAccountsController,
   ],
   providers: [
     AdminService,
     MatchAnalyticsService,
+    KeyRotationService,
   ],
   exports: [
     AdminService,
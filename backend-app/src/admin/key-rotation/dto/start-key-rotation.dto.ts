@@ -0,0 +1,13 @@
+import { IsBoolean, IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class StartKeyRotationDto {
+  @IsOptional()
+  @IsBoolean()
+  reencryptMessages?: boolean;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  batchSize?: number;
+}
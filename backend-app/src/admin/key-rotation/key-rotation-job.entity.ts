@@ -0,0 +1,75 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+
+/**
+ * Enum for the state of a key rotation job
+ */
+export enum KeyRotationJobStatus {
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+/**
+ * Enum for the step a key rotation job is on
+ */
+export enum KeyRotationPhase {
+  // Re-wrap DEKs with the current master key
+  KEYS = 'keys',
+  // Re-encrypt messages onto their recipient's active DEK
+  MESSAGES = 'messages',
+}
+
+/**
+ * Entity for a key rotation run. The checkpoint is saved after every batch
+ * so an interrupted job resumes where it stopped.
+ */
+@Entity('key_rotation_jobs')
+@Index('IDX_KEY_ROTATION_JOBS_STATUS', ['status'])
+export class KeyRotationJobEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'enum', enum: KeyRotationJobStatus, default: KeyRotationJobStatus.RUNNING })
+  status: KeyRotationJobStatus;
+
+  @Column({ type: 'enum', enum: KeyRotationPhase, default: KeyRotationPhase.KEYS })
+  phase: KeyRotationPhase;
+
+  // Master key version the DEKs are re-wrapped with
+  @Column({ type: 'int' })
+  targetVersion: number;
+
+  @Column({ default: false })
+  reencryptMessages: boolean;
+
+  @Column({ type: 'int', default: 100 })
+  batchSize: number;
+
+  // Last key or message ID processed in the current phase
+  @Column({ type: 'varchar', nullable: true })
+  checkpoint: string | null;
+
+  @Column({ type: 'int', default: 0 })
+  keysRewrapped: number;
+
+  @Column({ type: 'int', default: 0 })
+  messagesReencrypted: number;
+
+  @Column({ type: 'int', default: 0 })
+  failed: number;
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  startedBy: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  completedAt: Date | null;
+}
@@ -0,0 +1,30 @@
+import { Body, Controller, Get, Post, Req, UseGuards } from '@nestjs/common';
+import { Request } from 'express';
+import { KeyRotationService } from './key-rotation.service';
+import { StartKeyRotationDto } from './dto/start-key-rotation.dto';
+import { JwtAuthGuard } from '../../auth/jwt-auth.guard';
+import { RolesGuard } from '../../auth/roles.guard';
+import { Roles } from '../../auth/roles.decorator';
+
+@Controller('admin/encryption/rotation')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('admin')
+export class KeyRotationController {
+  constructor(private readonly keyRotationService: KeyRotationService) {}
+
+  @Get()
+  async getStatus() {
+    return this.keyRotationService.getStatus();
+  }
+
+  @Post()
+  async startRotation(@Body() dto: StartKeyRotationDto, @Req() request: Request) {
+    const adminId = request.user?.id;
+
+    if (!adminId) {
+      throw new Error('User ID not found in request');
+    }
+
+    return this.keyRotationService.startRotation(adminId, dto);
+  }
+}
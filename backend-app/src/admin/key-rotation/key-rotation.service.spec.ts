@@ -0,0 +1,186 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConflictException } from '@nestjs/common';
+import { MoreThan } from 'typeorm';
+import { KeyRotationService } from './key-rotation.service';
+import { KeyRotationJobEntity, KeyRotationJobStatus, KeyRotationPhase } from './key-rotation-job.entity';
+import { EncryptionKeyEntity } from '../../common/entities/encryption-key.entity';
+import { MessageEntity } from '../../messaging/message.entity/message.entity';
+import { EncryptionService } from '../../common/services/encryption.service';
+import { AuditLogService } from '../../common/services/audit-log.service';
+import { RedisService } from '../../cache/redis.service';
+
+describe('KeyRotationService', () => {
+  let service: KeyRotationService;
+
+  const jobRepo = {
+    create: jest.fn(data => ({
+      id: 'job-1',
+      status: KeyRotationJobStatus.RUNNING,
+      phase: KeyRotationPhase.KEYS,
+      checkpoint: null,
+      keysRewrapped: 0,
+      messagesReencrypted: 0,
+      failed: 0,
+      ...data,
+    })),
+    save: jest.fn(job => Promise.resolve(job)),
+    exists: jest.fn(),
+    findOne: jest.fn(),
+  };
+  const keyRepo = {
+    find: jest.fn(),
+    createQueryBuilder: jest.fn(),
+  };
+  const messageRepo = {
+    find: jest.fn(),
+    update: jest.fn(),
+  };
+  const encryptionService = {
+    getMasterKeyVersion: jest.fn(),
+    getMasterKeyVersions: jest.fn(),
+    rewrapKey: jest.fn(),
+    reencryptData: jest.fn(),
+  };
+  const auditLogService = {
+    log: jest.fn(),
+  };
+  const redisService = {
+    acquireLock: jest.fn(),
+    expire: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  const makeJob = (overrides: Partial<KeyRotationJobEntity> = {}) =>
+    jobRepo.create({ targetVersion: 2, batchSize: 2, reencryptMessages: false, ...overrides }) as KeyRotationJobEntity;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    encryptionService.getMasterKeyVersion.mockReturnValue(2);
+    encryptionService.getMasterKeyVersions.mockReturnValue([1, 2]);
+    redisService.acquireLock.mockResolvedValue(true);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        KeyRotationService,
+        { provide: getRepositoryToken(KeyRotationJobEntity), useValue: jobRepo },
+        { provide: getRepositoryToken(EncryptionKeyEntity), useValue: keyRepo },
+        { provide: getRepositoryToken(MessageEntity), useValue: messageRepo },
+        { provide: EncryptionService, useValue: encryptionService },
+        { provide: AuditLogService, useValue: auditLogService },
+        { provide: RedisService, useValue: redisService },
+      ],
+    }).compile();
+
+    service = module.get<KeyRotationService>(KeyRotationService);
+  });
+
+  describe('startRotation', () => {
+    it('should refuse to start while another rotation runs', async () => {
+      jobRepo.exists.mockResolvedValue(true);
+
+      await expect(service.startRotation('admin-1')).rejects.toBeInstanceOf(ConflictException);
+      expect(jobRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('should target the current master key version', async () => {
+      jobRepo.exists.mockResolvedValue(false);
+      const run = jest.spyOn(service, 'runJob').mockResolvedValue({} as KeyRotationJobEntity);
+
+      const job = await service.startRotation('admin-1', { reencryptMessages: true });
+
+      expect(job).toEqual(expect.objectContaining({ targetVersion: 2, reencryptMessages: true, startedBy: 'admin-1' }));
+      expect(auditLogService.log).toHaveBeenCalled();
+      expect(run).toHaveBeenCalledWith(job);
+    });
+  });
+
+  describe('runJob', () => {
+    it('should re-wrap keys in batches and save a checkpoint after each', async () => {
+      keyRepo.find
+        .mockResolvedValueOnce([{ id: 'k1' }, { id: 'k2' }])
+        .mockResolvedValueOnce([{ id: 'k3' }])
+        .mockResolvedValueOnce([]);
+      encryptionService.rewrapKey
+        .mockResolvedValueOnce(true)
+        .mockRejectedValueOnce(new Error('unknown master key'))
+        .mockResolvedValueOnce(true);
+
+      const job = await service.runJob(makeJob());
+
+      expect(job.status).toBe(KeyRotationJobStatus.COMPLETED);
+      expect(job.keysRewrapped).toBe(2);
+      expect(job.failed).toBe(1);
+      expect(jobRepo.save).toHaveBeenCalledWith(expect.objectContaining({ checkpoint: 'k3' }));
+      expect(messageRepo.find).not.toHaveBeenCalled();
+      expect(redisService.delete).toHaveBeenCalled();
+    });
+
+    it('should resume message re-encryption from the checkpoint', async () => {
+      messageRepo.find
+        .mockResolvedValueOnce([{
+          id: 'msg-5',
+          senderId: 'u1',
+          match: { user1Id: 'u1', user2Id: 'u2' },
+          encryptedContent: 'cipher',
+          iv: 'iv',
+          authTag: 'tag',
+          keyId: 'old-key',
+        }])
+        .mockResolvedValueOnce([]);
+      encryptionService.reencryptData.mockResolvedValue({
+        encryptedData: 'new-cipher',
+        iv: 'iv2',
+        authTag: 'tag2',
+        algorithm: 'AES-256-GCM',
+        keyId: 'new-key',
+      });
+
+      const job = await service.runJob(makeJob({
+        reencryptMessages: true,
+        phase: KeyRotationPhase.MESSAGES,
+        checkpoint: 'msg-4',
+      }));
+
+      expect(keyRepo.find).not.toHaveBeenCalled();
+      expect(messageRepo.find).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ id: MoreThan('msg-4') }),
+      }));
+      // Messages are encrypted with the recipient's key
+      expect(encryptionService.reencryptData).toHaveBeenCalledWith(expect.objectContaining({ keyId: 'old-key' }), 'u2');
+      expect(messageRepo.update).toHaveBeenCalledWith({ id: 'msg-5' }, expect.objectContaining({ keyId: 'new-key' }));
+      expect(job.messagesReencrypted).toBe(1);
+      expect(job.status).toBe(KeyRotationJobStatus.COMPLETED);
+    });
+
+    it('should leave the job to the instance holding the lock', async () => {
+      redisService.acquireLock.mockResolvedValue(false);
+
+      const job = await service.runJob(makeJob());
+
+      expect(job.status).toBe(KeyRotationJobStatus.RUNNING);
+      expect(keyRepo.find).not.toHaveBeenCalled();
+      expect(redisService.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getStatus', () => {
+    it('should report the keys left on each master key version', async () => {
+      const query: any = {};
+      for (const method of ['select', 'addSelect', 'groupBy']) {
+        query[method] = jest.fn().mockReturnValue(query);
+      }
+      query.getRawMany = jest.fn().mockResolvedValue([{ version: 1, keys: '3' }, { version: 2, keys: '10' }]);
+      keyRepo.createQueryBuilder.mockReturnValue(query);
+      jobRepo.findOne.mockResolvedValue(null);
+
+      const status = await service.getStatus();
+
+      expect(status.currentVersion).toBe(2);
+      expect(status.versions).toEqual([
+        { version: 1, configured: true, current: false, keys: 3 },
+        { version: 2, configured: true, current: true, keys: 10 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,275 @@
+import { ConflictException, Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, MoreThan, Not, Repository } from 'typeorm';
+import { KeyRotationJobEntity, KeyRotationJobStatus, KeyRotationPhase } from './key-rotation-job.entity';
+import { EncryptionKeyEntity } from '../../common/entities/encryption-key.entity';
+import { MessageEntity } from '../../messaging/message.entity/message.entity';
+import { EncryptionService } from '../../common/services/encryption.service';
+import { AuditLogService, AuditAction, AuditResource } from '../../common/services/audit-log.service';
+import { RedisService } from '../../cache/redis.service';
+
+/**
+ * Options for starting a key rotation
+ */
+export interface KeyRotationOptions {
+  // Also move messages off inactive DEKs
+  reencryptMessages?: boolean;
+  batchSize?: number;
+}
+
+/**
+ * Rotation status of one master key version
+ */
+export interface MasterKeyVersionStatus {
+  version: number;
+  configured: boolean;
+  current: boolean;
+  // DEKs still wrapped with this version
+  keys: number;
+}
+
+// Redis lock so only one instance works on a job at a time
+const ROTATION_JOB_LOCK = 'jobs:key-rotation';
+const LOCK_TTL_SECONDS = 120;
+const DEFAULT_BATCH_SIZE = 100;
+
+/**
+ * Background job that re-wraps DEKs after the master key is rotated and
+ * optionally re-encrypts messages onto their recipient's active DEK
+ */
+@Injectable()
+export class KeyRotationService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(KeyRotationService.name);
+
+  constructor(
+    @InjectRepository(KeyRotationJobEntity)
+    private readonly jobRepo: Repository<KeyRotationJobEntity>,
+    @InjectRepository(EncryptionKeyEntity)
+    private readonly keyRepo: Repository<EncryptionKeyEntity>,
+    @InjectRepository(MessageEntity)
+    private readonly messageRepo: Repository<MessageEntity>,
+    private readonly encryptionService: EncryptionService,
+    private readonly auditLogService: AuditLogService,
+    private readonly redisService: RedisService,
+  ) {}
+
+  /**
+   * Resume a job that was interrupted by a restart
+   */
+  async onApplicationBootstrap() {
+    const job = await this.jobRepo.findOne({ where: { status: KeyRotationJobStatus.RUNNING } });
+    if (job) {
+      this.logger.log(`Resuming key rotation ${job.id} from ${job.phase} checkpoint ${job.checkpoint}`);
+      this.runInBackground(job);
+    }
+  }
+
+  /**
+   * Start a rotation onto the current master key version
+   * @throws ConflictException if a rotation is already running
+   */
+  async startRotation(adminId: string, options: KeyRotationOptions = {}): Promise<KeyRotationJobEntity> {
+    if (await this.jobRepo.exists({ where: { status: KeyRotationJobStatus.RUNNING } })) {
+      throw new ConflictException('A key rotation is already running');
+    }
+
+    const job = await this.jobRepo.save(
+      this.jobRepo.create({
+        targetVersion: this.encryptionService.getMasterKeyVersion(),
+        reencryptMessages: !!options.reencryptMessages,
+        batchSize: options.batchSize || DEFAULT_BATCH_SIZE,
+        startedBy: adminId,
+      })
+    );
+
+    await this.auditLogService.log(adminId, AuditAction.UPDATE, AuditResource.ENCRYPTION_KEY, job.id, {
+      change: 'rotation_started',
+      targetVersion: job.targetVersion,
+      reencryptMessages: job.reencryptMessages,
+    });
+
+    this.runInBackground(job);
+    return job;
+  }
+
+  /**
+   * Get the rotation status of every master key version and the latest job
+   */
+  async getStatus() {
+    const counts: { version: number; keys: string }[] = await this.keyRepo
+      .createQueryBuilder('key')
+      .select('key.masterKeyVersion', 'version')
+      .addSelect('COUNT(*)', 'keys')
+      .groupBy('key.masterKeyVersion')
+      .getRawMany();
+
+    const currentVersion = this.encryptionService.getMasterKeyVersion();
+    const configuredVersions = this.encryptionService.getMasterKeyVersions();
+    const versions = [...new Set([...configuredVersions, ...counts.map(count => Number(count.version))])]
+      .sort((a, b) => a - b);
+
+    return {
+      currentVersion,
+      versions: versions.map((version): MasterKeyVersionStatus => ({
+        version,
+        configured: configuredVersions.includes(version),
+        current: version === currentVersion,
+        keys: Number(counts.find(count => Number(count.version) === version)?.keys ?? 0),
+      })),
+      latestJob: await this.jobRepo.findOne({ where: {}, order: { createdAt: 'DESC' } }),
+    };
+  }
+
+  /**
+   * Run a job to completion from its checkpoint, unless another instance
+   * is already running it
+   */
+  async runJob(job: KeyRotationJobEntity): Promise<KeyRotationJobEntity> {
+    if (!(await this.redisService.acquireLock(ROTATION_JOB_LOCK, LOCK_TTL_SECONDS))) {
+      return job;
+    }
+
+    try {
+      if (job.phase === KeyRotationPhase.KEYS) {
+        await this.rewrapKeys(job);
+
+        if (!job.reencryptMessages) {
+          return await this.finish(job, KeyRotationJobStatus.COMPLETED);
+        }
+        job.phase = KeyRotationPhase.MESSAGES;
+        job.checkpoint = null;
+        await this.jobRepo.save(job);
+      }
+
+      await this.reencryptMessages(job);
+      return await this.finish(job, KeyRotationJobStatus.COMPLETED);
+    } catch (error) {
+      this.logger.error(`Key rotation ${job.id} failed: ${error.message}`, error.stack);
+      job.error = error.message;
+      return await this.finish(job, KeyRotationJobStatus.FAILED);
+    } finally {
+      await this.redisService.delete(ROTATION_JOB_LOCK);
+    }
+  }
+
+  private runInBackground(job: KeyRotationJobEntity) {
+    this.runJob(job).catch(error =>
+      this.logger.error(`Key rotation ${job.id} failed: ${error.message}`, error.stack)
+    );
+  }
+
+  /**
+   * Re-wrap every DEK that is not wrapped with the target master key
+   */
+  private async rewrapKeys(job: KeyRotationJobEntity) {
+    for (;;) {
+      const keys = await this.keyRepo.find({
+        where: {
+          masterKeyVersion: Not(job.targetVersion),
+          ...(job.checkpoint ? { id: MoreThan(job.checkpoint) } : {}),
+        },
+        order: { id: 'ASC' },
+        take: job.batchSize,
+      });
+      if (!keys.length) return;
+
+      for (const key of keys) {
+        try {
+          if (await this.encryptionService.rewrapKey(key)) {
+            job.keysRewrapped++;
+          }
+        } catch (error) {
+          // The key keeps its old wrapping and is picked up by the next job
+          job.failed++;
+          this.logger.error(`Failed to re-wrap key ${key.id}: ${error.message}`, error.stack);
+        }
+      }
+
+      await this.saveCheckpoint(job, keys[keys.length - 1].id);
+    }
+  }
+
+  /**
+   * Re-encrypt server-encrypted messages that are not on their recipient's
+   * active DEK. End-to-end encrypted messages have no server ciphertext.
+   */
+  private async reencryptMessages(job: KeyRotationJobEntity) {
+    for (;;) {
+      const messages = await this.messageRepo.find({
+        where: {
+          encryptedContent: Not(IsNull()),
+          ...(job.checkpoint ? { id: MoreThan(job.checkpoint) } : {}),
+        },
+        relations: ['match'],
+        order: { id: 'ASC' },
+        take: job.batchSize,
+      });
+      if (!messages.length) return;
+
+      for (const message of messages) {
+        try {
+          if (await this.reencryptMessage(message)) {
+            job.messagesReencrypted++;
+          }
+        } catch (error) {
+          job.failed++;
+          this.logger.error(`Failed to re-encrypt message ${message.id}: ${error.message}`, error.stack);
+        }
+      }
+
+      await this.saveCheckpoint(job, messages[messages.length - 1].id);
+    }
+  }
+
+  private async reencryptMessage(message: MessageEntity): Promise<boolean> {
+    if (!message.match || !message.iv || !message.authTag || !message.keyId) {
+      throw new Error('Message is missing its match or encryption metadata');
+    }
+
+    // Messages are encrypted with the recipient's DEK
+    const recipientId = message.match.user1Id === message.senderId
+      ? message.match.user2Id
+      : message.match.user1Id;
+
+    const reencrypted = await this.encryptionService.reencryptData(
+      {
+        encryptedData: message.encryptedContent,
+        iv: message.iv,
+        authTag: message.authTag,
+        algorithm: message.algorithm || 'AES-256-GCM',
+        keyId: message.keyId,
+      },
+      recipientId
+    );
+    if (!reencrypted) return false;
+
+    await this.messageRepo.update(
+      { id: message.id },
+      {
+        encryptedContent: reencrypted.encryptedData,
+        iv: reencrypted.iv,
+        authTag: reencrypted.authTag,
+        algorithm: reencrypted.algorithm,
+        keyId: reencrypted.keyId,
+      }
+    );
+    return true;
+  }
+
+  private async saveCheckpoint(job: KeyRotationJobEntity, checkpoint: string) {
+    job.checkpoint = checkpoint;
+    await this.jobRepo.save(job);
+    await this.redisService.expire(ROTATION_JOB_LOCK, LOCK_TTL_SECONDS);
+  }
+
+  private async finish(job: KeyRotationJobEntity, status: KeyRotationJobStatus) {
+    job.status = status;
+    job.completedAt = new Date();
+    const saved = await this.jobRepo.save(job);
+    this.logger.log(
+      `Key rotation ${job.id} ${status}: ${job.keysRewrapped} keys re-wrapped, ` +
+      `${job.messagesReencrypted} messages re-encrypted, ${job.failed} failed`
+    );
+    return saved;
+  }
+}
@@ -0,0 +1,30 @@
+import { Controller, Get, Param, ParseUUIDPipe, Post, Req, UseGuards } from '@nestjs/common';
+import { Request } from 'express';
+import { LoginThrottleService } from '../../auth/login-throttle.service';
+import { JwtAuthGuard } from '../../auth/jwt-auth.guard';
+import { RolesGuard } from '../../auth/roles.guard';
+import { Roles } from '../../auth/roles.decorator';
+
+@Controller('admin/security/locked-accounts')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('admin')
+export class LockedAccountsController {
+  constructor(private readonly loginThrottleService: LoginThrottleService) {}
+
+  @Get()
+  async getLockedAccounts() {
+    return this.loginThrottleService.listLockedAccounts();
+  }
+
+  @Post(':id/unlock')
+  async unlockAccount(@Param('id', ParseUUIDPipe) userId: string, @Req() request: Request) {
+    const adminId = request.user?.id;
+
+    if (!adminId) {
+      throw new Error('User ID not found in request');
+    }
+
+    await this.loginThrottleService.unlock(userId, adminId);
+    return { message: 'Account unlocked' };
+  }
+}
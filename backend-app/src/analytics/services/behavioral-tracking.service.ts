@@ -2,7 +2,11 @@ import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { UserEntity } from '../../user/user.entity/user.entity';
-import { SwipeEntity } from '../../matching/match.entity/swipe.entity';
+import {
+  SwipeEntity,
+  SwipeDirection,
+  POSITIVE_SWIPE_DIRECTIONS,
+} from '../../matching/match.entity/swipe.entity';
 import { SwipeDataEntity } from '../../matching/match.entity/swipe-data.entity';
 
 @Injectable()
@@ -19,7 +23,7 @@ export class BehavioralTrackingService {
   async trackSwipeEvent(
     userId: string, 
     targetUserId: string, 
-    direction: 'like' | 'dislike',
+    direction: SwipeDirection,
     metadata: {
       swipeTime: number;
       profileViewDuration: number;
@@ -66,7 +70,8 @@ export class BehavioralTrackingService {
     // Update swipe ratio
     const likeCount = behavioralData.likeCount || 0;
     const dislikeCount = behavioralData.dislikeCount || 0;
-    const newLikeCount = direction === 'like' ? likeCount + 1 : likeCount;
+    const isLike = POSITIVE_SWIPE_DIRECTIONS.includes(direction);
+    const newLikeCount = isLike ? likeCount + 1 : likeCount;
     const newDislikeCount = direction === 'dislike' ? dislikeCount + 1 : dislikeCount;
     const newSwipeRatio = (newLikeCount + newDislikeCount) > 0 
       ? newLikeCount / (newLikeCount + newDislikeCount) 
@@ -100,7 +105,7 @@ export class BehavioralTrackingService {
     });
     
     // Split by direction
-    const likes = swipes.filter(swipe => swipe.direction === 'like');
+    const likes = swipes.filter(swipe => POSITIVE_SWIPE_DIRECTIONS.includes(swipe.direction));
     const dislikes = swipes.filter(swipe => swipe.direction === 'dislike');
     
     // Skip if not enough data
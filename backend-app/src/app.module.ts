@@ -14,7 +14,10 @@ import { AdminModule } from './admin/admin.module';
 import { AnalyticsModule } from './analytics/analytics.module';
 import { CacheModule } from './cache/cache.module';
 import { CommonModule } from './common/common.module';
+import { MailModule } from './mail/mail.module';
 import { HealthModule } from './health/health.module';
+import { ExperimentsModule } from './experiments/experiments.module';
+import { VerificationModule } from './verification/verification.module';
 import configuration from './config/configuration';
 
 @Module({
@@ -35,7 +38,10 @@ import configuration from './config/configuration';
     AnalyticsModule,
     CacheModule,
     CommonModule,
+    MailModule,
     HealthModule,
+    ExperimentsModule,
+    VerificationModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -1,39 +1,115 @@
-import { Controller, Post, Body } from '@nestjs/common';
+import { Controller, Post, Body, Headers, Ip, Req, UseGuards } from '@nestjs/common';
+import { Request } from 'express';
 import { AuthService } from './auth.service';
 import { RegisterDto } from './dto/register.dto';
 import { PasswordRecoveryDto } from './dto/password-recovery.dto';
 import { ResetPasswordDto } from './dto/reset-password.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { OAuthTokenDto } from './dto/oauth-token.dto';
+import { OAuthSignupDto } from './dto/oauth-signup.dto';
+import { MfaLoginDto } from './dto/mfa-login.dto';
+import { UnlockAccountDto } from './dto/unlock-account.dto';
+import { VerifyEmailDto } from './dto/verify-email.dto';
+import { LoginThrottleService } from './login-throttle.service';
+import { EmailVerificationService } from './email-verification.service';
+import { JwtAuthGuard } from './jwt-auth.guard';
 
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly loginThrottleService: LoginThrottleService,
+    private readonly emailVerificationService: EmailVerificationService,
+  ) {}
 
   @Post('register')
-  async register(@Body() dto: RegisterDto) {
-    return this.authService.register(dto.email, dto.password, dto.name, dto.age);
+  async register(
+    @Body() dto: RegisterDto,
+    @Headers('user-agent') userAgent: string,
+    @Ip() ipAddress: string,
+  ) {
+    return this.authService.register(dto.email, dto.password, dto.name, dto.age, { userAgent, ipAddress });
+  }
+
+  @Post('verify-email')
+  async verifyEmail(@Body() dto: VerifyEmailDto) {
+    return this.emailVerificationService.verify(dto.token);
+  }
+
+  @Post('verify-email/resend')
+  @UseGuards(JwtAuthGuard)
+  async resendVerificationEmail(@Req() request: Request) {
+    const userId = request.user?.id;
+
+    if (!userId) {
+      throw new Error('User ID not found in request');
+    }
+
+    return this.emailVerificationService.resendVerificationEmail(userId);
   }
 
   @Post('login')
   async login(
     @Body('email') email: string,
     @Body('password') password: string,
+    @Headers('user-agent') userAgent: string,
+    @Ip() ipAddress: string,
   ) {
-    return this.authService.login(email, password);
+    return this.authService.login(email, password, { userAgent, ipAddress });
+  }
+
+  @Post('login/mfa')
+  async verifyMfaLogin(@Body() dto: MfaLoginDto) {
+    return this.authService.verifyMfaLogin(dto.mfaToken, dto.code);
+  }
+
+  @Post('unlock')
+  async unlockAccount(@Body() dto: UnlockAccountDto) {
+    return this.loginThrottleService.unlockWithToken(dto.token);
   }
 
   @Post('oauth')
   async oauthLogin(
-    @Body('provider') provider: string,
-    @Body('providerId') providerId: string,
-    @Body('email') email: string,
-    @Body('name') name: string,
+    @Body() dto: OAuthTokenDto,
+    @Headers('user-agent') userAgent: string,
+    @Ip() ipAddress: string,
+  ) {
+    return this.authService.oauthLogin(dto.provider, dto.token, { userAgent, ipAddress });
+  }
+
+  @Post('oauth/signup')
+  async oauthSignup(
+    @Body() dto: OAuthSignupDto,
+    @Headers('user-agent') userAgent: string,
+    @Ip() ipAddress: string,
   ) {
-    return this.authService.oauthLogin(provider, providerId, email, name);
+    return this.authService.completeOAuthSignup(dto.signupToken, dto.name, dto.age, { userAgent, ipAddress });
+  }
+
+  @Post('oauth/link')
+  @UseGuards(JwtAuthGuard)
+  async linkOAuthProvider(@Body() dto: OAuthTokenDto, @Req() request: Request) {
+    const userId = request.user?.id;
+
+    if (!userId) {
+      throw new Error('User ID not found in request');
+    }
+
+    return this.authService.linkOAuthProvider(userId, dto.provider, dto.token);
   }
 
   @Post('refresh')
-  async refresh(@Body('userId') userId: string) {
-    return this.authService.refreshToken(userId);
+  async refresh(
+    @Body() dto: RefreshTokenDto,
+    @Headers('user-agent') userAgent: string,
+    @Ip() ipAddress: string,
+  ) {
+    return this.authService.refreshToken(dto.refreshToken, { userAgent, ipAddress });
+  }
+
+  @Post('logout')
+  async logout(@Body() dto: RefreshTokenDto) {
+    return this.authService.logout(dto.refreshToken);
   }
 
   @Post('password-recovery')
@@ -1,21 +1,43 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { JwtModule } from '@nestjs/jwt';
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
 import { UserEntity } from '../user/user.entity/user.entity';
 import { PasswordReset } from './password-reset.entity';
+import { SessionEntity } from './session.entity';
+import { SessionService } from './session.service';
+import { SessionsController } from './sessions.controller';
+import { OAUTH_VERIFIERS } from './oauth/oauth-verifier.interface';
+import { createOAuthVerifiers } from './oauth/oauth-verifier.factory';
+import { UserMfaEntity } from './mfa/user-mfa.entity';
+import { MfaService } from './mfa/mfa.service';
+import { MfaController } from './mfa/mfa.controller';
+import { LoginThrottleService } from './login-throttle.service';
+import { EmailVerificationService } from './email-verification.service';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([UserEntity, PasswordReset]),
+    TypeOrmModule.forFeature([UserEntity, PasswordReset, SessionEntity, UserMfaEntity]),
     JwtModule.register({
       secret: process.env.JWT_SECRET || 'your_jwt_secret_here',
       signOptions: { expiresIn: '60m' },
     }),
   ],
-  providers: [AuthService],
-  controllers: [AuthController],
-  exports: [AuthService, JwtModule]
+  providers: [
+    AuthService,
+    SessionService,
+    MfaService,
+    LoginThrottleService,
+    EmailVerificationService,
+    {
+      provide: OAUTH_VERIFIERS,
+      useFactory: createOAuthVerifiers,
+      inject: [ConfigService],
+    },
+  ],
+  controllers: [AuthController, SessionsController, MfaController],
+  exports: [AuthService, SessionService, LoginThrottleService, EmailVerificationService, JwtModule]
 })
 export class AuthModule {}
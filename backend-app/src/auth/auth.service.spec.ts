@@ -1,12 +1,103 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import * as bcrypt from 'bcryptjs';
+import { BadRequestException, ConflictException, UnauthorizedException } from '@nestjs/common';
 import { AuthService } from './auth.service';
+import { UserEntity } from '../user/user.entity/user.entity';
+import { PasswordReset } from './password-reset.entity';
+import { SessionService } from './session.service';
+import { OAUTH_VERIFIERS, OAuthIdentity, OAuthProvider } from './oauth/oauth-verifier.interface';
+import { RedisService } from '../cache/redis.service';
+import { MfaService } from './mfa/mfa.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { EmailVerificationService } from './email-verification.service';
+import { MailService } from '../mail/mail.service';
+import { MailTemplate } from '../mail/mail-templates';
+import { AuditLogService } from '../common/services/audit-log.service';
 
 describe('AuthService', () => {
   let service: AuthService;
 
+  const identity = (overrides: Partial<OAuthIdentity> = {}): OAuthIdentity => ({
+    provider: OAuthProvider.GOOGLE,
+    providerId: 'google-123',
+    email: 'alex@example.com',
+    emailVerified: true,
+    name: 'Alex',
+    ...overrides,
+  });
+
+  const userRepo = {
+    create: jest.fn(data => ({ id: 'new-user', ...data })),
+    save: jest.fn(user => Promise.resolve(user)),
+    findOne: jest.fn(),
+    exists: jest.fn(),
+  };
+  const googleVerifier = {
+    provider: OAuthProvider.GOOGLE,
+    verify: jest.fn(),
+  };
+  const passwordResetRepo = {
+    create: jest.fn(data => data),
+    save: jest.fn(reset => Promise.resolve(reset)),
+  };
+  const sessionService = {
+    create: jest.fn(),
+    rotate: jest.fn(),
+    revokeByRefreshToken: jest.fn(),
+    isKnownDevice: jest.fn(),
+  };
+  const redisService = {
+    get: jest.fn(),
+    set: jest.fn(),
+    delete: jest.fn(),
+    increment: jest.fn(),
+  };
+  const mfaService = {
+    isEnabled: jest.fn(),
+    isRequired: jest.fn(),
+    verifyCode: jest.fn(),
+  };
+  const loginThrottleService = {
+    assertCanAttempt: jest.fn(),
+    isLocked: jest.fn((user: UserEntity) => !!user.lockedUntil && user.lockedUntil > new Date()),
+    recordFailure: jest.fn(),
+    recordSuccess: jest.fn(),
+  };
+  const mailService = {
+    sendTemplate: jest.fn(),
+  };
+
+  // Hashed once, the cost factor makes this slow
+  const passwordHash = bcrypt.hashSync('correct horse', 4);
+  const passwordUser = () => ({ id: 'user-1', email: 'alex@example.com', name: 'Alex', passwordHash });
+
   beforeEach(async () => {
+    jest.clearAllMocks();
+    googleVerifier.verify.mockResolvedValue(identity());
+    sessionService.create.mockResolvedValue({ session: { id: 'session-1' }, refreshToken: 'refresh' });
+    sessionService.isKnownDevice.mockResolvedValue(true);
+    mfaService.isEnabled.mockResolvedValue(false);
+    mfaService.isRequired.mockReturnValue(false);
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [AuthService],
+      providers: [
+        AuthService,
+        { provide: getRepositoryToken(UserEntity), useValue: userRepo },
+        { provide: getRepositoryToken(PasswordReset), useValue: passwordResetRepo },
+        { provide: JwtService, useValue: { sign: jest.fn(() => 'access') } },
+        { provide: SessionService, useValue: sessionService },
+        { provide: RedisService, useValue: redisService },
+        { provide: ConfigService, useValue: { get: jest.fn((key: string) => key === 'appUrl' ? 'https://app.test' : undefined) } },
+        { provide: OAUTH_VERIFIERS, useValue: [googleVerifier] },
+        { provide: MfaService, useValue: mfaService },
+        { provide: AuditLogService, useValue: { log: jest.fn() } },
+        { provide: LoginThrottleService, useValue: loginThrottleService },
+        { provide: EmailVerificationService, useValue: {} },
+        { provide: MailService, useValue: mailService },
+      ],
     }).compile();
 
     service = module.get<AuthService>(AuthService);
@@ -15,4 +106,260 @@ describe('AuthService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('login', () => {
+    it('should start a session for the right password', async () => {
+      userRepo.findOne.mockResolvedValue(passwordUser());
+
+      const result = await service.login('alex@example.com', 'correct horse');
+
+      expect(result).toMatchObject({ accessToken: 'access', refreshToken: 'refresh', userId: 'user-1' });
+      expect(loginThrottleService.recordSuccess).toHaveBeenCalledWith('alex@example.com');
+    });
+
+    it('should count a wrong password towards the lockout', async () => {
+      const user = passwordUser();
+      userRepo.findOne.mockResolvedValue(user);
+
+      await expect(service.login('alex@example.com', 'wrong', { ipAddress: '10.0.0.1' }))
+        .rejects.toThrow(UnauthorizedException);
+      expect(loginThrottleService.recordFailure).toHaveBeenCalledWith('alex@example.com', '10.0.0.1', user);
+      expect(sessionService.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a locked account even with the right password', async () => {
+      userRepo.findOne.mockResolvedValue({ ...passwordUser(), lockedUntil: new Date(Date.now() + 60000) });
+
+      await expect(service.login('alex@example.com', 'correct horse')).rejects.toThrow(/Account locked/);
+      expect(sessionService.create).not.toHaveBeenCalled();
+    });
+
+    it('should ask for the second factor when 2FA is enabled', async () => {
+      userRepo.findOne.mockResolvedValue(passwordUser());
+      mfaService.isEnabled.mockResolvedValue(true);
+
+      const result = await service.login('alex@example.com', 'correct horse');
+
+      expect(result).toMatchObject({ mfaRequired: true, mfaToken: expect.any(String) });
+      expect(redisService.set).toHaveBeenCalledWith(
+        `auth:mfa-login:${(result as { mfaToken: string }).mfaToken}`,
+        { userId: 'user-1', method: 'password', device: undefined },
+        5 * 60,
+      );
+      expect(sessionService.create).not.toHaveBeenCalled();
+    });
+
+    it('should email a login alert for a new device only', async () => {
+      userRepo.findOne.mockResolvedValue(passwordUser());
+      sessionService.isKnownDevice.mockResolvedValue(false);
+      const device = { userAgent: 'Firefox', ipAddress: '10.0.0.1' };
+
+      await service.login('alex@example.com', 'correct horse', device);
+
+      expect(mailService.sendTemplate).toHaveBeenCalledWith('alex@example.com', MailTemplate.LOGIN_ALERT, expect.objectContaining({
+        name: 'Alex',
+        userAgent: 'Firefox',
+        ipAddress: '10.0.0.1',
+      }));
+
+      mailService.sendTemplate.mockClear();
+      sessionService.isKnownDevice.mockResolvedValue(true);
+      await service.login('alex@example.com', 'correct horse', device);
+
+      expect(mailService.sendTemplate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyMfaLogin', () => {
+    beforeEach(() => {
+      redisService.get.mockResolvedValue({ userId: 'user-1', method: 'password' });
+      userRepo.findOne.mockResolvedValue(passwordUser());
+    });
+
+    it('should start an MFA-verified session for the right code', async () => {
+      mfaService.verifyCode.mockResolvedValue('totp');
+
+      const result = await service.verifyMfaLogin('mfa-token', '123456');
+
+      expect(redisService.delete).toHaveBeenCalledWith('auth:mfa-login:mfa-token');
+      expect(sessionService.create).toHaveBeenCalledWith('user-1', undefined, true);
+      expect(result).toMatchObject({ accessToken: 'access', userId: 'user-1' });
+    });
+
+    it('should discard the MFA token after too many wrong codes', async () => {
+      mfaService.verifyCode.mockResolvedValue(null);
+      redisService.increment.mockResolvedValue(5);
+
+      await expect(service.verifyMfaLogin('mfa-token', '000000')).rejects.toThrow(UnauthorizedException);
+      expect(loginThrottleService.recordFailure).toHaveBeenCalled();
+      expect(redisService.delete).toHaveBeenCalledWith('auth:mfa-login:mfa-token');
+      expect(sessionService.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse an unknown MFA token', async () => {
+      redisService.get.mockResolvedValue(null);
+
+      await expect(service.verifyMfaLogin('mfa-token', '123456')).rejects.toThrow(UnauthorizedException);
+      expect(mfaService.verifyCode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refreshToken', () => {
+    it('should issue tokens for the rotated session', async () => {
+      sessionService.rotate.mockResolvedValue({
+        session: { id: 'session-1', userId: 'user-1', mfaVerified: true },
+        refreshToken: 'rotated',
+      });
+      userRepo.findOne.mockResolvedValue(passwordUser());
+
+      const result = await service.refreshToken('refresh');
+
+      expect(sessionService.rotate).toHaveBeenCalledWith('refresh', undefined);
+      expect(result).toMatchObject({ accessToken: 'access', refreshToken: 'rotated', userId: 'user-1' });
+    });
+
+    it('should refuse a suspended account', async () => {
+      sessionService.rotate.mockResolvedValue({
+        session: { id: 'session-1', userId: 'user-1', mfaVerified: false },
+        refreshToken: 'rotated',
+      });
+      userRepo.findOne.mockResolvedValue({ ...passwordUser(), suspendedUntil: new Date(Date.now() + 60000) });
+
+      await expect(service.refreshToken('refresh')).rejects.toThrow(/Account suspended/);
+    });
+  });
+
+  describe('logout', () => {
+    it('should revoke the session of the refresh token', async () => {
+      await expect(service.logout('refresh')).resolves.toEqual({ message: 'Logged out' });
+      expect(sessionService.revokeByRefreshToken).toHaveBeenCalledWith('refresh');
+    });
+  });
+
+  describe('requestPasswordReset', () => {
+    it('should email a reset link for the stored token', async () => {
+      userRepo.findOne.mockResolvedValue(passwordUser());
+
+      await service.requestPasswordReset('alex@example.com');
+
+      const { token } = passwordResetRepo.save.mock.calls[0][0];
+      expect(mailService.sendTemplate).toHaveBeenCalledWith('alex@example.com', MailTemplate.PASSWORD_RESET, {
+        name: 'Alex',
+        resetUrl: `https://app.test/reset-password?token=${token}`,
+        expiresInMinutes: 60,
+      });
+    });
+  });
+
+  describe('oauthLogin', () => {
+    it('should log in the user the provider account is linked to', async () => {
+      userRepo.findOne.mockResolvedValue({ id: 'user-1', email: 'alex@example.com', oauthGoogleId: 'google-123' });
+
+      const result = await service.oauthLogin(OAuthProvider.GOOGLE, 'token');
+
+      expect(userRepo.findOne).toHaveBeenCalledWith({ where: { oauthGoogleId: 'google-123' } });
+      expect(result).toMatchObject({ accessToken: 'access', userId: 'user-1' });
+    });
+
+    it('should refuse a locked account', async () => {
+      userRepo.findOne.mockResolvedValue({
+        id: 'user-1',
+        email: 'alex@example.com',
+        lockedUntil: new Date(Date.now() + 60000),
+      });
+
+      await expect(service.oauthLogin(OAuthProvider.GOOGLE, 'token')).rejects.toThrow(UnauthorizedException);
+      expect(sessionService.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a token the provider does not accept', async () => {
+      googleVerifier.verify.mockRejectedValue(new Error('expired'));
+
+      await expect(service.oauthLogin(OAuthProvider.GOOGLE, 'token')).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should refuse an email the provider has not verified', async () => {
+      googleVerifier.verify.mockResolvedValue(identity({ emailVerified: false }));
+      userRepo.findOne.mockResolvedValue(null);
+
+      await expect(service.oauthLogin(OAuthProvider.GOOGLE, 'token')).rejects.toThrow(BadRequestException);
+      expect(redisService.set).not.toHaveBeenCalled();
+    });
+
+    it('should not merge into an account that owns the email', async () => {
+      userRepo.findOne.mockResolvedValue(null);
+      userRepo.exists.mockResolvedValue(true);
+
+      await expect(service.oauthLogin(OAuthProvider.GOOGLE, 'token')).rejects.toThrow(ConflictException);
+      expect(userRepo.save).not.toHaveBeenCalled();
+      expect(sessionService.create).not.toHaveBeenCalled();
+    });
+
+    it('should start a signup for a new identity', async () => {
+      userRepo.findOne.mockResolvedValue(null);
+      userRepo.exists.mockResolvedValue(false);
+
+      const result = await service.oauthLogin(OAuthProvider.GOOGLE, 'token');
+
+      expect(result).toMatchObject({ signupRequired: true, email: 'alex@example.com' });
+      expect(redisService.set).toHaveBeenCalledWith(
+        `auth:oauth-signup:${(result as { signupToken: string }).signupToken}`,
+        identity(),
+        30 * 60,
+      );
+      expect(userRepo.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('completeOAuthSignup', () => {
+    it('should create a verified account linked to the provider', async () => {
+      redisService.get.mockResolvedValue(identity());
+      userRepo.exists.mockResolvedValue(false);
+
+      await service.completeOAuthSignup('signup-token', 'Alex', 30);
+
+      expect(redisService.delete).toHaveBeenCalledWith('auth:oauth-signup:signup-token');
+      expect(userRepo.save).toHaveBeenCalledWith(expect.objectContaining({
+        email: 'alex@example.com',
+        passwordHash: null,
+        oauthGoogleId: 'google-123',
+        emailVerifiedAt: expect.any(Date),
+      }));
+    });
+
+    it('should refuse an unknown signup token', async () => {
+      redisService.get.mockResolvedValue(null);
+
+      await expect(service.completeOAuthSignup('signup-token', 'Alex', 30)).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should refuse when the email was registered meanwhile', async () => {
+      redisService.get.mockResolvedValue(identity());
+      userRepo.exists.mockResolvedValue(true);
+
+      await expect(service.completeOAuthSignup('signup-token', 'Alex', 30)).rejects.toThrow(ConflictException);
+      expect(userRepo.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('linkOAuthProvider', () => {
+    it('should link the provider account to the user', async () => {
+      const user = { id: 'user-1', oauthGoogleId: null };
+      userRepo.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(user);
+
+      await expect(service.linkOAuthProvider('user-1', OAuthProvider.GOOGLE, 'token'))
+        .resolves.toEqual({ provider: OAuthProvider.GOOGLE, linked: true });
+      expect(userRepo.save).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-1', oauthGoogleId: 'google-123' }));
+    });
+
+    it('should refuse a provider account linked to another user', async () => {
+      userRepo.findOne.mockResolvedValue({ id: 'someone-else', oauthGoogleId: 'google-123' });
+
+      await expect(service.linkOAuthProvider('user-1', OAuthProvider.GOOGLE, 'token'))
+        .rejects.toThrow(ConflictException);
+      expect(userRepo.save).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,11 +1,49 @@
-import { Injectable, UnauthorizedException, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  Inject,
+  UnauthorizedException,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
-import * as bcrypt from 'bcrypt';
+import * as bcrypt from 'bcryptjs';
 import { Repository } from 'typeorm';
 import { InjectRepository } from '@nestjs/typeorm';
 import { UserEntity } from '../user/user.entity/user.entity';
 import { PasswordReset } from './password-reset.entity';
 import { randomBytes } from 'crypto';
+import { SessionService, SessionDevice, ACCESS_TOKEN_TTL_SECONDS } from './session.service';
+import { SessionRevokedReason } from './session.entity';
+import { OAUTH_VERIFIERS, OAuthIdentity, OAuthProvider, OAuthVerifier } from './oauth/oauth-verifier.interface';
+import { RedisService } from '../cache/redis.service';
+import { MfaService } from './mfa/mfa.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { EmailVerificationService } from './email-verification.service';
+import { MailService } from '../mail/mail.service';
+import { MailTemplate } from '../mail/mail-templates';
+import { AuditLogService, AuditAction, AuditResource } from '../common/services/audit-log.service';
+
+/**
+ * Login waiting for its second factor
+ */
+interface PendingMfaLogin {
+  userId: string;
+  method: string;
+  device?: SessionDevice;
+}
+
+const MFA_LOGIN_TTL_SECONDS = 5 * 60;
+const MFA_LOGIN_MAX_ATTEMPTS = 5;
+const PASSWORD_RESET_TTL_MINUTES = 60;
+
+// User columns holding the ID of each linked provider account
+const OAUTH_ID_COLUMNS: Record<OAuthProvider, 'oauthGoogleId' | 'oauthFacebookId' | 'oauthAppleId'> = {
+  [OAuthProvider.GOOGLE]: 'oauthGoogleId',
+  [OAuthProvider.FACEBOOK]: 'oauthFacebookId',
+  [OAuthProvider.APPLE]: 'oauthAppleId',
+};
 
 @Injectable()
 export class AuthService {
@@ -15,48 +53,293 @@ export class AuthService {
     @InjectRepository(PasswordReset)
     private readonly passwordResetRepo: Repository<PasswordReset>,
     private readonly jwtService: JwtService,
+    private readonly sessionService: SessionService,
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService,
+    @Inject(OAUTH_VERIFIERS)
+    private readonly oauthVerifiers: OAuthVerifier[],
+    private readonly mfaService: MfaService,
+    private readonly auditLogService: AuditLogService,
+    private readonly loginThrottleService: LoginThrottleService,
+    private readonly emailVerificationService: EmailVerificationService,
+    private readonly mailService: MailService,
   ) {}
 
-  async register(email: string, password: string, name: string, age: number) {
+  async register(email: string, password: string, name: string, age: number, device?: SessionDevice) {
     const existing = await this.userRepo.findOne({ where: { email } });
     if (existing) throw new UnauthorizedException('Email already registered');
     const passwordHash = await bcrypt.hash(password, 10);
     const user = this.userRepo.create({ email, passwordHash, name, age });
     await this.userRepo.save(user);
-    return this.generateTokens(user);
+    await this.emailVerificationService.sendVerificationEmail(user);
+    return this.startSession(user, device);
   }
 
-  async login(email: string, password: string) {
+  async login(email: string, password: string, device?: SessionDevice) {
+    await this.loginThrottleService.assertCanAttempt(email, device?.ipAddress);
+
     const user = await this.userRepo.findOne({ where: { email } });
-    if (!user) throw new UnauthorizedException('Invalid credentials');
-    const valid = await bcrypt.compare(password, user.passwordHash);
-    if (!valid) throw new UnauthorizedException('Invalid credentials');
-    return this.generateTokens(user);
+    if (user) this.assertNotLocked(user);
+
+    // Accounts created through OAuth have no password
+    const valid = !!user?.passwordHash && await bcrypt.compare(password, user.passwordHash);
+    if (!valid) {
+      await this.loginThrottleService.recordFailure(email, device?.ipAddress, user);
+      if (user) {
+        await this.auditLogin(AuditAction.FAILED_LOGIN, user.id, device, { method: 'password' });
+      }
+      throw new UnauthorizedException('Invalid credentials');
+    }
+    this.assertNotSuspended(user!);
+    return this.completeLogin(user!, 'password', device);
+  }
+
+  /**
+   * Finish a login with a TOTP or backup code
+   * @throws UnauthorizedException if the MFA token is invalid or expired, or
+   * the code is wrong. The token is discarded after too many wrong codes.
+   */
+  async verifyMfaLogin(mfaToken: string, code: string) {
+    const key = `auth:mfa-login:${mfaToken}`;
+    const pending = await this.redisService.get<PendingMfaLogin>(key);
+    if (!pending) throw new UnauthorizedException('Invalid or expired MFA token');
+
+    const user = await this.userRepo.findOne({ where: { id: pending.userId } });
+    if (!user) throw new UnauthorizedException();
+    await this.loginThrottleService.assertCanAttempt(user.email, pending.device?.ipAddress);
+    this.assertNotLocked(user);
+
+    const factor = await this.mfaService.verifyCode(pending.userId, code);
+    if (!factor) {
+      // Wrong codes count towards the lockout like wrong passwords
+      await this.loginThrottleService.recordFailure(user.email, pending.device?.ipAddress, user);
+      await this.auditLogin(AuditAction.FAILED_LOGIN, pending.userId, pending.device, {
+        method: pending.method,
+        step: 'mfa',
+      });
+      const attempts = await this.redisService.increment(`${key}:attempts`, MFA_LOGIN_TTL_SECONDS);
+      if (attempts >= MFA_LOGIN_MAX_ATTEMPTS) {
+        await this.redisService.delete(key);
+      }
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+    await this.redisService.delete(key);
+    this.assertNotSuspended(user);
+
+    await this.loginThrottleService.recordSuccess(user.email);
+    await this.auditLogin(AuditAction.LOGIN, user.id, pending.device, { method: pending.method, mfa: factor });
+    await this.sendLoginAlert(user, pending.device);
+    return this.startSession(user, pending.device, true);
   }
 
-  async oauthLogin(provider: string, providerId: string, email: string, name: string) {
-    let user = await this.userRepo.findOne({ where: { email } });
-    if (!user) {
-      user = this.userRepo.create({ email, name });
+  /**
+   * Turn off 2FA after checking the password (if the account has one) and a
+   * current code
+   */
+  async disableMfa(userId: string, password: string | undefined, code: string) {
+    const user = await this.userRepo.findOne({ where: { id: userId } });
+    if (!user) throw new NotFoundException('User not found');
+
+    if (user.passwordHash && !(password && await bcrypt.compare(password, user.passwordHash))) {
+      throw new UnauthorizedException('Invalid credentials');
     }
-    if (provider === 'google') user.oauthGoogleId = providerId;
-    if (provider === 'facebook') user.oauthFacebookId = providerId;
-    if (provider === 'apple') user.oauthAppleId = providerId;
+
+    await this.mfaService.disable(userId, code);
+    return { message: 'Two-factor authentication disabled' };
+  }
+
+  /**
+   * Log in with a token from an OAuth provider. An identity not linked to
+   * any account starts a signup, finished with completeOAuthSignup.
+   * @throws ConflictException if the email belongs to an account the
+   * provider is not linked to; the user has to log in and link it first
+   */
+  async oauthLogin(provider: OAuthProvider, token: string, device?: SessionDevice) {
+    const identity = await this.verifyOAuthToken(provider, token);
+    const idColumn = OAUTH_ID_COLUMNS[provider];
+
+    const user = await this.userRepo.findOne({ where: { [idColumn]: identity.providerId } });
+    if (user) {
+      this.assertNotLocked(user);
+      this.assertNotSuspended(user);
+      return this.completeLogin(user, `oauth:${provider}`, device);
+    }
+
+    if (!identity.email || !identity.emailVerified) {
+      throw new BadRequestException('The provider did not confirm an email address');
+    }
+    if (await this.userRepo.exists({ where: { email: identity.email } })) {
+      throw new ConflictException('An account with this email already exists; log in and link this provider to it');
+    }
+
+    // Keep the verified identity until the profile fields are provided
+    const signupToken = randomBytes(32).toString('hex');
+    const ttlMinutes = this.configService.get<number>('oauth.signupTtlMinutes') || 30;
+    await this.redisService.set(`auth:oauth-signup:${signupToken}`, identity, ttlMinutes * 60);
+
+    return { signupRequired: true, signupToken, email: identity.email, name: identity.name };
+  }
+
+  /**
+   * Create the account for an OAuth identity once the required profile
+   * fields are provided
+   * @throws UnauthorizedException if the signup token is invalid or expired
+   */
+  async completeOAuthSignup(signupToken: string, name: string, age: number, device?: SessionDevice) {
+    const key = `auth:oauth-signup:${signupToken}`;
+    const identity = await this.redisService.get<OAuthIdentity>(key);
+    if (!identity) throw new UnauthorizedException('Invalid or expired signup token');
+    await this.redisService.delete(key);
+
+    const idColumn = OAUTH_ID_COLUMNS[identity.provider];
+    // The email or provider account may have been registered meanwhile
+    if (await this.userRepo.exists({ where: [{ email: identity.email! }, { [idColumn]: identity.providerId }] })) {
+      throw new ConflictException('An account with this email already exists; log in and link this provider to it');
+    }
+
+    const user = this.userRepo.create({
+      email: identity.email!,
+      passwordHash: null,
+      name,
+      age,
+      [idColumn]: identity.providerId,
+      // Only addresses the provider verified can sign up
+      emailVerifiedAt: new Date(),
+    });
     await this.userRepo.save(user);
-    return this.generateTokens(user);
+    return this.startSession(user, device);
   }
 
-  async refreshToken(userId: string) {
+  /**
+   * Link a provider account to the logged in user
+   * @throws ConflictException if the provider account is linked to another user
+   */
+  async linkOAuthProvider(userId: string, provider: OAuthProvider, token: string) {
+    const identity = await this.verifyOAuthToken(provider, token);
+    const idColumn = OAUTH_ID_COLUMNS[provider];
+
+    const owner = await this.userRepo.findOne({ where: { [idColumn]: identity.providerId } });
+    if (owner && owner.id !== userId) {
+      throw new ConflictException('This provider account is linked to another user');
+    }
+
     const user = await this.userRepo.findOne({ where: { id: userId } });
+    if (!user) throw new NotFoundException('User not found');
+
+    user[idColumn] = identity.providerId;
+    await this.userRepo.save(user);
+    return { provider, linked: true };
+  }
+
+  private async verifyOAuthToken(provider: OAuthProvider, token: string): Promise<OAuthIdentity> {
+    const verifier = this.oauthVerifiers.find(candidate => candidate.provider === provider);
+    if (!verifier) throw new BadRequestException(`Login with ${provider} is not enabled`);
+
+    try {
+      return await verifier.verify(token);
+    } catch {
+      throw new UnauthorizedException('Invalid OAuth token');
+    }
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair. The refresh token is
+   * single use; presenting it again ends its session, except for refreshes
+   * racing within a few seconds, which get the same new token.
+   */
+  async refreshToken(refreshToken: string, device?: SessionDevice) {
+    const { session, refreshToken: newRefreshToken } = await this.sessionService.rotate(refreshToken, device);
+    const user = await this.userRepo.findOne({ where: { id: session.userId } });
     if (!user) throw new UnauthorizedException();
-    return this.generateTokens(user);
+    this.assertNotSuspended(user);
+    return this.generateTokens(user, session.id, newRefreshToken, session.mfaVerified);
   }
 
-  private generateTokens(user: UserEntity) {
-    const payload = { sub: user.id, email: user.email };
-    const accessToken = this.jwtService.sign(payload, { secret: process.env.JWT_SECRET, expiresIn: '15m' });
-    const refreshToken = this.jwtService.sign(payload, { secret: process.env.JWT_SECRET, expiresIn: '7d' });
-    return { accessToken, refreshToken, userId: user.id, email: user.email };
+  /**
+   * End the session of a refresh token and deny its access tokens
+   */
+  async logout(refreshToken: string) {
+    await this.sessionService.revokeByRefreshToken(refreshToken);
+    return { message: 'Logged out' };
+  }
+
+  private assertNotLocked(user: UserEntity) {
+    if (this.loginThrottleService.isLocked(user)) {
+      throw new UnauthorizedException(
+        `Account locked until ${user.lockedUntil!.toISOString()} after too many failed logins; ` +
+        'use the link emailed to you to unlock it now'
+      );
+    }
+  }
+
+  private assertNotSuspended(user: UserEntity) {
+    if (user.suspendedUntil && user.suspendedUntil > new Date()) {
+      throw new UnauthorizedException(`Account suspended until ${user.suspendedUntil.toISOString()}`);
+    }
+  }
+
+  /**
+   * Start a session for a user who passed the first factor, or ask for the
+   * second one if 2FA is enabled
+   */
+  private async completeLogin(user: UserEntity, method: string, device?: SessionDevice) {
+    if (await this.mfaService.isEnabled(user.id)) {
+      const mfaToken = randomBytes(32).toString('hex');
+      const pending: PendingMfaLogin = { userId: user.id, method, device };
+      await this.redisService.set(`auth:mfa-login:${mfaToken}`, pending, MFA_LOGIN_TTL_SECONDS);
+      return { mfaRequired: true, mfaToken };
+    }
+
+    await this.loginThrottleService.recordSuccess(user.email);
+    await this.auditLogin(AuditAction.LOGIN, user.id, device, { method });
+    await this.sendLoginAlert(user, device);
+    const tokens = await this.startSession(user, device);
+    // Admin routes stay closed until the account enrolls
+    return this.mfaService.isRequired(user) ? { ...tokens, mfaEnrollmentRequired: true } : tokens;
+  }
+
+  private async auditLogin(
+    action: AuditAction.LOGIN | AuditAction.FAILED_LOGIN,
+    userId: string,
+    device: SessionDevice | undefined,
+    metadata: Record<string, any>,
+  ) {
+    await this.auditLogService.log(userId, action, AuditResource.USER, userId, {
+      ...metadata,
+      ipAddress: device?.ipAddress,
+      userAgent: device?.userAgent,
+    });
+  }
+
+  /**
+   * Email the user when they sign in from a browser or app they have not
+   * used before
+   */
+  private async sendLoginAlert(user: UserEntity, device: SessionDevice = {}) {
+    if (await this.sessionService.isKnownDevice(user.id, device)) return;
+
+    await this.mailService.sendTemplate(user.email, MailTemplate.LOGIN_ALERT, {
+      name: user.name,
+      time: new Date(),
+      userAgent: device.userAgent,
+      ipAddress: device.ipAddress,
+      accountUrl: `${this.configService.get<string>('appUrl')}/profile`,
+    });
+  }
+
+  private async startSession(user: UserEntity, device?: SessionDevice, mfaVerified = false) {
+    const { session, refreshToken } = await this.sessionService.create(user.id, device, mfaVerified);
+    return this.generateTokens(user, session.id, refreshToken, mfaVerified);
+  }
+
+  private generateTokens(user: UserEntity, sessionId: string, refreshToken: string, mfaVerified: boolean) {
+    // The session ID lets revoked sessions deny their access tokens
+    const payload = { sub: user.id, email: user.email, role: user.role, sid: sessionId, mfa: mfaVerified };
+    const accessToken = this.jwtService.sign(payload, {
+      secret: process.env.JWT_SECRET,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    });
+    return { accessToken, refreshToken, userId: user.id, email: user.email, emailVerified: !!user.emailVerifiedAt };
   }
 
   async requestPasswordReset(email: string) {
@@ -70,17 +353,18 @@ export class AuthService {
     const passwordReset = this.passwordResetRepo.create({
       email,
       token,
-      expiresAt: new Date(Date.now() + 3600000), // 1 hour from now
+      expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000),
     });
     
     await this.passwordResetRepo.save(passwordReset);
 
-    // In a real implementation, you would send an email with a link containing the token
-    return { 
-      message: 'Password reset link sent to your email',
-      // For development only:
-      token: token 
-    };
+    await this.mailService.sendTemplate(user.email, MailTemplate.PASSWORD_RESET, {
+      name: user.name,
+      resetUrl: `${this.configService.get<string>('appUrl')}/reset-password?token=${token}`,
+      expiresInMinutes: PASSWORD_RESET_TTL_MINUTES,
+    });
+
+    return { message: 'Password reset link sent to your email' };
   }
 
   async resetPassword(token: string, newPassword: string) {
@@ -102,6 +386,9 @@ export class AuthService {
     user.passwordHash = passwordHash;
     await this.userRepo.save(user);
 
+    // Sign out every device that may have used the old password
+    await this.sessionService.revokeAll(user.id, SessionRevokedReason.PASSWORD_RESET);
+
     // Mark token as used
     passwordReset.used = true;
     await this.passwordResetRepo.save(passwordReset);
@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class DisableMfaDto {
+  // Required unless the account was created through OAuth
+  @IsOptional()
+  @IsString()
+  password?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+}
@@ -0,0 +1,8 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class MfaCodeDto {
+  // Code from the authenticator app, or a backup code
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+}
@@ -0,0 +1,11 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class MfaLoginDto {
+  @IsString()
+  @IsNotEmpty()
+  mfaToken: string;
+
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+}
@@ -0,0 +1,17 @@
+import { IsInt, IsNotEmpty, IsString, Max, MaxLength, Min, MinLength } from 'class-validator';
+
+export class OAuthSignupDto {
+  @IsString()
+  @IsNotEmpty()
+  signupToken: string;
+
+  @IsString()
+  @MinLength(2)
+  @MaxLength(50)
+  name: string;
+
+  @IsInt()
+  @Min(18)
+  @Max(100)
+  age: number;
+}
@@ -0,0 +1,12 @@
+import { IsEnum, IsNotEmpty, IsString } from 'class-validator';
+import { OAuthProvider } from '../oauth/oauth-verifier.interface';
+
+export class OAuthTokenDto {
+  @IsEnum(OAuthProvider)
+  provider: OAuthProvider;
+
+  // ID token for Google and Apple, access token for Facebook
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
@@ -0,0 +1,8 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class UnlockAccountDto {
+  // Token from the unlock link
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
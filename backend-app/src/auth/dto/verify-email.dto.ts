@@ -0,0 +1,8 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class VerifyEmailDto {
+  // Token from the verification link
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
@@ -0,0 +1,116 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, ForbiddenException, HttpStatus, UnauthorizedException } from '@nestjs/common';
+import { EmailVerificationService } from './email-verification.service';
+import { UserEntity } from '../user/user.entity/user.entity';
+import { RedisService } from '../cache/redis.service';
+import { MailService } from '../mail/mail.service';
+import { MailTemplate } from '../mail/mail-templates';
+import { AuditLogService } from '../common/services/audit-log.service';
+
+describe('EmailVerificationService', () => {
+  let service: EmailVerificationService;
+
+  // In-memory Redis, ignoring TTLs
+  let store: Map<string, unknown>;
+  const redisService = {
+    get: jest.fn(async (key: string) => store.get(key) ?? null),
+    set: jest.fn(async (key: string, value: unknown) => {
+      store.set(key, value);
+    }),
+    delete: jest.fn(async (key: string) => {
+      store.delete(key);
+    }),
+    exists: jest.fn(async (key: string) => store.has(key)),
+  };
+  const userRepo = {
+    exists: jest.fn(),
+    findOne: jest.fn(),
+    update: jest.fn(),
+  };
+  const mailService = {
+    sendTemplate: jest.fn(),
+  };
+  const auditLogService = {
+    log: jest.fn(),
+  };
+  const config: Record<string, unknown> = { 'auth.emailVerificationTtlHours': 48, appUrl: 'https://app.test' };
+
+  const makeUser = (overrides: Partial<UserEntity> = {}) =>
+    ({ id: 'user-1', email: 'alex@example.com', name: 'Alex', emailVerifiedAt: null, ...overrides }) as UserEntity;
+
+  const sentToken = () => /token=([0-9a-f]+)/.exec(mailService.sendTemplate.mock.calls[0][2].verifyUrl)![1];
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    store = new Map();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EmailVerificationService,
+        { provide: getRepositoryToken(UserEntity), useValue: userRepo },
+        { provide: RedisService, useValue: redisService },
+        { provide: MailService, useValue: mailService },
+        { provide: AuditLogService, useValue: auditLogService },
+        { provide: ConfigService, useValue: { get: (key: string) => config[key] } },
+      ],
+    }).compile();
+
+    service = module.get<EmailVerificationService>(EmailVerificationService);
+  });
+
+  it('should email a verification link', async () => {
+    await service.sendVerificationEmail(makeUser());
+
+    expect(mailService.sendTemplate).toHaveBeenCalledWith('alex@example.com', MailTemplate.EMAIL_VERIFICATION, {
+      name: 'Alex',
+      verifyUrl: expect.stringMatching(/^https:\/\/app\.test\/verify-email\?token=[0-9a-f]{64}$/),
+      expiresInHours: 48,
+    });
+  });
+
+  it('should confirm the address with the emailed token only once', async () => {
+    await service.sendVerificationEmail(makeUser());
+    userRepo.findOne.mockResolvedValue(makeUser());
+
+    await expect(service.verify(sentToken())).resolves.toEqual(expect.objectContaining({ emailVerified: true }));
+
+    expect(userRepo.update).toHaveBeenCalledWith({ id: 'user-1' }, { emailVerifiedAt: expect.any(Date) });
+    expect(auditLogService.log).toHaveBeenCalledWith('user-1', 'update', 'user', 'user-1', expect.objectContaining({
+      change: 'email_verified',
+    }));
+    await expect(service.verify(sentToken())).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('should reject links sent to an address the account no longer uses', async () => {
+    await service.sendVerificationEmail(makeUser());
+    userRepo.findOne.mockResolvedValue(makeUser({ email: 'new@example.com' }));
+
+    await expect(service.verify(sentToken())).rejects.toBeInstanceOf(UnauthorizedException);
+    expect(userRepo.update).not.toHaveBeenCalled();
+  });
+
+  it('should limit how often the link is resent', async () => {
+    userRepo.findOne.mockResolvedValue(makeUser());
+
+    await service.resendVerificationEmail('user-1');
+
+    await expect(service.resendVerificationEmail('user-1')).rejects.toMatchObject({
+      status: HttpStatus.TOO_MANY_REQUESTS,
+    });
+    expect(mailService.sendTemplate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not resend to confirmed addresses', async () => {
+    userRepo.findOne.mockResolvedValue(makeUser({ emailVerifiedAt: new Date() }));
+
+    await expect(service.resendVerificationEmail('user-1')).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('should gate features until the address is confirmed', async () => {
+    userRepo.exists.mockResolvedValue(false);
+
+    await expect(service.assertVerified('user-1')).rejects.toBeInstanceOf(ForbiddenException);
+  });
+});
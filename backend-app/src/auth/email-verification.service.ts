@@ -0,0 +1,119 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { IsNull, Not, Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import { UserEntity } from '../user/user.entity/user.entity';
+import { RedisService } from '../cache/redis.service';
+import { MailService } from '../mail/mail.service';
+import { MailTemplate } from '../mail/mail-templates';
+import { AuditLogService, AuditAction, AuditResource } from '../common/services/audit-log.service';
+
+/**
+ * Account a verification link was sent for
+ */
+interface PendingVerification {
+  userId: string;
+  email: string;
+}
+
+// Wait between verification emails requested for the same account
+const RESEND_COOLDOWN_SECONDS = 60;
+
+/**
+ * Service that confirms users own their email address. Features open to
+ * verified users only are gated with EmailVerifiedGuard or assertVerified.
+ */
+@Injectable()
+export class EmailVerificationService {
+  constructor(
+    @InjectRepository(UserEntity)
+    private readonly userRepo: Repository<UserEntity>,
+    private readonly redisService: RedisService,
+    private readonly mailService: MailService,
+    private readonly auditLogService: AuditLogService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async isVerified(userId: string): Promise<boolean> {
+    return this.userRepo.exists({ where: { id: userId, emailVerifiedAt: Not(IsNull()) } });
+  }
+
+  /**
+   * @throws ForbiddenException if the user has not confirmed their email
+   */
+  async assertVerified(userId: string) {
+    if (!(await this.isVerified(userId))) {
+      throw new ForbiddenException('Confirm your email address to use this feature');
+    }
+  }
+
+  /**
+   * Email a verification link to the user's current address
+   */
+  async sendVerificationEmail(user: UserEntity) {
+    const ttlHours = this.configService.get<number>('auth.emailVerificationTtlHours')!;
+    const token = randomBytes(32).toString('hex');
+    const pending: PendingVerification = { userId: user.id, email: user.email };
+    await this.redisService.set(`auth:email-verification:${token}`, pending, ttlHours * 60 * 60);
+    await this.redisService.set(`auth:email-verification-sent:${user.id}`, true, RESEND_COOLDOWN_SECONDS);
+
+    await this.mailService.sendTemplate(user.email, MailTemplate.EMAIL_VERIFICATION, {
+      name: user.name,
+      verifyUrl: `${this.configService.get<string>('appUrl')}/verify-email?token=${token}`,
+      expiresInHours: ttlHours,
+    });
+  }
+
+  /**
+   * Send the verification link again
+   * @throws BadRequestException if the email is already confirmed
+   * @throws HttpException (429) if a link was sent moments ago
+   */
+  async resendVerificationEmail(userId: string) {
+    const user = await this.userRepo.findOne({ where: { id: userId } });
+    if (!user) throw new NotFoundException('User not found');
+    if (user.emailVerifiedAt) throw new BadRequestException('Email address is already confirmed');
+
+    if (await this.redisService.exists(`auth:email-verification-sent:${userId}`)) {
+      throw new HttpException('A verification email was just sent, try again in a minute', HttpStatus.TOO_MANY_REQUESTS);
+    }
+
+    await this.sendVerificationEmail(user);
+    return { message: 'Verification email sent' };
+  }
+
+  /**
+   * Confirm the address an emailed verification link was sent to
+   * @throws UnauthorizedException if the link is invalid, expired, or was
+   * sent to an address the account no longer uses
+   */
+  async verify(token: string) {
+    const key = `auth:email-verification:${token}`;
+    const pending = await this.redisService.get<PendingVerification>(key);
+    if (!pending) throw new UnauthorizedException('Invalid or expired verification link');
+    await this.redisService.delete(key);
+
+    const user = await this.userRepo.findOne({ where: { id: pending.userId } });
+    if (!user || user.email !== pending.email) {
+      throw new UnauthorizedException('Invalid or expired verification link');
+    }
+
+    if (!user.emailVerifiedAt) {
+      await this.userRepo.update({ id: user.id }, { emailVerifiedAt: new Date() });
+      await this.auditLogService.log(user.id, AuditAction.UPDATE, AuditResource.USER, user.id, {
+        change: 'email_verified',
+        email: user.email,
+      });
+    }
+    return { message: 'Email address confirmed', emailVerified: true };
+  }
+}
@@ -0,0 +1,20 @@
+import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
+import { EmailVerificationService } from './email-verification.service';
+
+/**
+ * Guard for routes open only to users who confirmed their email address.
+ * Use after JwtAuthGuard.
+ */
+@Injectable()
+export class EmailVerifiedGuard implements CanActivate {
+  constructor(private emailVerificationService: EmailVerificationService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    const userId = request.user?.id;
+    if (!userId) return false;
+
+    await this.emailVerificationService.assertVerified(userId);
+    return true;
+  }
+}
@@ -1,22 +1,35 @@
 import { Injectable, CanActivate, ExecutionContext, UnauthorizedException } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
+import { RedisService } from '../cache/redis.service';
+import { revokedSessionKey } from './session.service';
 
 @Injectable()
 export class JwtAuthGuard implements CanActivate {
-  constructor(private jwtService: JwtService) {}
+  constructor(
+    private jwtService: JwtService,
+    private redisService: RedisService,
+  ) {}
 
-  canActivate(context: ExecutionContext): boolean {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const request = context.switchToHttp().getRequest();
     const authHeader = request.headers['authorization'];
     if (!authHeader) throw new UnauthorizedException('Missing Authorization header');
 
     const token = authHeader.split(' ')[1];
+    let payload;
     try {
-      const payload = this.jwtService.verify(token, { secret: process.env.JWT_SECRET });
-      request.user = payload;
-      return true;
+      payload = this.jwtService.verify(token, { secret: process.env.JWT_SECRET });
     } catch {
       throw new UnauthorizedException('Invalid token');
     }
+
+    // Tokens of a logged out or revoked session are denied until they expire
+    if (payload.sid && await this.redisService.exists(revokedSessionKey(payload.sid))) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
+    // Tokens carry the user ID as the subject
+    request.user = { ...payload, id: payload.sub };
+    return true;
   }
 }
@@ -0,0 +1,152 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { HttpStatus, UnauthorizedException } from '@nestjs/common';
+import { LoginThrottleService } from './login-throttle.service';
+import { UserEntity } from '../user/user.entity/user.entity';
+import { RedisService } from '../cache/redis.service';
+import { MailService } from '../mail/mail.service';
+import { MailTemplate } from '../mail/mail-templates';
+import { AuditLogService } from '../common/services/audit-log.service';
+
+describe('LoginThrottleService', () => {
+  let service: LoginThrottleService;
+
+  // In-memory Redis, ignoring TTLs
+  let store: Map<string, unknown>;
+  const redisService = {
+    get: jest.fn(async (key: string) => store.get(key) ?? null),
+    set: jest.fn(async (key: string, value: unknown) => {
+      store.set(key, value);
+    }),
+    delete: jest.fn(async (key: string) => {
+      store.delete(key);
+    }),
+    increment: jest.fn(async (key: string) => {
+      const value = ((store.get(key) as number) || 0) + 1;
+      store.set(key, value);
+      return value;
+    }),
+  };
+  const userRepo = {
+    findOne: jest.fn(),
+    update: jest.fn(),
+    find: jest.fn(),
+  };
+  const mailService = {
+    sendTemplate: jest.fn(),
+  };
+  const auditLogService = {
+    log: jest.fn(),
+  };
+  const lockout = {
+    delayAfterFailures: 3,
+    maxFailures: 5,
+    lockoutMinutes: 30,
+    ipDelayAfterFailures: 10,
+    failureWindowMinutes: 60,
+  };
+  const user = { id: 'user-1', email: 'alex@example.com', lockedUntil: null } as UserEntity;
+
+  const fail = (times: number, ipAddress = '10.0.0.1', target: UserEntity | null = user) =>
+    Array.from({ length: times }).reduce<Promise<void>>(
+      previous => previous.then(() => service.recordFailure(target?.email ?? 'nobody@example.com', ipAddress, target)),
+      Promise.resolve()
+    );
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    store = new Map();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginThrottleService,
+        { provide: getRepositoryToken(UserEntity), useValue: userRepo },
+        { provide: RedisService, useValue: redisService },
+        { provide: MailService, useValue: mailService },
+        { provide: AuditLogService, useValue: auditLogService },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => ({ 'auth.lockout': lockout, appUrl: 'https://app.test' })[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get<LoginThrottleService>(LoginThrottleService);
+  });
+
+  it('should allow the first attempts without waiting', async () => {
+    await fail(2);
+
+    await expect(service.assertCanAttempt('alex@example.com', '10.0.0.1')).resolves.toBeUndefined();
+  });
+
+  it('should make the account wait longer after each failure past the threshold', async () => {
+    await fail(3);
+    const firstWait = store.get('auth:login-delay:account:alex@example.com') as number;
+    await fail(1);
+    const secondWait = store.get('auth:login-delay:account:alex@example.com') as number;
+
+    expect(secondWait - firstWait).toBeGreaterThanOrEqual(1000);
+    await expect(service.assertCanAttempt('ALEX@example.com')).rejects.toMatchObject({
+      status: HttpStatus.TOO_MANY_REQUESTS,
+    });
+  });
+
+  it('should lock the account and email an unlock link', async () => {
+    await fail(5);
+
+    expect(userRepo.update).toHaveBeenCalledWith({ id: 'user-1' }, { lockedUntil: expect.any(Date) });
+    expect(mailService.sendTemplate).toHaveBeenCalledWith('alex@example.com', MailTemplate.ACCOUNT_LOCKED, {
+      failures: 5,
+      lockedUntil: expect.any(Date),
+      unlockUrl: expect.stringMatching(/^https:\/\/app\.test\/unlock-account\?token=[0-9a-f]{64}$/),
+    });
+    expect(auditLogService.log).toHaveBeenCalledWith('user-1', 'update', 'user', 'user-1', expect.objectContaining({
+      change: 'account_locked',
+    }));
+  });
+
+  it('should never lock unknown emails but still slow them down', async () => {
+    await fail(6, '10.0.0.1', null);
+
+    expect(userRepo.update).not.toHaveBeenCalled();
+    await expect(service.assertCanAttempt('nobody@example.com')).rejects.toMatchObject({
+      status: HttpStatus.TOO_MANY_REQUESTS,
+    });
+  });
+
+  it('should slow down an IP failing across many accounts', async () => {
+    for (let i = 0; i < 10; i++) {
+      await service.recordFailure(`user${i}@example.com`, '10.0.0.9', null);
+    }
+
+    await expect(service.assertCanAttempt('fresh@example.com', '10.0.0.9')).rejects.toMatchObject({
+      status: HttpStatus.TOO_MANY_REQUESTS,
+    });
+    await expect(service.assertCanAttempt('fresh@example.com', '10.0.0.2')).resolves.toBeUndefined();
+  });
+
+  it('should unlock the account with the emailed token only once', async () => {
+    await fail(5);
+    const token = /token=([0-9a-f]+)/.exec(mailService.sendTemplate.mock.calls[0][2].unlockUrl)![1];
+    userRepo.findOne.mockResolvedValue(user);
+
+    await service.unlockWithToken(token);
+
+    expect(userRepo.update).toHaveBeenLastCalledWith({ id: 'user-1' }, { lockedUntil: null });
+    expect(auditLogService.log).toHaveBeenLastCalledWith('user-1', 'update', 'user', 'user-1', {
+      change: 'account_unlocked',
+      by: 'unlock_link',
+    });
+    await expect(service.unlockWithToken(token)).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('should reset the account after a successful login', async () => {
+    await fail(4);
+
+    await service.recordSuccess('alex@example.com');
+
+    await expect(service.assertCanAttempt('alex@example.com')).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,181 @@
+import { HttpException, HttpStatus, Injectable, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { MoreThan, Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import { UserEntity } from '../user/user.entity/user.entity';
+import { RedisService } from '../cache/redis.service';
+import { MailService } from '../mail/mail.service';
+import { MailTemplate } from '../mail/mail-templates';
+import { AuditLogService, AuditAction, AuditResource } from '../common/services/audit-log.service';
+
+/**
+ * Lockout thresholds, from the auth.lockout config
+ */
+interface LockoutConfig {
+  delayAfterFailures: number;
+  maxFailures: number;
+  lockoutMinutes: number;
+  ipDelayAfterFailures: number;
+  failureWindowMinutes: number;
+}
+
+// Longest wait between attempts before the lockout takes over
+const MAX_DELAY_SECONDS = 5 * 60;
+
+/**
+ * Service that slows down and locks out repeated failed logins. Failures
+ * are counted per account and per IP in Redis; each failure past the
+ * threshold doubles the wait before the next attempt, and the account is
+ * locked once it reaches maxFailures.
+ */
+@Injectable()
+export class LoginThrottleService {
+  constructor(
+    @InjectRepository(UserEntity)
+    private readonly userRepo: Repository<UserEntity>,
+    private readonly redisService: RedisService,
+    private readonly mailService: MailService,
+    private readonly auditLogService: AuditLogService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * @throws HttpException (429) while the account or IP has to wait
+   */
+  async assertCanAttempt(email: string, ipAddress?: string) {
+    const keys = [this.delayKey('account', email), ...(ipAddress ? [this.delayKey('ip', ipAddress)] : [])];
+    const waits = await Promise.all(keys.map(key => this.redisService.get<number>(key)));
+    const until = Math.max(0, ...waits.map(wait => wait || 0));
+
+    if (until > Date.now()) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          message: 'Too many failed login attempts, try again later',
+          retryAfter: Math.ceil((until - Date.now()) / 1000),
+        },
+        HttpStatus.TOO_MANY_REQUESTS
+      );
+    }
+  }
+
+  isLocked(user: UserEntity): boolean {
+    return !!user.lockedUntil && user.lockedUntil > new Date();
+  }
+
+  /**
+   * Count a failed attempt, and lock the account once it has failed too
+   * often. Unknown emails are counted too, so they behave like real ones.
+   */
+  async recordFailure(email: string, ipAddress: string | undefined, user: UserEntity | null) {
+    const config = this.getConfig();
+    const windowSeconds = config.failureWindowMinutes * 60;
+
+    if (ipAddress) {
+      const ipFailures = await this.redisService.increment(this.failuresKey('ip', ipAddress), windowSeconds);
+      if (ipFailures >= config.ipDelayAfterFailures) {
+        await this.delay('ip', ipAddress, ipFailures - config.ipDelayAfterFailures);
+      }
+    }
+
+    const accountFailures = await this.redisService.increment(this.failuresKey('account', email), windowSeconds);
+    if (user && accountFailures >= config.maxFailures) {
+      await this.lock(user, accountFailures);
+    } else if (accountFailures >= config.delayAfterFailures) {
+      await this.delay('account', email, accountFailures - config.delayAfterFailures);
+    }
+  }
+
+  /**
+   * Reset the account's failures after a successful login
+   */
+  async recordSuccess(email: string) {
+    await this.redisService.delete(this.failuresKey('account', email));
+    await this.redisService.delete(this.delayKey('account', email));
+  }
+
+  /**
+   * Unlock the account an emailed unlock link belongs to
+   * @throws UnauthorizedException if the link is invalid or expired
+   */
+  async unlockWithToken(token: string) {
+    const key = `auth:unlock:${token}`;
+    const userId = await this.redisService.get<string>(key);
+    if (!userId) throw new UnauthorizedException('Invalid or expired unlock link');
+
+    await this.redisService.delete(key);
+    await this.unlock(userId, userId);
+    return { message: 'Account unlocked' };
+  }
+
+  /**
+   * Unlock an account
+   * @param actorId The admin unlocking it, or the user for an unlock link
+   * @throws NotFoundException if the user does not exist
+   */
+  async unlock(userId: string, actorId: string) {
+    const user = await this.userRepo.findOne({ where: { id: userId } });
+    if (!user) throw new NotFoundException('User not found');
+
+    await this.userRepo.update({ id: userId }, { lockedUntil: null });
+    await this.recordSuccess(user.email);
+
+    await this.auditLogService.log(actorId, AuditAction.UPDATE, AuditResource.USER, userId, {
+      change: 'account_unlocked',
+      by: actorId === userId ? 'unlock_link' : 'admin',
+    });
+  }
+
+  /**
+   * Get the accounts that are locked right now
+   */
+  async listLockedAccounts() {
+    return this.userRepo.find({
+      select: ['id', 'email', 'name', 'lockedUntil'],
+      where: { lockedUntil: MoreThan(new Date()) },
+      order: { lockedUntil: 'DESC' },
+    });
+  }
+
+  private async lock(user: UserEntity, failures: number) {
+    const config = this.getConfig();
+    const lockedUntil = new Date(Date.now() + config.lockoutMinutes * 60 * 1000);
+    await this.userRepo.update({ id: user.id }, { lockedUntil });
+    // The lockout replaces the delays; the count starts over once it ends
+    await this.recordSuccess(user.email);
+
+    // The unlock link is valid for as long as the lockout lasts
+    const token = randomBytes(32).toString('hex');
+    await this.redisService.set(`auth:unlock:${token}`, user.id, config.lockoutMinutes * 60);
+
+    await this.auditLogService.log(user.id, AuditAction.UPDATE, AuditResource.USER, user.id, {
+      change: 'account_locked',
+      failures,
+      lockedUntil,
+    });
+
+    await this.mailService.sendTemplate(user.email, MailTemplate.ACCOUNT_LOCKED, {
+      failures,
+      lockedUntil,
+      unlockUrl: `${this.configService.get<string>('appUrl')}/unlock-account?token=${token}`,
+    });
+  }
+
+  private async delay(scope: 'account' | 'ip', subject: string, excessFailures: number) {
+    const seconds = Math.min(2 ** excessFailures, MAX_DELAY_SECONDS);
+    await this.redisService.set(this.delayKey(scope, subject), Date.now() + seconds * 1000, seconds);
+  }
+
+  private failuresKey(scope: 'account' | 'ip', subject: string) {
+    return `auth:login-failures:${scope}:${subject.toLowerCase()}`;
+  }
+
+  private delayKey(scope: 'account' | 'ip', subject: string) {
+    return `auth:login-delay:${scope}:${subject.toLowerCase()}`;
+  }
+
+  private getConfig(): LockoutConfig {
+    return this.configService.get<LockoutConfig>('auth.lockout')!;
+  }
+}
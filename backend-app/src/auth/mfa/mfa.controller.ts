@@ -0,0 +1,78 @@
+import { Body, Controller, Get, Post, Req, UseGuards } from '@nestjs/common';
+import { Request } from 'express';
+import { JwtAuthGuard } from '../jwt-auth.guard';
+import { MfaService } from './mfa.service';
+import { AuthService } from '../auth.service';
+import { SessionService } from '../session.service';
+import { MfaCodeDto } from '../dto/mfa-code.dto';
+import { DisableMfaDto } from '../dto/disable-mfa.dto';
+
+@Controller('auth/mfa')
+@UseGuards(JwtAuthGuard)
+export class MfaController {
+  constructor(
+    private readonly mfaService: MfaService,
+    private readonly authService: AuthService,
+    private readonly sessionService: SessionService,
+  ) {}
+
+  @Get()
+  async getStatus(@Req() request: Request) {
+    const userId = request.user?.id;
+
+    if (!userId) {
+      throw new Error('User ID not found in request');
+    }
+
+    return this.mfaService.getStatus(userId);
+  }
+
+  @Post('enroll')
+  async startEnrollment(@Req() request: Request) {
+    const userId = request.user?.id;
+
+    if (!userId) {
+      throw new Error('User ID not found in request');
+    }
+
+    return this.mfaService.startEnrollment(userId);
+  }
+
+  @Post('enroll/confirm')
+  async confirmEnrollment(@Body() dto: MfaCodeDto, @Req() request: Request) {
+    const userId = request.user?.id;
+
+    if (!userId) {
+      throw new Error('User ID not found in request');
+    }
+
+    const backupCodes = await this.mfaService.confirmEnrollment(userId, dto.code);
+    // The code just entered counts as the second factor for this session
+    if (request.user?.sid) {
+      await this.sessionService.markMfaVerified(request.user.sid);
+    }
+    return { backupCodes };
+  }
+
+  @Post('backup-codes')
+  async regenerateBackupCodes(@Body() dto: MfaCodeDto, @Req() request: Request) {
+    const userId = request.user?.id;
+
+    if (!userId) {
+      throw new Error('User ID not found in request');
+    }
+
+    return { backupCodes: await this.mfaService.regenerateBackupCodes(userId, dto.code) };
+  }
+
+  @Post('disable')
+  async disable(@Body() dto: DisableMfaDto, @Req() request: Request) {
+    const userId = request.user?.id;
+
+    if (!userId) {
+      throw new Error('User ID not found in request');
+    }
+
+    return this.authService.disableMfa(userId, dto.password, dto.code);
+  }
+}
@@ -0,0 +1,134 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, ConflictException, ForbiddenException } from '@nestjs/common';
+import { MfaService } from './mfa.service';
+import { UserMfaEntity } from './user-mfa.entity';
+import { UserEntity } from '../../user/user.entity/user.entity';
+import { EncryptionService } from '../../common/services/encryption.service';
+import { AuditLogService } from '../../common/services/audit-log.service';
+import { generateTotp, getTimeStep } from './totp';
+
+describe('MfaService', () => {
+  let service: MfaService;
+
+  let rows: UserMfaEntity[];
+  const mfaRepo = {
+    create: jest.fn(data => ({ ...data })),
+    save: jest.fn(async row => {
+      rows = [...rows.filter(existing => existing.userId !== row.userId), row];
+      return row;
+    }),
+    findOne: jest.fn(async ({ where }) =>
+      rows.find(row => row.userId === where.userId && row.enabled === where.enabled) ?? null
+    ),
+    exists: jest.fn(async ({ where }) => rows.some(row => row.userId === where.userId && row.enabled === where.enabled)),
+    update: jest.fn(async ({ userId }, changes) => {
+      rows.filter(row => row.userId === userId).forEach(row => Object.assign(row, changes));
+    }),
+    delete: jest.fn(async ({ userId }) => {
+      rows = rows.filter(row => row.userId !== userId);
+    }),
+  };
+  const userRepo = {
+    findOne: jest.fn(),
+  };
+  // Stores the secret as is, the real service encrypts it
+  const encryptionService = {
+    encryptData: jest.fn(async (data: string) => ({ encryptedData: data, iv: 'iv', authTag: 'tag', keyId: 'key-1' })),
+    decryptData: jest.fn(async ({ encryptedData }) => encryptedData),
+  };
+  const auditLogService = {
+    log: jest.fn(),
+  };
+  const config: Record<string, unknown> = {};
+
+  const enroll = async () => {
+    const { secret } = await service.startEnrollment('user-1');
+    const backupCodes = await service.confirmEnrollment('user-1', generateTotp(secret, getTimeStep() - 1));
+    return { secret, backupCodes };
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    rows = [];
+    config['auth.requireAdminMfa'] = false;
+    userRepo.findOne.mockResolvedValue({ id: 'user-1', email: 'alex@example.com', role: 'user' });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MfaService,
+        { provide: getRepositoryToken(UserMfaEntity), useValue: mfaRepo },
+        { provide: getRepositoryToken(UserEntity), useValue: userRepo },
+        { provide: EncryptionService, useValue: encryptionService },
+        { provide: AuditLogService, useValue: auditLogService },
+        { provide: ConfigService, useValue: { get: (key: string) => config[key] } },
+      ],
+    }).compile();
+
+    service = module.get<MfaService>(MfaService);
+  });
+
+  it('should return an otpauth URI and keep 2FA off until confirmed', async () => {
+    const enrollment = await service.startEnrollment('user-1');
+
+    expect(enrollment.otpauthUri).toContain(`secret=${enrollment.secret}`);
+    expect(enrollment.qrPayload).toBe(enrollment.otpauthUri);
+    expect(encryptionService.encryptData).toHaveBeenCalledWith(enrollment.secret, 'user-1');
+    await expect(service.isEnabled('user-1')).resolves.toBe(false);
+  });
+
+  it('should enable 2FA with a valid code and store only hashed backup codes', async () => {
+    const { backupCodes } = await enroll();
+
+    expect(backupCodes).toHaveLength(10);
+    await expect(service.isEnabled('user-1')).resolves.toBe(true);
+    expect(rows[0].backupCodeHashes).not.toContain(backupCodes[0]);
+    expect(auditLogService.log).toHaveBeenCalledWith('user-1', 'update', 'user', 'user-1', { change: 'mfa_enabled' });
+  });
+
+  it('should reject a wrong enrollment code', async () => {
+    await service.startEnrollment('user-1');
+
+    await expect(service.confirmEnrollment('user-1', '000000')).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('should refuse to enroll twice', async () => {
+    await enroll();
+
+    await expect(service.startEnrollment('user-1')).rejects.toBeInstanceOf(ConflictException);
+  });
+
+  it('should accept each TOTP code only once', async () => {
+    const { secret } = await enroll();
+    const code = generateTotp(secret);
+
+    await expect(service.verifyCode('user-1', code)).resolves.toBe('totp');
+    await expect(service.verifyCode('user-1', code)).resolves.toBeNull();
+  });
+
+  it('should consume backup codes', async () => {
+    const { backupCodes } = await enroll();
+
+    await expect(service.verifyCode('user-1', backupCodes[0].toLowerCase())).resolves.toBe('backup_code');
+    await expect(service.verifyCode('user-1', backupCodes[0])).resolves.toBeNull();
+    await expect(service.getStatus('user-1')).resolves.toEqual(expect.objectContaining({ backupCodesRemaining: 9 }));
+  });
+
+  it('should keep admins from disabling 2FA when it is enforced', async () => {
+    const { secret } = await enroll();
+    config['auth.requireAdminMfa'] = true;
+    userRepo.findOne.mockResolvedValue({ id: 'user-1', role: 'admin' });
+
+    await expect(service.disable('user-1', generateTotp(secret))).rejects.toBeInstanceOf(ForbiddenException);
+    await expect(service.isEnabled('user-1')).resolves.toBe(true);
+  });
+
+  it('should disable 2FA with a valid code', async () => {
+    const { backupCodes } = await enroll();
+
+    await service.disable('user-1', backupCodes[1]);
+
+    await expect(service.isEnabled('user-1')).resolves.toBe(false);
+  });
+});
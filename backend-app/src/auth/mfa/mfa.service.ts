@@ -0,0 +1,220 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { UserMfaEntity } from './user-mfa.entity';
+import { UserEntity } from '../../user/user.entity/user.entity';
+import { EncryptionService } from '../../common/services/encryption.service';
+import { AuditLogService, AuditAction, AuditResource } from '../../common/services/audit-log.service';
+import { base32Encode, buildOtpauthUri, generateTotpSecret, verifyTotp } from './totp';
+
+/**
+ * Second factor accepted by verifyCode
+ */
+export type MfaFactor = 'totp' | 'backup_code';
+
+const BACKUP_CODE_COUNT = 10;
+
+/**
+ * Service for TOTP two-factor authentication and its backup codes
+ */
+@Injectable()
+export class MfaService {
+  constructor(
+    @InjectRepository(UserMfaEntity)
+    private readonly mfaRepo: Repository<UserMfaEntity>,
+    @InjectRepository(UserEntity)
+    private readonly userRepo: Repository<UserEntity>,
+    private readonly encryptionService: EncryptionService,
+    private readonly auditLogService: AuditLogService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async isEnabled(userId: string): Promise<boolean> {
+    return this.mfaRepo.exists({ where: { userId, enabled: true } });
+  }
+
+  /**
+   * Whether the user's role forces them to enroll
+   */
+  isRequired(user: Pick<UserEntity, 'role'>): boolean {
+    return user.role === 'admin' && !!this.configService.get<boolean>('auth.requireAdminMfa');
+  }
+
+  async getStatus(userId: string) {
+    const mfa = await this.mfaRepo.findOne({ where: { userId, enabled: true } });
+    return {
+      enabled: !!mfa,
+      enabledAt: mfa?.enabledAt ?? null,
+      backupCodesRemaining: mfa?.backupCodeHashes.length ?? 0,
+    };
+  }
+
+  /**
+   * Create a new TOTP secret for the user. 2FA stays off until a code from
+   * the authenticator app is confirmed.
+   * @returns The secret and the otpauth URI to show as a QR code
+   * @throws ConflictException if 2FA is already enabled
+   */
+  async startEnrollment(userId: string) {
+    const user = await this.userRepo.findOne({ where: { id: userId } });
+    if (!user) throw new NotFoundException('User not found');
+
+    if (await this.isEnabled(userId)) {
+      throw new ConflictException('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    const encrypted = await this.encryptionService.encryptData(secret, userId);
+    await this.mfaRepo.save(
+      this.mfaRepo.create({
+        userId,
+        encryptedSecret: encrypted.encryptedData,
+        iv: encrypted.iv,
+        authTag: encrypted.authTag,
+        keyId: encrypted.keyId,
+        enabled: false,
+        enabledAt: null,
+        lastUsedStep: null,
+        backupCodeHashes: [],
+      })
+    );
+
+    const issuer = this.configService.get<string>('auth.mfaIssuer') || '10-Date';
+    const otpauthUri = buildOtpauthUri(secret, user.email, issuer);
+    // Authenticator apps scan the URI itself
+    return { secret, otpauthUri, qrPayload: otpauthUri };
+  }
+
+  /**
+   * Enable 2FA once the user proves the authenticator app is set up
+   * @returns The backup codes, which are only shown this once
+   * @throws BadRequestException if no enrollment was started or the code is wrong
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const mfa = await this.mfaRepo.findOne({ where: { userId, enabled: false } });
+    if (!mfa) throw new BadRequestException('Start two-factor enrollment first');
+
+    const step = verifyTotp(await this.getSecret(mfa), this.normalizeCode(code));
+    if (step === null) throw new BadRequestException('Invalid two-factor code');
+
+    const backupCodes = this.generateBackupCodes();
+    mfa.enabled = true;
+    mfa.enabledAt = new Date();
+    mfa.lastUsedStep = step;
+    mfa.backupCodeHashes = backupCodes.map(backupCode => this.hashBackupCode(userId, backupCode));
+    await this.mfaRepo.save(mfa);
+
+    await this.auditLogService.log(userId, AuditAction.UPDATE, AuditResource.USER, userId, {
+      change: 'mfa_enabled',
+    });
+    return backupCodes;
+  }
+
+  /**
+   * Check a TOTP or backup code. Each TOTP code and backup code is only
+   * accepted once.
+   * @returns The factor used, or null if the code is wrong or 2FA is off
+   */
+  async verifyCode(userId: string, code: string): Promise<MfaFactor | null> {
+    const mfa = await this.mfaRepo.findOne({ where: { userId, enabled: true } });
+    if (!mfa) return null;
+
+    const normalized = this.normalizeCode(code);
+    if (/^\d{6}$/.test(normalized)) {
+      const step = verifyTotp(await this.getSecret(mfa), normalized);
+      if (step === null || (mfa.lastUsedStep !== null && step <= mfa.lastUsedStep)) {
+        return null;
+      }
+      mfa.lastUsedStep = step;
+      await this.mfaRepo.save(mfa);
+      return 'totp';
+    }
+
+    const hash = this.hashBackupCode(userId, normalized);
+    if (!mfa.backupCodeHashes.includes(hash)) return null;
+
+    mfa.backupCodeHashes = mfa.backupCodeHashes.filter(backupCodeHash => backupCodeHash !== hash);
+    await this.mfaRepo.save(mfa);
+    return 'backup_code';
+  }
+
+  /**
+   * Replace the backup codes, invalidating the old ones
+   * @throws UnauthorizedException if the code is wrong
+   */
+  async regenerateBackupCodes(userId: string, code: string): Promise<string[]> {
+    if (!(await this.verifyCode(userId, code))) {
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+
+    const backupCodes = this.generateBackupCodes();
+    await this.mfaRepo.update(
+      { userId },
+      { backupCodeHashes: backupCodes.map(backupCode => this.hashBackupCode(userId, backupCode)) }
+    );
+
+    await this.auditLogService.log(userId, AuditAction.UPDATE, AuditResource.USER, userId, {
+      change: 'mfa_backup_codes_regenerated',
+    });
+    return backupCodes;
+  }
+
+  /**
+   * Turn 2FA off. The caller must have re-authenticated the user.
+   * @throws ForbiddenException if the user's role requires 2FA
+   * @throws UnauthorizedException if the code is wrong
+   */
+  async disable(userId: string, code: string) {
+    const user = await this.userRepo.findOne({ where: { id: userId } });
+    if (!user) throw new NotFoundException('User not found');
+    if (this.isRequired(user)) {
+      throw new ForbiddenException('Two-factor authentication is required for admin accounts');
+    }
+
+    if (!(await this.verifyCode(userId, code))) {
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+
+    await this.mfaRepo.delete({ userId });
+    await this.auditLogService.log(userId, AuditAction.UPDATE, AuditResource.USER, userId, {
+      change: 'mfa_disabled',
+    });
+  }
+
+  private async getSecret(mfa: UserMfaEntity): Promise<string> {
+    return this.encryptionService.decryptData(
+      {
+        encryptedData: mfa.encryptedSecret,
+        iv: mfa.iv,
+        authTag: mfa.authTag,
+        algorithm: 'AES-256-GCM',
+        keyId: mfa.keyId,
+      },
+      mfa.userId
+    );
+  }
+
+  private generateBackupCodes(): string[] {
+    return Array.from({ length: BACKUP_CODE_COUNT }, () => {
+      const code = base32Encode(randomBytes(7)).slice(0, 10);
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+  }
+
+  private normalizeCode(code: string): string {
+    return code.replace(/[\s-]/g, '').toUpperCase();
+  }
+
+  private hashBackupCode(userId: string, code: string): string {
+    return createHash('sha256').update(`${userId}:${this.normalizeCode(code)}`).digest('hex');
+  }
+}
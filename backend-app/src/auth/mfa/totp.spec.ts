@@ -0,0 +1,33 @@
+import { base32Decode, base32Encode, buildOtpauthUri, generateTotp, getTimeStep, verifyTotp } from './totp';
+
+describe('totp', () => {
+  // Secret from the RFC 6238 test vectors
+  const secret = base32Encode(Buffer.from('12345678901234567890'));
+
+  it('should round-trip base32', () => {
+    expect(secret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode(secret).toString()).toBe('12345678901234567890');
+  });
+
+  it('should match the RFC 6238 test vectors', () => {
+    expect(generateTotp(secret, getTimeStep(59 * 1000))).toBe('287082');
+    expect(generateTotp(secret, getTimeStep(1111111109 * 1000))).toBe('081804');
+    expect(generateTotp(secret, getTimeStep(1234567890 * 1000))).toBe('005924');
+  });
+
+  it('should accept codes from adjacent time steps only', () => {
+    const now = 1234567890 * 1000;
+    const step = getTimeStep(now);
+
+    expect(verifyTotp(secret, generateTotp(secret, step - 1), now)).toBe(step - 1);
+    expect(verifyTotp(secret, generateTotp(secret, step + 1), now)).toBe(step + 1);
+    expect(verifyTotp(secret, generateTotp(secret, step - 2), now)).toBeNull();
+    expect(verifyTotp(secret, 'abcdef', now)).toBeNull();
+  });
+
+  it('should build an otpauth URI', () => {
+    expect(buildOtpauthUri(secret, 'alex@example.com', '10-Date')).toBe(
+      `otpauth://totp/10-Date%3Aalex%40example.com?secret=${secret}&issuer=10-Date&algorithm=SHA1&digits=6&period=30`
+    );
+  });
+});
@@ -0,0 +1,49 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn, UpdateDateColumn, OneToOne, JoinColumn } from 'typeorm';
+import { UserEntity } from '../../user/user.entity/user.entity';
+
+/**
+ * Entity for a user's TOTP two-factor authentication. The row exists from
+ * the start of enrollment; 2FA is only required once it is enabled.
+ */
+@Entity('user_mfa')
+export class UserMfaEntity {
+  @PrimaryColumn('uuid')
+  userId: string;
+
+  // TOTP secret encrypted with the user's data encryption key
+  @Column({ type: 'text' })
+  encryptedSecret: string;
+
+  @Column()
+  iv: string;
+
+  @Column()
+  authTag: string;
+
+  @Column()
+  keyId: string;
+
+  @Column({ default: false })
+  enabled: boolean;
+
+  @Column({ type: 'timestamp', nullable: true })
+  enabledAt: Date | null;
+
+  // Last accepted time step, so a code cannot be used twice
+  @Column({ type: 'int', nullable: true })
+  lastUsedStep: number | null;
+
+  // SHA-256 hashes of the unused backup codes
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  backupCodeHashes: string[];
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @OneToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: UserEntity;
+}
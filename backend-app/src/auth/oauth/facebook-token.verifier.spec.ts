@@ -0,0 +1,70 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { FacebookTokenVerifier } from './facebook-token.verifier';
+import { OAuthProvider } from './oauth-verifier.interface';
+
+describe('FacebookTokenVerifier', () => {
+  let server: Server;
+  let graphUrl: string;
+
+  // Access tokens known to the stand-in Graph API
+  const tokens: Record<string, { appId: string; userId: string }> = {
+    'valid-token': { appId: 'app-1', userId: 'fb-user-1' },
+    'other-app-token': { appId: 'app-2', userId: 'fb-user-2' },
+  };
+
+  const createVerifier = () => new FacebookTokenVerifier({ appId: 'app-1', appSecret: 'secret', graphUrl });
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      const url = new URL(request.url!, 'http://localhost');
+      const reply = (body: unknown) => {
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(body));
+      };
+
+      if (url.pathname === '/debug_token') {
+        if (url.searchParams.get('access_token') !== 'app-1|secret') {
+          response.writeHead(400);
+          return response.end();
+        }
+        const token = tokens[url.searchParams.get('input_token')!];
+        return reply({
+          data: token ? { is_valid: true, app_id: token.appId, user_id: token.userId } : { is_valid: false },
+        });
+      }
+
+      if (url.pathname === '/me') {
+        const token = tokens[url.searchParams.get('access_token')!];
+        return reply({ id: token.userId, name: 'Sam', email: 'sam@example.com' });
+      }
+
+      response.writeHead(404);
+      response.end();
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    graphUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should return the identity of a valid access token', async () => {
+    await expect(createVerifier().verify('valid-token')).resolves.toEqual({
+      provider: OAuthProvider.FACEBOOK,
+      providerId: 'fb-user-1',
+      email: 'sam@example.com',
+      emailVerified: true,
+      name: 'Sam',
+    });
+  });
+
+  it('should reject tokens issued to another app', async () => {
+    await expect(createVerifier().verify('other-app-token')).rejects.toThrow('issued to another app');
+  });
+
+  it('should reject unknown tokens', async () => {
+    await expect(createVerifier().verify('forged-token')).rejects.toThrow();
+  });
+});
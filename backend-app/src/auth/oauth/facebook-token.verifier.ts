@@ -0,0 +1,61 @@
+import { OAuthIdentity, OAuthProvider, OAuthVerifier } from './oauth-verifier.interface';
+
+/**
+ * Options for the Facebook access token verifier
+ */
+export interface FacebookTokenVerifierOptions {
+  appId: string;
+  appSecret: string;
+  // Graph API base URL, e.g. https://graph.facebook.com/v19.0
+  graphUrl: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Verifier for Facebook user access tokens. Facebook login issues no ID
+ * token, so the token is checked with the Graph API debug_token endpoint.
+ */
+export class FacebookTokenVerifier implements OAuthVerifier {
+  readonly provider = OAuthProvider.FACEBOOK;
+
+  constructor(private readonly options: FacebookTokenVerifierOptions) {}
+
+  async verify(token: string): Promise<OAuthIdentity> {
+    const { data } = await this.get<{ data: { is_valid: boolean; app_id: string; user_id: string } }>(
+      'debug_token',
+      { input_token: token, access_token: `${this.options.appId}|${this.options.appSecret}` }
+    );
+
+    // A valid token issued to another app must not log in here
+    if (!data?.is_valid || data.app_id !== this.options.appId) {
+      throw new Error('Facebook access token is invalid or issued to another app');
+    }
+
+    const profile = await this.get<{ id: string; name?: string; email?: string }>(
+      'me',
+      { fields: 'id,name,email', access_token: token }
+    );
+    if (profile.id !== data.user_id) {
+      throw new Error('Facebook profile does not match the access token');
+    }
+
+    return {
+      provider: this.provider,
+      providerId: data.user_id,
+      email: profile.email || null,
+      // Facebook only returns confirmed email addresses
+      emailVerified: !!profile.email,
+      name: profile.name || null,
+    };
+  }
+
+  private async get<T>(path: string, params: Record<string, string>): Promise<T> {
+    const response = await fetch(`${this.options.graphUrl}/${path}?${new URLSearchParams(params)}`, {
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? 5000),
+    });
+    if (!response.ok) {
+      throw new Error(`Facebook ${path} request failed with status ${response.status}`);
+    }
+    return response.json() as Promise<T>;
+  }
+}
@@ -0,0 +1,98 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { createPublicKey, generateKeyPairSync, KeyObject } from 'crypto';
+import { JwtService } from '@nestjs/jwt';
+import { JwksTokenVerifier } from './jwks-token.verifier';
+import { OAuthProvider } from './oauth-verifier.interface';
+
+describe('JwksTokenVerifier', () => {
+  const jwtService = new JwtService();
+  let server: Server;
+  let jwksUri: string;
+  let jwksRequests = 0;
+
+  // Signing keys served by the stand-in JWKS endpoint
+  const signingKeys = new Map<string, KeyObject>();
+  const addSigningKey = (kid: string) => {
+    const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    signingKeys.set(kid, privateKey);
+  };
+
+  const signToken = (claims: Record<string, unknown>, kid = 'key-1', audience = 'web-client') =>
+    jwtService.sign(
+      { sub: 'google-user-1', email: 'alex@example.com', email_verified: true, name: 'Alex', ...claims },
+      {
+        privateKey: signingKeys.get(kid)!.export({ type: 'pkcs8', format: 'pem' }) as string,
+        algorithm: 'RS256',
+        keyid: kid,
+        issuer: 'https://accounts.google.com',
+        audience,
+        expiresIn: 300,
+      }
+    );
+
+  const createVerifier = () => new JwksTokenVerifier({
+    provider: OAuthProvider.GOOGLE,
+    jwksUri,
+    issuers: ['accounts.google.com', 'https://accounts.google.com'],
+    audiences: ['web-client', 'ios-client'],
+  });
+
+  beforeAll(async () => {
+    addSigningKey('key-1');
+    server = createServer((request, response) => {
+      jwksRequests++;
+      const keys = [...signingKeys].map(([kid, privateKey]) => ({
+        ...createPublicKey(privateKey).export({ format: 'jwk' }),
+        kid,
+        alg: 'RS256',
+        use: 'sig',
+      }));
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ keys }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    jwksUri = `http://127.0.0.1:${(server.address() as AddressInfo).port}/certs`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should return the identity of a valid ID token', async () => {
+    await expect(createVerifier().verify(signToken({}))).resolves.toEqual({
+      provider: OAuthProvider.GOOGLE,
+      providerId: 'google-user-1',
+      email: 'alex@example.com',
+      emailVerified: true,
+      name: 'Alex',
+    });
+  });
+
+  it('should reject tokens issued to another app', async () => {
+    const token = signToken({}, 'key-1', 'someone-else');
+
+    await expect(createVerifier().verify(token)).rejects.toThrow();
+  });
+
+  it('should reject tokens with a forged signature', async () => {
+    const [header, payload, signature] = signToken({}).split('.');
+    const forgedPayload = Buffer.from(JSON.stringify({
+      ...JSON.parse(Buffer.from(payload, 'base64url').toString()),
+      sub: 'victim',
+    })).toString('base64url');
+
+    await expect(createVerifier().verify(`${header}.${forgedPayload}.${signature}`)).rejects.toThrow();
+  });
+
+  it('should refetch the keys when the provider rotates them', async () => {
+    const verifier = createVerifier();
+    await verifier.verify(signToken({}));
+    const requestsBefore = jwksRequests;
+
+    addSigningKey('key-2');
+    await expect(verifier.verify(signToken({}, 'key-2'))).resolves.toBeDefined();
+
+    expect(jwksRequests).toBe(requestsBefore + 1);
+  });
+});
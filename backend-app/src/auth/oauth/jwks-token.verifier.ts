@@ -0,0 +1,89 @@
+import { JwtService } from '@nestjs/jwt';
+import { createPublicKey, JsonWebKey } from 'crypto';
+import { OAuthIdentity, OAuthProvider, OAuthVerifier } from './oauth-verifier.interface';
+
+/**
+ * Options for a verifier of ID tokens signed with keys from a JWKS endpoint
+ */
+export interface JwksTokenVerifierOptions {
+  provider: OAuthProvider;
+  jwksUri: string;
+  issuers: string[];
+  // Client IDs the tokens may be issued to
+  audiences: string[];
+  timeoutMs?: number;
+}
+
+// Providers rotate their signing keys; refetch at least this often
+const KEYS_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Verifier for OpenID Connect ID tokens (Google, Apple)
+ */
+export class JwksTokenVerifier implements OAuthVerifier {
+  readonly provider: OAuthProvider;
+
+  private readonly jwtService = new JwtService();
+  private keys = new Map<string, string>();
+  private keysFetchedAt = 0;
+
+  constructor(private readonly options: JwksTokenVerifierOptions) {
+    this.provider = options.provider;
+  }
+
+  async verify(token: string): Promise<OAuthIdentity> {
+    const decoded = this.jwtService.decode(token, { complete: true });
+    const keyId = decoded?.header?.kid;
+    if (!keyId) {
+      throw new Error('ID token has no key ID');
+    }
+
+    const publicKey = await this.getKey(keyId);
+    const payload = this.jwtService.verify(token, {
+      publicKey,
+      algorithms: ['RS256'],
+      issuer: this.options.issuers,
+      audience: this.options.audiences,
+    });
+
+    return {
+      provider: this.provider,
+      providerId: payload.sub,
+      email: payload.email || null,
+      // Apple sends the flag as a string
+      emailVerified: payload.email_verified === true || payload.email_verified === 'true',
+      name: payload.name || null,
+    };
+  }
+
+  private async getKey(keyId: string): Promise<string> {
+    // An unknown key ID usually means the provider rotated its keys
+    if (!this.keys.has(keyId) || Date.now() - this.keysFetchedAt > KEYS_TTL_MS) {
+      await this.fetchKeys();
+    }
+
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new Error(`Unknown ID token signing key ${keyId}`);
+    }
+    return key;
+  }
+
+  private async fetchKeys() {
+    const response = await fetch(this.options.jwksUri, {
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? 5000),
+    });
+    if (!response.ok) {
+      throw new Error(`Fetching ${this.provider} signing keys failed with status ${response.status}`);
+    }
+
+    const { keys } = await response.json() as { keys: (JsonWebKey & { kid: string })[] };
+    this.keys = new Map(
+      keys.map(jwk => [
+        jwk.kid,
+        createPublicKey({ key: jwk, format: 'jwk' }).export({ type: 'spki', format: 'pem' }) as string,
+      ])
+    );
+    this.keysFetchedAt = Date.now();
+  }
+}
@@ -0,0 +1,38 @@
+import { ConfigService } from '@nestjs/config';
+import { OAuthProvider, OAuthVerifier } from './oauth-verifier.interface';
+import { JwksTokenVerifier } from './jwks-token.verifier';
+import { FacebookTokenVerifier } from './facebook-token.verifier';
+
+/**
+ * Create a verifier for every provider with client credentials configured
+ */
+export function createOAuthVerifiers(configService: ConfigService): OAuthVerifier[] {
+  const verifiers: OAuthVerifier[] = [];
+
+  const google = configService.get('oauth.google');
+  if (google?.clientIds.length) {
+    verifiers.push(new JwksTokenVerifier({
+      provider: OAuthProvider.GOOGLE,
+      jwksUri: google.jwksUri,
+      issuers: ['accounts.google.com', 'https://accounts.google.com'],
+      audiences: google.clientIds,
+    }));
+  }
+
+  const apple = configService.get('oauth.apple');
+  if (apple?.clientIds.length) {
+    verifiers.push(new JwksTokenVerifier({
+      provider: OAuthProvider.APPLE,
+      jwksUri: apple.jwksUri,
+      issuers: ['https://appleid.apple.com'],
+      audiences: apple.clientIds,
+    }));
+  }
+
+  const facebook = configService.get('oauth.facebook');
+  if (facebook?.appId && facebook.appSecret) {
+    verifiers.push(new FacebookTokenVerifier(facebook));
+  }
+
+  return verifiers;
+}
@@ -0,0 +1,35 @@
+/**
+ * Enum for the supported OAuth identity providers
+ */
+export enum OAuthProvider {
+  GOOGLE = 'google',
+  APPLE = 'apple',
+  FACEBOOK = 'facebook',
+}
+
+/**
+ * Identity confirmed by a provider
+ */
+export interface OAuthIdentity {
+  provider: OAuthProvider;
+  // The provider's stable user ID
+  providerId: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+}
+
+/**
+ * Checks a token issued by a provider to the app and returns the identity
+ * it proves
+ */
+export interface OAuthVerifier {
+  readonly provider: OAuthProvider;
+
+  /**
+   * @throws Error if the token is invalid, expired or issued to another app
+   */
+  verify(token: string): Promise<OAuthIdentity>;
+}
+
+export const OAUTH_VERIFIERS = 'OAUTH_VERIFIERS';
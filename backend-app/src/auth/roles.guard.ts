@@ -1,17 +1,33 @@
-import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
 
 @Injectable()
 export class RolesGuard implements CanActivate {
-  constructor(private reflector: Reflector) {}
+  constructor(
+    private reflector: Reflector,
+    private configService: ConfigService,
+  ) {}
 
   canActivate(context: ExecutionContext): boolean {
-    const requiredRoles = this.reflector.get<string[]>('roles', context.getHandler());
+    // @Roles can be set on the handler or the whole controller
+    const requiredRoles = this.reflector.getAllAndOverride<string[]>('roles', [
+      context.getHandler(),
+      context.getClass(),
+    ]);
     if (!requiredRoles) {
       return true;
     }
     const request = context.switchToHttp().getRequest();
     const user = request.user;
-    return user && requiredRoles.includes(user.role);
+    if (!user || !requiredRoles.includes(user.role)) {
+      return false;
+    }
+
+    // Admins must have logged in with a second factor when 2FA is enforced
+    if (user.role === 'admin' && this.configService.get<boolean>('auth.requireAdminMfa') && !user.mfa) {
+      throw new ForbiddenException('Two-factor authentication is required for admin accounts');
+    }
+    return true;
   }
 }
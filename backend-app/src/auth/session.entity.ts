@@ -0,0 +1,62 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { UserEntity } from '../user/user.entity/user.entity';
+
+/**
+ * Enum for why a session was ended
+ */
+export enum SessionRevokedReason {
+  LOGOUT = 'logout',
+  REVOKED = 'revoked',
+  // An already rotated refresh token was presented again
+  REUSE_DETECTED = 'reuse_detected',
+  PASSWORD_RESET = 'password_reset',
+}
+
+/**
+ * Entity for a signed-in device. The session is the refresh token family:
+ * every refresh replaces the stored hash, and presenting an older token of
+ * the family ends the session.
+ */
+@Entity('sessions')
+@Index('IDX_SESSIONS_USER', ['userId'])
+export class SessionEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  userId: string;
+
+  // SHA-256 of the current refresh token secret, hex
+  @Column()
+  refreshTokenHash: string;
+
+  // Whether the login passed two-factor authentication
+  @Column({ default: false })
+  mfaVerified: boolean;
+
+  @Column({ type: 'varchar', nullable: true })
+  userAgent: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  ipAddress: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @Column({ type: 'timestamp' })
+  lastUsedAt: Date;
+
+  // Moved forward on every refresh
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  @Column({ type: 'enum', enum: SessionRevokedReason, nullable: true })
+  revokedReason: SessionRevokedReason | null;
+
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: UserEntity;
+}
@@ -0,0 +1,140 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { SessionService } from './session.service';
+import { SessionEntity, SessionRevokedReason } from './session.entity';
+import { RedisService } from '../cache/redis.service';
+
+describe('SessionService', () => {
+  let service: SessionService;
+
+  // In-memory session table
+  let sessions: SessionEntity[];
+  const sessionRepo = {
+    create: jest.fn(data => ({
+      id: `00000000-0000-0000-0000-00000000000${sessions.length + 1}`,
+      revokedAt: null,
+      revokedReason: null,
+      ...data,
+    })),
+    save: jest.fn(async session => {
+      if (!sessions.includes(session)) sessions.push(session);
+      return session;
+    }),
+    findOne: jest.fn(async ({ where }) =>
+      sessions.find(session => session.id === where.id && (!where.userId || session.userId === where.userId)) ?? null
+    ),
+    find: jest.fn(async ({ where }) => sessions.filter(session => session.userId === where.userId && !session.revokedAt)),
+  };
+  // In-memory Redis for the reuse grace keys
+  let redisValues: Map<string, string>;
+  const redisService = {
+    set: jest.fn(),
+    get: jest.fn(async (key: string) => redisValues.get(key) ?? null),
+    setIfNotExists: jest.fn(async (key: string, value: string) => {
+      if (redisValues.has(key)) return false;
+      redisValues.set(key, value);
+      return true;
+    }),
+    delete: jest.fn(async (key: string) => {
+      redisValues.delete(key);
+    }),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    sessions = [];
+    redisValues = new Map();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionService,
+        { provide: getRepositoryToken(SessionEntity), useValue: sessionRepo },
+        { provide: RedisService, useValue: redisService },
+      ],
+    }).compile();
+
+    service = module.get<SessionService>(SessionService);
+  });
+
+  it('should store only a hash of the refresh token', async () => {
+    const { session, refreshToken } = await service.create('user-1', { userAgent: 'phone', ipAddress: '10.0.0.1' });
+
+    expect(refreshToken.startsWith(`${session.id}.`)).toBe(true);
+    expect(session.refreshTokenHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(session.refreshTokenHash).not.toBe(refreshToken.split('.')[1]);
+    expect(session.userAgent).toBe('phone');
+  });
+
+  it('should rotate the refresh token on every use', async () => {
+    const { refreshToken } = await service.create('user-1');
+
+    const rotated = await service.rotate(refreshToken);
+
+    expect(rotated.refreshToken).not.toBe(refreshToken);
+    await expect(service.rotate(rotated.refreshToken)).resolves.toBeDefined();
+  });
+
+  it('should give concurrent refreshes with the same token the same successor', async () => {
+    const { refreshToken } = await service.create('user-1');
+
+    const [first, second] = await Promise.all([service.rotate(refreshToken), service.rotate(refreshToken)]);
+    const late = await service.rotate(refreshToken);
+
+    expect(second.refreshToken).toBe(first.refreshToken);
+    expect(late.refreshToken).toBe(first.refreshToken);
+    expect(sessions[0].revokedAt).toBeNull();
+    await expect(service.rotate(first.refreshToken)).resolves.toBeDefined();
+  });
+
+  it('should revoke the session when a rotated token is reused', async () => {
+    const { refreshToken } = await service.create('user-1');
+    const rotated = await service.rotate(refreshToken);
+    // The reuse grace window has passed
+    redisValues.clear();
+
+    await expect(service.rotate(refreshToken)).rejects.toBeInstanceOf(UnauthorizedException);
+
+    expect(sessions[0].revokedReason).toBe(SessionRevokedReason.REUSE_DETECTED);
+    expect(redisService.set).toHaveBeenCalledWith(`auth:revoked-session:${sessions[0].id}`, expect.anything(), 900);
+    // The newer token of the family is rejected too
+    await expect(service.rotate(rotated.refreshToken)).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('should reject expired and malformed refresh tokens', async () => {
+    const { refreshToken } = await service.create('user-1');
+    sessions[0].expiresAt = new Date(Date.now() - 1000);
+
+    await expect(service.rotate(refreshToken)).rejects.toThrow('Refresh token expired');
+    await expect(service.rotate('not-a-token')).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('should end the session on logout', async () => {
+    const { refreshToken } = await service.create('user-1');
+
+    await service.revokeByRefreshToken(refreshToken);
+
+    expect(sessions[0].revokedReason).toBe(SessionRevokedReason.LOGOUT);
+    await expect(service.rotate(refreshToken)).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('should only revoke sessions of the requesting user', async () => {
+    const { session } = await service.create('user-1');
+
+    await expect(service.revoke('user-2', session.id)).rejects.toBeInstanceOf(NotFoundException);
+    await service.revoke('user-1', session.id);
+
+    expect(session.revokedReason).toBe(SessionRevokedReason.REVOKED);
+  });
+
+  it('should revoke every active session of a user', async () => {
+    await service.create('user-1');
+    await service.create('user-1');
+    await service.create('user-2');
+
+    await expect(service.revokeAll('user-1', SessionRevokedReason.PASSWORD_RESET)).resolves.toBe(2);
+
+    expect(sessions.filter(session => session.revokedAt).map(session => session.userId)).toEqual(['user-1', 'user-1']);
+    expect(redisService.set).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,225 @@
+import { Injectable, Logger, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, MoreThan, Repository } from 'typeorm';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { SessionEntity, SessionRevokedReason } from './session.entity';
+import { RedisService } from '../cache/redis.service';
+
+/**
+ * Device details recorded with a session
+ */
+export interface SessionDevice {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// How long a just-exchanged refresh token still returns its successor, so
+// tabs or requests refreshing at the same time share one rotation
+const REFRESH_REUSE_GRACE_SECONDS = 30;
+
+/**
+ * Redis key that denies the access tokens of a revoked session until they
+ * expire on their own
+ */
+export function revokedSessionKey(sessionId: string): string {
+  return `auth:revoked-session:${sessionId}`;
+}
+
+@Injectable()
+export class SessionService {
+  private readonly logger = new Logger(SessionService.name);
+
+  constructor(
+    @InjectRepository(SessionEntity)
+    private readonly sessionRepo: Repository<SessionEntity>,
+    private readonly redisService: RedisService,
+  ) {}
+
+  /**
+   * Start a session for a signed-in device
+   * @returns The session and its first refresh token
+   */
+  async create(userId: string, device: SessionDevice = {}, mfaVerified = false) {
+    const secret = this.generateSecret();
+    const now = new Date();
+
+    const session = await this.sessionRepo.save(
+      this.sessionRepo.create({
+        userId,
+        refreshTokenHash: this.hash(secret),
+        mfaVerified,
+        userAgent: device.userAgent || null,
+        ipAddress: device.ipAddress || null,
+        lastUsedAt: now,
+        expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS),
+      })
+    );
+
+    return { session, refreshToken: `${session.id}.${secret}` };
+  }
+
+  /**
+   * Exchange a refresh token for a new one. Presenting a token that was
+   * already exchanged revokes the session, since either it or its
+   * successor has been stolen, unless it was exchanged within the last few
+   * seconds; then the same successor is returned again.
+   * @throws UnauthorizedException if the token is invalid, expired or reused
+   */
+  async rotate(refreshToken: string, device: SessionDevice = {}) {
+    const graceKey = this.reuseGraceKey(refreshToken);
+    const issued = await this.redisService.get<string>(graceKey);
+    if (issued) {
+      const session = await this.findActiveSession(this.parseRefreshToken(refreshToken).sessionId);
+      return { session, refreshToken: issued };
+    }
+
+    const session = await this.findByRefreshToken(refreshToken);
+    const secret = this.generateSecret();
+    const successor = `${session.id}.${secret}`;
+
+    // Claim the rotation so a concurrent refresh with the same token gets
+    // this successor instead of rotating again
+    if (!(await this.redisService.setIfNotExists(graceKey, successor, REFRESH_REUSE_GRACE_SECONDS))) {
+      const winner = await this.redisService.get<string>(graceKey);
+      if (!winner) throw new UnauthorizedException('Invalid refresh token');
+      return { session, refreshToken: winner };
+    }
+
+    const now = new Date();
+    session.refreshTokenHash = this.hash(secret);
+    session.lastUsedAt = now;
+    session.expiresAt = new Date(now.getTime() + REFRESH_TOKEN_TTL_MS);
+    if (device.ipAddress) session.ipAddress = device.ipAddress;
+    if (device.userAgent) session.userAgent = device.userAgent;
+    try {
+      await this.sessionRepo.save(session);
+    } catch (error) {
+      await this.redisService.delete(graceKey);
+      throw error;
+    }
+
+    return { session, refreshToken: successor };
+  }
+
+  /**
+   * Record that the user passed two-factor authentication in a session,
+   * which is carried into the access tokens issued on the next refresh
+   */
+  async markMfaVerified(sessionId: string) {
+    await this.sessionRepo.update({ id: sessionId }, { mfaVerified: true });
+  }
+
+  /**
+   * End the session a refresh token belongs to
+   * @throws UnauthorizedException if the token is invalid or expired
+   */
+  async revokeByRefreshToken(refreshToken: string) {
+    const session = await this.findByRefreshToken(refreshToken);
+    await this.revokeSessions([session], SessionRevokedReason.LOGOUT);
+  }
+
+  /**
+   * Get the user's active sessions, most recently used first
+   */
+  async listActive(userId: string): Promise<SessionEntity[]> {
+    return this.sessionRepo.find({
+      where: { userId, revokedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+      order: { lastUsedAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Whether the user has signed in from this browser or app before, in any
+   * session including ended ones
+   */
+  async isKnownDevice(userId: string, device: SessionDevice): Promise<boolean> {
+    return this.sessionRepo.exists({ where: { userId, userAgent: device.userAgent ?? IsNull() } });
+  }
+
+  /**
+   * End one of the user's sessions
+   * @throws NotFoundException if the user has no such active session
+   */
+  async revoke(userId: string, sessionId: string) {
+    const session = await this.sessionRepo.findOne({ where: { id: sessionId, userId, revokedAt: IsNull() } });
+    if (!session) throw new NotFoundException('Session not found');
+
+    await this.revokeSessions([session], SessionRevokedReason.REVOKED);
+  }
+
+  /**
+   * End every active session of the user
+   * @returns The number of sessions ended
+   */
+  async revokeAll(userId: string, reason = SessionRevokedReason.REVOKED): Promise<number> {
+    const sessions = await this.sessionRepo.find({ where: { userId, revokedAt: IsNull() } });
+    await this.revokeSessions(sessions, reason);
+    return sessions.length;
+  }
+
+  private async findByRefreshToken(refreshToken: string): Promise<SessionEntity> {
+    const { sessionId, secret } = this.parseRefreshToken(refreshToken);
+
+    const session = await this.sessionRepo.findOne({ where: { id: sessionId } });
+    if (!session || session.revokedAt) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    if (!this.matchesHash(secret, session.refreshTokenHash)) {
+      this.logger.warn(`Refresh token reuse detected for session ${session.id}, revoking it`);
+      await this.revokeSessions([session], SessionRevokedReason.REUSE_DETECTED);
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    if (session.expiresAt <= new Date()) {
+      throw new UnauthorizedException('Refresh token expired');
+    }
+
+    return session;
+  }
+
+  private async findActiveSession(sessionId: string): Promise<SessionEntity> {
+    const session = await this.sessionRepo.findOne({ where: { id: sessionId } });
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+    return session;
+  }
+
+  private parseRefreshToken(refreshToken: string): { sessionId: string; secret: string } {
+    const [sessionId, secret] = refreshToken.split('.');
+    if (!sessionId || !secret || !/^[0-9a-f-]{36}$/.test(sessionId)) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+    return { sessionId, secret };
+  }
+
+  private reuseGraceKey(refreshToken: string): string {
+    return `auth:refresh-grace:${this.hash(refreshToken)}`;
+  }
+
+  private async revokeSessions(sessions: SessionEntity[], reason: SessionRevokedReason) {
+    const now = new Date();
+    for (const session of sessions) {
+      session.revokedAt = now;
+      session.revokedReason = reason;
+      await this.sessionRepo.save(session);
+      // Access tokens of the session stay denied until they would expire anyway
+      await this.redisService.set(revokedSessionKey(session.id), reason, ACCESS_TOKEN_TTL_SECONDS);
+    }
+  }
+
+  private generateSecret(): string {
+    return randomBytes(32).toString('base64url');
+  }
+
+  private hash(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+
+  private matchesHash(secret: string, expectedHash: string): boolean {
+    return timingSafeEqual(Buffer.from(this.hash(secret), 'hex'), Buffer.from(expectedHash, 'hex'));
+  }
+}
@@ -0,0 +1,53 @@
+import { Controller, Delete, Get, Param, ParseUUIDPipe, Req, UseGuards } from '@nestjs/common';
+import { Request } from 'express';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import { SessionService } from './session.service';
+
+@Controller('auth/sessions')
+@UseGuards(JwtAuthGuard)
+export class SessionsController {
+  constructor(private readonly sessionService: SessionService) {}
+
+  @Get()
+  async listSessions(@Req() request: Request) {
+    const userId = request.user?.id;
+
+    if (!userId) {
+      throw new Error('User ID not found in request');
+    }
+
+    const sessions = await this.sessionService.listActive(userId);
+    return sessions.map(session => ({
+      id: session.id,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      current: session.id === request.user?.sid,
+    }));
+  }
+
+  @Delete()
+  async revokeAllSessions(@Req() request: Request) {
+    const userId = request.user?.id;
+
+    if (!userId) {
+      throw new Error('User ID not found in request');
+    }
+
+    const revoked = await this.sessionService.revokeAll(userId);
+    return { revoked };
+  }
+
+  @Delete(':id')
+  async revokeSession(@Param('id', ParseUUIDPipe) sessionId: string, @Req() request: Request) {
+    const userId = request.user?.id;
+
+    if (!userId) {
+      throw new Error('User ID not found in request');
+    }
+
+    await this.sessionService.revoke(userId, sessionId);
+    return { message: 'Session revoked' };
+  }
+}
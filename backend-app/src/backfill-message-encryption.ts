@@ -0,0 +1,47 @@
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from './app.module';
+import { MessageEncryptionBackfillService } from './messaging/services/message-encryption-backfill.service';
+
+/**
+ * Encrypt legacy plaintext messages and clear the plaintext column.
+ *
+ * Usage: npm run backfill:message-encryption -- [--batch-size=200] [--after=<message id>]
+ */
+async function backfill() {
+  const args = new Map(
+    process.argv.slice(2).map(arg => {
+      const [key, value] = arg.replace(/^--/, '').split('=');
+      return [key, value] as [string, string];
+    })
+  );
+
+  const app = await NestFactory.createApplicationContext(AppModule, { logger: ['error', 'warn'] });
+  const backfillService = app.get(MessageEncryptionBackfillService);
+
+  const result = await backfillService.run({
+    batchSize: args.has('batch-size') ? parseInt(args.get('batch-size')!, 10) : undefined,
+    after: args.get('after'),
+    onProgress: progress => {
+      console.log(
+        `Processed ${progress.processed}/${progress.total} ` +
+        `(encrypted ${progress.encrypted}, purged ${progress.purged}, failed ${progress.failed}), ` +
+        `last message ${progress.lastId}`
+      );
+    },
+  });
+
+  console.log(
+    `Backfill complete: ${result.encrypted} encrypted, ${result.purged} purged, ${result.failed} failed`
+  );
+  if (result.failed) {
+    console.log('Run the command again to retry the failed messages');
+  }
+
+  await app.close();
+  process.exit(result.failed ? 1 : 0);
+}
+
+backfill().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
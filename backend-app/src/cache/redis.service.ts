@@ -103,6 +103,62 @@ export class RedisService implements OnModuleDestroy {
     return result === 1;
   }
 
+  /**
+   * Increment a counter, setting its expiry when the counter is created
+   * @param key The key of the counter
+   * @param ttl Time to live in seconds (optional)
+   */
+  async increment(key: string, ttl?: number): Promise<number> {
+    const value = await this.client.incr(key);
+
+    if (ttl && value === 1) {
+      await this.client.expire(key, ttl);
+    }
+
+    return value;
+  }
+
+  /**
+   * Decrement a counter
+   * @param key The key of the counter
+   */
+  async decrement(key: string): Promise<number> {
+    return this.client.decr(key);
+  }
+
+  /**
+   * Set the expiry of an existing key
+   * @param key The key to expire
+   * @param ttl Time to live in seconds
+   */
+  async expire(key: string, ttl: number): Promise<void> {
+    await this.client.expire(key, ttl);
+  }
+
+  /**
+   * Acquire a lock that expires on its own, for work that must run on a
+   * single instance at a time
+   * @param key The key of the lock
+   * @param ttl Time to live in seconds
+   * @returns Whether the lock was acquired
+   */
+  async acquireLock(key: string, ttl: number): Promise<boolean> {
+    const result = await this.client.set(key, Date.now().toString(), 'EX', ttl, 'NX');
+    return result === 'OK';
+  }
+
+  /**
+   * Set a value only if the key does not exist yet
+   * @param key The key to set
+   * @param value The value to set
+   * @param ttl Time to live in seconds
+   * @returns Whether the value was set
+   */
+  async setIfNotExists(key: string, value: string, ttl: number): Promise<boolean> {
+    const result = await this.client.set(key, value, 'EX', ttl, 'NX');
+    return result === 'OK';
+  }
+
   /**
    * Set a field in a hash stored at key
    * @param key The key of the hash
@@ -1,10 +1,12 @@
 import { Module, Global } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
-import { ConfigModule } from '@nestjs/config';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { EncryptionService } from './services/encryption.service';
 import { EncryptionKeyEntity } from './entities/encryption-key.entity';
 import { AuditLogService } from './services/audit-log.service';
 import { AuditLogEntity } from './entities/audit-log.entity';
+import { KEY_PROVIDER } from './key-providers/key-provider.interface';
+import { createKeyProvider } from './key-providers/key-provider.factory';
 
 /**
  * Common module providing shared services and utilities
@@ -16,7 +18,19 @@ import { AuditLogEntity } from './entities/audit-log.entity';
     TypeOrmModule.forFeature([EncryptionKeyEntity, AuditLogEntity]),
     ConfigModule,
   ],
-  providers: [EncryptionService, AuditLogService],
+  providers: [
+    {
+      provide: KEY_PROVIDER,
+      useFactory: async (configService: ConfigService) => {
+        const keyProvider = createKeyProvider(configService);
+        await keyProvider.initialize();
+        return keyProvider;
+      },
+      inject: [ConfigService],
+    },
+    EncryptionService,
+    AuditLogService,
+  ],
   exports: [EncryptionService, AuditLogService],
 })
 export class CommonModule {}
\ No newline at end of file
@@ -27,6 +27,9 @@ export class EncryptionKeyEntity {
   @Column()
   algorithm: string;
   
+  @Column({ type: 'int', default: 1 })
+  masterKeyVersion: number; // Version of the master key that encrypted this key
+  
   @CreateDateColumn()
   createdAt: Date;
   
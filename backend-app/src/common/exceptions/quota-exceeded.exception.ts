@@ -0,0 +1,31 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+// Error code clients match on to show an upgrade prompt
+export const QUOTA_EXCEEDED_ERROR = 'QUOTA_EXCEEDED';
+
+/**
+ * Details of the exhausted quota returned to the client
+ */
+export interface QuotaExceededDetails {
+  feature: string;
+  limit: number;
+  resetsAt: Date;
+  upgradeAvailable: boolean;
+}
+
+/**
+ * Thrown when a user has used up a daily quota of their subscription tier
+ */
+export class QuotaExceededException extends HttpException {
+  constructor(message: string, details: QuotaExceededDetails) {
+    super(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        error: QUOTA_EXCEEDED_ERROR,
+        message,
+        ...details,
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { LocalKeyProvider } from './local-key.provider';
+
+/**
+ * Options for the environment variable key provider
+ */
+export interface EnvKeyProviderOptions {
+  // ENCRYPTION_MASTER_KEY, used as version 1
+  masterKey?: string;
+  // ENCRYPTION_MASTER_KEYS, `version:hexKey` pairs separated by commas
+  masterKeys?: string;
+  // ENCRYPTION_MASTER_KEY_VERSION
+  currentVersion?: string;
+}
+
+/**
+ * Provider that reads hex master keys from environment variables
+ */
+export class EnvKeyProvider extends LocalKeyProvider {
+  readonly name = 'env';
+
+  constructor(private readonly options: EnvKeyProviderOptions) {
+    super();
+  }
+
+  async initialize(): Promise<void> {
+    const masterKeys = new Map<number, Buffer>();
+
+    for (const entry of this.options.masterKeys ? this.options.masterKeys.split(',') : []) {
+      const [version, key] = entry.trim().split(':');
+      if (!/^\d+$/.test(version) || !key) {
+        throw new Error('ENCRYPTION_MASTER_KEYS must list version:key pairs');
+      }
+      masterKeys.set(Number(version), Buffer.from(key, 'hex'));
+    }
+
+    if (this.options.masterKey && !masterKeys.has(1)) {
+      masterKeys.set(1, Buffer.from(this.options.masterKey, 'hex'));
+    }
+
+    this.setMasterKeys(
+      masterKeys,
+      this.options.currentVersion ? parseInt(this.options.currentVersion, 10) : undefined
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import { FileKeyProvider } from './file-key.provider';
+
+describe('FileKeyProvider', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'keystore-'));
+    path = join(dir, 'keystore.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should create a keystore and make each added key current', async () => {
+    const imported = randomBytes(32);
+    await expect(FileKeyProvider.addKey(path, 'passphrase', imported)).resolves.toBe(1);
+    await expect(FileKeyProvider.addKey(path, 'passphrase')).resolves.toBe(2);
+
+    const provider = new FileKeyProvider({ path, passphrase: 'passphrase' });
+    await provider.initialize();
+
+    expect(provider.getCurrentVersion()).toBe(2);
+    expect(provider.getVersions()).toEqual([1, 2]);
+  });
+
+  it('should not store master keys in plain text', async () => {
+    const key = randomBytes(32);
+    await FileKeyProvider.addKey(path, 'passphrase', key);
+
+    const contents = await readFile(path, 'utf8');
+
+    expect(contents).not.toContain(key.toString('hex'));
+    expect(contents).not.toContain(key.toString('base64'));
+  });
+
+  it('should unwrap keys wrapped before a key was added', async () => {
+    await FileKeyProvider.addKey(path, 'passphrase');
+    const before = new FileKeyProvider({ path, passphrase: 'passphrase' });
+    await before.initialize();
+    const dek = randomBytes(32);
+    const wrapped = await before.wrapKey(dek);
+
+    await FileKeyProvider.addKey(path, 'passphrase');
+    const after = new FileKeyProvider({ path, passphrase: 'passphrase' });
+    await after.initialize();
+
+    expect(wrapped.masterKeyVersion).toBe(1);
+    await expect(after.unwrapKey(wrapped)).resolves.toEqual(dek);
+    await expect(after.wrapKey(dek)).resolves.toEqual(expect.objectContaining({ masterKeyVersion: 2 }));
+  });
+
+  it('should reject the wrong passphrase', async () => {
+    await FileKeyProvider.addKey(path, 'passphrase');
+
+    await expect(new FileKeyProvider({ path, passphrase: 'wrong' }).initialize())
+      .rejects.toThrow('Wrong keystore passphrase or corrupted keystore');
+    await expect(FileKeyProvider.addKey(path, 'wrong')).rejects.toThrow('Wrong keystore passphrase');
+  });
+});
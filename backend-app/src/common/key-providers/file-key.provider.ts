@@ -0,0 +1,132 @@
+import { createCipheriv, createDecipheriv, randomBytes, scrypt, ScryptOptions } from 'crypto';
+import { readFile, rename, writeFile } from 'fs/promises';
+import { LocalKeyProvider } from './local-key.provider';
+
+/**
+ * A master key encrypted with the keystore passphrase
+ */
+interface KeystoreEntry {
+  version: number;
+  iv: string;
+  authTag: string;
+  encryptedKey: string;
+  createdAt: string;
+}
+
+/**
+ * Contents of a keystore file
+ */
+interface Keystore {
+  format: 1;
+  kdf: { name: 'scrypt'; salt: string; N: number; r: number; p: number };
+  currentVersion: number;
+  keys: KeystoreEntry[];
+}
+
+const KDF_PARAMS = { N: 16384, r: 8, p: 1 };
+
+function deriveKey(passphrase: string, kdf: Keystore['kdf']): Promise<Buffer> {
+  const options: ScryptOptions = { N: kdf.N, r: kdf.r, p: kdf.p, maxmem: 64 * 1024 * 1024 };
+  return new Promise((resolve, reject) =>
+    scrypt(passphrase, Buffer.from(kdf.salt, 'base64'), 32, options, (error, key) =>
+      error ? reject(error) : resolve(key)
+    )
+  );
+}
+
+function decryptEntry(entry: KeystoreEntry, passphraseKey: Buffer): Buffer {
+  const decipher = createDecipheriv('aes-256-gcm', passphraseKey, Buffer.from(entry.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(entry.authTag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(entry.encryptedKey, 'base64')), decipher.final()]);
+}
+
+/**
+ * Options for the file keystore provider
+ */
+export interface FileKeyProviderOptions {
+  // ENCRYPTION_KEYSTORE_PATH
+  path: string;
+  // ENCRYPTION_KEYSTORE_PASSPHRASE
+  passphrase: string;
+}
+
+/**
+ * Provider that reads master keys from a local keystore file. Each key is
+ * encrypted with a key derived from a passphrase, so the file alone is
+ * not enough to decrypt data.
+ */
+export class FileKeyProvider extends LocalKeyProvider {
+  readonly name = 'file';
+
+  constructor(private readonly options: FileKeyProviderOptions) {
+    super();
+  }
+
+  async initialize(): Promise<void> {
+    const keystore: Keystore = JSON.parse(await readFile(this.options.path, 'utf8'));
+    const passphraseKey = await deriveKey(this.options.passphrase, keystore.kdf);
+
+    const masterKeys = new Map<number, Buffer>();
+    for (const entry of keystore.keys) {
+      try {
+        masterKeys.set(entry.version, decryptEntry(entry, passphraseKey));
+      } catch {
+        throw new Error('Wrong keystore passphrase or corrupted keystore');
+      }
+    }
+
+    this.setMasterKeys(masterKeys, keystore.currentVersion);
+  }
+
+  /**
+   * Add a master key to a keystore, creating the file if needed, and make
+   * it the version that wraps new keys
+   * @param key The key to add, by default a new random key. Pass the
+   * current ENCRYPTION_MASTER_KEY to move it into a new keystore.
+   * @returns The new version
+   * @throws Error if the passphrase does not open the existing keystore
+   */
+  static async addKey(path: string, passphrase: string, key: Buffer = randomBytes(32)): Promise<number> {
+    let keystore: Keystore;
+    try {
+      keystore = JSON.parse(await readFile(path, 'utf8'));
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error;
+      keystore = {
+        format: 1,
+        kdf: { name: 'scrypt', salt: randomBytes(16).toString('base64'), ...KDF_PARAMS },
+        currentVersion: 0,
+        keys: [],
+      };
+    }
+
+    const passphraseKey = await deriveKey(passphrase, keystore.kdf);
+    if (keystore.keys.length) {
+      try {
+        decryptEntry(keystore.keys[0], passphraseKey);
+      } catch {
+        throw new Error('Wrong keystore passphrase');
+      }
+    }
+
+    const version = Math.max(0, ...keystore.keys.map(entry => entry.version)) + 1;
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', passphraseKey, iv);
+    const encryptedKey = Buffer.concat([cipher.update(key), cipher.final()]);
+
+    keystore.keys.push({
+      version,
+      iv: iv.toString('base64'),
+      authTag: cipher.getAuthTag().toString('base64'),
+      encryptedKey: encryptedKey.toString('base64'),
+      createdAt: new Date().toISOString(),
+    });
+    keystore.currentVersion = version;
+
+    // Replace the file in one step so a crash cannot leave it half written
+    await writeFile(`${path}.tmp`, JSON.stringify(keystore, null, 2), { mode: 0o600 });
+    await rename(`${path}.tmp`, path);
+
+    return version;
+  }
+}
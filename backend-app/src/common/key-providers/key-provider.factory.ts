@@ -0,0 +1,49 @@
+import { ConfigService } from '@nestjs/config';
+import { KeyProvider } from './key-provider.interface';
+import { EnvKeyProvider } from './env-key.provider';
+import { FileKeyProvider } from './file-key.provider';
+import { VaultTransitKeyProvider } from './vault-transit-key.provider';
+
+/**
+ * Create the key provider selected by ENCRYPTION_KEY_PROVIDER
+ * (`env`, `file` or `vault-transit`; `env` by default)
+ * @throws Error if the provider is unknown or its settings are missing
+ */
+export function createKeyProvider(configService: ConfigService): KeyProvider {
+  const providerName = configService.get<string>('ENCRYPTION_KEY_PROVIDER') || 'env';
+
+  switch (providerName) {
+    case 'env':
+      return new EnvKeyProvider({
+        masterKey: configService.get<string>('ENCRYPTION_MASTER_KEY'),
+        masterKeys: configService.get<string>('ENCRYPTION_MASTER_KEYS'),
+        currentVersion: configService.get<string>('ENCRYPTION_MASTER_KEY_VERSION'),
+      });
+
+    case 'file': {
+      const path = configService.get<string>('ENCRYPTION_KEYSTORE_PATH');
+      const passphrase = configService.get<string>('ENCRYPTION_KEYSTORE_PASSPHRASE');
+      if (!path || !passphrase) {
+        throw new Error('ENCRYPTION_KEYSTORE_PATH and ENCRYPTION_KEYSTORE_PASSPHRASE are required');
+      }
+      return new FileKeyProvider({ path, passphrase });
+    }
+
+    case 'vault-transit': {
+      const address = configService.get<string>('VAULT_ADDR');
+      const token = configService.get<string>('VAULT_TOKEN');
+      if (!address || !token) {
+        throw new Error('VAULT_ADDR and VAULT_TOKEN are required');
+      }
+      return new VaultTransitKeyProvider({
+        address: address.replace(/\/$/, ''),
+        token,
+        mount: configService.get<string>('VAULT_TRANSIT_MOUNT') || 'transit',
+        keyName: configService.get<string>('VAULT_TRANSIT_KEY') || '10date-master',
+      });
+    }
+
+    default:
+      throw new Error(`Unknown ENCRYPTION_KEY_PROVIDER ${providerName}`);
+  }
+}
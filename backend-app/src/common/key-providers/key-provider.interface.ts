@@ -0,0 +1,46 @@
+/**
+ * A data encryption key wrapped by a key provider, as stored in
+ * `encryption_keys`
+ */
+export interface WrappedKey {
+  encryptedKey: string;
+  // Empty when the provider keeps these inside its own ciphertext format
+  iv: string;
+  authTag: string;
+  masterKeyVersion: number;
+}
+
+/**
+ * Source of the master key that wraps data encryption keys. The master key
+ * is only used through this interface, so it can live outside the process.
+ */
+export interface KeyProvider {
+  readonly name: string;
+
+  /**
+   * Load keys or check connectivity; called once before first use
+   */
+  initialize(): Promise<void>;
+
+  /**
+   * Version that wraps new keys
+   */
+  getCurrentVersion(): number;
+
+  /**
+   * Every version that can still unwrap keys
+   */
+  getVersions(): number[];
+
+  wrapKey(dek: Buffer): Promise<WrappedKey>;
+
+  /**
+   * @throws Error if the version is unknown or the wrapped key was tampered with
+   */
+  unwrapKey(wrapped: WrappedKey): Promise<Buffer>;
+}
+
+/**
+ * Injection token for the configured key provider
+ */
+export const KEY_PROVIDER = 'KEY_PROVIDER';
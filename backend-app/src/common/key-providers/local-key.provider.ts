@@ -0,0 +1,70 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { KeyProvider, WrappedKey } from './key-provider.interface';
+
+/**
+ * Base for providers that hold the master keys in process memory and wrap
+ * DEKs with AES-256-GCM themselves
+ */
+export abstract class LocalKeyProvider implements KeyProvider {
+  abstract readonly name: string;
+
+  private masterKeys = new Map<number, Buffer>();
+  private currentVersion = 0;
+
+  abstract initialize(): Promise<void>;
+
+  getCurrentVersion(): number {
+    return this.currentVersion;
+  }
+
+  getVersions(): number[] {
+    return [...this.masterKeys.keys()].sort((a, b) => a - b);
+  }
+
+  async wrapKey(dek: Buffer): Promise<WrappedKey> {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.masterKeys.get(this.currentVersion)!, iv);
+    let encryptedKey = cipher.update(dek.toString('hex'), 'utf8', 'base64');
+    encryptedKey += cipher.final('base64');
+
+    return {
+      encryptedKey,
+      iv: iv.toString('base64'),
+      authTag: cipher.getAuthTag().toString('base64'),
+      masterKeyVersion: this.currentVersion,
+    };
+  }
+
+  async unwrapKey(wrapped: WrappedKey): Promise<Buffer> {
+    const masterKey = this.masterKeys.get(wrapped.masterKeyVersion);
+    if (!masterKey) {
+      throw new Error(`Master key version ${wrapped.masterKeyVersion} is not configured`);
+    }
+
+    const decipher = createDecipheriv('aes-256-gcm', masterKey, Buffer.from(wrapped.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(wrapped.authTag, 'base64'));
+    let decryptedKey = decipher.update(wrapped.encryptedKey, 'base64', 'utf8');
+    decryptedKey += decipher.final('utf8');
+
+    return Buffer.from(decryptedKey, 'hex');
+  }
+
+  /**
+   * Set the loaded master keys
+   * @param currentVersion Version for new keys, by default the newest one
+   * @throws Error if no keys were loaded or the current version is missing
+   */
+  protected setMasterKeys(masterKeys: Map<number, Buffer>, currentVersion?: number) {
+    if (!masterKeys.size) {
+      throw new Error('Encryption master key not configured');
+    }
+
+    const version = currentVersion ?? Math.max(...masterKeys.keys());
+    if (!masterKeys.has(version)) {
+      throw new Error(`Master key version ${version} is not configured`);
+    }
+
+    this.masterKeys = masterKeys;
+    this.currentVersion = version;
+  }
+}
@@ -0,0 +1,107 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { VaultTransitKeyProvider } from './vault-transit-key.provider';
+
+/**
+ * Minimal stand-in for the Vault transit engine: versioned AES-256-GCM keys
+ * behind the keys, encrypt and decrypt endpoints
+ */
+function createTransitServer(token: string) {
+  const keyVersions = [randomBytes(32)];
+
+  const readBody = (request: IncomingMessage) =>
+    new Promise<any>(resolve => {
+      let body = '';
+      request.on('data', chunk => (body += chunk));
+      request.on('end', () => resolve(body ? JSON.parse(body) : {}));
+    });
+
+  const server = createServer(async (request, response) => {
+    const reply = (status: number, data?: unknown) => {
+      response.writeHead(status, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(data === undefined ? { errors: ['error'] } : { data }));
+    };
+
+    if (request.headers['x-vault-token'] !== token) {
+      return reply(403);
+    }
+
+    const body = await readBody(request);
+    if (request.method === 'GET' && request.url === '/v1/transit/keys/master') {
+      return reply(200, { latest_version: keyVersions.length, min_decryption_version: 1 });
+    }
+
+    if (request.method === 'POST' && request.url === '/v1/transit/encrypt/master') {
+      const iv = randomBytes(12);
+      const cipher = createCipheriv('aes-256-gcm', keyVersions[keyVersions.length - 1], iv);
+      const encrypted = Buffer.concat([cipher.update(Buffer.from(body.plaintext, 'base64')), cipher.final()]);
+      const payload = Buffer.concat([iv, encrypted, cipher.getAuthTag()]).toString('base64');
+      return reply(200, { ciphertext: `vault:v${keyVersions.length}:${payload}` });
+    }
+
+    if (request.method === 'POST' && request.url === '/v1/transit/decrypt/master') {
+      const [, version, payload] = body.ciphertext.split(':');
+      const data = Buffer.from(payload, 'base64');
+      const decipher = createDecipheriv('aes-256-gcm', keyVersions[Number(version.slice(1)) - 1], data.subarray(0, 12));
+      decipher.setAuthTag(data.subarray(data.length - 16));
+      const plaintext = Buffer.concat([decipher.update(data.subarray(12, data.length - 16)), decipher.final()]);
+      return reply(200, { plaintext: plaintext.toString('base64') });
+    }
+
+    reply(404);
+  });
+
+  return { server, rotate: () => keyVersions.push(randomBytes(32)) };
+}
+
+describe('VaultTransitKeyProvider', () => {
+  let server: Server;
+  let rotate: () => void;
+  let address: string;
+
+  const createProvider = (token = 'root-token') =>
+    new VaultTransitKeyProvider({ address, token, mount: 'transit', keyName: 'master' });
+
+  beforeAll(async () => {
+    ({ server, rotate } = createTransitServer('root-token'));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    address = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should wrap and unwrap keys through the transit engine', async () => {
+    const provider = createProvider();
+    await provider.initialize();
+    const dek = randomBytes(32);
+
+    const wrapped = await provider.wrapKey(dek);
+
+    expect(wrapped.encryptedKey).toMatch(/^vault:v1:/);
+    expect(wrapped.masterKeyVersion).toBe(1);
+    await expect(provider.unwrapKey(wrapped)).resolves.toEqual(dek);
+  });
+
+  it('should pick up a key rotated in Vault', async () => {
+    const provider = createProvider();
+    await provider.initialize();
+    const dek = randomBytes(32);
+    const wrapped = await provider.wrapKey(dek);
+
+    rotate();
+    const rewrapped = await provider.wrapKey(await provider.unwrapKey(wrapped));
+
+    expect(rewrapped.masterKeyVersion).toBe(wrapped.masterKeyVersion + 1);
+    expect(provider.getCurrentVersion()).toBe(rewrapped.masterKeyVersion);
+    expect(provider.getVersions()).toContain(wrapped.masterKeyVersion);
+    await expect(provider.unwrapKey(wrapped)).resolves.toEqual(dek);
+    await expect(provider.unwrapKey(rewrapped)).resolves.toEqual(dek);
+  });
+
+  it('should fail when Vault rejects the token', async () => {
+    await expect(createProvider('bad-token').initialize()).rejects.toThrow('failed with status 403');
+  });
+});
@@ -0,0 +1,103 @@
+import { KeyProvider, WrappedKey } from './key-provider.interface';
+
+/**
+ * Options for the Vault transit key provider
+ */
+export interface VaultTransitKeyProviderOptions {
+  // VAULT_ADDR, e.g. https://vault.internal:8200
+  address: string;
+  // VAULT_TOKEN
+  token: string;
+  // VAULT_TRANSIT_MOUNT
+  mount: string;
+  // VAULT_TRANSIT_KEY
+  keyName: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Provider that wraps DEKs with a HashiCorp Vault transit key (or any KMS
+ * exposing the same API). The master key never leaves Vault; rotating it
+ * there creates a new version that is picked up by the next wrap.
+ */
+export class VaultTransitKeyProvider implements KeyProvider {
+  readonly name = 'vault-transit';
+
+  private currentVersion = 0;
+  private minDecryptionVersion = 1;
+
+  constructor(private readonly options: VaultTransitKeyProviderOptions) {}
+
+  async initialize(): Promise<void> {
+    const key = await this.request<{ latest_version: number; min_decryption_version: number }>(
+      'GET',
+      `keys/${this.options.keyName}`
+    );
+    this.currentVersion = key.latest_version;
+    this.minDecryptionVersion = key.min_decryption_version;
+  }
+
+  getCurrentVersion(): number {
+    return this.currentVersion;
+  }
+
+  getVersions(): number[] {
+    const versions: number[] = [];
+    for (let version = this.minDecryptionVersion; version <= this.currentVersion; version++) {
+      versions.push(version);
+    }
+    return versions;
+  }
+
+  async wrapKey(dek: Buffer): Promise<WrappedKey> {
+    const { ciphertext } = await this.request<{ ciphertext: string }>(
+      'POST',
+      `encrypt/${this.options.keyName}`,
+      { plaintext: dek.toString('base64') }
+    );
+
+    // Vault always encrypts with its latest version, which may be newer than
+    // the one seen at startup
+    const masterKeyVersion = this.parseVersion(ciphertext);
+    this.currentVersion = Math.max(this.currentVersion, masterKeyVersion);
+
+    // The IV and tag are part of Vault's ciphertext
+    return { encryptedKey: ciphertext, iv: '', authTag: '', masterKeyVersion };
+  }
+
+  async unwrapKey(wrapped: WrappedKey): Promise<Buffer> {
+    const { plaintext } = await this.request<{ plaintext: string }>(
+      'POST',
+      `decrypt/${this.options.keyName}`,
+      { ciphertext: wrapped.encryptedKey }
+    );
+    return Buffer.from(plaintext, 'base64');
+  }
+
+  private parseVersion(ciphertext: string): number {
+    const match = /^vault:v(\d+):/.exec(ciphertext);
+    if (!match) {
+      throw new Error('Unexpected ciphertext format from Vault transit');
+    }
+    return Number(match[1]);
+  }
+
+  private async request<T>(method: 'GET' | 'POST', path: string, body?: Record<string, string>): Promise<T> {
+    const response = await fetch(`${this.options.address}/v1/${this.options.mount}/${path}`, {
+      method,
+      headers: {
+        'X-Vault-Token': this.options.token,
+        'Content-Type': 'application/json',
+      },
+      body: body ? JSON.stringify(body) : undefined,
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? 5000),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Vault transit ${method} ${path} failed with status ${response.status}`);
+    }
+
+    const { data } = await response.json() as { data: T };
+    return data;
+  }
+}
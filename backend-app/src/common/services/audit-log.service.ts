@@ -30,6 +30,8 @@ export enum AuditResource {
   PAYMENT = 'payment',
   SUBSCRIPTION = 'subscription',
   ENCRYPTION_KEY = 'encryption_key',
+  REPORT = 'report',
+  VERIFICATION = 'verification',
 }
 
 /**
@@ -0,0 +1,108 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { EncryptionService } from './encryption.service';
+import { EncryptionKeyEntity } from '../entities/encryption-key.entity';
+import { KEY_PROVIDER } from '../key-providers/key-provider.interface';
+import { createKeyProvider } from '../key-providers/key-provider.factory';
+
+describe('EncryptionService', () => {
+  const oldMasterKey = 'a'.repeat(64);
+  const newMasterKey = 'b'.repeat(64);
+
+  // In-memory key table shared by the service instances of a test
+  let keys: EncryptionKeyEntity[];
+  const keyRepository = {
+    create: jest.fn(data => ({ id: `key-${keys.length + 1}`, ...data })),
+    save: jest.fn(async key => {
+      keys.push(key);
+      return key;
+    }),
+    findOne: jest.fn(async ({ where }) => keys.find(matches(where)) ?? null),
+    update: jest.fn(async (where, changes) => {
+      keys.filter(matches(where)).forEach(key => Object.assign(key, changes));
+    }),
+  };
+
+  function matches(where: Record<string, unknown>) {
+    return (key: EncryptionKeyEntity) =>
+      Object.entries(where).every(([field, value]) => key[field as keyof EncryptionKeyEntity] === value);
+  }
+
+  const createService = async (env: Record<string, string>) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EncryptionService,
+        { provide: getRepositoryToken(EncryptionKeyEntity), useValue: keyRepository },
+        { provide: ConfigService, useValue: { get: (key: string) => env[key] } },
+        {
+          provide: KEY_PROVIDER,
+          useFactory: async (configService: ConfigService) => {
+            const keyProvider = createKeyProvider(configService);
+            await keyProvider.initialize();
+            return keyProvider;
+          },
+          inject: [ConfigService],
+        },
+      ],
+    }).compile();
+
+    return module.get<EncryptionService>(EncryptionService);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    keys = [];
+  });
+
+  it('should treat a lone ENCRYPTION_MASTER_KEY as version 1', async () => {
+    const service = await createService({ ENCRYPTION_MASTER_KEY: oldMasterKey });
+
+    await service.encryptData('secret', 'user-1');
+
+    expect(service.getMasterKeyVersion()).toBe(1);
+    expect(keys[0].masterKeyVersion).toBe(1);
+  });
+
+  it('should wrap new keys with the newest master key', async () => {
+    const service = await createService({ ENCRYPTION_MASTER_KEYS: `1:${oldMasterKey},2:${newMasterKey}` });
+
+    await service.encryptData('secret', 'user-1');
+
+    expect(service.getMasterKeyVersions()).toEqual([1, 2]);
+    expect(keys[0].masterKeyVersion).toBe(2);
+  });
+
+  it('should refuse to start without the configured master key version', async () => {
+    await expect(createService({
+      ENCRYPTION_MASTER_KEY: oldMasterKey,
+      ENCRYPTION_MASTER_KEY_VERSION: '2',
+    })).rejects.toThrow('Master key version 2 is not configured');
+  });
+
+  it('should keep data readable after re-wrapping its key', async () => {
+    const before = await createService({ ENCRYPTION_MASTER_KEY: oldMasterKey });
+    const encrypted = await before.encryptData('secret', 'user-1');
+
+    const after = await createService({ ENCRYPTION_MASTER_KEYS: `1:${oldMasterKey},2:${newMasterKey}` });
+    await expect(after.rewrapKey(keys[0])).resolves.toBe(true);
+    await expect(after.rewrapKey(keys[0])).resolves.toBe(false);
+    expect(keys[0].masterKeyVersion).toBe(2);
+
+    // Only the new master key is needed once every key is re-wrapped
+    const rotated = await createService({ ENCRYPTION_MASTER_KEYS: `2:${newMasterKey}` });
+    await expect(rotated.decryptData(encrypted, 'user-1')).resolves.toBe('secret');
+  });
+
+  it('should re-encrypt data onto the active key', async () => {
+    const service = await createService({ ENCRYPTION_MASTER_KEY: oldMasterKey });
+    const encrypted = await service.encryptData('secret', 'user-1');
+    await expect(service.reencryptData(encrypted, 'user-1')).resolves.toBeNull();
+
+    await service.rotateUserKeys('user-1');
+    const reencrypted = await service.reencryptData(encrypted, 'user-1');
+
+    expect(reencrypted!.keyId).not.toBe(encrypted.keyId);
+    await expect(service.decryptData(reencrypted!, 'user-1')).resolves.toBe('secret');
+  });
+});
@@ -1,9 +1,9 @@
 import { Injectable, Inject, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { In, Repository } from 'typeorm';
 import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
-import { ConfigService } from '@nestjs/config';
 import { EncryptionKeyEntity } from '../entities/encryption-key.entity';
+import { KEY_PROVIDER, KeyProvider } from '../key-providers/key-provider.interface';
 
 /**
  * Interface for encrypted data with metadata
@@ -23,21 +23,25 @@ export interface EncryptedData {
 @Injectable()
 export class EncryptionService {
   private readonly logger = new Logger(EncryptionService.name);
-  private readonly masterKey: Buffer;
-
   constructor(
-    private readonly configService: ConfigService,
+    @Inject(KEY_PROVIDER)
+    private readonly keyProvider: KeyProvider,
     @InjectRepository(EncryptionKeyEntity)
     private readonly keyRepository: Repository<EncryptionKeyEntity>,
-  ) {
-    // In production, this should be loaded from a secure key management service
-    // For development, we'll use an environment variable
-    const masterKeyString = this.configService.get<string>('ENCRYPTION_MASTER_KEY');
-    if (!masterKeyString) {
-      this.logger.error('ENCRYPTION_MASTER_KEY not set in environment variables');
-      throw new Error('Encryption master key not configured');
-    }
-    this.masterKey = Buffer.from(masterKeyString, 'hex');
+  ) {}
+
+  /**
+   * Gets the master key version new DEKs are wrapped with
+   */
+  getMasterKeyVersion(): number {
+    return this.keyProvider.getCurrentVersion();
+  }
+
+  /**
+   * Gets every configured master key version
+   */
+  getMasterKeyVersions(): number[] {
+    return this.keyProvider.getVersions();
   }
 
   /**
@@ -91,19 +95,7 @@ export class EncryptionService {
       // Get the data encryption key for this user
       const dek = await this.getUserDEK(userId, encryptedData.keyId);
       
-      // Convert IV and auth tag from base64
-      const iv = Buffer.from(encryptedData.iv, 'base64');
-      const authTag = Buffer.from(encryptedData.authTag, 'base64');
-      
-      // Create decipher
-      const decipher = createDecipheriv('aes-256-gcm', dek, iv);
-      decipher.setAuthTag(authTag);
-      
-      // Decrypt the data
-      let decrypted = decipher.update(encryptedData.encryptedData, 'base64', 'utf8');
-      decrypted += decipher.final('utf8');
-      
-      return decrypted;
+      return this.decryptWithKey(encryptedData, dek);
     } catch (error) {
       this.logger.error(`Error decrypting data: ${error.message}`, error.stack);
       throw new Error('Failed to decrypt data');
@@ -175,6 +167,42 @@ export class EncryptionService {
     return this.decryptData(encryptedData, userId);
   }
 
+  /**
+   * Decrypts a batch of messages for one user, resolving each key once
+   * @param encryptedMessages The encrypted messages with metadata
+   * @param userId The user ID of the recipient
+   * @returns The decrypted messages in the same order, null where decryption failed
+   */
+  async decryptMessages(encryptedMessages: EncryptedData[], userId: string): Promise<(string | null)[]> {
+    const keyIds = [...new Set(encryptedMessages.map(message => message.keyId))];
+    const keyEntities = keyIds.length
+      ? await this.keyRepository.find({ where: { id: In(keyIds), userId, keyType: 'DEK' } })
+      : [];
+
+    const keys = new Map<string, Buffer>();
+    for (const keyEntity of keyEntities) {
+      try {
+        keys.set(keyEntity.id, await this.keyProvider.unwrapKey(keyEntity));
+      } catch (error) {
+        this.logger.error(`Error unwrapping key ${keyEntity.id}: ${error.message}`, error.stack);
+      }
+    }
+
+    return encryptedMessages.map(message => {
+      const dek = keys.get(message.keyId);
+      if (!dek) {
+        return null;
+      }
+
+      try {
+        return this.decryptWithKey(message, dek);
+      } catch (error) {
+        this.logger.error(`Error decrypting message: ${error.message}`, error.stack);
+        return null;
+      }
+    });
+  }
+
   /**
    * Generates a new encryption key pair for a user
    * @param userId The user ID
@@ -210,6 +238,37 @@ export class EncryptionService {
     }
   }
 
+  /**
+   * Re-wraps a stored DEK with the current master key. The DEK itself is
+   * unchanged, so data encrypted with it stays readable.
+   * @param keyEntity The stored key
+   * @returns False if the key was already wrapped with the current master key
+   */
+  async rewrapKey(keyEntity: EncryptionKeyEntity): Promise<boolean> {
+    if (keyEntity.masterKeyVersion === this.keyProvider.getCurrentVersion()) {
+      return false;
+    }
+
+    const wrapped = await this.keyProvider.wrapKey(await this.keyProvider.unwrapKey(keyEntity));
+    await this.keyRepository.update({ id: keyEntity.id }, wrapped);
+    return true;
+  }
+
+  /**
+   * Re-encrypts data onto the user's active DEK
+   * @param encryptedData The encrypted data with metadata
+   * @param userId The user ID whose DEK encrypted the data
+   * @returns The re-encrypted data, or null if it already uses the active DEK
+   */
+  async reencryptData(encryptedData: EncryptedData, userId: string): Promise<EncryptedData | null> {
+    if (encryptedData.keyId === await this.getKeyIdentifier(userId)) {
+      return null;
+    }
+
+    const data = await this.decryptData(encryptedData, userId);
+    return this.encryptData(data, userId);
+  }
+
   /**
    * Gets or creates a data encryption key for a user
    * @param userId The user ID
@@ -223,7 +282,7 @@ export class EncryptionService {
     forceNew = false
   ): Promise<Buffer> {
     try {
-      let keyEntity: EncryptionKeyEntity | undefined;
+      let keyEntity: EncryptionKeyEntity | null | undefined;
       
       if (!forceNew && keyId) {
         // Get a specific key by ID
@@ -242,20 +301,11 @@ export class EncryptionService {
         // Generate a new DEK
         const newKey = randomBytes(32); // 256 bits
         
-        // Encrypt the DEK with the master key
-        const iv = randomBytes(12);
-        const cipher = createCipheriv('aes-256-gcm', this.masterKey, iv);
-        let encryptedKey = cipher.update(newKey.toString('hex'), 'utf8', 'base64');
-        encryptedKey += cipher.final('base64');
-        const authTag = cipher.getAuthTag().toString('base64');
-        
-        // Store the encrypted DEK
+        // Store the DEK encrypted with the master key
         keyEntity = this.keyRepository.create({
           userId,
           keyType: 'DEK',
-          encryptedKey,
-          iv: iv.toString('base64'),
-          authTag,
+          ...(await this.keyProvider.wrapKey(newKey)),
           algorithm: 'AES-256-GCM',
           active: true,
           createdAt: new Date()
@@ -266,20 +316,35 @@ export class EncryptionService {
       }
       
       // Decrypt the stored DEK
-      const iv = Buffer.from(keyEntity.iv, 'base64');
-      const authTag = Buffer.from(keyEntity.authTag, 'base64');
-      const decipher = createDecipheriv('aes-256-gcm', this.masterKey, iv);
-      decipher.setAuthTag(authTag);
-      let decryptedKey = decipher.update(keyEntity.encryptedKey, 'base64', 'utf8');
-      decryptedKey += decipher.final('utf8');
-      
-      return Buffer.from(decryptedKey, 'hex');
+      return this.keyProvider.unwrapKey(keyEntity);
     } catch (error) {
       this.logger.error(`Error getting user DEK: ${error.message}`, error.stack);
       throw new Error('Failed to get user encryption key');
     }
   }
 
+  /**
+   * Decrypts data with an already resolved DEK
+   * @param encryptedData The encrypted data with metadata
+   * @param dek The data encryption key
+   * @returns The decrypted data
+   */
+  private decryptWithKey(encryptedData: EncryptedData, dek: Buffer): string {
+    // Convert IV and auth tag from base64
+    const iv = Buffer.from(encryptedData.iv, 'base64');
+    const authTag = Buffer.from(encryptedData.authTag, 'base64');
+    
+    // Create decipher
+    const decipher = createDecipheriv('aes-256-gcm', dek, iv);
+    decipher.setAuthTag(authTag);
+    
+    // Decrypt the data
+    let decrypted = decipher.update(encryptedData.encryptedData, 'base64', 'utf8');
+    decrypted += decipher.final('utf8');
+    
+    return decrypted;
+  }
+
   /**
    * Gets the key identifier for a user's active DEK
    * @param userId The user ID
@@ -1,5 +1,6 @@
 export default () => ({
   port: parseInt(process.env.PORT || '3000', 10),
+  appUrl: process.env.APP_URL || 'http://localhost:5173', // web app, for links in emails
   
   // Database configuration
   database: {
@@ -65,6 +66,8 @@ export default () => ({
   // Email configuration
   email: {
     service: process.env.EMAIL_SERVICE || 'smtp',
+    transport: process.env.EMAIL_TRANSPORT || 'smtp', // smtp, file (writes .eml files) or console
+    fileDir: process.env.EMAIL_FILE_DIR || 'tmp/mail', // where the file transport writes emails
     host: process.env.EMAIL_HOST || 'localhost',
     port: parseInt(process.env.EMAIL_PORT || '587', 10),
     secure: process.env.EMAIL_SECURE === 'true',
@@ -75,6 +78,38 @@ export default () => ({
     from: process.env.EMAIL_FROM || 'noreply@10date.com',
   },
   
+  // Authentication
+  auth: {
+    requireAdminMfa: process.env.REQUIRE_ADMIN_MFA === 'true', // admin routes need a login with a second factor
+    mfaIssuer: process.env.MFA_ISSUER || '10-Date', // name shown in authenticator apps
+    emailVerificationTtlHours: parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '48', 10),
+    lockout: {
+      delayAfterFailures: parseInt(process.env.LOGIN_DELAY_AFTER_FAILURES || '3', 10), // failed logins before each retry has to wait
+      maxFailures: parseInt(process.env.LOGIN_MAX_FAILURES || '10', 10), // failed logins before the account is locked
+      lockoutMinutes: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '30', 10),
+      ipDelayAfterFailures: parseInt(process.env.LOGIN_IP_DELAY_AFTER_FAILURES || '20', 10), // higher, since many users can share an IP
+      failureWindowMinutes: parseInt(process.env.LOGIN_FAILURE_WINDOW_MINUTES || '60', 10), // failures older than this are forgotten
+    },
+  },
+
+  // OAuth login; a provider is enabled once its client credentials are set
+  oauth: {
+    google: {
+      clientIds: (process.env.GOOGLE_CLIENT_IDS || '').split(',').filter(Boolean), // web, iOS and Android client IDs
+      jwksUri: process.env.GOOGLE_JWKS_URI || 'https://www.googleapis.com/oauth2/v3/certs',
+    },
+    apple: {
+      clientIds: (process.env.APPLE_CLIENT_IDS || '').split(',').filter(Boolean), // bundle ID and services ID
+      jwksUri: process.env.APPLE_JWKS_URI || 'https://appleid.apple.com/auth/keys',
+    },
+    facebook: {
+      appId: process.env.FACEBOOK_APP_ID || '',
+      appSecret: process.env.FACEBOOK_APP_SECRET || '',
+      graphUrl: process.env.FACEBOOK_GRAPH_URL || 'https://graph.facebook.com/v19.0',
+    },
+    signupTtlMinutes: parseInt(process.env.OAUTH_SIGNUP_TTL_MINUTES || '30', 10), // time to finish onboarding after the provider login
+  },
+
   // Push notifications
   pushNotifications: {
     enabled: process.env.PUSH_NOTIFICATIONS_ENABLED === 'true',
@@ -87,11 +122,19 @@ export default () => ({
     max: parseInt(process.env.RATE_LIMIT_MAX || '100', 10), // limit each IP to 100 requests per windowMs
   },
   
+  // Chat
+  messaging: {
+    presenceTtlSeconds: parseInt(process.env.PRESENCE_TTL_SECONDS || '120', 10), // online/away lapse without a heartbeat
+    strictEncryption: process.env.MESSAGING_STRICT_ENCRYPTION === 'true', // never store or serve plaintext message content
+    editWindowMinutes: parseInt(process.env.MESSAGE_EDIT_WINDOW_MINUTES || '15', 10), // how long after sending a message can be edited
+  },
+  
   // Matching algorithm parameters
   matching: {
     defaultRadius: parseInt(process.env.DEFAULT_MATCH_RADIUS || '50', 10), // in km
     maxRadius: parseInt(process.env.MAX_MATCH_RADIUS || '160', 10), // in km
-    maxDailySwipes: {
+    reciprocalScoring: process.env.RECIPROCAL_SCORING !== 'false', // score both directions
+    maxDailySwipes: { // counts likes only; passes are not limited
       free: parseInt(process.env.MAX_DAILY_SWIPES_FREE || '100', 10),
       premium: parseInt(process.env.MAX_DAILY_SWIPES_PREMIUM || '0', 10), // 0 means unlimited
     },
@@ -104,5 +147,14 @@ export default () => ({
       free: parseInt(process.env.BOOSTS_PER_DAY_FREE || '0', 10),
       premium: parseInt(process.env.BOOSTS_PER_DAY_PREMIUM || '1', 10),
     },
+    rewindWindowMinutes: parseInt(process.env.REWIND_WINDOW_MINUTES || '5', 10), // how recent a swipe must be to rewind
+    firstMessageWindowHours: parseInt(process.env.FIRST_MESSAGE_WINDOW_HOURS || '72', 10),
+    matchExpiryWarningHours: parseInt(process.env.MATCH_EXPIRY_WARNING_HOURS || '6', 10),
+    matchExtensionHours: parseInt(process.env.MATCH_EXTENSION_HOURS || '24', 10),
+    matchExpiryJobIntervalSeconds: parseInt(process.env.MATCH_EXPIRY_JOB_INTERVAL_SECONDS || '300', 10), // 0 disables the job
+    rewindsPerDay: {
+      free: parseInt(process.env.REWINDS_PER_DAY_FREE || '0', 10),
+      premium: parseInt(process.env.REWINDS_PER_DAY_PREMIUM || '10', 10),
+    },
   },
 });
@@ -0,0 +1,51 @@
+import { IsBoolean, IsNotEmpty, IsNumber, IsObject, IsOptional, IsString, MaxLength, Min, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class VariantWeightsDto {
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  interest?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  demographic?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  location?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  behavioral?: number;
+}
+
+export class VariantParametersDto {
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => VariantWeightsDto)
+  weights?: VariantWeightsDto;
+
+  @IsOptional()
+  @IsBoolean()
+  reciprocal?: boolean;
+}
+
+export class CreateVariantDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => VariantParametersDto)
+  parameters: VariantParametersDto;
+}
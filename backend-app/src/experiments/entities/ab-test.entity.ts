@@ -0,0 +1,59 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { AlgorithmVariantEntity } from './algorithm-variant.entity';
+
+/**
+ * Enum for A/B test lifecycle status
+ */
+export enum AbTestStatus {
+  SCHEDULED = 'SCHEDULED',
+  RUNNING = 'RUNNING',
+  COMPLETED = 'COMPLETED',
+  CANCELLED = 'CANCELLED',
+}
+
+/**
+ * Entity for an A/B test comparing a control and a test algorithm variant
+ */
+@Entity('ab_tests')
+export class AbTestEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ length: 100 })
+  name: string;
+
+  @Column({ type: 'text', nullable: true })
+  description: string;
+
+  @Column({ name: 'start_date', type: 'timestamp' })
+  startDate: Date;
+
+  @Column({ name: 'end_date', type: 'timestamp', nullable: true })
+  endDate: Date | null;
+
+  @Column({ name: 'control_variant_id', type: 'uuid' })
+  controlVariantId: string;
+
+  @ManyToOne(() => AlgorithmVariantEntity)
+  @JoinColumn({ name: 'control_variant_id' })
+  controlVariant: AlgorithmVariantEntity;
+
+  @Column({ name: 'test_variant_id', type: 'uuid' })
+  testVariantId: string;
+
+  @ManyToOne(() => AlgorithmVariantEntity)
+  @JoinColumn({ name: 'test_variant_id' })
+  testVariant: AlgorithmVariantEntity;
+
+  @Column({ name: 'traffic_allocation', type: 'float', default: 0.5 })
+  trafficAllocation: number;
+
+  @Column({ length: 20, default: AbTestStatus.SCHEDULED })
+  status: AbTestStatus;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
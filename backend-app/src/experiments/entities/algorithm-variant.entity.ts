@@ -0,0 +1,42 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+
+/**
+ * Parameters of a matching algorithm variant
+ */
+export interface AlgorithmVariantParameters {
+  weights?: {
+    interest?: number;
+    demographic?: number;
+    location?: number;
+    behavioral?: number;
+  };
+  reciprocal?: boolean;
+  [key: string]: any;
+}
+
+/**
+ * Entity for a variant of the matching algorithm used in A/B tests
+ */
+@Entity('algorithm_variants')
+export class AlgorithmVariantEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ length: 100 })
+  name: string;
+
+  @Column({ type: 'text', nullable: true })
+  description: string;
+
+  @Column({ type: 'jsonb' })
+  parameters: AlgorithmVariantParameters;
+
+  @Column({ name: 'is_active', default: false })
+  isActive: boolean;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
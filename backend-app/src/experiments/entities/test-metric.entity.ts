@@ -0,0 +1,31 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
+
+/**
+ * Entity for an aggregated outcome metric of a variant in an A/B test
+ */
+@Entity('test_metrics')
+export class TestMetricEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'test_id', type: 'uuid' })
+  testId: string;
+
+  @Column({ name: 'variant_id', type: 'uuid' })
+  variantId: string;
+
+  @Column({ name: 'metric_name', length: 50 })
+  metricName: string;
+
+  @Column({ name: 'metric_value', type: 'float' })
+  metricValue: number;
+
+  @Column({ name: 'sample_size', type: 'integer' })
+  sampleSize: number;
+
+  @Column({ name: 'confidence_level', type: 'float', nullable: true })
+  confidenceLevel: number | null;
+
+  @CreateDateColumn({ name: 'calculated_at' })
+  calculatedAt: Date;
+}
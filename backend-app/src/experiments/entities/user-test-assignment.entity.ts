@@ -0,0 +1,23 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+/**
+ * Entity recording which variant of a test a user was assigned to
+ */
+@Entity('user_test_assignments')
+@Index('IDX_USER_TEST_UNIQUE', ['userId', 'testId'], { unique: true })
+export class UserTestAssignmentEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @Column({ name: 'test_id', type: 'uuid' })
+  testId: string;
+
+  @Column({ name: 'variant_id', type: 'uuid' })
+  variantId: string;
+
+  @CreateDateColumn({ name: 'assigned_at' })
+  assignedAt: Date;
+}
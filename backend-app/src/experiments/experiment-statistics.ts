@@ -0,0 +1,46 @@
+/**
+ * Statistical helpers for evaluating A/B test outcomes
+ */
+
+/**
+ * Standard normal cumulative distribution function
+ * Uses the Abramowitz and Stegun approximation of erf (max error 1.5e-7)
+ */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t +
+      0.254829592) *
+      t *
+      Math.exp(-x * x);
+
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Confidence that two proportions differ, using a two-sided two-proportion z-test
+ * @param successesA Successes in group A
+ * @param totalA Trials in group A
+ * @param successesB Successes in group B
+ * @param totalB Trials in group B
+ * @returns Confidence level between 0 and 1, or null when either group is empty
+ */
+export function twoProportionConfidence(
+  successesA: number,
+  totalA: number,
+  successesB: number,
+  totalB: number,
+): number | null {
+  if (totalA === 0 || totalB === 0) return null;
+
+  const pooled = (successesA + successesB) / (totalA + totalB);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / totalA + 1 / totalB));
+  if (standardError === 0) return 0;
+
+  const z = (successesA / totalA - successesB / totalB) / standardError;
+  const pValue = 2 * (1 - normalCdf(Math.abs(z)));
+
+  return 1 - pValue;
+}
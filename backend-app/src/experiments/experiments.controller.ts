@@ -0,0 +1,72 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Body,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+  DefaultValuePipe,
+  ParseBoolPipe,
+} from '@nestjs/common';
+import { ExperimentsService } from './experiments.service';
+import { CreateVariantDto } from './dto/create-variant.dto';
+import { CreateAbTestDto } from './dto/create-ab-test.dto';
+import { Roles } from '../auth/roles.decorator';
+import { RolesGuard } from '../auth/roles.guard';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+
+/**
+ * Admin endpoints for managing matching algorithm A/B tests
+ */
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('admin/experiments')
+export class ExperimentsController {
+  constructor(private readonly experimentsService: ExperimentsService) {}
+
+  @Roles('admin')
+  @Get('variants')
+  async getVariants() {
+    return this.experimentsService.getVariants();
+  }
+
+  @Roles('admin')
+  @Post('variants')
+  async createVariant(@Body() dto: CreateVariantDto) {
+    return this.experimentsService.createVariant(dto);
+  }
+
+  @Roles('admin')
+  @Get()
+  async getTests() {
+    return this.experimentsService.getTests();
+  }
+
+  @Roles('admin')
+  @Post()
+  async createTest(@Body() dto: CreateAbTestDto) {
+    return this.experimentsService.createTest(dto);
+  }
+
+  @Roles('admin')
+  @Post(':id/start')
+  async startTest(@Param('id', ParseUUIDPipe) id: string) {
+    return this.experimentsService.startTest(id);
+  }
+
+  @Roles('admin')
+  @Post(':id/stop')
+  async stopTest(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('cancel', new DefaultValuePipe(false), ParseBoolPipe) cancel: boolean,
+  ) {
+    return this.experimentsService.stopTest(id, cancel);
+  }
+
+  @Roles('admin')
+  @Get(':id/results')
+  async getResults(@Param('id', ParseUUIDPipe) id: string) {
+    return this.experimentsService.getResults(id);
+  }
+}
@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ExperimentsController } from './experiments.controller';
+import { ExperimentsService } from './experiments.service';
+import { AlgorithmVariantEntity } from './entities/algorithm-variant.entity';
+import { AbTestEntity } from './entities/ab-test.entity';
+import { UserTestAssignmentEntity } from './entities/user-test-assignment.entity';
+import { TestMetricEntity } from './entities/test-metric.entity';
+import { SwipeEntity } from '../matching/match.entity/swipe.entity';
+import { MatchEntity } from '../matching/match.entity/match.entity';
+import { MessageEntity } from '../messaging/message.entity/message.entity';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      AlgorithmVariantEntity,
+      AbTestEntity,
+      UserTestAssignmentEntity,
+      TestMetricEntity,
+      SwipeEntity,
+      MatchEntity,
+      MessageEntity,
+    ]),
+    AuthModule,
+  ],
+  controllers: [ExperimentsController],
+  providers: [ExperimentsService],
+  exports: [ExperimentsService],
+})
+export class ExperimentsModule {}
@@ -0,0 +1,123 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ExperimentsService } from './experiments.service';
+import { AlgorithmVariantEntity } from './entities/algorithm-variant.entity';
+import { AbTestEntity, AbTestStatus } from './entities/ab-test.entity';
+import { UserTestAssignmentEntity } from './entities/user-test-assignment.entity';
+import { TestMetricEntity } from './entities/test-metric.entity';
+import { SwipeEntity } from '../matching/match.entity/swipe.entity';
+import { MatchEntity } from '../matching/match.entity/match.entity';
+import { MessageEntity } from '../messaging/message.entity/message.entity';
+import { DEFAULT_MATCHING_WEIGHTS } from '../matching/services/matching-factors.service';
+import { twoProportionConfidence } from './experiment-statistics';
+
+describe('ExperimentsService', () => {
+  let service: ExperimentsService;
+  let testRepo: any;
+  let assignmentRepo: any;
+
+  const control = { id: 'control', parameters: {} } as AlgorithmVariantEntity;
+  const variant = {
+    id: 'variant',
+    parameters: { weights: { interest: 0.1, behavioral: 0.4 } },
+  } as AlgorithmVariantEntity;
+
+  const runningTest = (trafficAllocation: number) =>
+    ({
+      id: 'test-1',
+      status: AbTestStatus.RUNNING,
+      controlVariantId: control.id,
+      controlVariant: control,
+      testVariantId: variant.id,
+      testVariant: variant,
+      trafficAllocation,
+      endDate: null,
+    }) as AbTestEntity;
+
+  beforeEach(async () => {
+    testRepo = { findOne: jest.fn() };
+    assignmentRepo = {
+      findOne: jest.fn().mockResolvedValue(null),
+      create: jest.fn(data => data),
+      save: jest.fn(data => Promise.resolve(data)),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExperimentsService,
+        { provide: getRepositoryToken(AlgorithmVariantEntity), useValue: {} },
+        { provide: getRepositoryToken(AbTestEntity), useValue: testRepo },
+        { provide: getRepositoryToken(UserTestAssignmentEntity), useValue: assignmentRepo },
+        { provide: getRepositoryToken(TestMetricEntity), useValue: {} },
+        { provide: getRepositoryToken(SwipeEntity), useValue: {} },
+        { provide: getRepositoryToken(MatchEntity), useValue: {} },
+        { provide: getRepositoryToken(MessageEntity), useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<ExperimentsService>(ExperimentsService);
+  });
+
+  it('should use the default weights when no test is running', async () => {
+    testRepo.findOne.mockResolvedValue(null);
+
+    await expect(service.getMatchingWeights('user-1')).resolves.toEqual({
+      weights: DEFAULT_MATCHING_WEIGHTS,
+      variantId: null,
+    });
+  });
+
+  it('should assign users deterministically', async () => {
+    testRepo.findOne.mockResolvedValue(runningTest(0.5));
+
+    const first = await service.getAssignedVariant('user-1');
+    const second = await service.getAssignedVariant('user-1');
+
+    expect(first!.id).toBe(second!.id);
+  });
+
+  it('should respect the traffic allocation', async () => {
+    testRepo.findOne.mockResolvedValue(runningTest(0.3));
+
+    const assignments = await Promise.all(
+      Array.from({ length: 1000 }, (_, i) => service.getAssignedVariant(`user-${i}`)),
+    );
+    const inVariant = assignments.filter(v => v!.id === variant.id).length;
+
+    expect(inVariant / 1000).toBeGreaterThan(0.25);
+    expect(inVariant / 1000).toBeLessThan(0.35);
+  });
+
+  it('should reuse an existing assignment', async () => {
+    testRepo.findOne.mockResolvedValue(runningTest(0));
+    assignmentRepo.findOne.mockResolvedValue({ variantId: variant.id });
+
+    const assigned = await service.getAssignedVariant('user-1');
+
+    expect(assigned).toBe(variant);
+    expect(assignmentRepo.save).not.toHaveBeenCalled();
+  });
+
+  it('should merge variant weights over the defaults', async () => {
+    testRepo.findOne.mockResolvedValue(runningTest(1));
+
+    const { weights, variantId } = await service.getMatchingWeights('user-1');
+
+    expect(variantId).toBe(variant.id);
+    expect(weights).toEqual({ ...DEFAULT_MATCHING_WEIGHTS, interest: 0.1, behavioral: 0.4 });
+  });
+});
+
+describe('twoProportionConfidence', () => {
+  it('should return null for an empty group', () => {
+    expect(twoProportionConfidence(1, 0, 1, 10)).toBeNull();
+  });
+
+  it('should report high confidence for a large difference', () => {
+    expect(twoProportionConfidence(600, 1000, 400, 1000)).toBeGreaterThan(0.99);
+  });
+
+  it('should report low confidence for equal proportions', () => {
+    expect(twoProportionConfidence(50, 100, 50, 100)).toBeCloseTo(0);
+  });
+});
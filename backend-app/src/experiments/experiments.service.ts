@@ -0,0 +1,403 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { createHash } from 'crypto';
+import { AlgorithmVariantEntity } from './entities/algorithm-variant.entity';
+import { AbTestEntity, AbTestStatus } from './entities/ab-test.entity';
+import { UserTestAssignmentEntity } from './entities/user-test-assignment.entity';
+import { TestMetricEntity } from './entities/test-metric.entity';
+import { CreateVariantDto } from './dto/create-variant.dto';
+import { CreateAbTestDto } from './dto/create-ab-test.dto';
+import { twoProportionConfidence } from './experiment-statistics';
+import { SwipeEntity } from '../matching/match.entity/swipe.entity';
+import { MatchEntity } from '../matching/match.entity/match.entity';
+import { MessageEntity } from '../messaging/message.entity/message.entity';
+import {
+  DEFAULT_MATCHING_WEIGHTS,
+  MatchingWeights,
+} from '../matching/services/matching-factors.service';
+
+/**
+ * Matching weights resolved for a user, with the variant they came from
+ * reciprocal is only set when the variant overrides the configured scoring mode
+ */
+export interface ResolvedMatchingWeights {
+  weights: MatchingWeights;
+  variantId: string | null;
+  reciprocal?: boolean;
+}
+
+/**
+ * Raw outcome counts of one variant over the test window
+ */
+interface VariantOutcomes {
+  sampleSize: number;
+  swipes: number;
+  likes: number;
+  matches: number;
+  conversations: number;
+}
+
+/**
+ * Outcome metrics tracked for every A/B test
+ */
+export enum TestMetricName {
+  LIKE_RATE = 'like_rate',
+  MATCH_RATE = 'match_rate',
+  CONVERSATION_RATE = 'conversation_rate',
+}
+
+/**
+ * Service for running A/B tests on the matching algorithm
+ */
+@Injectable()
+export class ExperimentsService {
+  private readonly logger = new Logger(ExperimentsService.name);
+
+  constructor(
+    @InjectRepository(AlgorithmVariantEntity)
+    private readonly variantRepo: Repository<AlgorithmVariantEntity>,
+    @InjectRepository(AbTestEntity)
+    private readonly testRepo: Repository<AbTestEntity>,
+    @InjectRepository(UserTestAssignmentEntity)
+    private readonly assignmentRepo: Repository<UserTestAssignmentEntity>,
+    @InjectRepository(TestMetricEntity)
+    private readonly metricRepo: Repository<TestMetricEntity>,
+    @InjectRepository(SwipeEntity)
+    private readonly swipeRepo: Repository<SwipeEntity>,
+    @InjectRepository(MatchEntity)
+    private readonly matchRepo: Repository<MatchEntity>,
+    @InjectRepository(MessageEntity)
+    private readonly messageRepo: Repository<MessageEntity>,
+  ) {}
+
+  /**
+   * Create a new algorithm variant
+   * @param dto Variant name, description and parameters
+   */
+  async createVariant(dto: CreateVariantDto): Promise<AlgorithmVariantEntity> {
+    const variant = this.variantRepo.create({
+      name: dto.name,
+      description: dto.description,
+      parameters: dto.parameters,
+    });
+    return this.variantRepo.save(variant);
+  }
+
+  /**
+   * List all algorithm variants
+   */
+  async getVariants(): Promise<AlgorithmVariantEntity[]> {
+    return this.variantRepo.find({ order: { createdAt: 'DESC' } });
+  }
+
+  /**
+   * Create a scheduled A/B test between two existing variants
+   * @param dto Test definition
+   */
+  async createTest(dto: CreateAbTestDto): Promise<AbTestEntity> {
+    if (dto.controlVariantId === dto.testVariantId) {
+      throw new BadRequestException('Control and test variants must differ');
+    }
+
+    const variantCount = await this.variantRepo.count({
+      where: [{ id: dto.controlVariantId }, { id: dto.testVariantId }],
+    });
+    if (variantCount !== 2) {
+      throw new NotFoundException('Control or test variant not found');
+    }
+
+    const test = this.testRepo.create({
+      name: dto.name,
+      description: dto.description,
+      controlVariantId: dto.controlVariantId,
+      testVariantId: dto.testVariantId,
+      trafficAllocation: dto.trafficAllocation ?? 0.5,
+      startDate: dto.startDate ? new Date(dto.startDate) : new Date(),
+      endDate: dto.endDate ? new Date(dto.endDate) : null,
+      status: AbTestStatus.SCHEDULED,
+    });
+    return this.testRepo.save(test);
+  }
+
+  /**
+   * List A/B tests, newest first
+   */
+  async getTests(): Promise<AbTestEntity[]> {
+    return this.testRepo.find({
+      relations: ['controlVariant', 'testVariant'],
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Start a scheduled test. Only one test can run at a time.
+   * @param testId The test ID
+   */
+  async startTest(testId: string): Promise<AbTestEntity> {
+    const test = await this.getTest(testId);
+    if (test.status !== AbTestStatus.SCHEDULED) {
+      throw new BadRequestException(`Cannot start a test in status ${test.status}`);
+    }
+
+    const running = await this.testRepo.findOne({
+      where: { status: AbTestStatus.RUNNING },
+    });
+    if (running) {
+      throw new BadRequestException(`Test ${running.id} is already running`);
+    }
+
+    test.status = AbTestStatus.RUNNING;
+    test.startDate = new Date();
+    return this.testRepo.save(test);
+  }
+
+  /**
+   * Stop a test and record its final metrics
+   * @param testId The test ID
+   * @param cancel Cancel the test instead of completing it
+   */
+  async stopTest(testId: string, cancel = false): Promise<AbTestEntity> {
+    const test = await this.getTest(testId);
+    if (test.status !== AbTestStatus.RUNNING && test.status !== AbTestStatus.SCHEDULED) {
+      throw new BadRequestException(`Cannot stop a test in status ${test.status}`);
+    }
+
+    const wasRunning = test.status === AbTestStatus.RUNNING;
+    test.status = cancel ? AbTestStatus.CANCELLED : AbTestStatus.COMPLETED;
+    test.endDate = new Date();
+    await this.testRepo.save(test);
+
+    if (wasRunning && !cancel) {
+      await this.recordMetrics(test);
+    }
+
+    return test;
+  }
+
+  /**
+   * Get the results of a test. Metrics are recalculated while the test is
+   * running; finished tests return the last recorded snapshot.
+   * @param testId The test ID
+   */
+  async getResults(testId: string) {
+    const test = await this.getTest(testId);
+
+    if (test.status === AbTestStatus.RUNNING) {
+      await this.recordMetrics(test);
+    }
+
+    const metrics = await this.metricRepo.find({
+      where: { testId },
+      order: { calculatedAt: 'DESC' },
+    });
+
+    // Keep only the latest value of each metric per variant
+    const latest = new Map<string, TestMetricEntity>();
+    for (const metric of metrics) {
+      const key = `${metric.variantId}:${metric.metricName}`;
+      if (!latest.has(key)) latest.set(key, metric);
+    }
+
+    const summarize = (variantId: string) =>
+      [...latest.values()]
+        .filter(metric => metric.variantId === variantId)
+        .reduce((acc, metric) => ({
+          ...acc,
+          [metric.metricName]: {
+            value: metric.metricValue,
+            sampleSize: metric.sampleSize,
+            confidence: metric.confidenceLevel,
+          },
+        }), {} as Record<string, { value: number; sampleSize: number; confidence: number | null }>);
+
+    return {
+      test,
+      control: { variantId: test.controlVariantId, metrics: summarize(test.controlVariantId) },
+      variant: { variantId: test.testVariantId, metrics: summarize(test.testVariantId) },
+    };
+  }
+
+  /**
+   * Get the algorithm variant a user is assigned to in the running test
+   * Users are assigned deterministically on first request and the assignment is persisted
+   * @param userId The user ID
+   * @returns The assigned variant, or null when no test is running
+   */
+  async getAssignedVariant(userId: string): Promise<AlgorithmVariantEntity | null> {
+    const test = await this.getRunningTest();
+    if (!test) return null;
+
+    let assignment = await this.assignmentRepo.findOne({
+      where: { userId, testId: test.id },
+    });
+
+    if (!assignment) {
+      const variantId = this.bucketUser(userId, test);
+      try {
+        assignment = await this.assignmentRepo.save(
+          this.assignmentRepo.create({ userId, testId: test.id, variantId }),
+        );
+      } catch (error) {
+        // A concurrent request may have assigned the user first
+        assignment = await this.assignmentRepo.findOne({
+          where: { userId, testId: test.id },
+        });
+        if (!assignment) throw error;
+      }
+    }
+
+    return assignment.variantId === test.testVariantId
+      ? test.testVariant
+      : test.controlVariant;
+  }
+
+  /**
+   * Resolve the matching weights for a user from their assigned variant
+   * Falls back to the default weights when no test is running
+   * @param userId The user ID
+   */
+  async getMatchingWeights(userId: string): Promise<ResolvedMatchingWeights> {
+    try {
+      const variant = await this.getAssignedVariant(userId);
+      if (!variant) {
+        return { weights: DEFAULT_MATCHING_WEIGHTS, variantId: null };
+      }
+
+      return {
+        weights: { ...DEFAULT_MATCHING_WEIGHTS, ...(variant.parameters?.weights || {}) },
+        variantId: variant.id,
+        reciprocal: variant.parameters?.reciprocal,
+      };
+    } catch (error) {
+      // Experiments must never break matching
+      this.logger.error(`Failed to resolve matching weights: ${error.message}`, error.stack);
+      return { weights: DEFAULT_MATCHING_WEIGHTS, variantId: null };
+    }
+  }
+
+  /**
+   * Deterministically bucket a user into the control or test variant
+   * The same user and test always hash to the same bucket
+   */
+  private bucketUser(userId: string, test: AbTestEntity): string {
+    const hash = createHash('sha256').update(`${test.id}:${userId}`).digest();
+    const bucket = hash.readUInt32BE(0) / 0x100000000;
+
+    return bucket < test.trafficAllocation ? test.testVariantId : test.controlVariantId;
+  }
+
+  private async getRunningTest(): Promise<AbTestEntity | null> {
+    const test = await this.testRepo.findOne({
+      where: { status: AbTestStatus.RUNNING },
+      relations: ['controlVariant', 'testVariant'],
+      order: { startDate: 'DESC' },
+    });
+
+    if (!test || (test.endDate && test.endDate < new Date())) {
+      return null;
+    }
+
+    return test;
+  }
+
+  private async getTest(testId: string): Promise<AbTestEntity> {
+    const test = await this.testRepo.findOne({
+      where: { id: testId },
+      relations: ['controlVariant', 'testVariant'],
+    });
+    if (!test) {
+      throw new NotFoundException(`A/B test with ID ${testId} not found`);
+    }
+    return test;
+  }
+
+  /**
+   * Calculate outcome metrics for both variants and store them in test_metrics
+   * Confidence is the two-sided z-test confidence that the variant differs from control
+   */
+  private async recordMetrics(test: AbTestEntity): Promise<void> {
+    const control = await this.getVariantOutcomes(test, test.controlVariantId);
+    const variant = await this.getVariantOutcomes(test, test.testVariantId);
+
+    const definitions: Array<[TestMetricName, keyof VariantOutcomes, keyof VariantOutcomes]> = [
+      [TestMetricName.LIKE_RATE, 'likes', 'swipes'],
+      [TestMetricName.MATCH_RATE, 'matches', 'likes'],
+      [TestMetricName.CONVERSATION_RATE, 'conversations', 'matches'],
+    ];
+
+    const metrics: TestMetricEntity[] = [];
+    for (const [metricName, successes, trials] of definitions) {
+      const confidence = twoProportionConfidence(
+        variant[successes], variant[trials],
+        control[successes], control[trials],
+      );
+
+      for (const [variantId, outcomes] of [
+        [test.controlVariantId, control],
+        [test.testVariantId, variant],
+      ] as Array<[string, VariantOutcomes]>) {
+        metrics.push(this.metricRepo.create({
+          testId: test.id,
+          variantId,
+          metricName,
+          metricValue: outcomes[trials] > 0 ? outcomes[successes] / outcomes[trials] : 0,
+          sampleSize: outcomes.sampleSize,
+          confidenceLevel: confidence,
+        }));
+      }
+    }
+
+    await this.metricRepo.save(metrics);
+  }
+
+  /**
+   * Count swipes, likes, matches and conversations attributed to a variant
+   * within the test window, restricted to users assigned to that variant
+   */
+  private async getVariantOutcomes(test: AbTestEntity, variantId: string): Promise<VariantOutcomes> {
+    const windowEnd = test.endDate || new Date();
+    const window = { variantId, startDate: test.startDate, endDate: windowEnd, testId: test.id };
+    const assignedUsers = `(SELECT assignment.user_id FROM user_test_assignments assignment
+      WHERE assignment.test_id = :testId AND assignment.variant_id = :variantId)`;
+
+    const sampleSize = await this.assignmentRepo.count({
+      where: { testId: test.id, variantId },
+    });
+
+    const swipeCounts = await this.swipeRepo
+      .createQueryBuilder('swipe')
+      .select('COUNT(*)', 'swipes')
+      .addSelect(`SUM(CASE WHEN swipe.direction IN ('like', 'superlike') THEN 1 ELSE 0 END)`, 'likes')
+      .where('swipe.algorithmVariantId = :variantId')
+      .andWhere('swipe.createdAt BETWEEN :startDate AND :endDate')
+      .andWhere(`swipe.fromUserId IN ${assignedUsers}`)
+      .setParameters(window)
+      .getRawOne<{ swipes: string; likes: string | null }>();
+
+    const matchCounts = await this.matchRepo
+      .createQueryBuilder('match')
+      .select('COUNT(*)', 'matches')
+      .addSelect(
+        `COUNT(*) FILTER (WHERE EXISTS (${this.messageRepo
+          .createQueryBuilder('message')
+          .select('1')
+          .where('message.matchId = match.id')
+          .getQuery()}))`,
+        'conversations',
+      )
+      .where('match.algorithmVariantId = :variantId')
+      .andWhere('match.createdAt BETWEEN :startDate AND :endDate')
+      .andWhere(`match.user1Id IN ${assignedUsers}`)
+      .setParameters(window)
+      .getRawOne<{ matches: string; conversations: string }>();
+
+    return {
+      sampleSize,
+      swipes: Number(swipeCounts?.swipes || 0),
+      likes: Number(swipeCounts?.likes || 0),
+      matches: Number(matchCounts?.matches || 0),
+      conversations: Number(matchCounts?.conversations || 0),
+    };
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Enum for the transactional emails the app sends
+ */
+export enum MailTemplate {
+  EMAIL_VERIFICATION = 'email_verification',
+  PASSWORD_RESET = 'password_reset',
+  LOGIN_ALERT = 'login_alert',
+  DATA_EXPORT_READY = 'data_export_ready',
+  ACCOUNT_LOCKED = 'account_locked',
+}
+
+/**
+ * Data each template is rendered with
+ */
+export interface MailTemplateData {
+  [MailTemplate.EMAIL_VERIFICATION]: { name: string; verifyUrl: string; expiresInHours: number };
+  [MailTemplate.PASSWORD_RESET]: { name: string; resetUrl: string; expiresInMinutes: number };
+  [MailTemplate.LOGIN_ALERT]: {
+    name: string;
+    time: Date;
+    userAgent?: string;
+    ipAddress?: string;
+    accountUrl: string;
+  };
+  [MailTemplate.DATA_EXPORT_READY]: { name: string; downloadUrl: string; expiresAt: Date };
+  [MailTemplate.ACCOUNT_LOCKED]: { failures: number; lockedUntil: Date; unlockUrl: string };
+}
+
+/**
+ * A rendered email, without its recipient
+ */
+export interface RenderedMail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Content of an email: paragraphs of plain text, and at most one link
+ * rendered as a button
+ */
+interface MailContent {
+  subject: string;
+  paragraphs: string[];
+  action?: { label: string; url: string };
+  footer?: string;
+}
+
+const APP_NAME = '10-Date';
+
+const templates: { [T in MailTemplate]: (data: MailTemplateData[T]) => MailContent } = {
+  [MailTemplate.EMAIL_VERIFICATION]: data => ({
+    subject: `Confirm your ${APP_NAME} email address`,
+    paragraphs: [
+      `Hi ${data.name},`,
+      `Welcome to ${APP_NAME}! Confirm your email address to start messaging your matches.`,
+    ],
+    action: { label: 'Confirm email address', url: data.verifyUrl },
+    footer: `The link expires in ${data.expiresInHours} hours. If you did not sign up, you can ignore this email.`,
+  }),
+
+  [MailTemplate.PASSWORD_RESET]: data => ({
+    subject: `Reset your ${APP_NAME} password`,
+    paragraphs: [
+      `Hi ${data.name},`,
+      'We received a request to reset your password.',
+    ],
+    action: { label: 'Choose a new password', url: data.resetUrl },
+    footer: `The link expires in ${data.expiresInMinutes} minutes. If you did not ask for it, your password stays unchanged.`,
+  }),
+
+  [MailTemplate.LOGIN_ALERT]: data => ({
+    subject: `New sign-in to your ${APP_NAME} account`,
+    paragraphs: [
+      `Hi ${data.name},`,
+      `Your account was signed in to from a new device on ${data.time.toUTCString()}.`,
+      `Device: ${data.userAgent || 'unknown'}\nIP address: ${data.ipAddress || 'unknown'}`,
+      'If this was you, there is nothing to do. If not, change your password right away.',
+    ],
+    action: { label: 'Go to your account', url: data.accountUrl },
+  }),
+
+  [MailTemplate.DATA_EXPORT_READY]: data => ({
+    subject: `Your ${APP_NAME} data export is ready`,
+    paragraphs: [
+      `Hi ${data.name},`,
+      'The copy of your data you asked for is ready to download.',
+    ],
+    action: { label: 'Download your data', url: data.downloadUrl },
+    footer: `The download is available until ${data.expiresAt.toUTCString()}.`,
+  }),
+
+  [MailTemplate.ACCOUNT_LOCKED]: data => ({
+    subject: `Your ${APP_NAME} account has been locked`,
+    paragraphs: [
+      `We locked your account after ${data.failures} failed login attempts. ` +
+        `It unlocks by itself at ${data.lockedUntil.toUTCString()}.`,
+      'If this was you, you can unlock it now.',
+    ],
+    action: { label: 'Unlock my account', url: data.unlockUrl },
+    footer: 'If it was not you, consider changing your password once you are back in.',
+  }),
+};
+
+/**
+ * Render a template as plain text and HTML
+ */
+export function renderMailTemplate<T extends MailTemplate>(template: T, data: MailTemplateData[T]): RenderedMail {
+  const content = templates[template](data);
+
+  const text = [
+    ...content.paragraphs,
+    ...(content.action ? [`${content.action.label}: ${content.action.url}`] : []),
+    ...(content.footer ? [content.footer] : []),
+  ].join('\n\n');
+
+  const html = [
+    '<div style="font-family: sans-serif; max-width: 560px">',
+    ...content.paragraphs.map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`),
+    ...(content.action
+      ? [
+          `<p><a href="${escapeHtml(content.action.url)}" style="display: inline-block; padding: 10px 16px; ` +
+            'background: #e91e63; color: #fff; text-decoration: none; border-radius: 4px">' +
+            `${escapeHtml(content.action.label)}</a></p>`,
+        ]
+      : []),
+    ...(content.footer ? [`<p style="color: #666; font-size: 12px">${escapeHtml(content.footer)}</p>`] : []),
+    '</div>',
+  ].join('\n');
+
+  return { subject: content.subject, text, html };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
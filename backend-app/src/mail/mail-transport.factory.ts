@@ -0,0 +1,33 @@
+import { ConfigService } from '@nestjs/config';
+import { MailTransport } from './mail-transport.interface';
+import { SmtpMailTransport } from './transports/smtp.transport';
+import { FileMailTransport } from './transports/file.transport';
+import { ConsoleMailTransport } from './transports/console.transport';
+
+/**
+ * Create the transport selected by EMAIL_TRANSPORT
+ * (`smtp`, `file` or `console`; `smtp` by default)
+ * @throws Error if the transport is unknown
+ */
+export function createMailTransport(configService: ConfigService): MailTransport {
+  const transportName = configService.get<string>('email.transport') || 'smtp';
+
+  switch (transportName) {
+    case 'smtp':
+      return new SmtpMailTransport({
+        host: configService.get<string>('email.host')!,
+        port: configService.get<number>('email.port')!,
+        secure: !!configService.get<boolean>('email.secure'),
+        auth: configService.get<string>('email.auth.user') ? configService.get('email.auth') : undefined,
+      });
+
+    case 'file':
+      return new FileMailTransport(configService.get<string>('email.fileDir') || 'tmp/mail');
+
+    case 'console':
+      return new ConsoleMailTransport();
+
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT ${transportName}`);
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * An email ready to hand to a transport
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Delivers rendered emails. SMTP is used in production; the file and
+ * console transports let emails be read locally without a mail server.
+ */
+export interface MailTransport {
+  readonly name: string;
+
+  /**
+   * @throws Error if the email could not be handed over for delivery
+   */
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+export const MAIL_TRANSPORT = 'MAIL_TRANSPORT';
@@ -0,0 +1,23 @@
+import { Module, Global } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MailService } from './mail.service';
+import { MAIL_TRANSPORT } from './mail-transport.interface';
+import { createMailTransport } from './mail-transport.factory';
+
+/**
+ * Module providing transactional email
+ */
+@Global()
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: MAIL_TRANSPORT,
+      useFactory: createMailTransport,
+      inject: [ConfigService],
+    },
+    MailService,
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
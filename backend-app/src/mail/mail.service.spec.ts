@@ -0,0 +1,53 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { MailService } from './mail.service';
+import { MAIL_TRANSPORT } from './mail-transport.interface';
+import { MailTemplate } from './mail-templates';
+
+describe('MailService', () => {
+  let service: MailService;
+
+  const transport = {
+    name: 'test',
+    send: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MailService,
+        { provide: MAIL_TRANSPORT, useValue: transport },
+        { provide: ConfigService, useValue: { get: () => 'noreply@10date.test' } },
+      ],
+    }).compile();
+
+    service = module.get<MailService>(MailService);
+  });
+
+  it('should render a template as text and HTML', async () => {
+    await service.sendTemplate('alex@example.com', MailTemplate.EMAIL_VERIFICATION, {
+      name: 'Alex <script>',
+      verifyUrl: 'https://app.test/verify-email?token=abc&x=1',
+      expiresInHours: 48,
+    });
+
+    const message = transport.send.mock.calls[0][0];
+    expect(message).toEqual(expect.objectContaining({
+      from: 'noreply@10date.test',
+      to: 'alex@example.com',
+      subject: 'Confirm your 10-Date email address',
+    }));
+    expect(message.text).toContain('Confirm email address: https://app.test/verify-email?token=abc&x=1');
+    expect(message.text).toContain('expires in 48 hours');
+    expect(message.html).toContain('href="https://app.test/verify-email?token=abc&amp;x=1"');
+    expect(message.html).toContain('Hi Alex &lt;script&gt;,');
+  });
+
+  it('should report failed deliveries instead of throwing', async () => {
+    transport.send.mockRejectedValue(new Error('connection refused'));
+
+    await expect(service.send({ to: 'alex@example.com', subject: 'Hi', text: 'Hello' })).resolves.toBe(false);
+  });
+});
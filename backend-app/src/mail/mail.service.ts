@@ -0,0 +1,47 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MAIL_TRANSPORT, MailMessage, MailTransport } from './mail-transport.interface';
+import { MailTemplate, MailTemplateData, renderMailTemplate } from './mail-templates';
+
+/**
+ * Service for sending transactional email through the configured transport
+ */
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+
+  constructor(
+    @Inject(MAIL_TRANSPORT)
+    private readonly transport: MailTransport,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Render a template and send it
+   * @returns Whether the email was accepted for delivery
+   */
+  async sendTemplate<T extends MailTemplate>(to: string, template: T, data: MailTemplateData[T]): Promise<boolean> {
+    return this.send({ to, ...renderMailTemplate(template, data) });
+  }
+
+  /**
+   * Send an email. Failures are logged rather than thrown, so a mail outage
+   * does not fail the request that triggered the email.
+   * @returns Whether the email was accepted for delivery
+   */
+  async send(message: MailMessage): Promise<boolean> {
+    try {
+      await this.transport.send({
+        from: this.configService.get<string>('email.from')!,
+        ...message,
+      });
+      return true;
+    } catch (error) {
+      this.logger.error(
+        `Failed to send "${message.subject}" email through ${this.transport.name}: ${error.message}`,
+        error.stack
+      );
+      return false;
+    }
+  }
+}
@@ -0,0 +1,14 @@
+import { Logger } from '@nestjs/common';
+import { MailMessage, MailTransport } from '../mail-transport.interface';
+
+/**
+ * Transport that logs the text of each email instead of sending it
+ */
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = 'console';
+  private readonly logger = new Logger('Mail');
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    this.logger.log(`To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+  }
+}
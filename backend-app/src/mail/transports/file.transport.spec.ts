@@ -0,0 +1,32 @@
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileMailTransport } from './file.transport';
+
+describe('FileMailTransport', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'mail-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should write each email to its own .eml file', async () => {
+    const transport = new FileMailTransport(join(directory, 'outbox'));
+
+    await transport.send({ from: 'noreply@10date.test', to: 'alex@example.com', subject: 'First', text: 'One' });
+    await transport.send({ from: 'noreply@10date.test', to: 'sam@example.com', subject: 'Second', text: 'Two' });
+
+    const files = (await readdir(join(directory, 'outbox'))).sort();
+    expect(files).toHaveLength(2);
+    expect(files.every(file => file.endsWith('.eml'))).toBe(true);
+
+    const contents = await Promise.all(files.map(file => readFile(join(directory, 'outbox', file), 'utf8')));
+    const first = contents.find(content => content.includes('Subject: First'))!;
+    expect(first).toContain('To: alex@example.com');
+    expect(first).toContain('One');
+  });
+});
@@ -0,0 +1,26 @@
+import { createTransport, Transporter } from 'nodemailer';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import { MailMessage, MailTransport } from '../mail-transport.interface';
+
+/**
+ * Transport that writes each email to a `.eml` file instead of sending it,
+ * so emails can be opened in a mail client during local development
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+  // Builds the raw message without sending it anywhere
+  private readonly transporter: Transporter = createTransport({ streamTransport: true, buffer: true });
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    const info = await this.transporter.sendMail(message);
+    await mkdir(this.directory, { recursive: true });
+
+    // Sortable by time, unique within the same millisecond
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomBytes(4).toString('hex')}.eml`;
+    await writeFile(join(this.directory, fileName), info.message as Buffer);
+  }
+}
@@ -0,0 +1,28 @@
+import { createTransport, Transporter } from 'nodemailer';
+import { MailMessage, MailTransport } from '../mail-transport.interface';
+
+/**
+ * SMTP server settings, from the email config
+ */
+export interface SmtpTransportOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  auth?: { user: string; pass: string };
+}
+
+/**
+ * Transport that relays emails through an SMTP server
+ */
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp';
+  private readonly transporter: Transporter;
+
+  constructor(options: SmtpTransportOptions) {
+    this.transporter = createTransport(options);
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
@@ -1,7 +1,19 @@
-import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
 import { UserEntity } from '../../user/user.entity/user.entity';
 
+/**
+ * Enum for the lifecycle state of a match
+ */
+export enum MatchStatus {
+  PENDING_FIRST_MESSAGE = 'pending_first_message',
+  ACTIVE = 'active',
+  EXPIRED = 'expired',
+  UNMATCHED = 'unmatched',
+}
+
 @Entity('matches')
+@Index('IDX_MATCHES_STATUS_EXPIRES', ['status', 'expiresAt'])
+@Index('IDX_MATCHES_LAST_ACTIVITY', ['lastActivityAt', 'id'])
 export class MatchEntity {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -15,9 +27,42 @@ export class MatchEntity {
   @CreateDateColumn()
   createdAt: Date;
 
+  // True while the match is pending its first message or active
   @Column({ default: true })
   active: boolean;
 
+  @Column({ type: 'enum', enum: MatchStatus, default: MatchStatus.PENDING_FIRST_MESSAGE })
+  status: MatchStatus;
+
+  // Deadline for the first message; cleared once the conversation starts
+  @Column({ type: 'timestamp', nullable: true })
+  expiresAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  expiryWarningSentAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  extendedAt: Date | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  extendedBy: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  firstMessageAt: Date | null;
+
+  // Time of the latest message, or of the match itself; orders conversation lists
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  lastActivityAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  unmatchedAt: Date | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  unmatchedBy: string | null;
+
+  @Column({ name: 'algorithm_variant_id', type: 'uuid', nullable: true })
+  algorithmVariantId: string | null;
+
   @ManyToOne(() => UserEntity)
   @JoinColumn({ name: 'user1Id' })
   user1: UserEntity;
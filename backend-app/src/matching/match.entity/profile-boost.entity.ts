@@ -0,0 +1,28 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { UserEntity } from '../../user/user.entity/user.entity';
+
+/**
+ * A time-boxed boost that ranks the user higher in other people's candidates
+ */
+@Entity('profile_boosts')
+@Index('IDX_PROFILE_BOOSTS_USER_EXPIRES', ['userId', 'expiresAt'])
+export class ProfileBoostEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @Column({ type: 'timestamp' })
+  startsAt: Date;
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: UserEntity;
+}
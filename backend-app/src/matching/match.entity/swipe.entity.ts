@@ -1,6 +1,11 @@
 import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
 import { UserEntity } from '../../user/user.entity/user.entity';
 
+export type SwipeDirection = 'like' | 'dislike' | 'superlike';
+
+// Directions that express interest and can lead to a match
+export const POSITIVE_SWIPE_DIRECTIONS: SwipeDirection[] = ['like', 'superlike'];
+
 @Entity('swipes')
 export class SwipeEntity {
   @PrimaryGeneratedColumn('uuid')
@@ -14,9 +19,12 @@ export class SwipeEntity {
 
   @Column({
     type: 'enum',
-    enum: ['like', 'dislike'],
+    enum: ['like', 'dislike', 'superlike'],
   })
-  direction: 'like' | 'dislike';
+  direction: SwipeDirection;
+
+  @Column({ name: 'algorithm_variant_id', type: 'uuid', nullable: true })
+  algorithmVariantId: string | null;
 
   @CreateDateColumn()
   createdAt: Date;
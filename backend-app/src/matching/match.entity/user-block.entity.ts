@@ -0,0 +1,31 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { UserEntity } from '../../user/user.entity/user.entity';
+
+/**
+ * A user blocking another user. Blocks hide both users from each other's
+ * recommendations, swipes and messages.
+ */
+@Entity('user_blocks')
+@Index('IDX_USER_BLOCKS_PAIR', ['blockerId', 'blockedId'], { unique: true })
+export class UserBlockEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  blockerId: string;
+
+  @Index('IDX_USER_BLOCKS_BLOCKED')
+  @Column({ type: 'uuid' })
+  blockedId: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'blockerId' })
+  blocker: UserEntity;
+
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'blockedId' })
+  blocked: UserEntity;
+}
@@ -1,43 +1,131 @@
-import { Controller, Post, Get, Body, Param, Query } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  Query,
+  DefaultValuePipe,
+  ParseIntPipe,
+  ParseBoolPipe,
+  ParseUUIDPipe,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { Request } from 'express';
 import { MatchingService } from './matching.service';
+import { SwipeDirection } from './match.entity/swipe.entity';
+import { ModerationService } from '../moderation/moderation.service';
+import { CreateReportDto } from '../moderation/dto/create-report.dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 
 @Controller('matching')
+@UseGuards(JwtAuthGuard)
 export class MatchingController {
-  constructor(private readonly matchingService: MatchingService) {}
+  constructor(
+    private readonly matchingService: MatchingService,
+    private readonly moderationService: ModerationService,
+  ) {}
 
   @Post('swipe')
   async swipe(
-    @Body('userId') userId: string,
     @Body('targetUserId') targetUserId: string,
-    @Body('direction') direction: 'like' | 'dislike',
+    @Body('direction') direction: SwipeDirection,
+    @Req() request: Request,
     @Body('metadata') metadata?: {
       swipeTime: number;
       profileViewDuration: number;
       viewedSections?: string[];
     }
   ) {
-    return this.matchingService.swipe(userId, targetUserId, direction, metadata);
+    return this.matchingService.swipe(this.getUserId(request), targetUserId, direction, metadata);
   }
 
-  @Get('matches/:userId')
-  async getMatches(@Param('userId') userId: string) {
-    return this.matchingService.getMatches(userId);
+  @Post('rewind')
+  async rewindLastSwipe(@Req() request: Request) {
+    return this.matchingService.rewindLastSwipe(this.getUserId(request));
   }
 
-  @Get('recommendations/:userId')
+  @Post('boost')
+  async activateBoost(@Req() request: Request) {
+    return this.matchingService.activateBoost(this.getUserId(request));
+  }
+
+  @Get('boost')
+  async getBoostStatus(@Req() request: Request) {
+    return this.matchingService.getBoostStatus(this.getUserId(request));
+  }
+
+  @Get('quotas')
+  async getFeatureQuotas(@Req() request: Request) {
+    return this.matchingService.getFeatureQuotas(this.getUserId(request));
+  }
+
+  @Post('matches/:matchId/unmatch')
+  async unmatch(
+    @Param('matchId', ParseUUIDPipe) matchId: string,
+    @Req() request: Request
+  ) {
+    return this.matchingService.unmatch(this.getUserId(request), matchId);
+  }
+
+  @Post('matches/:matchId/extend')
+  async extendMatch(
+    @Param('matchId', ParseUUIDPipe) matchId: string,
+    @Req() request: Request
+  ) {
+    return this.matchingService.extendMatch(this.getUserId(request), matchId);
+  }
+
+  @Post('block')
+  async blockUser(
+    @Body('blockedUserId') blockedUserId: string,
+    @Req() request: Request
+  ) {
+    return this.matchingService.blockUser(this.getUserId(request), blockedUserId);
+  }
+
+  @Post('report')
+  async reportUser(@Body() dto: CreateReportDto, @Req() request: Request) {
+    const report = await this.moderationService.createReport(this.getUserId(request), dto);
+    return { reportId: report.id, status: report.status };
+  }
+
+  @Get('matches')
+  async getMatches(@Req() request: Request) {
+    return this.matchingService.getMatches(this.getUserId(request));
+  }
+
+  @Get('recommendations')
   async getRecommendations(
-    @Param('userId') userId: string,
-    @Query('limit') limit: number = 10,
-    @Query('includeDetails') includeDetails: boolean = false
+    @Req() request: Request,
+    @Query('limit', new DefaultValuePipe(10), ParseIntPipe) limit: number,
+    @Query('includeDetails', new DefaultValuePipe(false), ParseBoolPipe) includeDetails: boolean,
+    @Query('cursor') cursor?: string,
+    // Defaults to the user's verifiedOnly preference
+    @Query('verifiedOnly', new ParseBoolPipe({ optional: true })) verifiedOnly?: boolean
   ) {
-    return this.matchingService.getRecommendations(userId);
+    return this.matchingService.getRecommendations(this.getUserId(request), {
+      limit,
+      cursor,
+      includeDetails,
+      verifiedOnly,
+    });
   }
   
-  @Get('match-factors/:userId/:targetUserId')
+  @Get('match-factors/:targetUserId')
   async getMatchFactors(
-    @Param('userId') userId: string,
+    @Req() request: Request,
     @Param('targetUserId') targetUserId: string
   ) {
-    return this.matchingService.getMatchFactors(userId, targetUserId);
+    return this.matchingService.getMatchFactors(this.getUserId(request), targetUserId);
+  }
+
+  private getUserId(request: Request): string {
+    const userId = request.user?.id;
+    if (!userId) {
+      throw new Error('User ID not found in request');
+    }
+    return userId;
   }
 }
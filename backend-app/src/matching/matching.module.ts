@@ -5,20 +5,47 @@ import { MatchingService } from './matching.service';
 import { MatchEntity } from './match.entity/match.entity';
 import { SwipeEntity } from './match.entity/swipe.entity';
 import { SwipeDataEntity } from './match.entity/swipe-data.entity';
+import { ProfileBoostEntity } from './match.entity/profile-boost.entity';
+import { UserBlockEntity } from './match.entity/user-block.entity';
 import { UserModule } from '../user/user.module';
 import { CacheModule } from '../cache/cache.module';
+import { ExperimentsModule } from '../experiments/experiments.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { ModerationModule } from '../moderation/moderation.module';
+import { AuthModule } from '../auth/auth.module';
 import { RateLimiterMiddleware } from '../common/middlewares/rate-limiter.middleware';
 import { MatchingFactorsService } from './services/matching-factors.service';
+import { CandidateGenerationService } from './services/candidate-generation.service';
+import { SwipeQuotaService } from './services/swipe-quota.service';
+import { BlockService } from './services/block.service';
+import { MatchExpiryService } from './services/match-expiry.service';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([MatchEntity, SwipeEntity, SwipeDataEntity]),
+    TypeOrmModule.forFeature([
+      MatchEntity,
+      SwipeEntity,
+      SwipeDataEntity,
+      ProfileBoostEntity,
+      UserBlockEntity,
+    ]),
     UserModule,
     CacheModule,
+    ExperimentsModule,
+    NotificationsModule,
+    ModerationModule,
+    AuthModule,
   ],
   controllers: [MatchingController],
-  providers: [MatchingService, MatchingFactorsService],
-  exports: [MatchingService],
+  providers: [
+    MatchingService,
+    MatchingFactorsService,
+    CandidateGenerationService,
+    SwipeQuotaService,
+    BlockService,
+    MatchExpiryService,
+  ],
+  exports: [MatchingService, BlockService],
 })
 export class MatchingModule implements NestModule {
   configure(consumer: MiddlewareConsumer) {
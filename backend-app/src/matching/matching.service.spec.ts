@@ -1,12 +1,106 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, HttpException, HttpStatus, NotFoundException } from '@nestjs/common';
 import { MatchingService } from './matching.service';
+import { SwipeEntity } from './match.entity/swipe.entity';
+import { MatchEntity, MatchStatus } from './match.entity/match.entity';
+import { SwipeDataEntity } from './match.entity/swipe-data.entity';
+import { ProfileBoostEntity } from './match.entity/profile-boost.entity';
+import { MessageEntity } from '../messaging/message.entity/message.entity';
+import { UserEntity } from '../user/user.entity/user.entity';
+import { MatchingFactorsService } from './services/matching-factors.service';
+import { CandidateGenerationService } from './services/candidate-generation.service';
+import { SwipeQuotaService } from './services/swipe-quota.service';
+import { BlockService } from './services/block.service';
+import { BehavioralTrackingService } from '../analytics/services/behavioral-tracking.service';
+import { ExperimentsService } from '../experiments/experiments.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { RedisService } from '../cache/redis.service';
 
 describe('MatchingService', () => {
   let service: MatchingService;
 
+  const user = { id: 'user-1', name: 'Alex', subscriptionStatus: 'free' };
+  const quota = (remaining: number) => ({ used: 1, limit: remaining + 1, remaining, resetsAt: new Date() });
+
+  // Transaction manager shared by the swipe repository
+  const manager: any = {
+    transaction: jest.fn(async work => work(manager)),
+    exists: jest.fn(),
+    remove: jest.fn(),
+    delete: jest.fn(),
+  };
+  const swipeRepo = {
+    create: jest.fn(data => ({ id: 'swipe-1', ...data })),
+    save: jest.fn(swipe => Promise.resolve(swipe)),
+    findOne: jest.fn(),
+    manager,
+  };
+  const matchRepo = {
+    create: jest.fn(data => ({ id: 'match-1', ...data })),
+    save: jest.fn(match => Promise.resolve(match)),
+    findOne: jest.fn(),
+  };
+  const userRepo = {
+    findOne: jest.fn(),
+    exists: jest.fn(),
+  };
+  const boostRepo = {
+    create: jest.fn(data => ({ id: 'boost-1', ...data })),
+    save: jest.fn(boost => Promise.resolve(boost)),
+    findOne: jest.fn(),
+  };
+  const swipeQuotaService = {
+    consume: jest.fn(),
+    getStatus: jest.fn(),
+    refund: jest.fn(),
+  };
+  const blockService = {
+    block: jest.fn(),
+    isBlockedEitherWay: jest.fn(),
+  };
+  const experimentsService = {
+    getMatchingWeights: jest.fn(),
+  };
+  const notificationsService = {
+    notifySuperLike: jest.fn(),
+    emitToUser: jest.fn(),
+  };
+  const redisService = {
+    get: jest.fn(),
+    set: jest.fn(),
+  };
+
   beforeEach(async () => {
+    jest.clearAllMocks();
+    userRepo.findOne.mockResolvedValue(user);
+    userRepo.exists.mockResolvedValue(true);
+    swipeQuotaService.consume.mockResolvedValue(quota(2));
+    swipeQuotaService.getStatus.mockResolvedValue(quota(5));
+    blockService.isBlockedEitherWay.mockResolvedValue(false);
+    experimentsService.getMatchingWeights.mockResolvedValue({ variantId: null });
+    notificationsService.notifySuperLike.mockResolvedValue(undefined);
+    manager.exists.mockResolvedValue(false);
+    redisService.get.mockResolvedValue(null);
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [MatchingService],
+      providers: [
+        MatchingService,
+        { provide: getRepositoryToken(SwipeEntity), useValue: swipeRepo },
+        { provide: getRepositoryToken(MatchEntity), useValue: matchRepo },
+        { provide: getRepositoryToken(UserEntity), useValue: userRepo },
+        { provide: getRepositoryToken(ProfileBoostEntity), useValue: boostRepo },
+        { provide: MatchingFactorsService, useValue: {} },
+        { provide: CandidateGenerationService, useValue: {} },
+        { provide: SwipeQuotaService, useValue: swipeQuotaService },
+        { provide: BlockService, useValue: blockService },
+        { provide: BehavioralTrackingService, useValue: {} },
+        { provide: ExperimentsService, useValue: experimentsService },
+        { provide: NotificationsService, useValue: notificationsService },
+        { provide: RedisService, useValue: redisService },
+        { provide: ConfigService, useValue: { get: (_key: string, fallback: number) => fallback } },
+      ],
     }).compile();
 
     service = module.get<MatchingService>(MatchingService);
@@ -15,4 +109,178 @@ describe('MatchingService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('swipe', () => {
+    it('should spend a super like and notify the recipient', async () => {
+      swipeRepo.findOne.mockResolvedValue(null);
+
+      const result = await service.swipe('user-1', 'user-2', 'superlike');
+
+      expect(swipeQuotaService.consume).toHaveBeenCalledWith(user, 'superLikes');
+      expect(swipeQuotaService.consume).not.toHaveBeenCalledWith(user, 'likes');
+      expect(result.superLikesRemaining).toBe(2);
+      expect(notificationsService.notifySuperLike).toHaveBeenCalledWith('user-2', 'user-1', 'Alex');
+    });
+
+    it('should refund the super like when the swipe is not saved', async () => {
+      swipeRepo.save.mockRejectedValueOnce(new Error('duplicate swipe'));
+
+      await expect(service.swipe('user-1', 'user-2', 'superlike')).rejects.toThrow('duplicate swipe');
+      expect(swipeQuotaService.refund).toHaveBeenCalledWith('user-1', 'superLikes');
+      expect(notificationsService.notifySuperLike).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a swipe on yourself without spending a like', async () => {
+      await expect(service.swipe('user-1', 'user-1', 'like')).rejects.toThrow(BadRequestException);
+      expect(swipeQuotaService.consume).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a swipe on an unknown user without spending a super like', async () => {
+      userRepo.exists.mockResolvedValue(false);
+
+      await expect(service.swipe('user-1', 'user-9', 'superlike')).rejects.toThrow(NotFoundException);
+      expect(userRepo.exists).toHaveBeenCalledWith({ where: { id: 'user-9' } });
+      expect(swipeQuotaService.consume).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('blockUser', () => {
+    it('should block the user and end their active match', async () => {
+      const match = { id: 'match-1', user1Id: 'user-2', user2Id: 'user-1', active: true };
+      matchRepo.findOne.mockResolvedValue(match);
+
+      const result = await service.blockUser('user-1', 'user-2');
+
+      expect(blockService.block).toHaveBeenCalledWith('user-1', 'user-2');
+      expect(matchRepo.save).toHaveBeenCalledWith(expect.objectContaining({
+        id: 'match-1',
+        active: false,
+        status: MatchStatus.UNMATCHED,
+        unmatchedBy: 'user-1',
+      }));
+      expect(notificationsService.emitToUser).toHaveBeenCalledWith('user-2', 'match_removed', { matchId: 'match-1' });
+      expect(result).toEqual({ blockedUserId: 'user-2', blocked: true });
+    });
+
+    it('should succeed again once the match is already gone', async () => {
+      matchRepo.findOne.mockResolvedValue(null);
+
+      await expect(service.blockUser('user-1', 'user-2')).resolves.toEqual({ blockedUserId: 'user-2', blocked: true });
+      expect(matchRepo.save).not.toHaveBeenCalled();
+      expect(notificationsService.emitToUser).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a swipe on a blocked user', async () => {
+      blockService.isBlockedEitherWay.mockResolvedValue(true);
+
+      await expect(service.swipe('user-1', 'user-2', 'like')).rejects.toThrow(NotFoundException);
+      expect(swipeRepo.save).not.toHaveBeenCalled();
+      expect(swipeQuotaService.consume).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rewindLastSwipe', () => {
+    const lastSwipe = (direction: string, createdAt = new Date(Date.now() - 60000)) =>
+      ({ id: 'swipe-9', fromUserId: 'user-1', toUserId: 'user-2', direction, createdAt });
+
+    it('should undo a swipe that did not lead to a match', async () => {
+      const swipe = lastSwipe('dislike');
+      swipeRepo.findOne.mockResolvedValue(swipe);
+
+      const result = await service.rewindLastSwipe('user-1');
+
+      expect(matchRepo.findOne).not.toHaveBeenCalled();
+      expect(manager.delete).toHaveBeenCalledWith(SwipeDataEntity, { swipeId: 'swipe-9' });
+      expect(manager.remove).toHaveBeenCalledWith(swipe);
+      expect(result).toMatchObject({ unmatched: false, rewindsRemaining: 2 });
+      expect(notificationsService.emitToUser).not.toHaveBeenCalled();
+      expect(redisService.set).toHaveBeenCalledWith('matching:rewound-at:user-1', expect.any(Number), 5 * 60);
+    });
+
+    it('should refuse a swipe older than the rewind window', async () => {
+      swipeRepo.findOne.mockResolvedValue(lastSwipe('dislike', new Date(Date.now() - 6 * 60000)));
+
+      await expect(service.rewindLastSwipe('user-1')).rejects.toThrow(BadRequestException);
+      expect(swipeQuotaService.consume).not.toHaveBeenCalled();
+      expect(manager.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a swipe made before the previous rewind', async () => {
+      // The previous rewind left an older swipe as the latest
+      swipeRepo.findOne.mockResolvedValue(lastSwipe('dislike', new Date(Date.now() - 2 * 60000)));
+      redisService.get.mockResolvedValue(Date.now() - 60000);
+
+      await expect(service.rewindLastSwipe('user-1')).rejects.toThrow('Only your latest swipe can be rewound');
+      expect(redisService.get).toHaveBeenCalledWith('matching:rewound-at:user-1');
+      expect(swipeQuotaService.consume).not.toHaveBeenCalled();
+    });
+
+    it('should remove a match created by the other user and tell them', async () => {
+      const match = { id: 'match-1', user1Id: 'user-2', user2Id: 'user-1', active: true };
+      swipeRepo.findOne.mockResolvedValue(lastSwipe('like'));
+      matchRepo.findOne.mockResolvedValue(match);
+
+      const result = await service.rewindLastSwipe('user-1');
+
+      expect(matchRepo.findOne).toHaveBeenCalledWith({
+        where: [
+          { user1Id: 'user-1', user2Id: 'user-2' },
+          { user1Id: 'user-2', user2Id: 'user-1' },
+        ],
+      });
+      expect(manager.exists).toHaveBeenCalledWith(MessageEntity, { where: { matchId: 'match-1' } });
+      expect(manager.remove).toHaveBeenCalledWith(match);
+      expect(result.unmatched).toBe(true);
+      expect(notificationsService.emitToUser).toHaveBeenCalledWith('user-2', 'match_removed', { matchId: 'match-1' });
+    });
+
+    it('should refuse once the conversation has started and refund the rewind', async () => {
+      swipeRepo.findOne.mockResolvedValue(lastSwipe('like'));
+      matchRepo.findOne.mockResolvedValue({ id: 'match-1', user1Id: 'user-1', user2Id: 'user-2', active: true });
+      manager.exists.mockResolvedValue(true);
+
+      await expect(service.rewindLastSwipe('user-1')).rejects.toThrow(BadRequestException);
+      expect(manager.remove).not.toHaveBeenCalled();
+      expect(swipeQuotaService.refund).toHaveBeenCalledWith('user-1', 'rewinds');
+      expect(notificationsService.emitToUser).not.toHaveBeenCalled();
+    });
+
+    it('should refund the rewind when the transaction fails', async () => {
+      swipeRepo.findOne.mockResolvedValue(lastSwipe('dislike'));
+      manager.remove.mockRejectedValueOnce(new Error('connection lost'));
+
+      await expect(service.rewindLastSwipe('user-1')).rejects.toThrow('connection lost');
+      expect(swipeQuotaService.refund).toHaveBeenCalledWith('user-1', 'rewinds');
+    });
+
+    it('should not spend a rewind when the quota is used up', async () => {
+      swipeRepo.findOne.mockResolvedValue(lastSwipe('dislike'));
+      swipeQuotaService.consume.mockRejectedValue(
+        new HttpException('Daily rewind limit reached', HttpStatus.TOO_MANY_REQUESTS),
+      );
+
+      await expect(service.rewindLastSwipe('user-1')).rejects.toThrow('Daily rewind limit reached');
+      expect(manager.transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('activateBoost', () => {
+    it('should start a boost for the configured duration', async () => {
+      boostRepo.findOne.mockResolvedValue(null);
+
+      const result = await service.activateBoost('user-1');
+
+      expect(swipeQuotaService.consume).toHaveBeenCalledWith(user, 'boosts');
+      const durationMs = result.expiresAt.getTime() - result.startsAt.getTime();
+      expect(durationMs).toBe(30 * 60 * 1000);
+      expect(result.boostsRemaining).toBe(2);
+    });
+
+    it('should refuse a second boost while one is active', async () => {
+      boostRepo.findOne.mockResolvedValue({ id: 'boost-0', expiresAt: new Date(Date.now() + 60000) });
+
+      await expect(service.activateBoost('user-1')).rejects.toThrow(BadRequestException);
+      expect(swipeQuotaService.consume).not.toHaveBeenCalled();
+    });
+  });
 });
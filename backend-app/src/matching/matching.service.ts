@@ -1,11 +1,39 @@
-import { Injectable } from '@nestjs/common';
+import { BadRequestException, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, Not, In } from 'typeorm';
-import { SwipeEntity } from './match.entity/swipe.entity';
-import { MatchEntity } from './match.entity/match.entity';
+import { ConfigService } from '@nestjs/config';
+import { In, MoreThan, Repository } from 'typeorm';
+import { SwipeEntity, SwipeDirection, POSITIVE_SWIPE_DIRECTIONS } from './match.entity/swipe.entity';
+import { MatchEntity, MatchStatus } from './match.entity/match.entity';
+import { SwipeDataEntity } from './match.entity/swipe-data.entity';
+import { ProfileBoostEntity } from './match.entity/profile-boost.entity';
+import { MessageEntity } from '../messaging/message.entity/message.entity';
 import { UserEntity } from '../user/user.entity/user.entity';
-import { MatchingFactorsService } from './services/matching-factors.service';
+import { MatchingFactorsService, ReciprocalCompatibility } from './services/matching-factors.service';
+import { CandidateGenerationService, CandidatePriority } from './services/candidate-generation.service';
+import { SwipeQuotaService, getSubscriptionTier } from './services/swipe-quota.service';
+import { BlockService } from './services/block.service';
 import { BehavioralTrackingService } from '../analytics/services/behavioral-tracking.service';
+import { ExperimentsService, ResolvedMatchingWeights } from '../experiments/experiments.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { RedisService } from '../cache/redis.service';
+
+/**
+ * Options for fetching a page of recommendations
+ */
+export interface RecommendationOptions {
+  limit?: number;
+  cursor?: string;
+  includeDetails?: boolean;
+  verifiedOnly?: boolean;
+}
+
+// Upper bound on the page size a client can request
+const MAX_RECOMMENDATIONS = 50;
+
+const SWIPE_DIRECTIONS: SwipeDirection[] = ['like', 'dislike', 'superlike'];
+
+// When the user last rewound, in milliseconds since the epoch
+const rewoundAtKey = (userId: string) => `matching:rewound-at:${userId}`;
 
 @Injectable()
 export class MatchingService {
@@ -16,27 +44,78 @@ export class MatchingService {
     private readonly matchRepo: Repository<MatchEntity>,
     @InjectRepository(UserEntity)
     private readonly userRepo: Repository<UserEntity>,
+    @InjectRepository(ProfileBoostEntity)
+    private readonly boostRepo: Repository<ProfileBoostEntity>,
     private readonly matchingFactorsService: MatchingFactorsService,
+    private readonly candidateGenerationService: CandidateGenerationService,
+    private readonly swipeQuotaService: SwipeQuotaService,
+    private readonly blockService: BlockService,
     private readonly behavioralTrackingService: BehavioralTrackingService,
+    private readonly experimentsService: ExperimentsService,
+    private readonly notificationsService: NotificationsService,
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService,
   ) {}
 
   async swipe(
     userId: string, 
     targetUserId: string, 
-    direction: 'like' | 'dislike',
+    direction: SwipeDirection,
     metadata?: {
       swipeTime: number;
       profileViewDuration: number;
       viewedSections?: string[];
     }
   ) {
+    if (!SWIPE_DIRECTIONS.includes(direction)) {
+      throw new BadRequestException(`Invalid swipe direction: ${direction}`);
+    }
+
+    // The target is checked before any quota is spent on it
+    if (targetUserId === userId) {
+      throw new BadRequestException('You cannot swipe on yourself');
+    }
+    // Blocked users are hidden from each other
+    const targetExists = await this.userRepo.exists({ where: { id: targetUserId } });
+    if (!targetExists || await this.blockService.isBlockedEitherWay(userId, targetUserId)) {
+      throw new NotFoundException('User not found');
+    }
+
+    // Likes and super likes are limited per subscription tier
+    const user = await this.getUserOrFail(userId);
+    const likeQuota = direction === 'like'
+      ? await this.swipeQuotaService.consume(user, 'likes')
+      : await this.swipeQuotaService.getStatus(user, 'likes');
+    let superLikesRemaining: number | null | undefined;
+    if (direction === 'superlike') {
+      ({ remaining: superLikesRemaining } = await this.swipeQuotaService.consume(user, 'superLikes'));
+    }
+
+    // Attribute the swipe to the user's A/B test variant, if any
+    const { variantId } = await this.experimentsService.getMatchingWeights(userId);
+
     // Save the swipe
     const swipe = this.swipeRepo.create({
       fromUserId: userId,
       toUserId: targetUserId,
       direction,
+      algorithmVariantId: variantId,
     });
-    await this.swipeRepo.save(swipe);
+    try {
+      await this.swipeRepo.save(swipe);
+    } catch (error) {
+      // Don't charge the quota for a swipe that wasn't recorded
+      if (direction !== 'dislike') {
+        await this.swipeQuotaService.refund(userId, direction === 'like' ? 'likes' : 'superLikes');
+      }
+      throw error;
+    }
+
+    // Let the recipient know they were super liked
+    if (direction === 'superlike') {
+      this.notificationsService.notifySuperLike(targetUserId, userId, user.name)
+        .catch(err => console.error('Failed to send super like notification:', err));
+    }
 
     // Track behavioral data if metadata is provided
     if (metadata) {
@@ -56,38 +135,219 @@ export class MatchingService {
       }
     }
 
-    // If this was a 'like', check if there's a mutual like
-    if (direction === 'like') {
+    // If this was a like or super like, check if there's a mutual like
+    if (POSITIVE_SWIPE_DIRECTIONS.includes(direction)) {
       // Check if target user has already liked this user
       const mutualLike = await this.swipeRepo.findOne({
         where: {
           fromUserId: targetUserId,
           toUserId: userId,
-          direction: 'like',
+          direction: In(POSITIVE_SWIPE_DIRECTIONS),
         },
       });
 
       // If there's a mutual like, create a match
       if (mutualLike) {
+        // The match expires unless someone writes within the window
+        const windowHours = this.configService.get<number>('matching.firstMessageWindowHours', 72);
         const match = this.matchRepo.create({
           user1Id: userId,
           user2Id: targetUserId,
+          algorithmVariantId: variantId,
+          status: MatchStatus.PENDING_FIRST_MESSAGE,
+          expiresAt: new Date(Date.now() + windowHours * 60 * 60 * 1000),
         });
         await this.matchRepo.save(match);
         return { 
           message: `User ${userId} swiped ${direction} on ${targetUserId}`,
           match: true,
-          matchId: match.id
+          matchId: match.id,
+          quota: likeQuota,
+          superLikesRemaining
         };
       }
     }
 
     return { 
       message: `User ${userId} swiped ${direction} on ${targetUserId}`,
-      match: false
+      match: false,
+      quota: likeQuota,
+      superLikesRemaining
+    };
+  }
+
+  /**
+   * Deactivate a match and hide its conversation from both users
+   */
+  async unmatch(userId: string, matchId: string) {
+    const match = await this.matchRepo.findOne({ where: { id: matchId } });
+    if (!match || (match.user1Id !== userId && match.user2Id !== userId)) {
+      throw new NotFoundException(`Match with ID ${matchId} not found`);
+    }
+    if (!match.active) {
+      throw new BadRequestException('Match is no longer active');
+    }
+
+    await this.deactivateMatch(match, userId);
+
+    return { matchId, unmatched: true };
+  }
+
+  /**
+   * Block a user, removing any match between the two users
+   */
+  async blockUser(userId: string, blockedUserId: string) {
+    await this.blockService.block(userId, blockedUserId);
+
+    const match = await this.matchRepo.findOne({
+      where: [
+        { user1Id: userId, user2Id: blockedUserId, active: true },
+        { user1Id: blockedUserId, user2Id: userId, active: true }
+      ],
+    });
+    if (match) {
+      await this.deactivateMatch(match, userId);
+    }
+
+    return { blockedUserId, blocked: true };
+  }
+
+  /**
+   * Undo the user's most recent swipe, removing any match it led to as long
+   * as the conversation has not started. Only a swipe made within the rewind
+   * window and after the previous rewind can be undone, so repeated rewinds
+   * cannot walk back the swipe history.
+   */
+  async rewindLastSwipe(userId: string) {
+    const user = await this.getUserOrFail(userId);
+
+    const lastSwipe = await this.swipeRepo.findOne({
+      where: { fromUserId: userId },
+      order: { createdAt: 'DESC' },
+    });
+    if (!lastSwipe) {
+      throw new NotFoundException('No swipe to rewind');
+    }
+
+    const windowMinutes = this.configService.get<number>('matching.rewindWindowMinutes', 5);
+    if (Date.now() - lastSwipe.createdAt.getTime() > windowMinutes * 60 * 1000) {
+      throw new BadRequestException(`Only a swipe from the last ${windowMinutes} minutes can be rewound`);
+    }
+    const rewoundAt = await this.redisService.get<number>(rewoundAtKey(userId));
+    if (rewoundAt && lastSwipe.createdAt.getTime() <= rewoundAt) {
+      throw new BadRequestException('Only your latest swipe can be rewound');
+    }
+
+    // The match may have been created by either user's like
+    const targetUserId = lastSwipe.toUserId;
+    const match = POSITIVE_SWIPE_DIRECTIONS.includes(lastSwipe.direction)
+      ? await this.matchRepo.findOne({
+          where: [
+            { user1Id: userId, user2Id: targetUserId },
+            { user1Id: targetUserId, user2Id: userId },
+          ],
+        })
+      : null;
+
+    const quota = await this.swipeQuotaService.consume(user, 'rewinds');
+
+    try {
+      await this.swipeRepo.manager.transaction(async manager => {
+        if (match) {
+          // Conversations are never deleted by a rewind
+          if (await manager.exists(MessageEntity, { where: { matchId: match.id } })) {
+            throw new BadRequestException('A swipe cannot be rewound once the conversation has started');
+          }
+          await manager.remove(match);
+        }
+        await manager.delete(SwipeDataEntity, { swipeId: lastSwipe.id });
+        await manager.remove(lastSwipe);
+      });
+    } catch (error) {
+      await this.swipeQuotaService.refund(userId, 'rewinds');
+      throw error;
+    }
+    await this.redisService.set(rewoundAtKey(userId), Date.now(), windowMinutes * 60);
+
+    // Let the other user's clients drop the match
+    if (match?.active) {
+      this.notificationsService.emitToUser(targetUserId, 'match_removed', { matchId: match.id });
+    }
+
+    return {
+      message: `User ${userId} rewound their ${lastSwipe.direction} on ${targetUserId}`,
+      targetUserId,
+      direction: lastSwipe.direction,
+      unmatched: !!match,
+      rewindsRemaining: quota.remaining
+    };
+  }
+
+  /**
+   * Start a time-boxed boost that ranks the user higher in other people's
+   * candidate lists
+   */
+  async activateBoost(userId: string) {
+    const user = await this.getUserOrFail(userId);
+
+    const now = new Date();
+    const activeBoost = await this.boostRepo.findOne({
+      where: { userId, expiresAt: MoreThan(now) },
+    });
+    if (activeBoost) {
+      throw new BadRequestException('A boost is already active');
+    }
+
+    const quota = await this.swipeQuotaService.consume(user, 'boosts');
+    const durationMinutes = this.configService.get<number>('matching.boostDurationMinutes', 30);
+
+    const boost = await this.boostRepo.save(
+      this.boostRepo.create({
+        userId,
+        startsAt: now,
+        expiresAt: new Date(now.getTime() + durationMinutes * 60 * 1000),
+      })
+    );
+
+    return {
+      boostId: boost.id,
+      startsAt: boost.startsAt,
+      expiresAt: boost.expiresAt,
+      boostsRemaining: quota.remaining
+    };
+  }
+
+  async getBoostStatus(userId: string) {
+    const user = await this.getUserOrFail(userId);
+
+    const activeBoost = await this.boostRepo.findOne({
+      where: { userId, expiresAt: MoreThan(new Date()) },
+    });
+    const quota = await this.swipeQuotaService.getStatus(user, 'boosts');
+
+    return {
+      active: !!activeBoost,
+      expiresAt: activeBoost ? activeBoost.expiresAt : null,
+      boostsRemaining: quota.remaining
     };
   }
 
+  /**
+   * Today's usage and reset time of the quota-limited swipe features
+   */
+  async getFeatureQuotas(userId: string) {
+    const user = await this.getUserOrFail(userId);
+
+    const [likes, superLikes, rewinds, boosts] = await Promise.all([
+      this.swipeQuotaService.getStatus(user, 'likes'),
+      this.swipeQuotaService.getStatus(user, 'superLikes'),
+      this.swipeQuotaService.getStatus(user, 'rewinds'),
+      this.swipeQuotaService.getStatus(user, 'boosts'),
+    ]);
+
+    return { likes, superLikes, rewinds, boosts };
+  }
+
   async getMatches(userId: string) {
     // Find all matches where userId is either user1Id or user2Id
     const matches = await this.matchRepo.find({
@@ -99,6 +359,7 @@ export class MatchingService {
     });
 
     // Format the response to return the other user in each match
+    const now = Date.now();
     return matches.map(match => {
       const otherUserId = match.user1Id === userId ? match.user2Id : match.user1Id;
       const otherUser = match.user1Id === userId ? match.user2 : match.user1;
@@ -106,42 +367,84 @@ export class MatchingService {
         matchId: match.id,
         userId: otherUserId,
         name: otherUser.name,
-        createdAt: match.createdAt
+        createdAt: match.createdAt,
+        status: match.status,
+        expiresAt: match.expiresAt,
+        timeRemainingSeconds: match.expiresAt
+          ? Math.max(Math.floor((new Date(match.expiresAt).getTime() - now) / 1000), 0)
+          : null,
+        canExtend: match.status === MatchStatus.PENDING_FIRST_MESSAGE && !match.extendedAt
       };
     });
   }
 
-  async getRecommendations(userId: string) {
+  /**
+   * Extend the first-message window of a match. Premium users can extend
+   * each match once.
+   */
+  async extendMatch(userId: string, matchId: string) {
+    const user = await this.getUserOrFail(userId);
+    if (getSubscriptionTier(user) !== 'premium') {
+      throw new ForbiddenException('Extending matches requires a premium subscription');
+    }
+
+    const match = await this.matchRepo.findOne({ where: { id: matchId } });
+    if (!match || (match.user1Id !== userId && match.user2Id !== userId)) {
+      throw new NotFoundException(`Match with ID ${matchId} not found`);
+    }
+    if (match.status !== MatchStatus.PENDING_FIRST_MESSAGE || !match.expiresAt) {
+      throw new BadRequestException('Only matches waiting for a first message can be extended');
+    }
+    if (match.extendedAt) {
+      throw new BadRequestException('This match has already been extended');
+    }
+
+    const extensionHours = this.configService.get<number>('matching.matchExtensionHours', 24);
+    match.expiresAt = new Date(new Date(match.expiresAt).getTime() + extensionHours * 60 * 60 * 1000);
+    match.extendedAt = new Date();
+    match.extendedBy = userId;
+    // Warn again ahead of the new deadline
+    match.expiryWarningSentAt = null;
+    await this.matchRepo.save(match);
+
+    const otherUserId = match.user1Id === userId ? match.user2Id : match.user1Id;
+    this.notificationsService.emitToUser(otherUserId, 'match_extended', {
+      matchId,
+      expiresAt: match.expiresAt
+    });
+
+    return { matchId, expiresAt: match.expiresAt };
+  }
+
+  /**
+   * Get a page of scored recommendations. Pages come in candidate order
+   * (super likes, then boosts, then newest profiles first) and are sorted by
+   * compatibility within the page only.
+   */
+  async getRecommendations(userId: string, options: RecommendationOptions = {}) {
+    const limit = Math.min(Math.max(options.limit || 10, 1), MAX_RECOMMENDATIONS);
+
     // Get current user with interests
     const user = await this.userRepo.findOne({ 
       where: { id: userId },
       relations: ['interests']
     });
-    if (!user) return [];
+    if (!user) return { recommendations: [], nextCursor: null };
 
-    // Get users who haven't been swiped on yet
-    const swipedUserIds = (await this.swipeRepo.find({
-      where: { fromUserId: userId },
-      select: ['toUserId'],
-    })).map(swipe => swipe.toUserId);
+    // Factor weights come from the user's A/B test variant, if any
+    const resolvedWeights = await this.experimentsService.getMatchingWeights(userId);
 
-    // Add current user to excluded list
-    swipedUserIds.push(userId);
-
-    // Find potential matches not in the swiped list
-    const potentialMatches = await this.userRepo.find({
-      where: { id: Not(In(swipedUserIds)) },
-      relations: ['interests'],
-    });
+    // Pre-filter candidates in SQL so only one page is scored in memory
+    const { candidates, priorities, nextCursor } = await this.candidateGenerationService.getCandidates(
+      user,
+      { limit, cursor: options.cursor, verifiedOnly: options.verifiedOnly }
+    );
     
     // Enhance recommendations with compatibility scoring
     const enhancedRecommendations = await Promise.all(
-      potentialMatches.map(async match => {
+      candidates.map(async match => {
         // Calculate compatibility score
-        const compatibilityScore = await this.matchingFactorsService.calculateOverallCompatibility(
-          user, 
-          match
-        );
+        const compatibility = await this.scoreCompatibility(user, match, resolvedWeights);
         
         // Calculate common interests for display
         let commonInterests: string[] = [];
@@ -152,21 +455,48 @@ export class MatchingService {
             .map(i => i.name);
         }
         
-        return {
+        const recommendation = {
           userId: match.id,
           name: match.name,
           age: match.age,
           bio: match.bio,
-          compatibilityScore: Math.round(compatibilityScore * 100), // Convert to percentage
-          commonInterests
+          verified: match.verificationStatus,
+          compatibilityScore: Math.round(compatibility.combined * 100), // Convert to percentage
+          commonInterests,
+          superLikedYou: priorities[match.id] === CandidatePriority.SUPER_LIKED
+        };
+
+        if (!options.includeDetails) {
+          return recommendation;
+        }
+
+        const interestScore = await this.matchingFactorsService.calculateInterestCompatibility(user, match);
+        return {
+          ...recommendation,
+          interests: (match.interests || []).map(i => i.name),
+          factors: {
+            interests: Math.round(interestScore * 100),
+            demographics: Math.round(this.matchingFactorsService.calculateDemographicCompatibility(user, match) * 100),
+            location: Math.round(this.matchingFactorsService.calculateLocationCompatibility(user, match) * 100),
+            behavioral: Math.round(this.matchingFactorsService.calculateBehavioralCompatibility(user, match) * 100)
+          },
+          reciprocal: {
+            userToCandidate: Math.round(compatibility.forward * 100),
+            candidateToUser: Math.round(compatibility.backward * 100)
+          }
         };
       })
     );
     
-    // Sort by compatibility score (highest first) and return top matches
-    return enhancedRecommendations
-      .sort((a, b) => b.compatibilityScore - a.compatibilityScore)
-      .slice(0, 10); // Limit to 10 recommendations
+    // Keep super likes and boosts on top, then sort by compatibility score
+    return {
+      recommendations: enhancedRecommendations.sort(
+        (a, b) =>
+          (priorities[b.userId] || 0) - (priorities[a.userId] || 0) ||
+          b.compatibilityScore - a.compatibilityScore
+      ),
+      nextCursor
+    };
   }
   
   async getMatchFactors(userId: string, targetUserId: string) {
@@ -185,13 +515,20 @@ export class MatchingService {
       return { error: 'One or both users not found' };
     }
     
-    // Calculate compatibility factors
+    // Calculate compatibility factors in both directions
     const interestScore = await this.matchingFactorsService.calculateInterestCompatibility(user, targetUser);
     const demographicScore = this.matchingFactorsService.calculateDemographicCompatibility(user, targetUser);
+    const reverseDemographicScore = this.matchingFactorsService.calculateDemographicCompatibility(targetUser, user);
     const locationScore = this.matchingFactorsService.calculateLocationCompatibility(user, targetUser);
+    const reverseLocationScore = this.matchingFactorsService.calculateLocationCompatibility(targetUser, user);
+    const behavioralScore = this.matchingFactorsService.calculateBehavioralCompatibility(user, targetUser);
+    const reverseBehavioralScore = this.matchingFactorsService.calculateBehavioralCompatibility(targetUser, user);
+    const behavioralFactors = this.matchingFactorsService.calculateBehavioralFactors(user, targetUser);
+    const toPercentage = (score: number | null) => score === null ? null : Math.round(score * 100);
     
-    // Calculate overall score
-    const overallScore = await this.matchingFactorsService.calculateOverallCompatibility(user, targetUser);
+    // Calculate overall score with the same weights and mode used for recommendations
+    const resolvedWeights = await this.experimentsService.getMatchingWeights(userId);
+    const compatibility = await this.scoreCompatibility(user, targetUser, resolvedWeights);
     
     // Get common interests
     let commonInterests: string[] = [];
@@ -203,19 +540,73 @@ export class MatchingService {
     }
     
     return {
-      overallCompatibility: Math.round(overallScore * 100),
+      overallCompatibility: Math.round(compatibility.combined * 100),
+      reciprocal: {
+        userToTarget: Math.round(compatibility.forward * 100),
+        targetToUser: Math.round(compatibility.backward * 100)
+      },
       factors: {
         interests: {
           score: Math.round(interestScore * 100),
           common: commonInterests
         },
         demographics: {
-          score: Math.round(demographicScore * 100)
+          score: Math.round(demographicScore * 100),
+          reverseScore: Math.round(reverseDemographicScore * 100)
         },
         location: {
-          score: Math.round(locationScore * 100)
+          score: Math.round(locationScore * 100),
+          reverseScore: Math.round(reverseLocationScore * 100)
+        },
+        behavioral: {
+          score: Math.round(behavioralScore * 100),
+          reverseScore: Math.round(reverseBehavioralScore * 100),
+          ageFit: toPercentage(behavioralFactors.ageFit),
+          interestAffinity: toPercentage(behavioralFactors.interestAffinity),
+          activeHoursOverlap: toPercentage(behavioralFactors.activeHoursOverlap)
         }
       }
     };
   }
+
+  private async deactivateMatch(match: MatchEntity, userId: string): Promise<void> {
+    match.active = false;
+    match.status = MatchStatus.UNMATCHED;
+    match.unmatchedAt = new Date();
+    match.unmatchedBy = userId;
+    await this.matchRepo.save(match);
+
+    // Let the other user's clients drop the match and its conversation
+    const otherUserId = match.user1Id === userId ? match.user2Id : match.user1Id;
+    this.notificationsService.emitToUser(otherUserId, 'match_removed', { matchId: match.id });
+  }
+
+  private async getUserOrFail(userId: string): Promise<UserEntity> {
+    const user = await this.userRepo.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+
+  /**
+   * Score a pair of users. In reciprocal mode (the default, overridable per
+   * A/B test variant) the combined score is the harmonic mean of both
+   * directions; otherwise it is the viewer's one-sided score.
+   */
+  private async scoreCompatibility(
+    user: UserEntity,
+    candidate: UserEntity,
+    { weights, reciprocal }: ResolvedMatchingWeights
+  ): Promise<ReciprocalCompatibility> {
+    const useReciprocal = reciprocal ?? this.configService.get<boolean>('matching.reciprocalScoring', true);
+
+    if (useReciprocal) {
+      return this.matchingFactorsService.calculateReciprocalCompatibility(user, candidate, weights);
+    }
+
+    const forward = await this.matchingFactorsService.calculateOverallCompatibility(user, candidate, weights);
+    const backward = await this.matchingFactorsService.calculateOverallCompatibility(candidate, user, weights);
+    return { forward, backward, combined: forward };
+  }
 }
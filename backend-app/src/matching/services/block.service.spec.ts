@@ -0,0 +1,71 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { BlockService } from './block.service';
+import { UserBlockEntity } from '../match.entity/user-block.entity';
+
+describe('BlockService', () => {
+  let service: BlockService;
+
+  // In-memory block table
+  let blocks: UserBlockEntity[];
+  const blockRepo = {
+    create: jest.fn(data => ({ id: `block-${blocks.length + 1}`, ...data })),
+    save: jest.fn(async block => {
+      blocks.push(block);
+      return block;
+    }),
+    findOne: jest.fn(async ({ where }) =>
+      blocks.find(block => block.blockerId === where.blockerId && block.blockedId === where.blockedId) ?? null
+    ),
+    count: jest.fn(async ({ where }) =>
+      blocks.filter(block =>
+        where.some((pair: Partial<UserBlockEntity>) =>
+          block.blockerId === pair.blockerId && block.blockedId === pair.blockedId
+        )
+      ).length
+    ),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    blocks = [];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BlockService,
+        { provide: getRepositoryToken(UserBlockEntity), useValue: blockRepo },
+      ],
+    }).compile();
+
+    service = module.get<BlockService>(BlockService);
+  });
+
+  it('should record a block', async () => {
+    const block = await service.block('alice', 'bob');
+
+    expect(block).toMatchObject({ blockerId: 'alice', blockedId: 'bob' });
+    expect(blocks).toHaveLength(1);
+  });
+
+  it('should return the existing block when blocking again', async () => {
+    const first = await service.block('alice', 'bob');
+    const second = await service.block('alice', 'bob');
+
+    expect(second).toBe(first);
+    expect(blockRepo.save).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse to block yourself', async () => {
+    await expect(service.block('alice', 'alice')).rejects.toThrow(BadRequestException);
+    expect(blockRepo.save).not.toHaveBeenCalled();
+  });
+
+  it('should treat a block as applying in both directions', async () => {
+    await service.block('alice', 'bob');
+
+    await expect(service.isBlockedEitherWay('alice', 'bob')).resolves.toBe(true);
+    await expect(service.isBlockedEitherWay('bob', 'alice')).resolves.toBe(true);
+    await expect(service.isBlockedEitherWay('alice', 'carol')).resolves.toBe(false);
+  });
+});
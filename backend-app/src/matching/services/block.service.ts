@@ -0,0 +1,44 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { UserBlockEntity } from '../match.entity/user-block.entity';
+
+/**
+ * Service for managing blocks between users
+ */
+@Injectable()
+export class BlockService {
+  constructor(
+    @InjectRepository(UserBlockEntity)
+    private readonly blockRepo: Repository<UserBlockEntity>,
+  ) {}
+
+  /**
+   * Block a user. Blocking the same user again has no effect.
+   * @param blockerId The user creating the block
+   * @param blockedId The user being blocked
+   */
+  async block(blockerId: string, blockedId: string): Promise<UserBlockEntity> {
+    if (blockerId === blockedId) {
+      throw new BadRequestException('You cannot block yourself');
+    }
+
+    const existing = await this.blockRepo.findOne({ where: { blockerId, blockedId } });
+    if (existing) return existing;
+
+    return this.blockRepo.save(this.blockRepo.create({ blockerId, blockedId }));
+  }
+
+  /**
+   * Whether either user has blocked the other
+   */
+  async isBlockedEitherWay(userId: string, otherUserId: string): Promise<boolean> {
+    const count = await this.blockRepo.count({
+      where: [
+        { blockerId: userId, blockedId: otherUserId },
+        { blockerId: otherUserId, blockedId: userId },
+      ],
+    });
+    return count > 0;
+  }
+}
@@ -0,0 +1,222 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException } from '@nestjs/common';
+import { CandidateGenerationService, CandidatePriority } from './candidate-generation.service';
+import { UserEntity } from '../../user/user.entity/user.entity';
+
+describe('CandidateGenerationService', () => {
+  let service: CandidateGenerationService;
+  let queryBuilder: any;
+  let userRepo: any;
+
+  const viewer = {
+    id: 'viewer',
+    age: 30,
+    preferences: { ageRange: { min: 25, max: 35 }, genderPreference: 'any' },
+    location: { latitude: 40.7, longitude: -74 },
+  } as UserEntity;
+
+  const makeRow = (id: string, createdAt: string, priority = CandidatePriority.DEFAULT) => ({
+    id,
+    createdAt: new Date(createdAt),
+    priority,
+  });
+
+  beforeEach(async () => {
+    queryBuilder = {
+      select: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      setParameter: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      addOrderBy: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      getRawMany: jest.fn().mockResolvedValue([]),
+      subQuery: jest.fn(() => ({
+        select: jest.fn().mockReturnThis(),
+        from: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        getQuery: jest.fn(() => '(SELECT 1)'),
+      })),
+    };
+    userRepo = {
+      createQueryBuilder: jest.fn(() => queryBuilder),
+      exists: jest.fn().mockResolvedValue(true),
+      // Return the page out of order to check the ranking is kept
+      find: jest.fn(({ where }) =>
+        Promise.resolve(
+          [...where.id.value].reverse().map((id: string) => ({ id }) as UserEntity),
+        ),
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CandidateGenerationService,
+        {
+          provide: getRepositoryToken(UserEntity),
+          useValue: userRepo,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((_key, defaultValue) => defaultValue) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<CandidateGenerationService>(CandidateGenerationService);
+  });
+
+  it('should fetch one extra row and return a cursor when more pages exist', async () => {
+    queryBuilder.getRawMany.mockResolvedValue([
+      makeRow('c', '2024-03-03'),
+      makeRow('b', '2024-03-02'),
+      makeRow('a', '2024-03-01'),
+    ]);
+
+    const page = await service.getCandidates(viewer, { limit: 2 });
+
+    expect(queryBuilder.limit).toHaveBeenCalledWith(3);
+    expect(page.candidates.map(c => c.id)).toEqual(['c', 'b']);
+    expect(page.nextCursor).toEqual(expect.any(String));
+  });
+
+  it('should not return a cursor on the last page', async () => {
+    queryBuilder.getRawMany.mockResolvedValue([makeRow('a', '2024-03-01')]);
+
+    const page = await service.getCandidates(viewer, { limit: 2 });
+
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it('should resume after the cursor of the previous page', async () => {
+    queryBuilder.getRawMany.mockResolvedValue([
+      makeRow('b', '2024-03-02'),
+      makeRow('a', '2024-03-01'),
+    ]);
+    const { nextCursor } = await service.getCandidates(viewer, { limit: 1 });
+    const conditionsPerQuery = queryBuilder.andWhere.mock.calls.length;
+    queryBuilder.andWhere.mockClear();
+
+    await service.getCandidates(viewer, { limit: 1, cursor: nextCursor! });
+
+    // The keyset condition is the only addition to the first query
+    expect(queryBuilder.andWhere).toHaveBeenCalledTimes(conditionsPerQuery + 1);
+  });
+
+  it('should page past rows created in the same millisecond', async () => {
+    queryBuilder.getRawMany.mockResolvedValue([
+      makeRow('b', '2024-03-01T10:00:00.123Z'),
+      makeRow('a', '2024-03-01T10:00:00.123Z'),
+    ]);
+    const { nextCursor } = await service.getCandidates(viewer, { limit: 1 });
+    queryBuilder.andWhere.mockClear();
+
+    await service.getCandidates(viewer, { limit: 1, cursor: nextCursor! });
+
+    // The anchor's creation time is read from its row, not from the cursor
+    expect(JSON.parse(Buffer.from(nextCursor!, 'base64url').toString('utf8'))).not.toHaveProperty('createdAt');
+    expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+      expect.stringContaining('(SELECT anchor."createdAt" FROM "users" anchor WHERE anchor."id" = :cursorId)'),
+      { cursorPriority: CandidatePriority.DEFAULT, cursorId: 'b' },
+    );
+  });
+
+  it('should rank boosts as of the first page on later pages', async () => {
+    queryBuilder.getRawMany.mockResolvedValue([makeRow('b', '2024-03-02'), makeRow('a', '2024-03-01')]);
+    const { nextCursor } = await service.getCandidates(viewer, { limit: 1 });
+    const firstRankedAt = queryBuilder.setParameter.mock.calls.find(([name]: [string]) => name === 'rankedAt')[1];
+    queryBuilder.setParameter.mockClear();
+
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await service.getCandidates(viewer, { limit: 1, cursor: nextCursor! });
+
+    expect(queryBuilder.setParameter).toHaveBeenCalledWith('rankedAt', firstRankedAt);
+  });
+
+  it('should reject a cursor whose candidate no longer exists', async () => {
+    queryBuilder.getRawMany.mockResolvedValue([makeRow('b', '2024-03-02'), makeRow('a', '2024-03-01')]);
+    const { nextCursor } = await service.getCandidates(viewer, { limit: 1 });
+    userRepo.exists.mockResolvedValue(false);
+
+    await expect(
+      service.getCandidates(viewer, { limit: 1, cursor: nextCursor! }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should keep the ranked order and report each priority', async () => {
+    queryBuilder.getRawMany.mockResolvedValue([
+      makeRow('superliker', '2024-03-01', CandidatePriority.SUPER_LIKED),
+      makeRow('boosted', '2024-03-01', CandidatePriority.BOOSTED),
+      makeRow('newest', '2024-03-03'),
+    ]);
+
+    const page = await service.getCandidates(viewer, { limit: 10 });
+
+    expect(queryBuilder.orderBy).toHaveBeenCalledWith('priority', 'DESC');
+    expect(page.candidates.map(c => c.id)).toEqual(['superliker', 'boosted', 'newest']);
+    expect(page.priorities).toEqual({
+      superliker: CandidatePriority.SUPER_LIKED,
+      boosted: CandidatePriority.BOOSTED,
+      newest: CandidatePriority.DEFAULT,
+    });
+  });
+
+  it('should not load users for an empty page', async () => {
+    const page = await service.getCandidates(viewer, { limit: 10 });
+
+    expect(page.candidates).toEqual([]);
+    expect(userRepo.find).not.toHaveBeenCalled();
+  });
+
+  it('should restrict candidates to a bounding box around the viewer', async () => {
+    await service.getCandidates(viewer, { limit: 10 });
+
+    const latCall = queryBuilder.andWhere.mock.calls.find(([sql]: [string]) =>
+      typeof sql === 'string' && sql.includes("'latitude'"),
+    );
+    expect(latCall[1].minLat).toBeCloseTo(40.7 - 50 / 111.045);
+    expect(latCall[1].maxLat).toBeCloseTo(40.7 + 50 / 111.045);
+  });
+
+  it('should hide users blocked by or blocking the viewer', async () => {
+    await service.getCandidates(viewer, { limit: 10 });
+
+    const subQueries = queryBuilder.subQuery.mock.results.map(({ value }: any) => value);
+    const blockQuery = (condition: string) =>
+      subQueries.find((subQuery: any) => subQuery.where.mock.calls.some(([sql]: [string]) => sql === condition));
+    expect(blockQuery('block.blockerId = :viewerId').select).toHaveBeenCalledWith('block.blockedId');
+    expect(blockQuery('blocker.blockedId = :viewerId').select).toHaveBeenCalledWith('blocker.blockerId');
+    expect(queryBuilder.setParameter).toHaveBeenCalledWith('viewerId', 'viewer');
+  });
+
+  it('should only return verified users when the viewer asks for them', async () => {
+    const isVerifiedFilter = ([sql]: [string]) => sql === 'candidate.verificationStatus = :verified';
+
+    await service.getCandidates(viewer, { limit: 10 });
+    expect(queryBuilder.andWhere.mock.calls.some(isVerifiedFilter)).toBe(false);
+
+    await service.getCandidates(
+      { ...viewer, preferences: { ...viewer.preferences, verifiedOnly: true } } as UserEntity,
+      { limit: 10 },
+    );
+    expect(queryBuilder.andWhere).toHaveBeenCalledWith('candidate.verificationStatus = :verified', { verified: true });
+
+    // The query option overrides the saved preference
+    queryBuilder.andWhere.mockClear();
+    await service.getCandidates(
+      { ...viewer, preferences: { ...viewer.preferences, verifiedOnly: true } } as UserEntity,
+      { limit: 10, verifiedOnly: false },
+    );
+    expect(queryBuilder.andWhere.mock.calls.some(isVerifiedFilter)).toBe(false);
+  });
+
+  it('should reject a malformed cursor', async () => {
+    await expect(
+      service.getCandidates(viewer, { limit: 10, cursor: 'not-a-cursor' }),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
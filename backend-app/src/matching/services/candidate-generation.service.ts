@@ -0,0 +1,341 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Brackets, In, Repository, SelectQueryBuilder } from 'typeorm';
+import { UserEntity } from '../../user/user.entity/user.entity';
+import { SwipeEntity } from '../match.entity/swipe.entity';
+import { ProfileBoostEntity } from '../match.entity/profile-boost.entity';
+import { UserBlockEntity } from '../match.entity/user-block.entity';
+
+/**
+ * Options for generating a page of candidates
+ */
+export interface CandidateQueryOptions {
+  limit: number;
+  cursor?: string;
+  // Overrides the viewer's verifiedOnly preference
+  verifiedOnly?: boolean;
+}
+
+/**
+ * Ranking tier of a candidate; higher tiers are listed first
+ */
+export enum CandidatePriority {
+  DEFAULT = 0,
+  BOOSTED = 1,
+  SUPER_LIKED = 2,
+}
+
+/**
+ * A page of candidates returned by the generation stage
+ */
+export interface CandidatePage {
+  candidates: UserEntity[];
+  priorities: Record<string, CandidatePriority>;
+  nextCursor: string | null;
+}
+
+/**
+ * Position of the last candidate in a page, used for keyset pagination.
+ * Later pages rank boosts as of the first page so candidates do not move
+ * across the cursor when a boost expires.
+ */
+interface CandidateCursor {
+  priority: CandidatePriority;
+  rankedAt: string;
+  id: string;
+}
+
+/**
+ * Raw row selected by the candidate query
+ */
+interface CandidateRow {
+  id: string;
+  priority: number;
+}
+
+// Kilometers per degree of latitude
+const KM_PER_DEGREE = 111.045;
+
+/**
+ * Candidate generation stage of the recommendation pipeline.
+ * Filters users in SQL (mutual age and gender preferences, location radius,
+ * active and unsuspended accounts, not yet swiped, not blocked, and
+ * optionally verified only) and ranks super likes and boosts first,
+ * so that only a small page of candidates reaches the in-memory
+ * compatibility scoring. Pages therefore follow priority and profile
+ * recency; compatibility only orders candidates within a page, so the
+ * best-scoring profiles of the whole candidate set are not guaranteed to
+ * come first.
+ */
+@Injectable()
+export class CandidateGenerationService {
+  constructor(
+    @InjectRepository(UserEntity)
+    private readonly userRepo: Repository<UserEntity>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Get a page of candidates for a user. Users who super liked the viewer
+   * come first, then boosted users, then everyone else newest profile first.
+   * @param viewer The user requesting recommendations
+   * @param options Page size and cursor from the previous page
+   */
+  async getCandidates(
+    viewer: UserEntity,
+    options: CandidateQueryOptions,
+  ): Promise<CandidatePage> {
+    const cursor = this.decodeCursor(options.cursor);
+    if (cursor && !(await this.userRepo.exists({ where: { id: cursor.id } }))) {
+      throw new BadRequestException('Invalid cursor');
+    }
+    const rankedAt = cursor ? new Date(cursor.rankedAt) : new Date();
+
+    const query = this.userRepo
+      .createQueryBuilder('candidate')
+      .select('candidate.id', 'id')
+      .where('candidate.id != :viewerId', { viewerId: viewer.id })
+      .andWhere('candidate.isActive = :isActive', { isActive: true })
+      .andWhere('(candidate.suspendedUntil IS NULL OR candidate.suspendedUntil < :now)', { now: new Date() });
+
+    const priority = this.getPriorityExpression(query, rankedAt);
+    query.addSelect(priority, 'priority');
+
+    this.excludeSwiped(query, viewer);
+    this.excludeBlocked(query);
+    this.applyAgePreferences(query, viewer);
+    this.applyGenderPreferences(query, viewer);
+    this.applyLocationRadius(query, viewer);
+
+    if (options.verifiedOnly ?? viewer.preferences?.verifiedOnly) {
+      query.andWhere('candidate.verificationStatus = :verified', { verified: true });
+    }
+
+    if (cursor) {
+      // Row comparison matches the descending sort on all three keys. The
+      // creation time is read from the stored row to keep its full precision.
+      query.andWhere(
+        `(${priority}, candidate.createdAt, candidate.id) < ` +
+          `(:cursorPriority, (SELECT anchor."createdAt" FROM "users" anchor WHERE anchor."id" = :cursorId), :cursorId)`,
+        {
+          cursorPriority: cursor.priority,
+          cursorId: cursor.id,
+        },
+      );
+    }
+
+    // Fetch one extra row to know whether another page exists
+    const rows = await query
+      .orderBy('priority', 'DESC')
+      .addOrderBy('candidate.createdAt', 'DESC')
+      .addOrderBy('candidate.id', 'DESC')
+      .limit(options.limit + 1)
+      .getRawMany<CandidateRow>();
+
+    const pageRows = rows.slice(0, options.limit);
+    const last = pageRows[pageRows.length - 1];
+    const nextCursor =
+      rows.length > options.limit && last ? this.encodeCursor(last, rankedAt) : null;
+
+    // Load the page with interests, keeping the ranked order
+    const users = pageRows.length
+      ? await this.userRepo.find({
+          where: { id: In(pageRows.map(row => row.id)) },
+          relations: ['interests'],
+        })
+      : [];
+    const usersById = new Map(users.map(user => [user.id, user]));
+
+    const candidates: UserEntity[] = [];
+    const priorities: Record<string, CandidatePriority> = {};
+    for (const row of pageRows) {
+      const user = usersById.get(row.id);
+      if (!user) continue;
+      candidates.push(user);
+      priorities[row.id] = Number(row.priority);
+    }
+
+    return { candidates, priorities, nextCursor };
+  }
+
+  /**
+   * SQL expression ranking a candidate: super liked the viewer, boosted
+   * at the ranking time, or neither
+   */
+  private getPriorityExpression(query: SelectQueryBuilder<UserEntity>, rankedAt: Date): string {
+    const superLiked = query
+      .subQuery()
+      .select('1')
+      .from(SwipeEntity, 'superlike')
+      .where('superlike.fromUserId = candidate.id')
+      .andWhere('superlike.toUserId = :viewerId')
+      .andWhere(`superlike.direction = 'superlike'`)
+      .getQuery();
+
+    const boosted = query
+      .subQuery()
+      .select('1')
+      .from(ProfileBoostEntity, 'boost')
+      .where('boost.userId = candidate.id')
+      .andWhere(':rankedAt BETWEEN boost.startsAt AND boost.expiresAt')
+      .getQuery();
+
+    query.setParameter('rankedAt', rankedAt);
+
+    return `(CASE WHEN EXISTS ${superLiked} THEN ${CandidatePriority.SUPER_LIKED}
+      WHEN EXISTS ${boosted} THEN ${CandidatePriority.BOOSTED}
+      ELSE ${CandidatePriority.DEFAULT} END)`;
+  }
+
+  /**
+   * Exclude users the viewer has already swiped on
+   */
+  private excludeSwiped(
+    query: SelectQueryBuilder<UserEntity>,
+    viewer: UserEntity,
+  ): void {
+    const swiped = query
+      .subQuery()
+      .select('swipe.toUserId')
+      .from(SwipeEntity, 'swipe')
+      .where('swipe.fromUserId = :viewerId')
+      .getQuery();
+
+    query
+      .andWhere(`candidate.id NOT IN ${swiped}`)
+      .setParameter('viewerId', viewer.id);
+  }
+
+  /**
+   * Exclude users the viewer has blocked or been blocked by
+   */
+  private excludeBlocked(query: SelectQueryBuilder<UserEntity>): void {
+    const blockedByViewer = query
+      .subQuery()
+      .select('block.blockedId')
+      .from(UserBlockEntity, 'block')
+      .where('block.blockerId = :viewerId')
+      .getQuery();
+
+    const blockingViewer = query
+      .subQuery()
+      .select('blocker.blockerId')
+      .from(UserBlockEntity, 'blocker')
+      .where('blocker.blockedId = :viewerId')
+      .getQuery();
+
+    query
+      .andWhere(`candidate.id NOT IN ${blockedByViewer}`)
+      .andWhere(`candidate.id NOT IN ${blockingViewer}`);
+  }
+
+  /**
+   * Candidate must fit the viewer's age range and the viewer must fit the
+   * candidate's age range
+   */
+  private applyAgePreferences(
+    query: SelectQueryBuilder<UserEntity>,
+    viewer: UserEntity,
+  ): void {
+    const ageRange = viewer.preferences?.ageRange || { min: 18, max: 99 };
+
+    query
+      .andWhere('candidate.age BETWEEN :minAge AND :maxAge', {
+        minAge: ageRange.min,
+        maxAge: ageRange.max,
+      })
+      .andWhere(
+        `:viewerAge BETWEEN COALESCE(CAST(candidate.preferences -> 'ageRange' ->> 'min' AS int), 18)
+          AND COALESCE(CAST(candidate.preferences -> 'ageRange' ->> 'max' AS int), 99)`,
+        { viewerAge: viewer.age },
+      );
+  }
+
+  /**
+   * Candidate's gender must match the viewer's preference and vice versa.
+   * A missing preference is treated as 'any'.
+   */
+  private applyGenderPreferences(
+    query: SelectQueryBuilder<UserEntity>,
+    viewer: UserEntity,
+  ): void {
+    const genderPreference = viewer.preferences?.genderPreference || 'any';
+    if (genderPreference !== 'any') {
+      query.andWhere(`candidate.preferences ->> 'gender' = :genderPreference`, {
+        genderPreference,
+      });
+    }
+
+    const viewerGender = viewer.preferences?.gender;
+    query.andWhere(
+      new Brackets(qb => {
+        qb.where(`COALESCE(candidate.preferences ->> 'genderPreference', 'any') = 'any'`);
+        if (viewerGender) {
+          qb.orWhere(`candidate.preferences ->> 'genderPreference' = :viewerGender`, {
+            viewerGender,
+          });
+        }
+      }),
+    );
+  }
+
+  /**
+   * Restrict candidates to a bounding box around the viewer. The box is a
+   * cheap index-friendly approximation of the radius; exact distance is
+   * handled by the location compatibility score.
+   */
+  private applyLocationRadius(
+    query: SelectQueryBuilder<UserEntity>,
+    viewer: UserEntity,
+  ): void {
+    const latitude = viewer.location?.latitude;
+    const longitude = viewer.location?.longitude;
+    if (typeof latitude !== 'number' || typeof longitude !== 'number') return;
+
+    const radius = Math.min(
+      viewer.preferences?.maxDistance ||
+        this.configService.get<number>('matching.defaultRadius', 50),
+      this.configService.get<number>('matching.maxRadius', 160),
+    );
+
+    const latDelta = radius / KM_PER_DEGREE;
+    const lonDelta =
+      radius / (KM_PER_DEGREE * Math.max(Math.cos((latitude * Math.PI) / 180), 0.01));
+
+    query
+      .andWhere(
+        `CAST(candidate.location ->> 'latitude' AS float) BETWEEN :minLat AND :maxLat`,
+        { minLat: latitude - latDelta, maxLat: latitude + latDelta },
+      )
+      .andWhere(
+        `CAST(candidate.location ->> 'longitude' AS float) BETWEEN :minLon AND :maxLon`,
+        { minLon: longitude - lonDelta, maxLon: longitude + lonDelta },
+      );
+  }
+
+  private encodeCursor(row: CandidateRow, rankedAt: Date): string {
+    const cursor: CandidateCursor = {
+      priority: Number(row.priority),
+      rankedAt: rankedAt.toISOString(),
+      id: row.id,
+    };
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  private decodeCursor(cursor?: string): CandidateCursor | null {
+    if (!cursor) return null;
+
+    try {
+      const decoded = JSON.parse(
+        Buffer.from(cursor, 'base64url').toString('utf8'),
+      ) as CandidateCursor;
+      if (decoded.id && !Number.isNaN(new Date(decoded.rankedAt).getTime())) {
+        return { ...decoded, priority: Number(decoded.priority) || CandidatePriority.DEFAULT };
+      }
+    } catch {
+      // Fall through to the error below
+    }
+    throw new BadRequestException('Invalid cursor');
+  }
+}
@@ -0,0 +1,107 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { MatchExpiryService } from './match-expiry.service';
+import { MatchEntity, MatchStatus } from '../match.entity/match.entity';
+import { RedisService } from '../../cache/redis.service';
+import { NotificationsService } from '../../notifications/notifications.service';
+
+describe('MatchExpiryService', () => {
+  let service: MatchExpiryService;
+
+  const matchRepo = {
+    find: jest.fn(),
+    update: jest.fn(),
+  };
+  const redisService = {
+    acquireLock: jest.fn(),
+  };
+  const notificationsService = {
+    notifyMatchExpiring: jest.fn(),
+    emitToUser: jest.fn(),
+  };
+
+  const makeMatch = (overrides: Partial<MatchEntity> = {}) =>
+    ({
+      id: 'match-1',
+      user1Id: 'u1',
+      user2Id: 'u2',
+      user1: { name: 'Alice' },
+      user2: { name: 'Bob' },
+      status: MatchStatus.PENDING_FIRST_MESSAGE,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      ...overrides,
+    }) as MatchEntity;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MatchExpiryService,
+        { provide: getRepositoryToken(MatchEntity), useValue: matchRepo },
+        { provide: RedisService, useValue: redisService },
+        { provide: NotificationsService, useValue: notificationsService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((_key: string, defaultValue?: any) => defaultValue) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<MatchExpiryService>(MatchExpiryService);
+  });
+
+  describe('sendExpiryWarnings', () => {
+    it('should warn both users and record the warning', async () => {
+      const match = makeMatch();
+      matchRepo.find.mockResolvedValue([match]);
+
+      await expect(service.sendExpiryWarnings()).resolves.toBe(1);
+
+      expect(notificationsService.notifyMatchExpiring).toHaveBeenCalledWith(
+        'u1', 'match-1', 'Bob', match.expiresAt
+      );
+      expect(notificationsService.notifyMatchExpiring).toHaveBeenCalledWith(
+        'u2', 'match-1', 'Alice', match.expiresAt
+      );
+      expect(matchRepo.update).toHaveBeenCalledWith('match-1', {
+        expiryWarningSentAt: expect.any(Date),
+      });
+    });
+  });
+
+  describe('expireMatches', () => {
+    it('should expire overdue matches and notify both users', async () => {
+      matchRepo.find.mockResolvedValue([makeMatch({ expiresAt: new Date(Date.now() - 1000) })]);
+      matchRepo.update.mockResolvedValue({ affected: 1 });
+
+      await expect(service.expireMatches()).resolves.toBe(1);
+
+      expect(matchRepo.update).toHaveBeenCalledWith(
+        { id: 'match-1', status: MatchStatus.PENDING_FIRST_MESSAGE },
+        { status: MatchStatus.EXPIRED, active: false }
+      );
+      expect(notificationsService.emitToUser).toHaveBeenCalledWith('u1', 'match_expired', { matchId: 'match-1' });
+      expect(notificationsService.emitToUser).toHaveBeenCalledWith('u2', 'match_expired', { matchId: 'match-1' });
+    });
+
+    it('should skip matches that received a first message meanwhile', async () => {
+      matchRepo.find.mockResolvedValue([makeMatch({ expiresAt: new Date(Date.now() - 1000) })]);
+      matchRepo.update.mockResolvedValue({ affected: 0 });
+
+      await expect(service.expireMatches()).resolves.toBe(0);
+      expect(notificationsService.emitToUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('run', () => {
+    it('should do nothing when another instance holds the lock', async () => {
+      redisService.acquireLock.mockResolvedValue(false);
+
+      await service.run();
+
+      expect(matchRepo.find).not.toHaveBeenCalled();
+    });
+  });
+});
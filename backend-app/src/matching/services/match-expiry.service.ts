@@ -0,0 +1,122 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Between, IsNull, LessThanOrEqual, Repository } from 'typeorm';
+import { MatchEntity, MatchStatus } from '../match.entity/match.entity';
+import { RedisService } from '../../cache/redis.service';
+import { NotificationsService } from '../../notifications/notifications.service';
+
+// Redis lock so only one instance runs the job at a time
+const EXPIRY_JOB_LOCK = 'jobs:match-expiry';
+
+/**
+ * Scheduled job that warns users about matches nearing the end of their
+ * first-message window and expires matches nobody wrote to
+ */
+@Injectable()
+export class MatchExpiryService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MatchExpiryService.name);
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    @InjectRepository(MatchEntity)
+    private readonly matchRepo: Repository<MatchEntity>,
+    private readonly redisService: RedisService,
+    private readonly notificationsService: NotificationsService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    const intervalSeconds = this.configService.get<number>('matching.matchExpiryJobIntervalSeconds', 300);
+    if (intervalSeconds <= 0) return;
+
+    this.timer = setInterval(() => {
+      this.run().catch(error =>
+        this.logger.error(`Match expiry job failed: ${error.message}`, error.stack)
+      );
+    }, intervalSeconds * 1000);
+    this.timer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run one pass of the job unless another instance holds the lock
+   */
+  async run(): Promise<void> {
+    const intervalSeconds = this.configService.get<number>('matching.matchExpiryJobIntervalSeconds', 300);
+    if (!(await this.redisService.acquireLock(EXPIRY_JOB_LOCK, Math.max(intervalSeconds - 1, 1)))) {
+      return;
+    }
+
+    const warned = await this.sendExpiryWarnings();
+    const expired = await this.expireMatches();
+    if (warned || expired) {
+      this.logger.log(`Warned ${warned} and expired ${expired} matches`);
+    }
+  }
+
+  /**
+   * Notify both users of matches that expire within the warning window
+   * @returns The number of matches warned about
+   */
+  async sendExpiryWarnings(): Promise<number> {
+    const now = new Date();
+    const warningHours = this.configService.get<number>('matching.matchExpiryWarningHours', 6);
+
+    const matches = await this.matchRepo.find({
+      where: {
+        status: MatchStatus.PENDING_FIRST_MESSAGE,
+        expiresAt: Between(now, new Date(now.getTime() + warningHours * 60 * 60 * 1000)),
+        expiryWarningSentAt: IsNull(),
+      },
+      relations: ['user1', 'user2'],
+    });
+
+    for (const match of matches) {
+      await this.notificationsService.notifyMatchExpiring(
+        match.user1Id, match.id, match.user2.name, match.expiresAt!
+      );
+      await this.notificationsService.notifyMatchExpiring(
+        match.user2Id, match.id, match.user1.name, match.expiresAt!
+      );
+      await this.matchRepo.update(match.id, { expiryWarningSentAt: now });
+    }
+
+    return matches.length;
+  }
+
+  /**
+   * Expire matches whose first-message window has passed
+   * @returns The number of expired matches
+   */
+  async expireMatches(): Promise<number> {
+    const matches = await this.matchRepo.find({
+      where: {
+        status: MatchStatus.PENDING_FIRST_MESSAGE,
+        expiresAt: LessThanOrEqual(new Date()),
+      },
+    });
+
+    let expired = 0;
+    for (const match of matches) {
+      // Skip matches where a first message arrived since the lookup
+      const result = await this.matchRepo.update(
+        { id: match.id, status: MatchStatus.PENDING_FIRST_MESSAGE },
+        { status: MatchStatus.EXPIRED, active: false }
+      );
+      if (!result.affected) continue;
+
+      expired++;
+      this.notificationsService.emitToUser(match.user1Id, 'match_expired', { matchId: match.id });
+      this.notificationsService.emitToUser(match.user2Id, 'match_expired', { matchId: match.id });
+    }
+
+    return expired;
+  }
+}
@@ -0,0 +1,129 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { MatchingFactorsService } from './matching-factors.service';
+import { UserEntity } from '../../user/user.entity/user.entity';
+import { InterestEntity } from '../../user/user.entity/interest.entity';
+
+describe('MatchingFactorsService', () => {
+  let service: MatchingFactorsService;
+
+  const makeUser = (overrides: Partial<UserEntity> = {}) =>
+    ({ id: 'user', age: 30, interests: [], ...overrides }) as UserEntity;
+
+  const hoursPeakingAt = (...peaks: number[]) =>
+    Array.from({ length: 24 }, (_, hour) => (peaks.includes(hour) ? 10 : 0));
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MatchingFactorsService,
+        { provide: getRepositoryToken(UserEntity), useValue: {} },
+        { provide: getRepositoryToken(InterestEntity), useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<MatchingFactorsService>(MatchingFactorsService);
+  });
+
+  describe('calculateBehavioralCompatibility', () => {
+    it('should be neutral without behavioral data', () => {
+      expect(service.calculateBehavioralCompatibility(makeUser(), makeUser())).toBe(0.5);
+    });
+
+    it('should favor candidates near the learned average age', () => {
+      const viewer = makeUser({
+        implicitPreferences: { agePreference: { min: 25, max: 35, avg: 30, weight: 1 } },
+      });
+
+      const atAverage = service.calculateBehavioralFactors(viewer, makeUser({ age: 30 }));
+      const atEdge = service.calculateBehavioralFactors(viewer, makeUser({ age: 35 }));
+      const outside = service.calculateBehavioralFactors(viewer, makeUser({ age: 45 }));
+
+      expect(atAverage.ageFit).toBe(1);
+      expect(atEdge.ageFit).toBe(0.5);
+      expect(outside.ageFit).toBe(0);
+    });
+
+    it('should blend the age fit towards neutral by its confidence', () => {
+      const viewer = makeUser({
+        implicitPreferences: { agePreference: { min: 25, max: 35, avg: 30, weight: 0.5 } },
+      });
+
+      expect(service.calculateBehavioralFactors(viewer, makeUser({ age: 30 })).ageFit).toBe(0.75);
+    });
+
+    it('should score interest affinity against the best possible profile', () => {
+      const viewer = makeUser({
+        implicitPreferences: { interestFactors: { hiking: 6, cooking: 3, chess: 1 } },
+      });
+      const interests = (...ids: string[]) => ids.map(id => ({ id, name: id }));
+
+      const best = service.calculateBehavioralFactors(
+        viewer,
+        makeUser({ interests: interests('hiking', 'cooking') }),
+      );
+      const partial = service.calculateBehavioralFactors(
+        viewer,
+        makeUser({ interests: interests('chess', 'knitting') }),
+      );
+
+      expect(best.interestAffinity).toBe(1);
+      expect(partial.interestAffinity).toBeCloseTo(1 / 9);
+    });
+
+    it('should measure overlap of active hours', () => {
+      const viewer = makeUser({ behavioralData: { activeHours: hoursPeakingAt(20, 21) } });
+
+      const sameHours = service.calculateBehavioralFactors(
+        viewer,
+        makeUser({ behavioralData: { activeHours: hoursPeakingAt(20, 21) } }),
+      );
+      const otherHours = service.calculateBehavioralFactors(
+        viewer,
+        makeUser({ behavioralData: { activeHours: hoursPeakingAt(7, 8) } }),
+      );
+
+      expect(sameHours.activeHoursOverlap).toBeCloseTo(1);
+      expect(otherHours.activeHoursOverlap).toBe(0);
+    });
+
+    it('should average only the available components', () => {
+      const viewer = makeUser({
+        implicitPreferences: { agePreference: { min: 25, max: 35, avg: 30, weight: 1 } },
+        behavioralData: { activeHours: hoursPeakingAt(20) },
+      });
+      const candidate = makeUser({
+        age: 30,
+        behavioralData: { activeHours: hoursPeakingAt(7) },
+      });
+
+      expect(service.calculateBehavioralCompatibility(viewer, candidate)).toBe(0.5);
+    });
+  });
+
+  describe('calculateReciprocalCompatibility', () => {
+    it('should score both directions and combine them with a harmonic mean', async () => {
+      // user1 wants 25-35 year olds; user2 wants 40-50 year olds
+      const user1 = makeUser({ id: 'u1', age: 30, preferences: { ageRange: { min: 25, max: 35 } } });
+      const user2 = makeUser({ id: 'u2', age: 30, preferences: { ageRange: { min: 40, max: 50 } } });
+
+      const result = await service.calculateReciprocalCompatibility(user1, user2);
+
+      expect(result.forward).toBeGreaterThan(result.backward);
+      expect(result.combined).toBeCloseTo(
+        (2 * result.forward * result.backward) / (result.forward + result.backward),
+      );
+      expect(result.combined).toBeLessThan((result.forward + result.backward) / 2);
+    });
+
+    it('should be symmetric for mutually compatible users', async () => {
+      const user1 = makeUser({ id: 'u1', age: 30 });
+      const user2 = makeUser({ id: 'u2', age: 30 });
+
+      const result = await service.calculateReciprocalCompatibility(user1, user2);
+
+      expect(result.forward).toBeCloseTo(result.backward);
+      expect(result.combined).toBeCloseTo(result.forward);
+    });
+  });
+});
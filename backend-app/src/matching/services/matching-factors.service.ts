@@ -4,6 +4,45 @@ import { Repository } from 'typeorm';
 import { UserEntity } from '../../user/user.entity/user.entity';
 import { InterestEntity } from '../../user/user.entity/interest.entity';
 
+/**
+ * Relative weights of each compatibility factor in the overall score
+ */
+export interface MatchingWeights {
+  interest: number;
+  demographic: number;
+  location: number;
+  behavioral: number;
+}
+
+/**
+ * Weights used when no experiment variant overrides them
+ */
+export const DEFAULT_MATCHING_WEIGHTS: MatchingWeights = {
+  interest: 0.4,
+  demographic: 0.3,
+  location: 0.2,
+  behavioral: 0.1,
+};
+
+/**
+ * Components of the behavioral factor. A component is null when the
+ * underlying behavioral data has not been collected yet.
+ */
+export interface BehavioralFactors {
+  ageFit: number | null;
+  interestAffinity: number | null;
+  activeHoursOverlap: number | null;
+}
+
+/**
+ * Compatibility scored in both directions and combined
+ */
+export interface ReciprocalCompatibility {
+  forward: number;
+  backward: number;
+  combined: number;
+}
+
 @Injectable()
 export class MatchingFactorsService {
   constructor(
@@ -19,17 +58,17 @@ export class MatchingFactorsService {
   ): Promise<number> {
     // Load interests if not already loaded
     if (!user1.interests) {
-      user1 = await this.userRepo.findOne({
+      user1 = (await this.userRepo.findOne({
         where: { id: user1.id },
         relations: ['interests']
-      });
+      })) || user1;
     }
     
     if (!user2.interests) {
-      user2 = await this.userRepo.findOne({
+      user2 = (await this.userRepo.findOne({
         where: { id: user2.id },
         relations: ['interests']
-      });
+      })) || user2;
     }
     
     // Handle cases where users might not have interests
@@ -94,6 +133,107 @@ export class MatchingFactorsService {
     return Math.max(0, 1 - (distance / maxDistance));
   }
   
+  /**
+   * Calculate the components of behavioral compatibility from what user1 has
+   * learned to like (implicit preferences) and when both users are active
+   */
+  calculateBehavioralFactors(
+    user1: UserEntity, 
+    user2: UserEntity
+  ): BehavioralFactors {
+    return {
+      ageFit: this.calculateImplicitAgeFit(user1, user2),
+      interestAffinity: this.calculateInterestAffinity(user1, user2),
+      activeHoursOverlap: this.calculateActiveHoursOverlap(user1, user2),
+    };
+  }
+  
+  /**
+   * Calculate behavioral compatibility as the mean of the available components
+   */
+  calculateBehavioralCompatibility(
+    user1: UserEntity, 
+    user2: UserEntity
+  ): number {
+    const components = Object.values(this.calculateBehavioralFactors(user1, user2))
+      .filter((score): score is number => score !== null);
+    
+    // Neutral score until there is enough behavioral data
+    if (components.length === 0) return 0.5;
+    
+    return components.reduce((sum, score) => sum + score, 0) / components.length;
+  }
+  
+  /**
+   * How well user2's age fits the age band user1 has liked so far,
+   * blended towards neutral by the confidence of the learned preference
+   */
+  private calculateImplicitAgeFit(user1: UserEntity, user2: UserEntity): number | null {
+    const agePreference = user1.implicitPreferences?.agePreference;
+    if (!agePreference || !user2.age) return null;
+    
+    const { min, max, avg, weight } = agePreference;
+    const halfBand = Math.max((max - min) / 2, 1);
+    
+    let fit: number;
+    if (user2.age >= min && user2.age <= max) {
+      // Inside the band: 1.0 at the average, 0.5 at the edges
+      fit = 1 - 0.5 * Math.min(Math.abs(user2.age - avg) / halfBand, 1);
+    } else {
+      // Outside the band: decay from 0.5 to 0 over another half band
+      const distance = user2.age < min ? min - user2.age : user2.age - max;
+      fit = Math.max(0, 0.5 - 0.5 * (distance / halfBand));
+    }
+    
+    const confidence = Math.min(Math.max(weight ?? 1, 0), 1);
+    return 0.5 + (fit - 0.5) * confidence;
+  }
+  
+  /**
+   * Share of user1's learned interest weight that user2's interests carry,
+   * relative to the best possible profile with the same number of interests
+   */
+  private calculateInterestAffinity(user1: UserEntity, user2: UserEntity): number | null {
+    const interestFactors = user1.implicitPreferences?.interestFactors;
+    if (!interestFactors || !user2.interests?.length) return null;
+    
+    const factorValues = Object.values(interestFactors).filter(value => value > 0);
+    if (factorValues.length === 0) return null;
+    
+    const bestPossible = factorValues
+      .sort((a, b) => b - a)
+      .slice(0, user2.interests.length)
+      .reduce((sum, value) => sum + value, 0);
+    
+    const matched = user2.interests
+      .reduce((sum, interest) => sum + (interestFactors[interest.id] || 0), 0);
+    
+    return Math.min(matched / bestPossible, 1);
+  }
+  
+  /**
+   * Cosine similarity of both users' hourly activity histograms
+   */
+  private calculateActiveHoursOverlap(user1: UserEntity, user2: UserEntity): number | null {
+    const hours1 = user1.behavioralData?.activeHours;
+    const hours2 = user2.behavioralData?.activeHours;
+    if (!hours1?.length || !hours2?.length) return null;
+    
+    let dot = 0;
+    let norm1 = 0;
+    let norm2 = 0;
+    for (let hour = 0; hour < 24; hour++) {
+      const a = hours1[hour] || 0;
+      const b = hours2[hour] || 0;
+      dot += a * b;
+      norm1 += a * a;
+      norm2 += b * b;
+    }
+    
+    if (norm1 === 0 || norm2 === 0) return null;
+    return dot / (Math.sqrt(norm1) * Math.sqrt(norm2));
+  }
+  
   private calculateHaversineDistance(
     lat1: number, lon1: number, 
     lat2: number, lon2: number
@@ -123,26 +263,23 @@ export class MatchingFactorsService {
   
   /**
    * Calculate overall compatibility score based on multiple factors
+   * @param weights Factor weights, e.g. from the user's A/B test variant
    */
   async calculateOverallCompatibility(
     user1: UserEntity, 
-    user2: UserEntity
+    user2: UserEntity,
+    weights: MatchingWeights = DEFAULT_MATCHING_WEIGHTS
   ): Promise<number> {
     // Calculate individual scores
     const interestScore = await this.calculateInterestCompatibility(user1, user2);
     const demographicScore = this.calculateDemographicCompatibility(user1, user2);
     const locationScore = this.calculateLocationCompatibility(user1, user2);
+    const behavioralScore = this.calculateBehavioralCompatibility(user1, user2);
     
-    // Calculate behavioral compatibility if data exists
-    let behavioralScore = 0.5; // Default neutral score
-    
-    // Apply weights to each factor (can be adjusted)
-    const weights = {
-      interest: 0.4,
-      demographic: 0.3,
-      location: 0.2, 
-      behavioral: 0.1
-    };
+    // Normalize so variant weights need not sum to exactly 1
+    const totalWeight =
+      weights.interest + weights.demographic + weights.location + weights.behavioral;
+    if (totalWeight <= 0) return 0;
     
     // Calculate weighted score
     return (
@@ -150,6 +287,32 @@ export class MatchingFactorsService {
       (demographicScore * weights.demographic) + 
       (locationScore * weights.location) + 
       (behavioralScore * weights.behavioral)
-    );
+    ) / totalWeight;
+  }
+  
+  /**
+   * Calculate two-sided compatibility: how well user2 fits user1 (forward)
+   * and how well user1 fits user2 (backward), combined with a harmonic mean
+   * so that a one-sided fit cannot produce a high score
+   * @param weights Factor weights applied in both directions
+   */
+  async calculateReciprocalCompatibility(
+    user1: UserEntity, 
+    user2: UserEntity,
+    weights: MatchingWeights = DEFAULT_MATCHING_WEIGHTS
+  ): Promise<ReciprocalCompatibility> {
+    const forward = await this.calculateOverallCompatibility(user1, user2, weights);
+    const backward = await this.calculateOverallCompatibility(user2, user1, weights);
+    
+    return {
+      forward,
+      backward,
+      combined: this.harmonicMean(forward, backward),
+    };
+  }
+  
+  private harmonicMean(a: number, b: number): number {
+    if (a <= 0 || b <= 0) return 0;
+    return (2 * a * b) / (a + b);
   }
 }
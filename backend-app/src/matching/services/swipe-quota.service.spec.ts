@@ -0,0 +1,122 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { HttpStatus } from '@nestjs/common';
+import { SwipeQuotaService, getSubscriptionTier } from './swipe-quota.service';
+import { RedisService } from '../../cache/redis.service';
+import { UserEntity } from '../../user/user.entity/user.entity';
+import { QuotaExceededException } from '../../common/exceptions/quota-exceeded.exception';
+
+describe('SwipeQuotaService', () => {
+  let service: SwipeQuotaService;
+  let counters: Map<string, number>;
+
+  const freeUser = { id: 'free', subscriptionStatus: 'free' } as UserEntity;
+  const premiumUser = { id: 'premium', subscriptionStatus: 'premium' } as UserEntity;
+
+  const config: Record<string, unknown> = {
+    'matching.maxDailySwipes': { free: 2, premium: 0 },
+    'matching.superLikesPerDay': { free: 1, premium: 5 },
+    'matching.rewindsPerDay': { free: 0, premium: 10 },
+    'matching.boostsPerDay': { free: 0, premium: 1 },
+  };
+
+  beforeEach(async () => {
+    counters = new Map();
+    const redisService = {
+      get: jest.fn(key => Promise.resolve(counters.get(key) ?? null)),
+      increment: jest.fn(key => {
+        counters.set(key, (counters.get(key) || 0) + 1);
+        return Promise.resolve(counters.get(key));
+      }),
+      decrement: jest.fn(key => {
+        counters.set(key, (counters.get(key) || 0) - 1);
+        return Promise.resolve(counters.get(key));
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SwipeQuotaService,
+        { provide: RedisService, useValue: redisService },
+        { provide: ConfigService, useValue: { get: jest.fn(key => config[key]) } },
+      ],
+    }).compile();
+
+    service = module.get<SwipeQuotaService>(SwipeQuotaService);
+  });
+
+  it('should resolve the tier from the subscription status', () => {
+    expect(getSubscriptionTier(freeUser)).toBe('free');
+    expect(getSubscriptionTier({ subscriptionStatus: '' } as UserEntity)).toBe('free');
+    expect(getSubscriptionTier(premiumUser)).toBe('premium');
+  });
+
+  it('should allow usage up to the tier limit', async () => {
+    const status = await service.consume(freeUser, 'superLikes');
+
+    expect(status).toMatchObject({ limit: 1, used: 1, remaining: 0 });
+    await expect(service.consume(freeUser, 'superLikes')).rejects.toThrow(QuotaExceededException);
+  });
+
+  it('should not count rejected usage', async () => {
+    await service.consume(freeUser, 'superLikes');
+    await expect(service.consume(freeUser, 'superLikes')).rejects.toThrow(QuotaExceededException);
+
+    await expect(service.getStatus(freeUser, 'superLikes')).resolves.toMatchObject({
+      used: 1,
+      remaining: 0,
+    });
+  });
+
+  it('should apply the premium limits', async () => {
+    await expect(service.consume(freeUser, 'boosts')).rejects.toThrow(QuotaExceededException);
+    await expect(service.consume(premiumUser, 'boosts')).resolves.toMatchObject({ remaining: 0 });
+  });
+
+  it('should treat a zero like quota as unlimited', async () => {
+    for (let i = 0; i < 5; i++) {
+      await service.consume(premiumUser, 'likes');
+    }
+
+    await expect(service.getStatus(premiumUser, 'likes')).resolves.toMatchObject({
+      limit: null,
+      used: 5,
+      remaining: null,
+    });
+  });
+
+  it('should describe the exhausted quota for an upgrade prompt', async () => {
+    await service.consume(freeUser, 'likes');
+    await service.consume(freeUser, 'likes');
+
+    const error = await service.consume(freeUser, 'likes').catch(e => e);
+
+    expect(error).toBeInstanceOf(QuotaExceededException);
+    expect(error.getStatus()).toBe(HttpStatus.TOO_MANY_REQUESTS);
+    expect(error.getResponse()).toMatchObject({
+      error: 'QUOTA_EXCEEDED',
+      feature: 'likes',
+      limit: 2,
+      upgradeAvailable: true,
+      resetsAt: expect.any(Date),
+    });
+  });
+
+  it('should give back refunded usage', async () => {
+    await service.consume(premiumUser, 'rewinds');
+    await service.refund(premiumUser.id, 'rewinds');
+
+    await expect(service.getStatus(premiumUser, 'rewinds')).resolves.toMatchObject({
+      used: 0,
+      remaining: 10,
+    });
+  });
+
+  it('should reset at the next UTC midnight', async () => {
+    const { resetsAt } = await service.getStatus(freeUser, 'superLikes');
+
+    expect(resetsAt.getUTCHours()).toBe(0);
+    expect(resetsAt.getTime()).toBeGreaterThan(Date.now());
+    expect(resetsAt.getTime() - Date.now()).toBeLessThanOrEqual(24 * 60 * 60 * 1000);
+  });
+});
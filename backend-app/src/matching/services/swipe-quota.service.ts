@@ -0,0 +1,134 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RedisService } from '../../cache/redis.service';
+import { UserEntity } from '../../user/user.entity/user.entity';
+import { QuotaExceededException } from '../../common/exceptions/quota-exceeded.exception';
+
+export type SubscriptionTier = 'free' | 'premium';
+
+export type SwipeQuotaFeature = 'likes' | 'superLikes' | 'rewinds' | 'boosts';
+
+/**
+ * Daily usage of a quota-limited feature. A null limit means unlimited.
+ */
+export interface QuotaStatus {
+  feature: SwipeQuotaFeature;
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  resetsAt: Date;
+}
+
+/**
+ * Where a feature's per-tier daily limit is configured
+ */
+interface QuotaDefinition {
+  configKey: string;
+  zeroMeansUnlimited?: boolean;
+}
+
+const QUOTAS: Record<SwipeQuotaFeature, QuotaDefinition> = {
+  likes: { configKey: 'matching.maxDailySwipes', zeroMeansUnlimited: true },
+  superLikes: { configKey: 'matching.superLikesPerDay' },
+  rewinds: { configKey: 'matching.rewindsPerDay' },
+  boosts: { configKey: 'matching.boostsPerDay' },
+};
+
+/**
+ * Resolve the subscription tier used for quotas
+ */
+export function getSubscriptionTier(user: Pick<UserEntity, 'subscriptionStatus'>): SubscriptionTier {
+  return user.subscriptionStatus && user.subscriptionStatus !== 'free' ? 'premium' : 'free';
+}
+
+/**
+ * Service for enforcing per-tier daily quotas on swipe features.
+ * Usage is counted in Redis per UTC day.
+ */
+@Injectable()
+export class SwipeQuotaService {
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Get today's usage of a feature
+   * @param user The user to check
+   * @param feature The quota-limited feature
+   */
+  async getStatus(user: UserEntity, feature: SwipeQuotaFeature): Promise<QuotaStatus> {
+    const used = Number(await this.redisService.get<number>(this.getKey(user.id, feature))) || 0;
+    return this.toStatus(user, feature, used);
+  }
+
+  /**
+   * Use one unit of a feature, failing when the daily limit is reached
+   * @param user The user consuming the quota
+   * @param feature The quota-limited feature
+   */
+  async consume(user: UserEntity, feature: SwipeQuotaFeature): Promise<QuotaStatus> {
+    const key = this.getKey(user.id, feature);
+    const used = await this.redisService.increment(key, this.getSecondsUntilReset());
+    const status = this.toStatus(user, feature, used);
+
+    if (status.limit !== null && used > status.limit) {
+      await this.redisService.decrement(key);
+      throw new QuotaExceededException(
+        status.limit === 0
+          ? `Your subscription does not include ${feature}`
+          : `Daily ${feature} limit of ${status.limit} reached`,
+        {
+          feature,
+          limit: status.limit,
+          resetsAt: status.resetsAt,
+          upgradeAvailable: getSubscriptionTier(user) === 'free',
+        }
+      );
+    }
+
+    return status;
+  }
+
+  /**
+   * Give back one unit of a feature when the action it paid for failed
+   * @param userId The user to refund
+   * @param feature The quota-limited feature
+   */
+  async refund(userId: string, feature: SwipeQuotaFeature): Promise<void> {
+    await this.redisService.decrement(this.getKey(userId, feature));
+  }
+
+  private toStatus(user: UserEntity, feature: SwipeQuotaFeature, used: number): QuotaStatus {
+    const limit = this.getLimit(user, feature);
+    return {
+      feature,
+      limit,
+      used: limit === null ? used : Math.min(used, limit),
+      remaining: limit === null ? null : Math.max(limit - used, 0),
+      resetsAt: this.getResetTime(),
+    };
+  }
+
+  private getLimit(user: UserEntity, feature: SwipeQuotaFeature): number | null {
+    const { configKey, zeroMeansUnlimited } = QUOTAS[feature];
+    const limits = this.configService.get<Record<SubscriptionTier, number>>(configKey);
+    const limit = limits?.[getSubscriptionTier(user)] ?? 0;
+    return zeroMeansUnlimited && limit === 0 ? null : limit;
+  }
+
+  private getKey(userId: string, feature: SwipeQuotaFeature): string {
+    const day = new Date().toISOString().slice(0, 10);
+    return `quota:${feature}:${userId}:${day}`;
+  }
+
+  private getResetTime(): Date {
+    const reset = new Date();
+    reset.setUTCHours(24, 0, 0, 0);
+    return reset;
+  }
+
+  private getSecondsUntilReset(): number {
+    return Math.ceil((this.getResetTime().getTime() - Date.now()) / 1000);
+  }
+}
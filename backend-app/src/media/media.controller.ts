@@ -1,12 +1,17 @@
-import { Controller, Post, Get, Param, UploadedFile, UseInterceptors, UseGuards } from '@nestjs/common';
+import { Controller, Post, Get, Param, Req, UploadedFile, UseInterceptors, UseGuards, NotFoundException } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
+import { Request } from 'express';
 import { MediaService } from './media.service';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { UserService } from '../user/user.service';
 
 @Controller('media')
 @UseGuards(JwtAuthGuard)
 export class MediaController {
-  constructor(private readonly mediaService: MediaService) {}
+  constructor(
+    private readonly mediaService: MediaService,
+    private readonly userService: UserService,
+  ) {}
 
   @Post('upload')
   @UseInterceptors(FileInterceptor('file'))
@@ -14,8 +19,44 @@ export class MediaController {
     return this.mediaService.uploadFile(file);
   }
 
+  @Post('profile-photo')
+  @UseInterceptors(FileInterceptor('file'))
+  async uploadProfilePhoto(
+    @UploadedFile() file: Express.Multer.File,
+    @Req() request: Request
+  ) {
+    const userId = request.user?.id;
+
+    if (!userId) {
+      throw new Error('User ID not found in request');
+    }
+
+    const uploaded = await this.mediaService.uploadProfileImage(file, userId);
+    await this.userService.updateProfile(userId, { profilePhotoId: uploaded.id });
+    return uploaded;
+  }
+
+  @Get(':fileId/thumbnail')
+  async getThumbnail(@Param('fileId') fileId: string) {
+    this.assertPublicFile(fileId);
+    return this.mediaService.getThumbnail(fileId);
+  }
+
   @Get(':fileId')
   async getFile(@Param('fileId') fileId: string) {
+    this.assertPublicFile(fileId);
     return this.mediaService.getFile(fileId);
   }
+
+  /**
+   * Chat attachments are only served through messaging, which checks that
+   * the requester takes part in the conversation, and verification selfies
+   * only to admins reviewing them
+   */
+  private assertPublicFile(fileId: string) {
+    const { purpose } = this.mediaService.getFileInfo(fileId);
+    if (purpose === 'message' || purpose === 'verification') {
+      throw new NotFoundException(`File with ID ${fileId} not found`);
+    }
+  }
 }
@@ -31,7 +31,12 @@ export class MediaService {
     'image/gif', 
     'image/webp',
     'video/mp4',
-    'video/webm'
+    'video/webm',
+    'audio/mpeg',
+    'audio/mp4',
+    'audio/aac',
+    'audio/ogg',
+    'audio/webm'
   ];
   private readonly maxFileSize = 10 * 1024 * 1024; // 10MB
   
@@ -165,6 +170,27 @@ export class MediaService {
     }
   }
 
+  /**
+   * Get the stored metadata of a file without reading it
+   * @throws NotFoundException if the file does not exist
+   */
+  getFileInfo(fileId: string) {
+    const metadata = this.files.get(fileId);
+    
+    if (!metadata) {
+      throw new NotFoundException(`File with ID ${fileId} not found`);
+    }
+    
+    return {
+      id: metadata.id,
+      mimeType: metadata.mimeType,
+      size: metadata.size,
+      userId: metadata.userId,
+      purpose: metadata.purpose,
+      hasThumbnail: !!metadata.thumbnailPath
+    };
+  }
+
   async getFile(fileId: string) {
     const metadata = this.files.get(fileId);
     
@@ -246,6 +272,22 @@ export class MediaService {
     }
   }
   
+  /**
+   * Delete several files, skipping any that are already gone. Used when
+   * the records referencing them are removed, so failures are only logged.
+   */
+  async deleteFiles(fileIds: string[]) {
+    for (const fileId of fileIds) {
+      if (!this.files.has(fileId)) continue;
+      
+      try {
+        await this.deleteFile(fileId);
+      } catch (error) {
+        this.logger.warn(`Failed to delete file ${fileId}: ${error.message}`);
+      }
+    }
+  }
+  
   async getUserFiles(userId: string) {
     const userFiles: FileMetadata[] = [];
     
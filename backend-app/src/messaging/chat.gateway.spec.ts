@@ -0,0 +1,365 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { ChatErrorCode, ChatGateway } from './chat.gateway';
+import { MessagingService } from './messaging.service';
+import { EncryptionService } from '../common/services/encryption.service';
+import { PresenceService } from './services/presence.service';
+import { RedisService } from '../cache/redis.service';
+import { EmailVerificationService } from '../auth/email-verification.service';
+
+describe('ChatGateway', () => {
+  let gateway: ChatGateway;
+
+  const messagingService = {
+    getMessageableMatch: jest.fn(),
+    sendMessage: jest.fn(),
+    markConversationRead: jest.fn(),
+    getActivePartnerIds: jest.fn(),
+    unsendMessage: jest.fn(),
+    deleteMessageForUser: jest.fn(),
+  };
+  const presenceService = {
+    connect: jest.fn(),
+    disconnect: jest.fn(),
+    setStatus: jest.fn(),
+    getPresence: jest.fn(),
+  };
+  const jwtService = {
+    verify: jest.fn(),
+  };
+  const redisService = {
+    exists: jest.fn(),
+  };
+  const emailVerificationService = {
+    isVerified: jest.fn(),
+  };
+  const roomEmit = jest.fn();
+
+  const makeClient = (handshake: Record<string, any> = {}) => ({
+    id: 'socket-1',
+    data: { userId: 'me' },
+    handshake: { headers: {}, auth: {}, ...handshake },
+    join: jest.fn(),
+    leave: jest.fn(),
+    emit: jest.fn(),
+    to: jest.fn(() => ({ emit: roomEmit })),
+    rooms: new Set<string>(),
+  }) as any;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    emailVerificationService.isVerified.mockResolvedValue(true);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ChatGateway,
+        { provide: MessagingService, useValue: messagingService },
+        { provide: EncryptionService, useValue: {} },
+        { provide: JwtService, useValue: jwtService },
+        { provide: PresenceService, useValue: presenceService },
+        { provide: RedisService, useValue: redisService },
+        { provide: EmailVerificationService, useValue: emailVerificationService },
+      ],
+    }).compile();
+
+    gateway = module.get<ChatGateway>(ChatGateway);
+    gateway.server = { to: jest.fn(() => ({ emit: roomEmit })) } as any;
+  });
+
+  describe('handshake', () => {
+    const runMiddleware = async (client: any) => {
+      const server = { use: jest.fn() };
+      gateway.afterInit(server as any);
+      const middleware = server.use.mock.calls[0][0];
+      const next = jest.fn();
+      await middleware(client, next);
+      return next;
+    };
+
+    it('should reject connections without a token', async () => {
+      const next = await runMiddleware(makeClient());
+
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({
+        message: 'Unauthorized',
+        data: { code: ChatErrorCode.UNAUTHORIZED },
+      }));
+    });
+
+    it('should reject connections with an invalid token', async () => {
+      jwtService.verify.mockImplementation(() => {
+        throw new Error('invalid signature');
+      });
+
+      const next = await runMiddleware(makeClient({ auth: { token: 'forged' } }));
+
+      expect(next).toHaveBeenCalledWith(expect.any(Error));
+    });
+
+    it('should attach the user from a valid token', async () => {
+      jwtService.verify.mockReturnValue({ sub: 'user-1' });
+      const client = makeClient({ headers: { authorization: 'Bearer valid' } });
+
+      const next = await runMiddleware(client);
+
+      expect(jwtService.verify).toHaveBeenCalledWith('valid', expect.anything());
+      expect(next).toHaveBeenCalledWith();
+      expect(client.data.userId).toBe('user-1');
+    });
+
+    it('should reject tokens of a revoked session', async () => {
+      jwtService.verify.mockReturnValue({ sub: 'user-1', sid: 'session-1' });
+      redisService.exists.mockResolvedValue(true);
+
+      const next = await runMiddleware(makeClient({ auth: { token: 'revoked' } }));
+
+      expect(redisService.exists).toHaveBeenCalledWith('auth:revoked-session:session-1');
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({ message: 'Unauthorized' }));
+    });
+  });
+
+  describe('joinRoom', () => {
+    it('should join the room of a match the user belongs to', async () => {
+      messagingService.getMessageableMatch.mockResolvedValue({ id: 'm1' });
+      const client = makeClient();
+
+      await gateway.handleJoinRoom({ matchId: 'm1' }, client);
+
+      expect(messagingService.getMessageableMatch).toHaveBeenCalledWith('m1', 'me');
+      expect(client.join).toHaveBeenCalledWith('match-m1');
+    });
+
+    it('should refuse rooms of other matches', async () => {
+      messagingService.getMessageableMatch.mockRejectedValue(new NotFoundException('Match not found'));
+      const client = makeClient();
+
+      await gateway.handleJoinRoom({ matchId: 'm2' }, client);
+
+      expect(client.join).not.toHaveBeenCalled();
+      expect(client.emit).toHaveBeenCalledWith('error', {
+        event: 'joinRoom',
+        code: ChatErrorCode.MATCH_NOT_FOUND,
+        message: 'Match not found',
+      });
+    });
+  });
+
+  describe('sendMessage', () => {
+    it('should send as the authenticated user regardless of the payload', async () => {
+      messagingService.sendMessage.mockResolvedValue({
+        id: 'msg-1',
+        senderId: 'me',
+        matchId: 'm1',
+        content: 'hi',
+        createdAt: new Date(),
+        read: false,
+        isEncrypted: true,
+      });
+
+      await gateway.handleSendMessage(
+        { matchId: 'm1', content: 'hi', senderId: 'someone-else' } as any,
+        makeClient()
+      );
+
+      expect(messagingService.sendMessage).toHaveBeenCalledWith('me', 'm1', 'hi', undefined, undefined);
+      expect(gateway.server.to).toHaveBeenCalledWith('match-m1');
+      expect(roomEmit).toHaveBeenCalledWith('newMessage', expect.objectContaining({ senderId: 'me' }));
+    });
+
+    it('should report inactive or blocked matches', async () => {
+      messagingService.sendMessage.mockRejectedValue(new ForbiddenException('This match is no longer active'));
+      const client = makeClient();
+
+      await gateway.handleSendMessage({ matchId: 'm1', content: 'hi' }, client);
+
+      expect(roomEmit).not.toHaveBeenCalled();
+      expect(client.emit).toHaveBeenCalledWith('error', expect.objectContaining({
+        code: ChatErrorCode.MATCH_UNAVAILABLE,
+      }));
+    });
+
+    it('should refuse senders who have not confirmed their email', async () => {
+      emailVerificationService.isVerified.mockResolvedValue(false);
+      const client = makeClient();
+
+      await gateway.handleSendMessage({ matchId: 'm1', content: 'hi' }, client);
+
+      expect(emailVerificationService.isVerified).toHaveBeenCalledWith('me');
+      expect(messagingService.sendMessage).not.toHaveBeenCalled();
+      expect(client.emit).toHaveBeenCalledWith('error', expect.objectContaining({
+        code: ChatErrorCode.EMAIL_NOT_VERIFIED,
+      }));
+    });
+
+    it('should send attachments without text', async () => {
+      messagingService.sendMessage.mockResolvedValue({ id: 'msg-1', matchId: 'm1', mediaId: 'media-1' });
+
+      await gateway.handleSendMessage({ matchId: 'm1', mediaId: 'media-1' }, makeClient());
+
+      expect(messagingService.sendMessage).toHaveBeenCalledWith('me', 'm1', null, 'media-1', undefined);
+      expect(roomEmit).toHaveBeenCalledWith('newMessage', expect.objectContaining({ mediaId: 'media-1' }));
+    });
+
+    it('should relay end-to-end encrypted envelopes', async () => {
+      const envelopes = {
+        u2: { senderIdentityKey: 'ik', ephemeralKey: 'ek', prekeyId: 1, iv: 'iv', ciphertext: 'ct' },
+      };
+      messagingService.sendMessage.mockResolvedValue({ id: 'msg-1', matchId: 'm1', content: null, e2eEnvelopes: envelopes });
+
+      await gateway.handleSendMessage({ matchId: 'm1', envelopes }, makeClient());
+
+      expect(messagingService.sendMessage).toHaveBeenCalledWith('me', 'm1', null, undefined, envelopes);
+      expect(roomEmit).toHaveBeenCalledWith('newMessage', expect.objectContaining({ e2eEnvelopes: envelopes }));
+    });
+
+    it('should reject empty messages', async () => {
+      const client = makeClient();
+
+      await gateway.handleSendMessage({ matchId: 'm1', content: '  ' }, client);
+
+      expect(messagingService.sendMessage).not.toHaveBeenCalled();
+      expect(client.emit).toHaveBeenCalledWith('error', expect.objectContaining({
+        code: ChatErrorCode.INVALID_PAYLOAD,
+      }));
+    });
+  });
+
+  describe('presence', () => {
+    it('should tell active matches when a user connects', async () => {
+      const presence = { userId: 'me', status: 'online', lastSeen: new Date() };
+      presenceService.connect.mockResolvedValue(presence);
+      messagingService.getActivePartnerIds.mockResolvedValue(['u2', 'u3']);
+      const client = makeClient();
+
+      await gateway.handleConnection(client);
+
+      expect(client.join).toHaveBeenCalledWith('user-me');
+      expect(gateway.server.to).toHaveBeenCalledWith(['user-u2', 'user-u3']);
+      expect(roomEmit).toHaveBeenCalledWith('presenceUpdate', presence);
+    });
+
+    it('should reject unknown statuses', async () => {
+      const client = makeClient();
+
+      await gateway.handlePresence({ status: 'busy' } as any, client);
+
+      expect(presenceService.setStatus).not.toHaveBeenCalled();
+      expect(client.emit).toHaveBeenCalledWith('error', expect.objectContaining({
+        code: ChatErrorCode.INVALID_PAYLOAD,
+      }));
+    });
+  });
+
+  describe('identity keys', () => {
+    it('should warn active matches when a user\'s identity key changes', async () => {
+      messagingService.getActivePartnerIds.mockResolvedValue(['u2']);
+      const changedAt = new Date();
+
+      await gateway.emitIdentityKeyChanged({
+        userId: 'me',
+        identityKey: 'new-key',
+        fingerprint: 'abc',
+        prekeyId: 2,
+        prekey: 'prekey',
+        identityChangedAt: changedAt,
+      });
+
+      expect(gateway.server.to).toHaveBeenCalledWith(['user-u2']);
+      expect(roomEmit).toHaveBeenCalledWith('identityKeyChanged', {
+        userId: 'me',
+        identityKey: 'new-key',
+        fingerprint: 'abc',
+        identityChangedAt: changedAt,
+      });
+    });
+  });
+
+  describe('typing', () => {
+    it('should relay typing to the other user in the room', async () => {
+      const client = makeClient();
+      client.rooms.add('match-m1');
+      messagingService.getMessageableMatch.mockResolvedValue({ id: 'm1' });
+
+      await gateway.handleTypingStart({ matchId: 'm1' }, client);
+
+      expect(messagingService.getMessageableMatch).toHaveBeenCalledWith('m1', 'me');
+      expect(client.to).toHaveBeenCalledWith('match-m1');
+      expect(roomEmit).toHaveBeenCalledWith('typing', { matchId: 'm1', userId: 'me', isTyping: true });
+    });
+
+    it('should stop relaying and leave the room once the match has ended', async () => {
+      const client = makeClient();
+      client.rooms.add('match-m1');
+      messagingService.getMessageableMatch.mockRejectedValue(new ForbiddenException('This match is no longer active'));
+
+      await gateway.handleTypingStart({ matchId: 'm1' }, client);
+
+      expect(roomEmit).not.toHaveBeenCalled();
+      expect(client.leave).toHaveBeenCalledWith('match-m1');
+      expect(client.emit).toHaveBeenCalledWith('error', expect.objectContaining({
+        code: ChatErrorCode.MATCH_UNAVAILABLE,
+      }));
+    });
+
+    it('should require joining the match room first', async () => {
+      const client = makeClient();
+
+      await gateway.handleTypingStop({ matchId: 'm1' }, client);
+
+      expect(roomEmit).not.toHaveBeenCalled();
+      expect(client.emit).toHaveBeenCalledWith('error', expect.objectContaining({
+        code: ChatErrorCode.NOT_IN_ROOM,
+      }));
+    });
+  });
+
+  describe('markRead', () => {
+    it('should send the read receipt to the room and the sender', async () => {
+      const receipt = {
+        matchId: 'm1',
+        readerId: 'me',
+        senderId: 'u2',
+        upToMessageId: 'msg-9',
+        readAt: new Date(),
+        count: 4,
+      };
+      messagingService.markConversationRead.mockResolvedValue(receipt);
+
+      await gateway.handleMarkRead({ matchId: 'm1', upToMessageId: 'msg-9' }, makeClient());
+
+      expect(messagingService.markConversationRead).toHaveBeenCalledWith('m1', 'me', 'msg-9');
+      expect(gateway.server.to).toHaveBeenCalledWith(['match-m1', 'user-u2']);
+      expect(roomEmit).toHaveBeenCalledWith('messagesRead', receipt);
+    });
+
+    it('should not broadcast when nothing was newly read', async () => {
+      messagingService.markConversationRead.mockResolvedValue({ matchId: 'm1', count: 0 });
+
+      await gateway.handleMarkRead({ matchId: 'm1', upToMessageId: 'msg-9' }, makeClient());
+
+      expect(roomEmit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unsending and deleting', () => {
+    it('should tell both users when a message is unsent', async () => {
+      const unsend = { id: 'msg-1', matchId: 'm1', unsentAt: new Date() };
+      messagingService.unsendMessage.mockResolvedValue(unsend);
+
+      await gateway.handleUnsendMessage({ messageId: 'msg-1' }, makeClient());
+
+      expect(messagingService.unsendMessage).toHaveBeenCalledWith('msg-1', 'me');
+      expect(gateway.server.to).toHaveBeenCalledWith('match-m1');
+      expect(roomEmit).toHaveBeenCalledWith('messageUnsent', unsend);
+    });
+
+    it('should only sync deletions to the requester', async () => {
+      messagingService.deleteMessageForUser.mockResolvedValue({ id: 'msg-1', matchId: 'm1' });
+
+      await gateway.handleDeleteMessage({ messageId: 'msg-1' }, makeClient());
+
+      expect(gateway.server.to).toHaveBeenCalledWith('user-me');
+      expect(roomEmit).toHaveBeenCalledWith('messageDeleted', { id: 'msg-1', matchId: 'm1' });
+    });
+  });
+});
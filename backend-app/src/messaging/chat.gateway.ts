@@ -4,70 +4,508 @@ import {
   SubscribeMessage,
   MessageBody,
   ConnectedSocket,
+  OnGatewayInit,
   OnGatewayConnection,
   OnGatewayDisconnect,
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
-import { Logger } from '@nestjs/common';
-import { MessagingService } from './messaging.service';
+import { BadRequestException, ForbiddenException, Logger, NotFoundException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { MessageEdit, MessageUnsend, MessagingService, ReadReceipt } from './messaging.service';
 import { EncryptionService } from '../common/services/encryption.service';
+import { Presence, PresenceService } from './services/presence.service';
+import { KeyBundle } from './services/key-directory.service';
+import { E2EEnvelope } from './message.entity/message.entity';
+import { RedisService } from '../cache/redis.service';
+import { revokedSessionKey } from '../auth/session.service';
+import { EmailVerificationService } from '../auth/email-verification.service';
+
+/**
+ * Error codes sent to clients in `error` events
+ */
+export enum ChatErrorCode {
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  INVALID_PAYLOAD = 'INVALID_PAYLOAD',
+  MATCH_NOT_FOUND = 'MATCH_NOT_FOUND',
+  MATCH_UNAVAILABLE = 'MATCH_UNAVAILABLE',
+  NOT_IN_ROOM = 'NOT_IN_ROOM',
+  EMAIL_NOT_VERIFIED = 'EMAIL_NOT_VERIFIED',
+  INTERNAL_ERROR = 'INTERNAL_ERROR',
+}
+
+/**
+ * Room shared by the two users of a match
+ */
+export function getMatchRoom(matchId: string): string {
+  return `match-${matchId}`;
+}
 
 @WebSocketGateway({ cors: true })
-export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
+export class ChatGateway implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect {
   private readonly logger = new Logger(ChatGateway.name);
-  
+
   @WebSocketServer()
   server: Server;
-  
+
   constructor(
     private messagingService: MessagingService,
-    private encryptionService: EncryptionService
+    private encryptionService: EncryptionService,
+    private jwtService: JwtService,
+    private presenceService: PresenceService,
+    private redisService: RedisService,
+    private emailVerificationService: EmailVerificationService
   ) {}
 
-  handleConnection(client: Socket) {
-    console.log(`Client connected: ${client.id}`);
+  afterInit(server: Server) {
+    // Verify the JWT during the handshake, like JwtAuthGuard does for HTTP
+    server.use(async (client, next) => {
+      const userId = await this.authenticate(client);
+      if (!userId) {
+        const error: Error & { data?: unknown } = new Error('Unauthorized');
+        error.data = { code: ChatErrorCode.UNAUTHORIZED };
+        return next(error);
+      }
+
+      client.data.userId = userId;
+      next();
+    });
+  }
+
+  async handleConnection(client: Socket) {
+    client.join(`user-${client.data.userId}`);
+    this.logger.log(`Client ${client.id} connected as user ${client.data.userId}`);
+
+    try {
+      const presence = await this.presenceService.connect(client.data.userId);
+      await this.broadcastPresence(presence);
+    } catch (error) {
+      this.logger.error(`Error updating presence: ${error.message}`, error.stack);
+    }
   }
 
-  handleDisconnect(client: Socket) {
-    console.log(`Client disconnected: ${client.id}`);
+  async handleDisconnect(client: Socket) {
+    this.logger.log(`Client ${client.id} disconnected`);
+    if (!client.data.userId) return;
+
+    try {
+      const presence = await this.presenceService.disconnect(client.data.userId);
+      await this.broadcastPresence(presence);
+    } catch (error) {
+      this.logger.error(`Error updating presence: ${error.message}`, error.stack);
+    }
   }
 
   @SubscribeMessage('joinRoom')
-  handleJoinRoom(@MessageBody() room: string, @ConnectedSocket() client: Socket) {
-    client.join(room);
-    client.emit('joinedRoom', room);
+  async handleJoinRoom(
+    @MessageBody() data: { matchId: string },
+    @ConnectedSocket() client: Socket
+  ) {
+    if (typeof data?.matchId !== 'string') {
+      return this.emitError(client, 'joinRoom', ChatErrorCode.INVALID_PAYLOAD, 'matchId is required');
+    }
+
+    try {
+      // Only the two users of the match can listen to its conversation
+      await this.messagingService.getMessageableMatch(data.matchId, client.data.userId);
+
+      client.join(getMatchRoom(data.matchId));
+      client.emit('joinedRoom', { matchId: data.matchId });
+    } catch (error) {
+      this.handleError(client, 'joinRoom', error);
+    }
+  }
+
+  @SubscribeMessage('leaveRoom')
+  handleLeaveRoom(
+    @MessageBody() data: { matchId: string },
+    @ConnectedSocket() client: Socket
+  ) {
+    if (typeof data?.matchId !== 'string') {
+      return this.emitError(client, 'leaveRoom', ChatErrorCode.INVALID_PAYLOAD, 'matchId is required');
+    }
+
+    client.leave(getMatchRoom(data.matchId));
+    client.emit('leftRoom', { matchId: data.matchId });
   }
 
   @SubscribeMessage('sendMessage')
   async handleSendMessage(
     @MessageBody() data: {
-      room: string;
-      senderId: string;
-      recipientId: string;
       matchId: string;
-      content: string
+      content?: string;
+      mediaId?: string;
+      // End-to-end encrypted content, keyed by recipient user ID
+      envelopes?: Record<string, E2EEnvelope>
     },
     @ConnectedSocket() client: Socket
   ) {
+    const hasContent = typeof data?.content === 'string' && !!data.content.trim();
+    const hasMedia = typeof data?.mediaId === 'string';
+    const hasEnvelopes = this.isEnvelopeMap(data?.envelopes);
+    if (typeof data?.matchId !== 'string' || (!hasContent && !hasMedia && !hasEnvelopes)) {
+      return this.emitError(
+        client,
+        'sendMessage',
+        ChatErrorCode.INVALID_PAYLOAD,
+        'matchId and content, envelopes or mediaId are required'
+      );
+    }
+
+    // Sending is gated like POST messaging/send
+    if (!(await this.emailVerificationService.isVerified(client.data.userId))) {
+      return this.emitError(
+        client,
+        'sendMessage',
+        ChatErrorCode.EMAIL_NOT_VERIFIED,
+        'Confirm your email address to send messages'
+      );
+    }
+
     try {
-      // Save the message to the database using the messaging service
+      // The sender is always the authenticated user, never the payload
       const savedMessage = await this.messagingService.sendMessage(
-        data.senderId,
+        client.data.userId,
         data.matchId,
-        data.content
+        hasContent ? data.content! : null,
+        hasMedia ? data.mediaId : undefined,
+        hasEnvelopes ? data.envelopes : undefined
       );
-      
-      // Emit the message to the room
-      this.server.to(data.room).emit('newMessage', {
-        ...data,
+
+      // Emit the message to the match room
+      this.server.to(getMatchRoom(data.matchId)).emit('newMessage', {
         id: savedMessage.id,
+        senderId: savedMessage.senderId,
+        matchId: savedMessage.matchId,
+        content: savedMessage.content,
+        mediaId: savedMessage.mediaId,
+        mediaType: savedMessage.mediaType,
+        mediaUrl: savedMessage.mediaUrl,
+        thumbnailUrl: savedMessage.thumbnailUrl,
+        e2eEnvelopes: savedMessage.e2eEnvelopes,
         createdAt: savedMessage.createdAt,
         read: savedMessage.read,
         isEncrypted: savedMessage.isEncrypted
       });
     } catch (error) {
-      this.logger.error(`Error handling message: ${error.message}`, error.stack);
-      client.emit('error', { message: 'Failed to send message' });
+      this.handleError(client, 'sendMessage', error);
+    }
+  }
+
+  @SubscribeMessage('typingStart')
+  async handleTypingStart(
+    @MessageBody() data: { matchId: string },
+    @ConnectedSocket() client: Socket
+  ) {
+    await this.emitTyping(client, 'typingStart', data, true);
+  }
+
+  @SubscribeMessage('typingStop')
+  async handleTypingStop(
+    @MessageBody() data: { matchId: string },
+    @ConnectedSocket() client: Socket
+  ) {
+    await this.emitTyping(client, 'typingStop', data, false);
+  }
+
+  /**
+   * Set the user's status; clients send this periodically as a heartbeat
+   */
+  @SubscribeMessage('presence')
+  async handlePresence(
+    @MessageBody() data: { status: 'online' | 'away' },
+    @ConnectedSocket() client: Socket
+  ) {
+    if (data?.status !== 'online' && data?.status !== 'away') {
+      return this.emitError(client, 'presence', ChatErrorCode.INVALID_PAYLOAD, 'status must be online or away');
+    }
+
+    try {
+      const presence = await this.presenceService.setStatus(client.data.userId, data.status);
+      await this.broadcastPresence(presence);
+    } catch (error) {
+      this.handleError(client, 'presence', error);
+    }
+  }
+
+  /**
+   * Get the presence of the other user in a match
+   */
+  @SubscribeMessage('getPresence')
+  async handleGetPresence(
+    @MessageBody() data: { matchId: string },
+    @ConnectedSocket() client: Socket
+  ) {
+    if (typeof data?.matchId !== 'string') {
+      return this.emitError(client, 'getPresence', ChatErrorCode.INVALID_PAYLOAD, 'matchId is required');
+    }
+
+    try {
+      const userId = client.data.userId;
+      const match = await this.messagingService.getMessageableMatch(data.matchId, userId);
+      const otherUserId = match.user1Id === userId ? match.user2Id : match.user1Id;
+
+      client.emit('presenceUpdate', await this.presenceService.getPresence(otherUserId));
+    } catch (error) {
+      this.handleError(client, 'getPresence', error);
+    }
+  }
+
+  @SubscribeMessage('messagesDelivered')
+  async handleMessagesDelivered(
+    @MessageBody() data: { matchId: string; messageIds: string[] },
+    @ConnectedSocket() client: Socket
+  ) {
+    if (
+      typeof data?.matchId !== 'string' ||
+      !Array.isArray(data.messageIds) ||
+      data.messageIds.some(id => typeof id !== 'string')
+    ) {
+      return this.emitError(
+        client,
+        'messagesDelivered',
+        ChatErrorCode.INVALID_PAYLOAD,
+        'matchId and messageIds are required'
+      );
+    }
+
+    try {
+      const receipt = await this.messagingService.markDelivered(
+        data.matchId,
+        client.data.userId,
+        data.messageIds
+      );
+
+      if (receipt.messageIds.length) {
+        this.server.to(getMatchRoom(data.matchId)).emit('messagesDelivered', receipt);
+      }
+    } catch (error) {
+      this.handleError(client, 'messagesDelivered', error);
+    }
+  }
+
+  /**
+   * Mark the conversation read up to a message
+   */
+  @SubscribeMessage('markRead')
+  async handleMarkRead(
+    @MessageBody() data: { matchId: string; upToMessageId: string },
+    @ConnectedSocket() client: Socket
+  ) {
+    if (typeof data?.matchId !== 'string' || typeof data?.upToMessageId !== 'string') {
+      return this.emitError(
+        client,
+        'markRead',
+        ChatErrorCode.INVALID_PAYLOAD,
+        'matchId and upToMessageId are required'
+      );
+    }
+
+    try {
+      const receipt = await this.messagingService.markConversationRead(
+        data.matchId,
+        client.data.userId,
+        data.upToMessageId
+      );
+      this.emitMessagesRead(receipt);
+    } catch (error) {
+      this.handleError(client, 'markRead', error);
+    }
+  }
+
+  /**
+   * Edit one of the user's messages within the edit window
+   */
+  @SubscribeMessage('editMessage')
+  async handleEditMessage(
+    @MessageBody() data: { messageId: string; content?: string; envelopes?: Record<string, E2EEnvelope> },
+    @ConnectedSocket() client: Socket
+  ) {
+    const hasContent = typeof data?.content === 'string' && !!data.content.trim();
+    const hasEnvelopes = this.isEnvelopeMap(data?.envelopes);
+    if (typeof data?.messageId !== 'string' || (!hasContent && !hasEnvelopes)) {
+      return this.emitError(
+        client,
+        'editMessage',
+        ChatErrorCode.INVALID_PAYLOAD,
+        'messageId and content or envelopes are required'
+      );
+    }
+
+    try {
+      const edit = hasEnvelopes
+        ? await this.messagingService.editMessage(data.messageId, client.data.userId, null, data.envelopes)
+        : await this.messagingService.editMessage(data.messageId, client.data.userId, data.content!);
+      this.emitMessageEdited(edit);
+    } catch (error) {
+      this.handleError(client, 'editMessage', error);
+    }
+  }
+
+  /**
+   * Unsend one of the user's messages for both users
+   */
+  @SubscribeMessage('unsendMessage')
+  async handleUnsendMessage(
+    @MessageBody() data: { messageId: string },
+    @ConnectedSocket() client: Socket
+  ) {
+    if (typeof data?.messageId !== 'string') {
+      return this.emitError(client, 'unsendMessage', ChatErrorCode.INVALID_PAYLOAD, 'messageId is required');
+    }
+
+    try {
+      const unsend = await this.messagingService.unsendMessage(data.messageId, client.data.userId);
+      this.emitMessageUnsent(unsend);
+    } catch (error) {
+      this.handleError(client, 'unsendMessage', error);
+    }
+  }
+
+  /**
+   * Delete a message for the user only
+   */
+  @SubscribeMessage('deleteMessage')
+  async handleDeleteMessage(
+    @MessageBody() data: { messageId: string },
+    @ConnectedSocket() client: Socket
+  ) {
+    if (typeof data?.messageId !== 'string') {
+      return this.emitError(client, 'deleteMessage', ChatErrorCode.INVALID_PAYLOAD, 'messageId is required');
+    }
+
+    try {
+      const deleted = await this.messagingService.deleteMessageForUser(data.messageId, client.data.userId);
+      this.emitMessageDeleted(client.data.userId, deleted);
+    } catch (error) {
+      this.handleError(client, 'deleteMessage', error);
+    }
+  }
+
+  /**
+   * Send an edited message to the conversation
+   */
+  emitMessageEdited(edit: MessageEdit) {
+    this.server.to(getMatchRoom(edit.matchId)).emit('messageEdited', edit);
+  }
+
+  /**
+   * Tell the conversation that a message was unsent
+   */
+  emitMessageUnsent(unsend: MessageUnsend) {
+    this.server.to(getMatchRoom(unsend.matchId)).emit('messageUnsent', unsend);
+  }
+
+  /**
+   * Sync a deletion to the user's other devices; the other user is not told
+   */
+  emitMessageDeleted(userId: string, deleted: { id: string; matchId: string }) {
+    this.server.to(`user-${userId}`).emit('messageDeleted', deleted);
+  }
+
+  /**
+   * Warn the user's matches that their identity key changed, so clients
+   * can show that the safety number is no longer the one they verified
+   */
+  async emitIdentityKeyChanged(bundle: KeyBundle) {
+    const partnerIds = await this.messagingService.getActivePartnerIds(bundle.userId);
+    if (!partnerIds.length) return;
+
+    this.server.to(partnerIds.map(id => `user-${id}`)).emit('identityKeyChanged', {
+      userId: bundle.userId,
+      identityKey: bundle.identityKey,
+      fingerprint: bundle.fingerprint,
+      identityChangedAt: bundle.identityChangedAt
+    });
+  }
+
+  /**
+   * Send a read receipt to the conversation and to the sender's devices
+   */
+  emitMessagesRead(receipt: ReadReceipt) {
+    if (!receipt.count) return;
+
+    this.server
+      .to([getMatchRoom(receipt.matchId), `user-${receipt.senderId}`])
+      .emit('messagesRead', receipt);
+  }
+
+  private async emitTyping(client: Socket, event: string, data: { matchId: string }, isTyping: boolean) {
+    if (typeof data?.matchId !== 'string') {
+      return this.emitError(client, event, ChatErrorCode.INVALID_PAYLOAD, 'matchId is required');
+    }
+
+    const room = getMatchRoom(data.matchId);
+    if (!client.rooms.has(room)) {
+      return this.emitError(client, event, ChatErrorCode.NOT_IN_ROOM, 'Join the match room first');
+    }
+
+    // The match may have ended or a user been blocked since the room was joined
+    try {
+      await this.messagingService.getMessageableMatch(data.matchId, client.data.userId);
+    } catch (error) {
+      client.leave(room);
+      return this.handleError(client, event, error);
+    }
+
+    client.to(room).emit('typing', {
+      matchId: data.matchId,
+      userId: client.data.userId,
+      isTyping
+    });
+  }
+
+  /**
+   * Tell the user's matches about a presence change
+   */
+  private async broadcastPresence(presence: Presence) {
+    const partnerIds = await this.messagingService.getActivePartnerIds(presence.userId);
+    if (!partnerIds.length) return;
+
+    this.server.to(partnerIds.map(id => `user-${id}`)).emit('presenceUpdate', presence);
+  }
+
+  private isEnvelopeMap(envelopes: unknown): envelopes is Record<string, E2EEnvelope> {
+    return !!envelopes && typeof envelopes === 'object' && !Array.isArray(envelopes);
+  }
+
+  /**
+   * Resolve the user ID from the handshake token
+   * @returns The user ID, or null if the token is missing, invalid or revoked
+   */
+  private async authenticate(client: Socket): Promise<string | null> {
+    const authHeader = client.handshake.headers['authorization'];
+    const token = client.handshake.auth?.token || authHeader?.split(' ')[1];
+    if (!token) return null;
+
+    let payload;
+    try {
+      payload = this.jwtService.verify(token, { secret: process.env.JWT_SECRET });
+    } catch {
+      return null;
     }
+
+    if (payload.sid && await this.redisService.exists(revokedSessionKey(payload.sid))) {
+      return null;
+    }
+    return payload.sub || null;
+  }
+
+  private handleError(client: Socket, event: string, error: Error) {
+    if (error instanceof NotFoundException) {
+      return this.emitError(client, event, ChatErrorCode.MATCH_NOT_FOUND, error.message);
+    }
+    if (error instanceof ForbiddenException) {
+      return this.emitError(client, event, ChatErrorCode.MATCH_UNAVAILABLE, error.message);
+    }
+    if (error instanceof BadRequestException) {
+      return this.emitError(client, event, ChatErrorCode.INVALID_PAYLOAD, error.message);
+    }
+
+    this.logger.error(`Error handling ${event}: ${error.message}`, error.stack);
+    this.emitError(client, event, ChatErrorCode.INTERNAL_ERROR, `Failed to handle ${event}`);
+  }
+
+  private emitError(client: Socket, event: string, code: ChatErrorCode, message: string) {
+    client.emit('error', { event, code, message });
   }
 }
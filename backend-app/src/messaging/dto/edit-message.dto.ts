@@ -0,0 +1,14 @@
+import { IsObject, IsOptional, IsString } from 'class-validator';
+import { E2EEnvelope } from '../message.entity/message.entity';
+
+export class EditMessageDto {
+  // Required for messages the server encrypts
+  @IsOptional()
+  @IsString()
+  content?: string;
+
+  // Required for end-to-end encrypted messages, keyed by recipient user ID
+  @IsOptional()
+  @IsObject()
+  envelopes?: Record<string, E2EEnvelope>;
+}
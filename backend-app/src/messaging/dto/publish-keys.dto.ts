@@ -0,0 +1,13 @@
+import { IsBase64, IsInt, Min } from 'class-validator';
+
+export class PublishKeysDto {
+  @IsBase64()
+  identityKey: string;
+
+  @IsInt()
+  @Min(0)
+  prekeyId: number;
+
+  @IsBase64()
+  prekey: string;
+}
@@ -0,0 +1,21 @@
+import { IsObject, IsOptional, IsString, IsUUID } from 'class-validator';
+import { E2EEnvelope } from '../message.entity/message.entity';
+
+export class SendMessageDto {
+  @IsUUID()
+  matchId: string;
+
+  @IsOptional()
+  @IsString()
+  content?: string;
+
+  // ID returned by POST messaging/attachments
+  @IsOptional()
+  @IsString()
+  mediaId?: string;
+
+  // Envelopes keyed by recipient user ID; their contents are checked by the service
+  @IsOptional()
+  @IsObject()
+  envelopes?: Record<string, E2EEnvelope>;
+}
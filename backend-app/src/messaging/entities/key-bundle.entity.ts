@@ -0,0 +1,41 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn, UpdateDateColumn, OneToOne, JoinColumn } from 'typeorm';
+import { UserEntity } from '../../user/user.entity/user.entity';
+
+/**
+ * Public keys a user's device publishes for end-to-end encrypted messages.
+ * Private keys never leave the device.
+ */
+@Entity('key_bundles')
+export class KeyBundleEntity {
+  @PrimaryColumn('uuid')
+  userId: string;
+
+  // Long-term X25519 public key, base64
+  @Column({ type: 'text' })
+  identityKey: string;
+
+  // SHA-256 of the identity key, hex
+  @Column()
+  fingerprint: string;
+
+  // Medium-term X25519 public key, rotated by the device
+  @Column({ type: 'int' })
+  prekeyId: number;
+
+  @Column({ type: 'text' })
+  prekey: string;
+
+  // Set whenever a new identity key replaces a previous one
+  @Column({ type: 'timestamp', nullable: true })
+  identityChangedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @OneToOne(() => UserEntity)
+  @JoinColumn({ name: 'userId' })
+  user: UserEntity;
+}
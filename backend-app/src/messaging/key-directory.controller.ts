@@ -0,0 +1,52 @@
+import { Body, Controller, Get, Param, Put, Req, UseGuards } from '@nestjs/common';
+import { Request } from 'express';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { KeyDirectoryService } from './services/key-directory.service';
+import { ChatGateway } from './chat.gateway';
+import { PublishKeysDto } from './dto/publish-keys.dto';
+
+@Controller('keys')
+@UseGuards(JwtAuthGuard)
+export class KeyDirectoryController {
+  constructor(
+    private readonly keyDirectoryService: KeyDirectoryService,
+    private readonly chatGateway: ChatGateway
+  ) {}
+
+  @Put('me')
+  async publishKeys(@Body() dto: PublishKeysDto, @Req() request: Request) {
+    const userId = request.user?.id;
+
+    if (!userId) {
+      throw new Error('User ID not found in request');
+    }
+
+    const { bundle, identityChanged } = await this.keyDirectoryService.publishKeys(userId, dto);
+    if (identityChanged) {
+      await this.chatGateway.emitIdentityKeyChanged(bundle);
+    }
+    return bundle;
+  }
+
+  @Get('me')
+  async getOwnKeys(@Req() request: Request) {
+    const userId = request.user?.id;
+
+    if (!userId) {
+      throw new Error('User ID not found in request');
+    }
+
+    return this.keyDirectoryService.getKeyBundle(userId, userId);
+  }
+
+  @Get(':userId')
+  async getKeyBundle(@Param('userId') userId: string, @Req() request: Request) {
+    const requesterId = request.user?.id;
+
+    if (!requesterId) {
+      throw new Error('User ID not found in request');
+    }
+
+    return this.keyDirectoryService.getKeyBundle(requesterId, userId);
+  }
+}
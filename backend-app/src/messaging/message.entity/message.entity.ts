@@ -1,9 +1,25 @@
-import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
 import { UserEntity } from '../../user/user.entity/user.entity';
 import { MatchEntity } from '../../matching/match.entity/match.entity';
 import { EncryptedData } from '../../common/services/encryption.service';
 
+export type MessageMediaType = 'image' | 'video' | 'audio';
+
+/**
+ * Message content encrypted on the sender's device for one recipient. The
+ * AES-256-GCM key is derived from X25519 agreements between the sender's
+ * identity and ephemeral keys and the recipient's identity key and prekey.
+ */
+export interface E2EEnvelope {
+  senderIdentityKey: string;
+  ephemeralKey: string;
+  prekeyId: number;
+  iv: string;
+  ciphertext: string;
+}
+
 @Entity('messages')
+@Index('IDX_MESSAGES_MEDIA', ['mediaId'])
 export class MessageEntity {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -14,8 +30,9 @@ export class MessageEntity {
   @Column({ type: 'uuid' })
   matchId: string;
 
+  // Legacy plaintext copy, never written in strict encryption mode
   @Column({ type: 'text', nullable: true })
-  content: string;
+  content: string | null;
 
   @Column({ type: 'text', nullable: true })
   encryptedContent: string;
@@ -35,9 +52,36 @@ export class MessageEntity {
   @Column({ default: false })
   isEncrypted: boolean;
 
+  // End-to-end encrypted content keyed by recipient user ID; the server cannot read it
+  @Column({ type: 'jsonb', nullable: true })
+  e2eEnvelopes: Record<string, E2EEnvelope> | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  mediaId: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  mediaType: MessageMediaType | null;
+
   @Column({ default: false })
   read: boolean;
 
+  @Column({ type: 'timestamp', nullable: true })
+  deliveredAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  readAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  editedAt: Date | null;
+
+  // Set when the sender unsends the message for everyone; the content is wiped
+  @Column({ type: 'timestamp', nullable: true })
+  unsentAt: Date | null;
+
+  // Users who deleted the message for themselves only
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  hiddenFor: string[];
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -1,26 +1,119 @@
-import { Controller, Post, Get, Body, Param, UseGuards, Patch, Req } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Patch,
+  Delete,
+  Req,
+  DefaultValuePipe,
+  ParseIntPipe,
+  StreamableFile,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { MessagingService } from './messaging.service';
+import { ChatGateway } from './chat.gateway';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { EmailVerifiedGuard } from '../auth/email-verified.guard';
 import { Request } from 'express';
+import { SendMessageDto } from './dto/send-message.dto';
+import { EditMessageDto } from './dto/edit-message.dto';
 
 @Controller('messaging')
 @UseGuards(JwtAuthGuard)
 export class MessagingController {
-  constructor(private readonly messagingService: MessagingService) {}
+  constructor(
+    private readonly messagingService: MessagingService,
+    private readonly chatGateway: ChatGateway
+  ) {}
 
   @Post('send')
-  async sendMessage(
-    @Body('senderId') senderId: string,
+  @UseGuards(EmailVerifiedGuard)
+  async sendMessage(@Body() dto: SendMessageDto, @Req() request: Request) {
+    // The sender is always the authenticated user
+    const senderId = request.user?.id;
+    
+    if (!senderId) {
+      throw new Error('User ID not found in request');
+    }
+    
+    return this.messagingService.sendMessage(senderId, dto.matchId, dto.content ?? null, dto.mediaId, dto.envelopes);
+  }
+
+  @Post('attachments')
+  @UseGuards(EmailVerifiedGuard)
+  @UseInterceptors(FileInterceptor('file'))
+  async uploadAttachment(
+    @UploadedFile() file: Express.Multer.File,
     @Body('matchId') matchId: string,
-    @Body('content') content: string,
+    @Req() request: Request
+  ) {
+    const userId = request.user?.id;
+    
+    if (!userId) {
+      throw new Error('User ID not found in request');
+    }
+    
+    return this.messagingService.uploadAttachment(matchId, userId, file);
+  }
+
+  @Get('attachments/:mediaId/thumbnail')
+  async getAttachmentThumbnail(
+    @Param('mediaId') mediaId: string,
+    @Req() request: Request
+  ) {
+    const userId = request.user?.id;
+    
+    if (!userId) {
+      throw new Error('User ID not found in request');
+    }
+    
+    const { buffer, metadata } = await this.messagingService.getAttachmentThumbnail(mediaId, userId);
+    return new StreamableFile(buffer, { type: metadata.mimeType });
+  }
+
+  @Get('attachments/:mediaId')
+  async getAttachment(
+    @Param('mediaId') mediaId: string,
+    @Req() request: Request
   ) {
-    return this.messagingService.sendMessage(senderId, matchId, content);
+    const userId = request.user?.id;
+    
+    if (!userId) {
+      throw new Error('User ID not found in request');
+    }
+    
+    const { buffer, metadata } = await this.messagingService.getAttachment(mediaId, userId);
+    return new StreamableFile(buffer, { type: metadata.mimeType });
   }
 
-  @Get('messages/:matchId')
+  @Get('conversations')
+  async getConversations(
+    @Req() request: Request,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+    @Query('cursor') cursor?: string
+  ) {
+    const userId = request.user?.id;
+    
+    if (!userId) {
+      throw new Error('User ID not found in request');
+    }
+    
+    return this.messagingService.getConversations(userId, { limit, cursor });
+  }
+
+  @Get(['messages/:matchId', 'conversations/:matchId'])
   async getMessages(
     @Param('matchId') matchId: string,
-    @Req() request: Request
+    @Req() request: Request,
+    @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number,
+    @Query('before') before?: string,
+    @Query('after') after?: string
   ) {
     // Extract user ID from JWT token
     const userId = request.user?.id;
@@ -29,11 +122,86 @@ export class MessagingController {
       throw new Error('User ID not found in request');
     }
     
-    return this.messagingService.getMessages(matchId, userId);
+    return this.messagingService.getMessages(matchId, userId, { before, after, limit });
+  }
+
+  @Patch('conversations/:matchId/read')
+  async markConversationRead(
+    @Param('matchId') matchId: string,
+    @Body('upToMessageId') upToMessageId: string,
+    @Req() request: Request
+  ) {
+    const userId = request.user?.id;
+    
+    if (!userId) {
+      throw new Error('User ID not found in request');
+    }
+    
+    const receipt = await this.messagingService.markConversationRead(matchId, userId, upToMessageId);
+    this.chatGateway.emitMessagesRead(receipt);
+    return receipt;
+  }
+
+  @Patch('messages/:messageId')
+  async editMessage(
+    @Param('messageId') messageId: string,
+    @Body() dto: EditMessageDto,
+    @Req() request: Request
+  ) {
+    const userId = request.user?.id;
+    
+    if (!userId) {
+      throw new Error('User ID not found in request');
+    }
+    
+    const edit = await this.messagingService.editMessage(messageId, userId, dto.content ?? null, dto.envelopes);
+    this.chatGateway.emitMessageEdited(edit);
+    return edit;
+  }
+
+  @Post('messages/:messageId/unsend')
+  async unsendMessage(
+    @Param('messageId') messageId: string,
+    @Req() request: Request
+  ) {
+    const userId = request.user?.id;
+    
+    if (!userId) {
+      throw new Error('User ID not found in request');
+    }
+    
+    const unsend = await this.messagingService.unsendMessage(messageId, userId);
+    this.chatGateway.emitMessageUnsent(unsend);
+    return unsend;
+  }
+
+  @Delete('messages/:messageId')
+  async deleteMessage(
+    @Param('messageId') messageId: string,
+    @Req() request: Request
+  ) {
+    const userId = request.user?.id;
+    
+    if (!userId) {
+      throw new Error('User ID not found in request');
+    }
+    
+    const deleted = await this.messagingService.deleteMessageForUser(messageId, userId);
+    this.chatGateway.emitMessageDeleted(userId, deleted);
+    return deleted;
   }
 
   @Patch('messages/read/:messageId')
-  async markMessageAsRead(@Param('messageId') messageId: string) {
-    return this.messagingService.markAsRead(messageId);
+  async markMessageAsRead(
+    @Param('messageId') messageId: string,
+    @Req() request: Request
+  ) {
+    const userId = request.user?.id;
+    
+    if (!userId) {
+      throw new Error('User ID not found in request');
+    }
+    
+    return this.messagingService.markAsRead(messageId, userId);
   }
 }
@@ -6,15 +6,31 @@ import { ChatGateway } from './chat.gateway';
 import { MessageEntity } from './message.entity/message.entity';
 import { AuthModule } from '../auth/auth.module';
 import { CommonModule } from '../common/common.module';
+import { MatchingModule } from '../matching/matching.module';
+import { MediaModule } from '../media/media.module';
+import { PresenceService } from './services/presence.service';
+import { MessageEncryptionBackfillService } from './services/message-encryption-backfill.service';
+import { KeyDirectoryService } from './services/key-directory.service';
+import { KeyDirectoryController } from './key-directory.controller';
+import { KeyBundleEntity } from './entities/key-bundle.entity';
+import { MatchEntity } from '../matching/match.entity/match.entity';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([MessageEntity]),
+    TypeOrmModule.forFeature([MessageEntity, KeyBundleEntity, MatchEntity]),
     AuthModule,
-    CommonModule
+    CommonModule,
+    MatchingModule,
+    MediaModule
   ],
-  providers: [MessagingService, ChatGateway],
-  controllers: [MessagingController],
+  providers: [
+    MessagingService,
+    ChatGateway,
+    PresenceService,
+    MessageEncryptionBackfillService,
+    KeyDirectoryService
+  ],
+  controllers: [MessagingController, KeyDirectoryController],
   exports: [MessagingService]
 })
 export class MessagingModule {}
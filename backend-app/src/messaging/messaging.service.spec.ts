@@ -1,12 +1,106 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ForbiddenException, NotFoundException } from '@nestjs/common';
 import { MessagingService } from './messaging.service';
+import { MessageEntity } from './message.entity/message.entity';
+import { MatchStatus } from '../matching/match.entity/match.entity';
+import { EncryptionService } from '../common/services/encryption.service';
+import { BlockService } from '../matching/services/block.service';
+import { MediaService } from '../media/media.service';
+import { ConfigService } from '@nestjs/config';
+import { AuditLogService, AuditAction, AuditResource } from '../common/services/audit-log.service';
 
 describe('MessagingService', () => {
   let service: MessagingService;
 
+  const makeQueryBuilder = (result: { getMany?: any[]; getRawMany?: any[]; execute?: any }) => {
+    const qb: any = {};
+    for (const method of [
+      'leftJoin', 'addSelect', 'select', 'where', 'andWhere', 'orderBy',
+      'addOrderBy', 'limit', 'distinctOn', 'groupBy', 'update', 'set',
+      'setParameter', 'returning',
+    ]) {
+      qb[method] = jest.fn().mockReturnValue(qb);
+    }
+    qb.getMany = jest.fn().mockResolvedValue(result.getMany ?? []);
+    qb.getRawMany = jest.fn().mockResolvedValue(result.getRawMany ?? []);
+    qb.execute = jest.fn().mockResolvedValue(result.execute ?? { affected: 0, raw: [] });
+    return qb;
+  };
+
+  const matchQuery = makeQueryBuilder({});
+  const messageRepo = {
+    create: jest.fn(data => ({ ...data })),
+    save: jest.fn(),
+    createQueryBuilder: jest.fn(),
+    findOne: jest.fn(),
+    manager: {
+      createQueryBuilder: jest.fn(() => matchQuery),
+      findOne: jest.fn(),
+      update: jest.fn(),
+    },
+  };
+  const encryptionService = {
+    encryptMessage: jest.fn(),
+    decryptMessages: jest.fn(),
+  };
+  const mediaService = {
+    getFileInfo: jest.fn(),
+    getFile: jest.fn(),
+    getThumbnail: jest.fn(),
+    uploadMessageAttachment: jest.fn(),
+    deleteFiles: jest.fn(),
+  };
+  const auditLogService = {
+    log: jest.fn(),
+  };
+  const configService = {
+    get: jest.fn(),
+  };
+  const blockService = {
+    isBlockedEitherWay: jest.fn(),
+  };
+
+  const makeMessage = (id: string, overrides: Record<string, any> = {}) => ({
+    id,
+    matchId: 'm1',
+    senderId: 'other',
+    sender: { id: 'other', name: 'Other' },
+    content: null,
+    isEncrypted: true,
+    encryptedContent: `cipher-${id}`,
+    iv: 'iv',
+    authTag: 'tag',
+    keyId: 'key',
+    read: false,
+    createdAt: new Date('2024-04-20T10:00:00Z'),
+    ...overrides,
+  });
+
+  const makeMatch = (id: string, lastActivityAt: string) => ({
+    id,
+    user1Id: 'me',
+    user2Id: `other-${id}`,
+    user1: { id: 'me', name: 'Me', profilePhotoId: null },
+    user2: { id: `other-${id}`, name: `Other ${id}`, profilePhotoId: `photo-${id}` },
+    status: MatchStatus.ACTIVE,
+    lastActivityAt: new Date(lastActivityAt),
+  });
+
   beforeEach(async () => {
+    jest.clearAllMocks();
+    configService.get.mockImplementation((_key: string, defaultValue?: any) => defaultValue);
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [MessagingService],
+      providers: [
+        MessagingService,
+        { provide: getRepositoryToken(MessageEntity), useValue: messageRepo },
+        { provide: EncryptionService, useValue: encryptionService },
+        { provide: BlockService, useValue: blockService },
+        { provide: MediaService, useValue: mediaService },
+        { provide: AuditLogService, useValue: auditLogService },
+        { provide: ConfigService, useValue: configService },
+      ],
     }).compile();
 
     service = module.get<MessagingService>(MessagingService);
@@ -15,4 +109,531 @@ describe('MessagingService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('getMessageableMatch', () => {
+    const match = { id: 'm1', user1Id: 'me', user2Id: 'other', active: true };
+
+    it('should return the match for a participant', async () => {
+      messageRepo.manager.findOne.mockResolvedValue(match);
+      blockService.isBlockedEitherWay.mockResolvedValue(false);
+
+      await expect(service.getMessageableMatch('m1', 'me')).resolves.toBe(match);
+      expect(blockService.isBlockedEitherWay).toHaveBeenCalledWith('me', 'other');
+    });
+
+    it('should hide the match from other users', async () => {
+      messageRepo.manager.findOne.mockResolvedValue(match);
+
+      await expect(service.getMessageableMatch('m1', 'stranger'))
+        .rejects.toBeInstanceOf(NotFoundException);
+    });
+
+    it('should reject inactive matches', async () => {
+      messageRepo.manager.findOne.mockResolvedValue({ ...match, active: false });
+
+      await expect(service.getMessageableMatch('m1', 'me'))
+        .rejects.toBeInstanceOf(ForbiddenException);
+    });
+
+    it('should reject matches where either user blocked the other', async () => {
+      messageRepo.manager.findOne.mockResolvedValue(match);
+      blockService.isBlockedEitherWay.mockResolvedValue(true);
+
+      await expect(service.getMessageableMatch('m1', 'me'))
+        .rejects.toBeInstanceOf(ForbiddenException);
+    });
+  });
+
+  describe('getConversations', () => {
+    it('should return the other user, decrypted preview and unread count', async () => {
+      matchQuery.getMany.mockResolvedValue([makeMatch('m1', '2024-04-20T10:00:00Z')]);
+      const lastMessages = makeQueryBuilder({
+        getMany: [{
+          id: 'msg-1',
+          matchId: 'm1',
+          senderId: 'other-m1',
+          isEncrypted: true,
+          encryptedContent: 'cipher',
+          iv: 'iv',
+          authTag: 'tag',
+          keyId: 'key',
+          createdAt: new Date('2024-04-20T10:00:00Z'),
+        }],
+      });
+      const unread = makeQueryBuilder({ getRawMany: [{ matchId: 'm1', count: '3' }] });
+      messageRepo.createQueryBuilder
+        .mockReturnValueOnce(lastMessages)
+        .mockReturnValueOnce(unread);
+      encryptionService.decryptMessages.mockResolvedValue(['hello']);
+
+      const result = await service.getConversations('me');
+
+      expect(result.nextCursor).toBeNull();
+      expect(result.conversations).toEqual([
+        expect.objectContaining({
+          matchId: 'm1',
+          userId: 'other-m1',
+          name: 'Other m1',
+          thumbnailUrl: '/media/photo-m1/thumbnail',
+          unreadCount: 3,
+          lastMessage: expect.objectContaining({ id: 'msg-1', content: 'hello' }),
+        }),
+      ]);
+      expect(encryptionService.decryptMessages).toHaveBeenCalledWith(
+        [expect.objectContaining({ encryptedData: 'cipher' })],
+        'me'
+      );
+    });
+
+    it('should return a cursor when more conversations exist', async () => {
+      matchQuery.getMany.mockResolvedValue([
+        makeMatch('m1', '2024-04-20T10:00:00Z'),
+        makeMatch('m2', '2024-04-19T10:00:00Z'),
+      ]);
+      messageRepo.createQueryBuilder.mockReturnValue(makeQueryBuilder({}));
+      encryptionService.decryptMessages.mockResolvedValue([]);
+
+      const page = await service.getConversations('me', { limit: 1 });
+
+      expect(page.conversations).toHaveLength(1);
+      expect(page.conversations[0].lastMessage).toBeNull();
+      expect(page.nextCursor).not.toBeNull();
+
+      matchQuery.getMany.mockResolvedValue([]);
+      messageRepo.manager.findOne.mockResolvedValue(makeMatch('m1', '2024-04-20T10:00:00Z'));
+      await service.getConversations('me', { limit: 1, cursor: page.nextCursor! });
+
+      // The activity time is compared against the stored row, not the cursor
+      expect(matchQuery.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('(SELECT anchor."lastActivityAt", anchor."id" FROM "matches" anchor'),
+        { cursorId: 'm1' }
+      );
+    });
+
+    it('should reject a cursor for another user\'s match', async () => {
+      const cursor = Buffer.from(JSON.stringify({ id: 'elsewhere' })).toString('base64url');
+      messageRepo.manager.findOne.mockResolvedValue(null);
+
+      await expect(service.getConversations('me', { cursor }))
+        .rejects.toBeInstanceOf(BadRequestException);
+      expect(messageRepo.manager.findOne).toHaveBeenCalledWith(expect.anything(), {
+        where: [
+          { id: 'elsewhere', user1Id: 'me' },
+          { id: 'elsewhere', user2Id: 'me' },
+        ],
+      });
+    });
+
+    it('should reject a malformed cursor', async () => {
+      await expect(service.getConversations('me', { cursor: 'not-a-cursor' }))
+        .rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
+
+  describe('getMessages', () => {
+    beforeEach(() => {
+      messageRepo.manager.findOne.mockResolvedValue({ id: 'm1', user1Id: 'me', user2Id: 'other', active: true });
+    });
+
+    it('should return the latest page oldest first with cursors', async () => {
+      // Newest first from the database, one extra row to detect more history
+      const history = makeQueryBuilder({
+        getMany: [makeMessage('msg-3'), makeMessage('msg-2'), makeMessage('msg-1')],
+      });
+      messageRepo.createQueryBuilder.mockReturnValue(history);
+      encryptionService.decryptMessages.mockResolvedValue(['two', 'three']);
+
+      const result = await service.getMessages('m1', 'me', { limit: 2 });
+
+      expect(result.messages.map(message => message.content)).toEqual(['two', 'three']);
+      expect(result.hasMore).toBe(true);
+      expect(result.cursors).toEqual({ before: 'msg-2', after: 'msg-3' });
+      expect(history.orderBy).toHaveBeenCalledWith('message.createdAt', 'DESC');
+      // The key lookup happens once for the whole page
+      expect(encryptionService.decryptMessages).toHaveBeenCalledTimes(1);
+    });
+
+    it('should page forward after a message', async () => {
+      const history = makeQueryBuilder({ getMany: [makeMessage('msg-4')] });
+      messageRepo.createQueryBuilder.mockReturnValue(history);
+      messageRepo.findOne.mockResolvedValue(makeMessage('msg-3'));
+      encryptionService.decryptMessages.mockResolvedValue(['four']);
+
+      const result = await service.getMessages('m1', 'me', { after: 'msg-3', limit: 2 });
+
+      expect(result.messages.map(message => message.id)).toEqual(['msg-4']);
+      expect(result.hasMore).toBe(false);
+      expect(history.orderBy).toHaveBeenCalledWith('message.createdAt', 'ASC');
+      expect(history.andWhere).toHaveBeenCalledWith(expect.stringContaining('>'), { anchorId: 'msg-3' });
+    });
+
+    it('should fall back to the stored content when decryption fails', async () => {
+      messageRepo.createQueryBuilder.mockReturnValue(
+        makeQueryBuilder({ getMany: [makeMessage('msg-1', { content: 'legacy' })] })
+      );
+      encryptionService.decryptMessages.mockResolvedValue([null]);
+
+      const result = await service.getMessages('m1', 'me');
+
+      expect(result.messages[0].content).toBe('legacy');
+    });
+
+    it('should decrypt sent messages with the recipient\'s key', async () => {
+      messageRepo.createQueryBuilder.mockReturnValue(
+        makeQueryBuilder({ getMany: [makeMessage('msg-1', { senderId: 'me' })] })
+      );
+      encryptionService.decryptMessages.mockResolvedValue(['mine']);
+
+      await service.getMessages('m1', 'me');
+
+      expect(encryptionService.decryptMessages).toHaveBeenCalledWith(expect.any(Array), 'other');
+    });
+
+    it('should report decryption failures in strict mode', async () => {
+      configService.get.mockImplementation((key: string, defaultValue?: any) =>
+        key === 'messaging.strictEncryption' ? true : defaultValue
+      );
+      messageRepo.createQueryBuilder.mockReturnValue(
+        makeQueryBuilder({ getMany: [makeMessage('msg-1', { content: 'legacy' })] })
+      );
+      encryptionService.decryptMessages.mockResolvedValue([null]);
+
+      const result = await service.getMessages('m1', 'me');
+
+      expect(result.messages[0]).toEqual(expect.objectContaining({ content: null, decryptionFailed: true }));
+    });
+
+    it('should not read back plaintext without ciphertext in strict mode', async () => {
+      configService.get.mockImplementation((key: string, defaultValue?: any) =>
+        key === 'messaging.strictEncryption' ? true : defaultValue
+      );
+      messageRepo.createQueryBuilder.mockReturnValue(
+        makeQueryBuilder({
+          getMany: [
+            makeMessage('msg-2', { content: 'legacy', isEncrypted: false, encryptedContent: null, keyId: null }),
+            makeMessage('msg-1', { content: null, isEncrypted: false, encryptedContent: null, mediaId: 'file-1' }),
+          ],
+        })
+      );
+
+      const result = await service.getMessages('m1', 'me');
+
+      expect(encryptionService.decryptMessages).not.toHaveBeenCalled();
+      // An attachment without a caption has no text to decrypt
+      expect(result.messages[0]).toEqual(expect.objectContaining({ id: 'msg-1', content: null, decryptionFailed: false }));
+      expect(result.messages[1]).toEqual(expect.objectContaining({ id: 'msg-2', content: null, decryptionFailed: true }));
+    });
+
+    it('should reject a cursor from another conversation', async () => {
+      messageRepo.createQueryBuilder.mockReturnValue(makeQueryBuilder({}));
+      messageRepo.findOne.mockResolvedValue(null);
+
+      await expect(service.getMessages('m1', 'me', { before: 'elsewhere' }))
+        .rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('should hide the conversation from users outside the match', async () => {
+      await expect(service.getMessages('m1', 'stranger'))
+        .rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+
+  describe('markConversationRead', () => {
+    beforeEach(() => {
+      messageRepo.manager.findOne.mockResolvedValue({ id: 'm1', user1Id: 'me', user2Id: 'other', active: true });
+      blockService.isBlockedEitherWay.mockResolvedValue(false);
+    });
+
+    it('should mark received messages up to the given one as read', async () => {
+      const update = makeQueryBuilder({ execute: { affected: 3 } });
+      messageRepo.createQueryBuilder.mockReturnValue(update);
+      messageRepo.findOne.mockResolvedValue(makeMessage('msg-5'));
+
+      const receipt = await service.markConversationRead('m1', 'me', 'msg-5');
+
+      expect(receipt).toEqual(expect.objectContaining({
+        matchId: 'm1',
+        readerId: 'me',
+        senderId: 'other',
+        upToMessageId: 'msg-5',
+        count: 3,
+      }));
+      expect(update.set).toHaveBeenCalledWith(expect.objectContaining({ read: true, readAt: receipt.readAt }));
+      expect(update.andWhere).toHaveBeenCalledWith('"senderId" != :userId', { userId: 'me' });
+    });
+
+    it('should reject messages from other conversations', async () => {
+      messageRepo.findOne.mockResolvedValue(null);
+
+      await expect(service.markConversationRead('m1', 'me', 'elsewhere'))
+        .rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+
+  describe('markAsRead', () => {
+    beforeEach(() => {
+      messageRepo.manager.findOne.mockResolvedValue({ id: 'm1', user1Id: 'me', user2Id: 'other', active: true });
+      blockService.isBlockedEitherWay.mockResolvedValue(false);
+      messageRepo.save.mockImplementation(message => Promise.resolve(message));
+    });
+
+    it('should stamp a received message as read', async () => {
+      messageRepo.findOne.mockResolvedValue(makeMessage('msg-1'));
+
+      await expect(service.markAsRead('msg-1', 'me')).resolves.toEqual({ success: true });
+      expect(messageRepo.save).toHaveBeenCalledWith(expect.objectContaining({
+        read: true,
+        readAt: expect.any(Date),
+        deliveredAt: expect.any(Date),
+      }));
+    });
+
+    it('should not let the sender mark their own message as read', async () => {
+      messageRepo.findOne.mockResolvedValue(makeMessage('msg-1', { senderId: 'me' }));
+
+      await expect(service.markAsRead('msg-1', 'me')).rejects.toBeInstanceOf(NotFoundException);
+      expect(messageRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('should not let users outside the match mark messages as read', async () => {
+      messageRepo.findOne.mockResolvedValue(makeMessage('msg-1'));
+
+      await expect(service.markAsRead('msg-1', 'stranger')).rejects.toBeInstanceOf(NotFoundException);
+      expect(messageRepo.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('attachments', () => {
+    const match = { id: 'm1', user1Id: 'me', user2Id: 'other', active: true };
+
+    beforeEach(() => {
+      messageRepo.manager.findOne.mockResolvedValue(match);
+      blockService.isBlockedEitherWay.mockResolvedValue(false);
+    });
+
+    it('should send a voice note without text', async () => {
+      mediaService.getFileInfo.mockReturnValue({ id: 'media-1', userId: 'me', purpose: 'message', mimeType: 'audio/mpeg' });
+      messageRepo.findOne.mockResolvedValue(null);
+
+      const message = await service.sendMessage('me', 'm1', null, 'media-1');
+
+      expect(encryptionService.encryptMessage).not.toHaveBeenCalled();
+      expect(message).toEqual(expect.objectContaining({
+        mediaId: 'media-1',
+        mediaType: 'audio',
+        mediaUrl: '/messaging/attachments/media-1',
+        thumbnailUrl: null,
+      }));
+    });
+
+    it('should link image thumbnails', async () => {
+      mediaService.getFileInfo.mockReturnValue({ id: 'media-1', userId: 'me', purpose: 'message', mimeType: 'image/png' });
+      messageRepo.findOne.mockResolvedValue(null);
+      encryptionService.encryptMessage.mockResolvedValue({ encryptedData: 'cipher', iv: 'iv', authTag: 'tag', keyId: 'key' });
+
+      const message = await service.sendMessage('me', 'm1', 'look', 'media-1');
+
+      expect(message.thumbnailUrl).toBe('/messaging/attachments/media-1/thumbnail');
+    });
+
+    it('should reject attachments uploaded by someone else', async () => {
+      mediaService.getFileInfo.mockReturnValue({ id: 'media-1', userId: 'other', purpose: 'message', mimeType: 'image/png' });
+
+      await expect(service.sendMessage('me', 'm1', null, 'media-1'))
+        .rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('should reject attachments that were already sent', async () => {
+      mediaService.getFileInfo.mockReturnValue({ id: 'media-1', userId: 'me', purpose: 'message', mimeType: 'image/png' });
+      messageRepo.findOne.mockResolvedValue(makeMessage('msg-1', { mediaId: 'media-1' }));
+
+      await expect(service.sendMessage('me', 'm1', null, 'media-1'))
+        .rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('should not store plaintext in strict mode', async () => {
+      configService.get.mockImplementation((key: string, defaultValue?: any) =>
+        key === 'messaging.strictEncryption' ? true : defaultValue
+      );
+      encryptionService.encryptMessage.mockResolvedValue({ encryptedData: 'cipher', iv: 'iv', authTag: 'tag', keyId: 'key' });
+
+      const message = await service.sendMessage('me', 'm1', 'secret');
+
+      expect(message.content).toBe('secret');
+      expect(messageRepo.save).toHaveBeenCalledWith(expect.not.objectContaining({ content: 'secret' }));
+    });
+
+    it('should reject empty messages', async () => {
+      await expect(service.sendMessage('me', 'm1', '  '))
+        .rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('should serve attachments to participants of the match', async () => {
+      messageRepo.findOne.mockResolvedValue(makeMessage('msg-1', { mediaId: 'media-1', match }));
+      mediaService.getFile.mockResolvedValue({ buffer: Buffer.from(''), metadata: {} });
+
+      await service.getAttachment('media-1', 'other');
+
+      expect(mediaService.getFile).toHaveBeenCalledWith('media-1');
+    });
+
+    it('should hide attachments from other users', async () => {
+      messageRepo.findOne.mockResolvedValue(makeMessage('msg-1', { mediaId: 'media-1', match }));
+
+      await expect(service.getAttachmentThumbnail('media-1', 'stranger'))
+        .rejects.toBeInstanceOf(NotFoundException);
+      expect(mediaService.getThumbnail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('end-to-end encryption', () => {
+    const match = { id: 'm1', user1Id: 'me', user2Id: 'other', active: true };
+    const envelope = {
+      senderIdentityKey: 'identity',
+      ephemeralKey: 'ephemeral',
+      prekeyId: 1,
+      iv: 'iv',
+      ciphertext: 'ciphertext',
+    };
+
+    beforeEach(() => {
+      messageRepo.manager.findOne.mockResolvedValue(match);
+      blockService.isBlockedEitherWay.mockResolvedValue(false);
+    });
+
+    it('should store envelopes without encrypting on the server', async () => {
+      const envelopes = { other: envelope, me: envelope };
+
+      const message = await service.sendMessage('me', 'm1', null, undefined, envelopes);
+
+      expect(encryptionService.encryptMessage).not.toHaveBeenCalled();
+      expect(messageRepo.save).toHaveBeenCalledWith(expect.objectContaining({
+        e2eEnvelopes: envelopes,
+        algorithm: 'X25519-AES-256-GCM',
+        isEncrypted: true,
+      }));
+      expect(message.content).toBeNull();
+    });
+
+    it('should require an envelope for the recipient', async () => {
+      await expect(service.sendMessage('me', 'm1', null, undefined, { me: envelope }))
+        .rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('should reject envelopes for users outside the match', async () => {
+      await expect(service.sendMessage('me', 'm1', null, undefined, { other: envelope, stranger: envelope }))
+        .rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('should reject plaintext alongside envelopes', async () => {
+      await expect(service.sendMessage('me', 'm1', 'leak', undefined, { other: envelope }))
+        .rejects.toBeInstanceOf(BadRequestException);
+      expect(messageRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('should return each user their own envelope', async () => {
+      messageRepo.createQueryBuilder.mockReturnValue(makeQueryBuilder({
+        getMany: [makeMessage('msg-1', { encryptedContent: null, e2eEnvelopes: { me: envelope, other: envelope } })],
+      }));
+      encryptionService.decryptMessages.mockResolvedValue([]);
+
+      const result = await service.getMessages('m1', 'me');
+
+      expect(result.messages[0].envelope).toEqual(envelope);
+    });
+
+    it('should only edit end-to-end encrypted messages with new envelopes', async () => {
+      messageRepo.findOne.mockResolvedValue(makeMessage('msg-1', {
+        senderId: 'me',
+        createdAt: new Date(),
+        e2eEnvelopes: { other: envelope },
+      }));
+
+      await expect(service.editMessage('msg-1', 'me', 'plaintext'))
+        .rejects.toBeInstanceOf(BadRequestException);
+
+      const edited = { other: { ...envelope, ciphertext: 'edited' } };
+      const edit = await service.editMessage('msg-1', 'me', null, edited);
+
+      expect(encryptionService.encryptMessage).not.toHaveBeenCalled();
+      expect(edit.e2eEnvelopes).toEqual(edited);
+    });
+  });
+
+  describe('editing and deleting', () => {
+    const match = { id: 'm1', user1Id: 'me', user2Id: 'other', active: true };
+
+    beforeEach(() => {
+      messageRepo.manager.findOne.mockResolvedValue(match);
+      blockService.isBlockedEitherWay.mockResolvedValue(false);
+    });
+
+    it('should re-encrypt an edit within the window', async () => {
+      messageRepo.findOne.mockResolvedValue(makeMessage('msg-1', { senderId: 'me', createdAt: new Date() }));
+      encryptionService.encryptMessage.mockResolvedValue({ encryptedData: 'new-cipher', iv: 'iv2', authTag: 'tag2', keyId: 'key' });
+
+      const edit = await service.editMessage('msg-1', 'me', 'fixed typo');
+
+      expect(encryptionService.encryptMessage).toHaveBeenCalledWith('fixed typo', 'me', 'other');
+      expect(messageRepo.save).toHaveBeenCalledWith(expect.objectContaining({
+        encryptedContent: 'new-cipher',
+        editedAt: edit.editedAt,
+      }));
+      expect(auditLogService.log).toHaveBeenCalledWith(
+        'me', AuditAction.UPDATE, AuditResource.MESSAGE, 'msg-1', { change: 'edited', matchId: 'm1' }
+      );
+    });
+
+    it('should refuse edits after the window', async () => {
+      messageRepo.findOne.mockResolvedValue(makeMessage('msg-1', {
+        senderId: 'me',
+        createdAt: new Date(Date.now() - 16 * 60 * 1000),
+      }));
+
+      await expect(service.editMessage('msg-1', 'me', 'too late'))
+        .rejects.toBeInstanceOf(ForbiddenException);
+    });
+
+    it('should not let users edit messages they received', async () => {
+      messageRepo.findOne.mockResolvedValue(makeMessage('msg-1'));
+
+      await expect(service.editMessage('msg-1', 'me', 'hijack'))
+        .rejects.toBeInstanceOf(NotFoundException);
+    });
+
+    it('should tombstone unsent messages and drop their attachment', async () => {
+      const update = makeQueryBuilder({});
+      messageRepo.createQueryBuilder.mockReturnValue(update);
+      messageRepo.findOne.mockResolvedValue(makeMessage('msg-1', { senderId: 'me', mediaId: 'media-1' }));
+
+      const unsend = await service.unsendMessage('msg-1', 'me');
+
+      expect(unsend).toEqual({ id: 'msg-1', matchId: 'm1', unsentAt: expect.any(Date) });
+      expect(update.set).toHaveBeenCalledWith(expect.objectContaining({ mediaId: null, unsentAt: unsend.unsentAt }));
+      expect(mediaService.deleteFiles).toHaveBeenCalledWith(['media-1']);
+      expect(auditLogService.log).toHaveBeenCalledWith(
+        'me', AuditAction.DELETE, AuditResource.MESSAGE, 'msg-1', { change: 'unsent', matchId: 'm1' }
+      );
+    });
+
+    it('should hide a message for the requester only', async () => {
+      const update = makeQueryBuilder({});
+      messageRepo.createQueryBuilder.mockReturnValue(update);
+      messageRepo.findOne.mockResolvedValue(makeMessage('msg-1', { match, hiddenFor: [] }));
+
+      await expect(service.deleteMessageForUser('msg-1', 'me'))
+        .resolves.toEqual({ id: 'msg-1', matchId: 'm1' });
+      expect(update.setParameter).toHaveBeenCalledWith('userId', 'me');
+      expect(auditLogService.log).toHaveBeenCalledWith(
+        'me', AuditAction.DELETE, AuditResource.MESSAGE, 'msg-1', { change: 'hidden', matchId: 'm1' }
+      );
+    });
+
+    it('should not let other users delete messages', async () => {
+      messageRepo.findOne.mockResolvedValue(makeMessage('msg-1', { match, hiddenFor: [] }));
+
+      await expect(service.deleteMessageForUser('msg-1', 'stranger'))
+        .rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
 });
@@ -1,8 +1,106 @@
-import { Injectable, NotFoundException, Logger } from '@nestjs/common';
+import { Injectable, NotFoundException, ForbiddenException, BadRequestException, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { MessageEntity } from './message.entity/message.entity';
+import { ConfigService } from '@nestjs/config';
+import { Brackets, Repository } from 'typeorm';
+import { E2EEnvelope, MessageEntity, MessageMediaType } from './message.entity/message.entity';
+import { MatchEntity, MatchStatus } from '../matching/match.entity/match.entity';
 import { EncryptionService, EncryptedData } from '../common/services/encryption.service';
+import { BlockService } from '../matching/services/block.service';
+import { MediaService } from '../media/media.service';
+import { AuditLogService, AuditAction, AuditResource } from '../common/services/audit-log.service';
+
+/**
+ * Options for fetching a page of conversations
+ */
+export interface ConversationOptions {
+  limit?: number;
+  cursor?: string;
+}
+
+/**
+ * Keyset position after the last conversation of a page. The activity time
+ * is read from the match row so it keeps its full precision.
+ */
+interface ConversationCursor {
+  id: string;
+}
+
+/**
+ * Options for fetching a page of message history. `before` and `after`
+ * are message IDs; without either the latest messages are returned.
+ */
+export interface MessageHistoryOptions {
+  before?: string;
+  after?: string;
+  limit?: number;
+}
+
+/**
+ * Receipt sent to the sender once messages reach the recipient's device
+ */
+export interface DeliveryReceipt {
+  matchId: string;
+  messageIds: string[];
+  deliveredAt: Date;
+}
+
+/**
+ * Receipt sent to the sender once the recipient reads a conversation
+ */
+export interface ReadReceipt {
+  matchId: string;
+  readerId: string;
+  senderId: string;
+  upToMessageId: string;
+  readAt: Date;
+  count: number;
+}
+
+/**
+ * Notice sent to the conversation when a message is edited
+ */
+export interface MessageEdit {
+  id: string;
+  matchId: string;
+  senderId: string;
+  content: string | null;
+  e2eEnvelopes: Record<string, E2EEnvelope> | null;
+  editedAt: Date;
+}
+
+/**
+ * Notice sent to the conversation when a message is unsent for everyone
+ */
+export interface MessageUnsend {
+  id: string;
+  matchId: string;
+  unsentAt: Date;
+}
+
+/**
+ * Attachment fields returned with every message
+ */
+export interface MessageAttachmentFields {
+  mediaId: string | null;
+  mediaType: MessageMediaType | null;
+  mediaUrl: string | null;
+  thumbnailUrl: string | null;
+}
+
+/**
+ * Decrypted content of a message, or why it is missing
+ */
+interface DecryptedContent {
+  content: string | null;
+  decryptionFailed: boolean;
+}
+
+const MEDIA_TYPES: MessageMediaType[] = ['image', 'video', 'audio'];
+const E2E_ALGORITHM = 'X25519-AES-256-GCM';
+const MAX_E2E_CIPHERTEXT_LENGTH = 64 * 1024;
+const MAX_CONVERSATIONS = 50;
+const MAX_MESSAGES_PAGE = 100;
+const DECRYPT_BATCH_SIZE = 50;
 
 @Injectable()
 export class MessagingService {
@@ -11,18 +109,69 @@ export class MessagingService {
   constructor(
     @InjectRepository(MessageEntity)
     private messageRepo: Repository<MessageEntity>,
-    private encryptionService: EncryptionService
+    private encryptionService: EncryptionService,
+    private blockService: BlockService,
+    private mediaService: MediaService,
+    private auditLogService: AuditLogService,
+    private configService: ConfigService
   ) {}
 
   /**
-   * Send a new message with end-to-end encryption
+   * Get a match the user can message in
+   * @param matchId The match ID
+   * @param userId The user ID, who must take part in the match
+   * @returns The match
+   * @throws NotFoundException if the match does not exist or the user is not in it
+   * @throws ForbiddenException if the match is inactive or either user blocked the other
+   */
+  async getMessageableMatch(matchId: string, userId: string): Promise<MatchEntity> {
+    const match = await this.messageRepo.manager.findOne(MatchEntity, {
+      where: { id: matchId }
+    });
+    
+    if (!match || (match.user1Id !== userId && match.user2Id !== userId)) {
+      throw new NotFoundException(`Match with ID ${matchId} not found`);
+    }
+    
+    // Unmatched or blocked users can no longer message each other
+    if (!match.active) {
+      throw new ForbiddenException('This match is no longer active');
+    }
+    
+    const otherUserId = match.user1Id === userId ? match.user2Id : match.user1Id;
+    if (await this.blockService.isBlockedEitherWay(userId, otherUserId)) {
+      throw new ForbiddenException('This conversation is no longer available');
+    }
+    
+    return match;
+  }
+
+  /**
+   * Send a new message, either encrypted on the server or already
+   * encrypted end-to-end by the sender's device
    * @param senderId The ID of the user sending the message
    * @param matchId The ID of the match this message belongs to
-   * @param content The message content
+   * @param content The message content, optional when an attachment is sent
+   * @param mediaId The ID of an attachment uploaded by the sender
+   * @param envelopes The content encrypted on-device for each user of the
+   * match, sent instead of plaintext content
    * @returns The created message
    */
-  async sendMessage(senderId: string, matchId: string, content: string) {
+  async sendMessage(
+    senderId: string,
+    matchId: string,
+    content: string | null,
+    mediaId?: string,
+    envelopes?: Record<string, E2EEnvelope>
+  ) {
     try {
+      if (envelopes && content) {
+        throw new BadRequestException('End-to-end encrypted messages cannot include plaintext content');
+      }
+      if (!content?.trim() && !mediaId && !envelopes) {
+        throw new BadRequestException('A message needs content or an attachment');
+      }
+      
       // Create a new message entity
       const message = this.messageRepo.create({
         senderId,
@@ -31,43 +180,70 @@ export class MessagingService {
       });
       
       // Get the recipient user ID from the match
-      const match = await this.messageRepo.manager.findOne('matches', {
-        where: { id: matchId }
-      });
+      const match = await this.getMessageableMatch(matchId, senderId);
       
-      if (!match) {
-        throw new NotFoundException(`Match with ID ${matchId} not found`);
+      if (mediaId) {
+        message.mediaId = mediaId;
+        message.mediaType = await this.resolveAttachmentType(mediaId, senderId);
       }
       
-      // Determine the recipient ID (the other user in the match)
-      const recipientId = match.user1Id === senderId ? match.user2Id : match.user1Id;
-      
-      // Encrypt the message content
-      const encryptedData = await this.encryptionService.encryptMessage(
-        content,
-        senderId,
-        recipientId
-      );
+      if (envelopes) {
+        // Stored and relayed as is; only the recipients' devices can decrypt
+        this.assertValidEnvelopes(envelopes, match, senderId);
+        message.e2eEnvelopes = envelopes;
+        message.algorithm = E2E_ALGORITHM;
+        message.isEncrypted = true;
+      } else if (content) {
+        // Determine the recipient ID (the other user in the match)
+        const recipientId = match.user1Id === senderId ? match.user2Id : match.user1Id;
+        
+        // Encrypt the message content
+        const encryptedData = await this.encryptionService.encryptMessage(
+          content,
+          senderId,
+          recipientId
+        );
+        
+        // Store the encrypted data
+        message.encryptedContent = encryptedData.encryptedData;
+        message.iv = encryptedData.iv;
+        message.authTag = encryptedData.authTag;
+        message.algorithm = encryptedData.algorithm;
+        message.keyId = encryptedData.keyId;
+        message.isEncrypted = true;
+        
+        // For backward compatibility, store the plaintext content unless
+        // strict encryption is enabled
+        if (!this.isStrictEncryption()) {
+          message.content = content;
+        }
+      }
       
-      // Store the encrypted data
-      message.encryptedContent = encryptedData.encryptedData;
-      message.iv = encryptedData.iv;
-      message.authTag = encryptedData.authTag;
-      message.algorithm = encryptedData.algorithm;
-      message.keyId = encryptedData.keyId;
-      message.isEncrypted = true;
+      await this.messageRepo.save(message);
       
-      // For backward compatibility, store the plaintext content temporarily
-      // This should be removed in production or when all clients support encryption
-      message.content = content;
+      // Move the conversation to the top of both users' lists
+      await this.messageRepo.manager.update(
+        MatchEntity,
+        { id: matchId },
+        { lastActivityAt: message.createdAt }
+      );
       
-      await this.messageRepo.save(message);
+      // The first message keeps the match from expiring
+      if (match.status === MatchStatus.PENDING_FIRST_MESSAGE) {
+        await this.messageRepo.manager.update(
+          MatchEntity,
+          { id: matchId, status: MatchStatus.PENDING_FIRST_MESSAGE },
+          { status: MatchStatus.ACTIVE, firstMessageAt: new Date(), expiresAt: null }
+        );
+      }
       
       return {
         id: message.id,
         senderId: message.senderId,
         matchId: message.matchId,
-        content: message.content, // Return plaintext for now
+        content: content || null,
+        e2eEnvelopes: message.e2eEnvelopes || null,
+        ...this.getAttachmentFields(message),
         createdAt: message.createdAt,
         read: message.read,
         isEncrypted: message.isEncrypted
@@ -79,91 +255,241 @@ export class MessagingService {
   }
 
   /**
-   * Get all messages for a match
+   * Get a page of messages for a match, oldest first
    * @param matchId The match ID
    * @param userId The user ID requesting the messages (for decryption)
-   * @returns Array of messages with decrypted content
+   * @param options Page size and the message ID to page before or after
+   * @returns Messages with decrypted content, whether more exist in the
+   * paging direction and the cursors for the neighbouring pages
    */
-  async getMessages(matchId: string, userId: string) {
+  async getMessages(matchId: string, userId: string, options: MessageHistoryOptions = {}) {
     try {
-      const messages = await this.messageRepo.find({
-        where: { matchId },
-        relations: ['sender'],
-        order: { createdAt: 'ASC' }
+      // The conversation is hidden once the match is deactivated
+      const match = await this.messageRepo.manager.findOne(MatchEntity, {
+        where: { id: matchId, active: true }
       });
+      
+      if (!match || (match.user1Id !== userId && match.user2Id !== userId)) {
+        throw new NotFoundException(`Match with ID ${matchId} not found`);
+      }
+      
+      if (options.before && options.after) {
+        throw new BadRequestException('Only one of before and after can be given');
+      }
+      
+      const limit = Math.min(Math.max(options.limit || 50, 1), MAX_MESSAGES_PAGE);
+      const anchorId = options.before || options.after;
+      const newerFirst = !options.after;
+      
+      const query = this.messageRepo
+        .createQueryBuilder('message')
+        .leftJoin('message.sender', 'sender')
+        .addSelect(['sender.id', 'sender.name'])
+        .where('message.matchId = :matchId', { matchId })
+        .andWhere(this.notHiddenFor('message'), { userId })
+        .orderBy('message.createdAt', newerFirst ? 'DESC' : 'ASC')
+        .addOrderBy('message.id', newerFirst ? 'DESC' : 'ASC')
+        .limit(limit + 1);
+      
+      if (anchorId) {
+        const anchor = await this.messageRepo.findOne({ where: { id: anchorId, matchId } });
+        if (!anchor) {
+          throw new BadRequestException('Invalid cursor');
+        }
+        
+        // Compare against the stored row to keep the full timestamp precision
+        query.andWhere(
+          `(message.createdAt, message.id) ${newerFirst ? '<' : '>'} ` +
+          `(SELECT anchor."createdAt", anchor."id" FROM "messages" anchor WHERE anchor."id" = :anchorId)`,
+          { anchorId }
+        );
+      }
+      
+      const rows = await query.getMany();
+      const hasMore = rows.length > limit;
+      const page = rows.slice(0, limit);
+      if (newerFirst) {
+        page.reverse();
+      }
+      
+      const contents = await this.decryptContents(page, message => this.getRecipientId(match, message.senderId));
+      const messages = page.map((message, index) => ({
+        id: message.id,
+        senderId: message.senderId,
+        senderName: message.sender?.name || 'Unknown',
+        content: contents[index].content,
+        decryptionFailed: contents[index].decryptionFailed,
+        envelope: message.e2eEnvelopes?.[userId] ?? null,
+        ...this.getAttachmentFields(message),
+        createdAt: message.createdAt,
+        read: message.read,
+        deliveredAt: message.deliveredAt,
+        readAt: message.readAt,
+        editedAt: message.editedAt,
+        unsentAt: message.unsentAt,
+        isEncrypted: message.isEncrypted
+      }));
+      
+      return {
+        messages,
+        hasMore,
+        cursors: {
+          before: page.length ? page[0].id : null,
+          after: page.length ? page[page.length - 1].id : null,
+        },
+      };
+    } catch (error) {
+      this.logger.error(`Error getting messages: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a page of the user's active conversations, most recent first
+   * @param userId The user ID requesting the conversations
+   * @param options Page size and cursor from the previous page
+   * @returns Conversations with the other user, last message and unread count
+   */
+  async getConversations(userId: string, options: ConversationOptions = {}) {
+    try {
+      const limit = Math.min(Math.max(options.limit || 20, 1), MAX_CONVERSATIONS);
+
+      const query = this.messageRepo.manager
+        .createQueryBuilder(MatchEntity, 'match')
+        .leftJoin('match.user1', 'user1')
+        .leftJoin('match.user2', 'user2')
+        .addSelect(['user1.id', 'user1.name', 'user1.profilePhotoId'])
+        .addSelect(['user2.id', 'user2.name', 'user2.profilePhotoId'])
+        .where('match.active = true')
+        .andWhere(
+          new Brackets(qb => {
+            qb.where('match.user1Id = :userId', { userId })
+              .orWhere('match.user2Id = :userId', { userId });
+          })
+        )
+        .orderBy('match.lastActivityAt', 'DESC')
+        .addOrderBy('match.id', 'DESC')
+        .limit(limit + 1);
+
+      const cursor = this.decodeCursor(options.cursor);
+      if (cursor) {
+        const anchor = await this.messageRepo.manager.findOne(MatchEntity, {
+          where: [
+            { id: cursor.id, user1Id: userId },
+            { id: cursor.id, user2Id: userId },
+          ],
+        });
+        if (!anchor) {
+          throw new BadRequestException('Invalid cursor');
+        }
+
+        query.andWhere(
+          '(match.lastActivityAt, match.id) < ' +
+          '(SELECT anchor."lastActivityAt", anchor."id" FROM "matches" anchor WHERE anchor."id" = :cursorId)',
+          { cursorId: cursor.id }
+        );
+      }
+
+      const rows = await query.getMany();
+      const matches = rows.slice(0, limit);
+      if (!matches.length) {
+        return { conversations: [], nextCursor: null };
+      }
 
-      if (!messages.length) {
-        return [];
-      }
-
-      // Process each message to decrypt content if needed
-      const processedMessages = await Promise.all(
-        messages.map(async (message) => {
-          let messageContent = message.content;
-          
-          // If the message is encrypted and has all required encryption metadata
-          if (
-            message.isEncrypted &&
-            message.encryptedContent &&
-            message.iv &&
-            message.authTag &&
-            message.keyId
-          ) {
-            try {
-              // Decrypt the message content
-              messageContent = await this.encryptionService.decryptMessage(
-                {
-                  encryptedData: message.encryptedContent,
-                  iv: message.iv,
-                  authTag: message.authTag,
-                  algorithm: message.algorithm || 'AES-256-GCM',
-                  keyId: message.keyId
-                },
-                userId
-              );
-            } catch (decryptError) {
-              this.logger.error(
-                `Failed to decrypt message ${message.id}: ${decryptError.message}`,
-                decryptError.stack
-              );
-              // Fall back to the stored plaintext content if available
-              messageContent = message.content || '[Encrypted message - cannot decrypt]';
-            }
-          }
-          
-          return {
-            id: message.id,
-            senderId: message.senderId,
-            senderName: message.sender?.name || 'Unknown',
-            content: messageContent,
-            createdAt: message.createdAt,
-            read: message.read,
-            isEncrypted: message.isEncrypted
-          };
-        })
+      const matchIds = matches.map(match => match.id);
+
+      // One row per match: its latest message
+      const lastMessages = await this.messageRepo
+        .createQueryBuilder('message')
+        .distinctOn(['message.matchId'])
+        .where('message.matchId IN (:...matchIds)', { matchIds })
+        .andWhere(this.notHiddenFor('message'), { userId })
+        .orderBy('message.matchId')
+        .addOrderBy('message.createdAt', 'DESC')
+        .getMany();
+      const lastMessageByMatch = new Map(lastMessages.map(message => [message.matchId, message]));
+
+      const unreadRows: { matchId: string; count: string }[] = await this.messageRepo
+        .createQueryBuilder('message')
+        .select('message.matchId', 'matchId')
+        .addSelect('COUNT(*)', 'count')
+        .where('message.matchId IN (:...matchIds)', { matchIds })
+        .andWhere('message.senderId != :userId', { userId })
+        .andWhere('message.read = false')
+        .andWhere('message.unsentAt IS NULL')
+        .andWhere(this.notHiddenFor('message'), { userId })
+        .groupBy('message.matchId')
+        .getRawMany();
+      const unreadByMatch = new Map(unreadRows.map(row => [row.matchId, Number(row.count)]));
+
+      const matchById = new Map(matches.map(match => [match.id, match]));
+      const previews = await this.decryptContents(
+        lastMessages,
+        message => this.getRecipientId(matchById.get(message.matchId)!, message.senderId)
+      );
+      const previewByMessage = new Map(
+        lastMessages.map((message, index) => [message.id, previews[index]])
       );
 
-      return processedMessages;
+      const conversations = matches.map(match => {
+        const otherUser = match.user1Id === userId ? match.user2 : match.user1;
+        const lastMessage = lastMessageByMatch.get(match.id);
+
+        return {
+          matchId: match.id,
+          userId: otherUser?.id,
+          name: otherUser?.name || 'Unknown',
+          thumbnailUrl: otherUser?.profilePhotoId
+            ? `/media/${otherUser.profilePhotoId}/thumbnail`
+            : null,
+          status: match.status,
+          lastMessage: lastMessage
+            ? {
+                id: lastMessage.id,
+                senderId: lastMessage.senderId,
+                content: previewByMessage.get(lastMessage.id)?.content ?? null,
+                decryptionFailed: previewByMessage.get(lastMessage.id)?.decryptionFailed ?? false,
+                envelope: lastMessage.e2eEnvelopes?.[userId] ?? null,
+                mediaType: lastMessage.mediaType,
+                createdAt: lastMessage.createdAt,
+                unsentAt: lastMessage.unsentAt,
+              }
+            : null,
+          unreadCount: unreadByMatch.get(match.id) || 0,
+          lastActivityAt: match.lastActivityAt,
+        };
+      });
+
+      const last = matches[matches.length - 1];
+      const nextCursor = rows.length > limit ? this.encodeCursor(last) : null;
+
+      return { conversations, nextCursor };
     } catch (error) {
-      this.logger.error(`Error getting messages: ${error.message}`, error.stack);
+      this.logger.error(`Error getting conversations: ${error.message}`, error.stack);
       throw error;
     }
   }
 
   /**
-   * Mark a message as read
+   * Mark a message the user received as read
    * @param messageId The message ID
+   * @param userId The ID of the recipient
    * @returns Success status
+   * @throws NotFoundException unless the user is the message's recipient
    */
-  async markAsRead(messageId: string) {
+  async markAsRead(messageId: string, userId: string) {
     try {
       const message = await this.messageRepo.findOne({ where: { id: messageId } });
       
-      if (!message) {
+      // Only the recipient can mark a message as read
+      if (!message || message.senderId === userId) {
         throw new NotFoundException(`Message with ID ${messageId} not found`);
       }
+      await this.getMessageableMatch(message.matchId, userId);
 
       message.read = true;
+      message.readAt = new Date();
+      message.deliveredAt = message.deliveredAt || message.readAt;
       await this.messageRepo.save(message);
 
       return { success: true };
@@ -172,4 +498,508 @@ export class MessagingService {
       throw error;
     }
   }
+
+  /**
+   * Mark messages the user received as delivered to their device
+   * @param matchId The match ID
+   * @param userId The ID of the recipient
+   * @param messageIds The delivered message IDs
+   * @returns The messages that were newly marked and the delivery time
+   */
+  async markDelivered(matchId: string, userId: string, messageIds: string[]): Promise<DeliveryReceipt> {
+    await this.getMessageableMatch(matchId, userId);
+    
+    const deliveredAt = new Date();
+    if (!messageIds.length) {
+      return { matchId, messageIds: [], deliveredAt };
+    }
+    
+    const result = await this.messageRepo
+      .createQueryBuilder()
+      .update(MessageEntity)
+      .set({ deliveredAt })
+      .where('"id" IN (:...messageIds)', { messageIds })
+      .andWhere('"matchId" = :matchId', { matchId })
+      .andWhere('"senderId" != :userId', { userId })
+      .andWhere('"deliveredAt" IS NULL')
+      .returning(['id'])
+      .execute();
+    
+    return {
+      matchId,
+      messageIds: (result.raw as { id: string }[]).map(row => row.id),
+      deliveredAt,
+    };
+  }
+
+  /**
+   * Mark every message the user received in a conversation as read, up to
+   * and including the given message
+   * @param matchId The match ID
+   * @param userId The ID of the reader
+   * @param upToMessageId The newest message the reader has seen
+   * @returns A read receipt for the other user
+   */
+  async markConversationRead(matchId: string, userId: string, upToMessageId: string): Promise<ReadReceipt> {
+    const match = await this.getMessageableMatch(matchId, userId);
+    
+    const anchor = await this.messageRepo.findOne({ where: { id: upToMessageId, matchId } });
+    if (!anchor) {
+      throw new NotFoundException(`Message with ID ${upToMessageId} not found`);
+    }
+    
+    const readAt = new Date();
+    const result = await this.messageRepo
+      .createQueryBuilder()
+      .update(MessageEntity)
+      .set({
+        read: true,
+        readAt,
+        deliveredAt: () => 'COALESCE("deliveredAt", :readAt)',
+      })
+      .where('"matchId" = :matchId', { matchId })
+      .andWhere('"senderId" != :userId', { userId })
+      .andWhere('"read" = false')
+      .andWhere(
+        '("createdAt", "id") <= (SELECT anchor."createdAt", anchor."id" FROM "messages" anchor WHERE anchor."id" = :upToMessageId)',
+        { upToMessageId }
+      )
+      .setParameter('readAt', readAt)
+      .execute();
+    
+    return {
+      matchId,
+      readerId: userId,
+      senderId: match.user1Id === userId ? match.user2Id : match.user1Id,
+      upToMessageId,
+      readAt,
+      count: result.affected || 0,
+    };
+  }
+
+  /**
+   * Edit a message the user sent, within the configured edit window
+   * @param messageId The message ID
+   * @param userId The ID of the sender
+   * @param content The new content, encrypted again for the recipient
+   * @param envelopes The new content encrypted on-device, required instead
+   * of content for end-to-end encrypted messages
+   * @returns The edit to broadcast to the conversation
+   * @throws ForbiddenException once the edit window has passed
+   */
+  async editMessage(
+    messageId: string,
+    userId: string,
+    content: string | null,
+    envelopes?: Record<string, E2EEnvelope>
+  ): Promise<MessageEdit> {
+    const { message, match } = await this.getOwnMessage(messageId, userId);
+    if (message.unsentAt) {
+      throw new BadRequestException('Unsent messages cannot be edited');
+    }
+    
+    // An edit keeps the message's encryption mode
+    if (message.e2eEnvelopes) {
+      if (!envelopes || content) {
+        throw new BadRequestException('End-to-end encrypted messages are edited with new envelopes');
+      }
+    } else if (!content?.trim() || envelopes) {
+      throw new BadRequestException('Content is required');
+    }
+    
+    const editWindowMinutes = this.configService.get<number>('messaging.editWindowMinutes', 15);
+    const editableUntil = new Date(message.createdAt).getTime() + editWindowMinutes * 60 * 1000;
+    if (Date.now() > editableUntil) {
+      throw new ForbiddenException('This message can no longer be edited');
+    }
+    
+    if (envelopes) {
+      this.assertValidEnvelopes(envelopes, match, userId);
+      message.e2eEnvelopes = envelopes;
+    } else {
+      const recipientId = match.user1Id === userId ? match.user2Id : match.user1Id;
+      const encryptedData = await this.encryptionService.encryptMessage(content as string, userId, recipientId);
+      
+      message.encryptedContent = encryptedData.encryptedData;
+      message.iv = encryptedData.iv;
+      message.authTag = encryptedData.authTag;
+      message.algorithm = encryptedData.algorithm;
+      message.keyId = encryptedData.keyId;
+      message.isEncrypted = true;
+      // Kept in step with the encrypted content, as in sendMessage
+      message.content = this.isStrictEncryption() ? null : content;
+    }
+    message.editedAt = new Date();
+    await this.messageRepo.save(message);
+    
+    await this.auditLogService.log(userId, AuditAction.UPDATE, AuditResource.MESSAGE, message.id, {
+      change: 'edited',
+      matchId: message.matchId,
+    });
+    
+    return {
+      id: message.id,
+      matchId: message.matchId,
+      senderId: message.senderId,
+      content: envelopes ? null : content,
+      e2eEnvelopes: message.e2eEnvelopes,
+      editedAt: message.editedAt,
+    };
+  }
+
+  /**
+   * Unsend a message for everyone, leaving a tombstone in its place
+   * @param messageId The message ID
+   * @param userId The ID of the sender
+   * @returns The tombstone to broadcast to the conversation
+   */
+  async unsendMessage(messageId: string, userId: string): Promise<MessageUnsend> {
+    const { message } = await this.getOwnMessage(messageId, userId);
+    if (message.unsentAt) {
+      throw new BadRequestException('This message was already unsent');
+    }
+    
+    const attachmentIds = message.mediaId ? [message.mediaId] : [];
+    const unsentAt = new Date();
+    await this.messageRepo
+      .createQueryBuilder()
+      .update(MessageEntity)
+      .set({
+        content: null,
+        encryptedContent: () => 'NULL',
+        iv: () => 'NULL',
+        authTag: () => 'NULL',
+        keyId: () => 'NULL',
+        e2eEnvelopes: null,
+        isEncrypted: false,
+        mediaId: null,
+        mediaType: null,
+        unsentAt,
+      })
+      .where('"id" = :messageId', { messageId: message.id })
+      .execute();
+    await this.mediaService.deleteFiles(attachmentIds);
+    
+    await this.auditLogService.log(userId, AuditAction.DELETE, AuditResource.MESSAGE, message.id, {
+      change: 'unsent',
+      matchId: message.matchId,
+    });
+    
+    return { id: message.id, matchId: message.matchId, unsentAt };
+  }
+
+  /**
+   * Hide a message from the user's own history; the other user still sees it
+   * @param messageId The message ID
+   * @param userId The ID of either user in the match
+   * @returns The hidden message's ID and match
+   */
+  async deleteMessageForUser(messageId: string, userId: string) {
+    const message = await this.messageRepo.findOne({
+      where: { id: messageId },
+      relations: ['match'],
+    });
+    
+    // Deleting stays possible after unmatching, so only participation is checked
+    if (!message || (message.match?.user1Id !== userId && message.match?.user2Id !== userId)) {
+      throw new NotFoundException(`Message with ID ${messageId} not found`);
+    }
+    
+    if (!message.hiddenFor.includes(userId)) {
+      await this.messageRepo
+        .createQueryBuilder()
+        .update(MessageEntity)
+        .set({ hiddenFor: () => `"hiddenFor" || jsonb_build_array(CAST(:userId AS varchar))` })
+        .where('"id" = :messageId', { messageId })
+        .setParameter('userId', userId)
+        .execute();
+      
+      await this.auditLogService.log(userId, AuditAction.DELETE, AuditResource.MESSAGE, message.id, {
+        change: 'hidden',
+        matchId: message.matchId,
+      });
+    }
+    
+    return { id: message.id, matchId: message.matchId };
+  }
+
+  /**
+   * Upload a file to attach to a message in a conversation
+   * @param matchId The match ID
+   * @param userId The ID of the uploader, who must be able to message in the match
+   * @param file The uploaded image, video or voice note
+   * @returns The stored file, to be referenced by `mediaId` when sending
+   */
+  async uploadAttachment(matchId: string, userId: string, file: Express.Multer.File) {
+    await this.getMessageableMatch(matchId, userId);
+    
+    const uploaded = await this.mediaService.uploadMessageAttachment(file, userId);
+    return {
+      ...uploaded,
+      mediaType: this.getMediaType(uploaded.mimeType),
+    };
+  }
+
+  /**
+   * Get an attachment sent in a conversation the user takes part in
+   * @param mediaId The attachment ID
+   * @param userId The ID of the requesting user
+   * @throws NotFoundException if the attachment does not exist or the user cannot see it
+   */
+  async getAttachment(mediaId: string, userId: string) {
+    await this.assertAttachmentAccess(mediaId, userId);
+    return this.mediaService.getFile(mediaId);
+  }
+
+  /**
+   * Get the thumbnail of an attachment sent in a conversation the user
+   * takes part in
+   * @param mediaId The attachment ID
+   * @param userId The ID of the requesting user
+   * @throws NotFoundException if the attachment does not exist or the user cannot see it
+   */
+  async getAttachmentThumbnail(mediaId: string, userId: string) {
+    await this.assertAttachmentAccess(mediaId, userId);
+    return this.mediaService.getThumbnail(mediaId);
+  }
+
+  /**
+   * Get the users the user has an active match with
+   * @param userId The user ID
+   * @returns The IDs of the other users
+   */
+  async getActivePartnerIds(userId: string): Promise<string[]> {
+    const matches = await this.messageRepo.manager.find(MatchEntity, {
+      where: [
+        { user1Id: userId, active: true },
+        { user2Id: userId, active: true },
+      ],
+      select: ['id', 'user1Id', 'user2Id'],
+    });
+    
+    return matches.map(match => match.user1Id === userId ? match.user2Id : match.user1Id);
+  }
+
+  /**
+   * Get a message the user sent in a match they can still message in
+   * @throws NotFoundException if the message does not exist or was sent by someone else
+   */
+  private async getOwnMessage(messageId: string, userId: string) {
+    const message = await this.messageRepo.findOne({ where: { id: messageId } });
+    if (!message || message.senderId !== userId) {
+      throw new NotFoundException(`Message with ID ${messageId} not found`);
+    }
+    
+    const match = await this.getMessageableMatch(message.matchId, userId);
+    return { message, match };
+  }
+
+  /**
+   * Condition excluding messages the user deleted for themselves; expects
+   * a `userId` parameter
+   */
+  private notHiddenFor(alias: string): string {
+    return `NOT (${alias}.hiddenFor @> jsonb_build_array(CAST(:userId AS varchar)))`;
+  }
+
+  /**
+   * Check the shape of end-to-end envelopes. Their content cannot be
+   * checked, but they must be addressed to the users of the match and
+   * include one for the recipient.
+   */
+  private assertValidEnvelopes(envelopes: Record<string, E2EEnvelope>, match: MatchEntity, senderId: string) {
+    if (!envelopes || typeof envelopes !== 'object' || Array.isArray(envelopes)) {
+      throw new BadRequestException('Invalid envelopes');
+    }
+    
+    const participants = [match.user1Id, match.user2Id];
+    const recipientIds = Object.keys(envelopes);
+    if (
+      !recipientIds.includes(this.getRecipientId(match, senderId)) ||
+      recipientIds.some(recipientId => !participants.includes(recipientId))
+    ) {
+      throw new BadRequestException('Envelopes must be addressed to the users of the match');
+    }
+    
+    for (const envelope of Object.values(envelopes)) {
+      const isValid =
+        !!envelope &&
+        typeof envelope.senderIdentityKey === 'string' &&
+        typeof envelope.ephemeralKey === 'string' &&
+        typeof envelope.iv === 'string' &&
+        typeof envelope.ciphertext === 'string' &&
+        Number.isInteger(envelope.prekeyId) &&
+        envelope.ciphertext.length <= MAX_E2E_CIPHERTEXT_LENGTH;
+      if (!isValid) {
+        throw new BadRequestException('Invalid envelopes');
+      }
+    }
+  }
+
+  /**
+   * Check that an attachment was uploaded by the sender for a message and
+   * has not been sent before
+   * @returns The attachment's media type
+   */
+  private async resolveAttachmentType(mediaId: string, senderId: string): Promise<MessageMediaType> {
+    let file: ReturnType<MediaService['getFileInfo']>;
+    try {
+      file = this.mediaService.getFileInfo(mediaId);
+    } catch {
+      throw new BadRequestException('Invalid attachment');
+    }
+    
+    if (file.userId !== senderId || file.purpose !== 'message') {
+      throw new BadRequestException('Invalid attachment');
+    }
+    
+    // Reusing an attachment would expose it in another conversation
+    const existing = await this.messageRepo.findOne({ where: { mediaId } });
+    if (existing) {
+      throw new BadRequestException('This attachment has already been sent');
+    }
+    
+    return this.getMediaType(file.mimeType);
+  }
+
+  /**
+   * Only the two users of an active match can fetch its attachments
+   */
+  private async assertAttachmentAccess(mediaId: string, userId: string): Promise<void> {
+    const message = await this.messageRepo.findOne({
+      where: { mediaId },
+      relations: ['match'],
+    });
+    const match = message?.match;
+    
+    if (!match || !match.active || (match.user1Id !== userId && match.user2Id !== userId)) {
+      throw new NotFoundException(`Attachment with ID ${mediaId} not found`);
+    }
+  }
+
+  private getMediaType(mimeType: string): MessageMediaType {
+    const mediaType = mimeType.split('/')[0] as MessageMediaType;
+    if (!MEDIA_TYPES.includes(mediaType)) {
+      throw new BadRequestException('Attachments must be images, videos or voice notes');
+    }
+    return mediaType;
+  }
+
+  private getAttachmentFields(message: MessageEntity): MessageAttachmentFields {
+    if (!message.mediaId) {
+      return { mediaId: null, mediaType: null, mediaUrl: null, thumbnailUrl: null };
+    }
+    
+    const mediaUrl = `/messaging/attachments/${message.mediaId}`;
+    return {
+      mediaId: message.mediaId,
+      mediaType: message.mediaType,
+      mediaUrl,
+      // Only images get a thumbnail when uploaded
+      thumbnailUrl: message.mediaType === 'image' ? `${mediaUrl}/thumbnail` : null,
+    };
+  }
+
+  /**
+   * Decrypt the content of a batch of messages. Outside strict mode,
+   * messages that cannot be decrypted fall back to the stored plaintext; in
+   * strict mode, text without complete encryption metadata is reported as a
+   * failure.
+   * @param messages The messages to decrypt
+   * @param getRecipientId Resolves the user a message was sent to; messages
+   * are encrypted with the recipient's key
+   */
+  private async decryptContents(
+    messages: MessageEntity[],
+    getRecipientId: (message: MessageEntity) => string
+  ): Promise<DecryptedContent[]> {
+    // Only messages with all required encryption metadata can be decrypted
+    const encrypted = messages.filter(message =>
+      message.isEncrypted &&
+      message.encryptedContent &&
+      message.iv &&
+      message.authTag &&
+      message.keyId
+    );
+
+    const byRecipient = new Map<string, MessageEntity[]>();
+    for (const message of encrypted) {
+      const recipientId = getRecipientId(message);
+      byRecipient.set(recipientId, [...(byRecipient.get(recipientId) || []), message]);
+    }
+
+    const decrypted = new Map<string, string | null>();
+    for (const [recipientId, recipientMessages] of byRecipient) {
+      for (let i = 0; i < recipientMessages.length; i += DECRYPT_BATCH_SIZE) {
+        const batch = recipientMessages.slice(i, i + DECRYPT_BATCH_SIZE);
+        const results = await this.encryptionService.decryptMessages(
+          batch.map(message => ({
+            encryptedData: message.encryptedContent,
+            iv: message.iv,
+            authTag: message.authTag,
+            algorithm: message.algorithm || 'AES-256-GCM',
+            keyId: message.keyId
+          })),
+          recipientId
+        );
+        batch.forEach((message, index) => decrypted.set(message.id, results[index]));
+      }
+    }
+
+    const strict = this.isStrictEncryption();
+    return messages.map(message => {
+      if (!decrypted.has(message.id)) {
+        // End-to-end messages are decrypted on the device
+        const hasServerText = !message.e2eEnvelopes && (message.isEncrypted || !!message.content);
+        if (strict && hasServerText) {
+          this.logger.warn(`Message ${message.id} is missing its encryption metadata`);
+          return { content: null, decryptionFailed: true };
+        }
+        return { content: message.content ?? null, decryptionFailed: false };
+      }
+
+      const content = decrypted.get(message.id);
+      if (content === null || content === undefined) {
+        this.logger.warn(`Failed to decrypt message ${message.id}`);
+        // Strict mode reports the failure instead of reading the plaintext column
+        return {
+          content: strict ? null : message.content || '[Encrypted message - cannot decrypt]',
+          decryptionFailed: true,
+        };
+      }
+      return { content, decryptionFailed: false };
+    });
+  }
+
+  private getRecipientId(match: MatchEntity, senderId: string): string {
+    return match.user1Id === senderId ? match.user2Id : match.user1Id;
+  }
+
+  /**
+   * In strict mode the plaintext column is never written or read back
+   */
+  private isStrictEncryption(): boolean {
+    return this.configService.get<boolean>('messaging.strictEncryption', false);
+  }
+
+  private encodeCursor(match: MatchEntity): string {
+    const cursor: ConversationCursor = { id: match.id };
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  private decodeCursor(cursor?: string): ConversationCursor | null {
+    if (!cursor) return null;
+
+    try {
+      const decoded = JSON.parse(
+        Buffer.from(cursor, 'base64url').toString('utf8'),
+      ) as ConversationCursor;
+      if (typeof decoded.id === 'string' && decoded.id) {
+        return decoded;
+      }
+    } catch {
+      // Fall through to the error below
+    }
+    throw new BadRequestException('Invalid cursor');
+  }
 }
@@ -0,0 +1,120 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { KeyDirectoryService } from './key-directory.service';
+import { KeyBundleEntity } from '../entities/key-bundle.entity';
+import { MatchEntity } from '../../matching/match.entity/match.entity';
+
+describe('KeyDirectoryService', () => {
+  let service: KeyDirectoryService;
+
+  const keyBundleRepo = {
+    findOne: jest.fn(),
+    create: jest.fn(data => ({ ...data })),
+    save: jest.fn(bundle => Promise.resolve(bundle)),
+  };
+  const matchRepo = {
+    findOne: jest.fn(),
+  };
+
+  const key = (fill: number) => Buffer.alloc(32, fill).toString('base64');
+  const makeBundle = (overrides: Record<string, any> = {}) => ({
+    userId: 'u2',
+    identityKey: key(1),
+    fingerprint: 'fingerprint',
+    prekeyId: 1,
+    prekey: key(2),
+    identityChangedAt: null,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        KeyDirectoryService,
+        { provide: getRepositoryToken(KeyBundleEntity), useValue: keyBundleRepo },
+        { provide: getRepositoryToken(MatchEntity), useValue: matchRepo },
+      ],
+    }).compile();
+
+    service = module.get<KeyDirectoryService>(KeyDirectoryService);
+  });
+
+  describe('publishKeys', () => {
+    it('should store the first bundle without flagging a change', async () => {
+      keyBundleRepo.findOne.mockResolvedValue(null);
+
+      const { bundle, identityChanged } = await service.publishKeys('me', {
+        identityKey: key(1),
+        prekeyId: 1,
+        prekey: key(2),
+      });
+
+      expect(identityChanged).toBe(false);
+      expect(bundle.fingerprint).toMatch(/^[0-9a-f]{64}$/);
+      expect(bundle.identityChangedAt).toBeNull();
+    });
+
+    it('should flag a new identity key', async () => {
+      keyBundleRepo.findOne.mockResolvedValue(makeBundle({ userId: 'me' }));
+
+      const { bundle, identityChanged } = await service.publishKeys('me', {
+        identityKey: key(3),
+        prekeyId: 2,
+        prekey: key(4),
+      });
+
+      expect(identityChanged).toBe(true);
+      expect(bundle.identityChangedAt).toEqual(expect.any(Date));
+    });
+
+    it('should not flag a prekey rotation', async () => {
+      keyBundleRepo.findOne.mockResolvedValue(makeBundle({ userId: 'me' }));
+
+      const { identityChanged } = await service.publishKeys('me', {
+        identityKey: key(1),
+        prekeyId: 2,
+        prekey: key(4),
+      });
+
+      expect(identityChanged).toBe(false);
+    });
+
+    it('should reject keys that are not X25519 public keys', async () => {
+      await expect(service.publishKeys('me', {
+        identityKey: Buffer.alloc(16).toString('base64'),
+        prekeyId: 1,
+        prekey: key(2),
+      })).rejects.toBeInstanceOf(BadRequestException);
+      expect(keyBundleRepo.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getKeyBundle', () => {
+    it('should return the keys of an active match', async () => {
+      matchRepo.findOne.mockResolvedValue({ id: 'm1' });
+      keyBundleRepo.findOne.mockResolvedValue(makeBundle());
+
+      await expect(service.getKeyBundle('me', 'u2'))
+        .resolves.toEqual(expect.objectContaining({ userId: 'u2', identityKey: key(1) }));
+    });
+
+    it('should hide the keys of users the requester is not matched with', async () => {
+      matchRepo.findOne.mockResolvedValue(null);
+
+      await expect(service.getKeyBundle('me', 'stranger'))
+        .rejects.toBeInstanceOf(NotFoundException);
+      expect(keyBundleRepo.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should report users who have not published keys', async () => {
+      matchRepo.findOne.mockResolvedValue({ id: 'm1' });
+      keyBundleRepo.findOne.mockResolvedValue(null);
+
+      await expect(service.getKeyBundle('me', 'u2'))
+        .rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { createHash } from 'crypto';
+import { KeyBundleEntity } from '../entities/key-bundle.entity';
+import { MatchEntity } from '../../matching/match.entity/match.entity';
+import { PublishKeysDto } from '../dto/publish-keys.dto';
+
+/**
+ * Public keys needed to encrypt a message for a user
+ */
+export interface KeyBundle {
+  userId: string;
+  identityKey: string;
+  fingerprint: string;
+  prekeyId: number;
+  prekey: string;
+  identityChangedAt: Date | null;
+}
+
+// Raw X25519 public keys are 32 bytes
+const X25519_KEY_LENGTH = 32;
+
+/**
+ * Directory of the public keys clients publish for end-to-end encrypted
+ * messaging. The server only relays public keys; it cannot decrypt.
+ */
+@Injectable()
+export class KeyDirectoryService {
+  constructor(
+    @InjectRepository(KeyBundleEntity)
+    private readonly keyBundleRepo: Repository<KeyBundleEntity>,
+    @InjectRepository(MatchEntity)
+    private readonly matchRepo: Repository<MatchEntity>,
+  ) {}
+
+  /**
+   * Publish or rotate the user's keys
+   * @returns The stored bundle and whether the identity key changed, in
+   * which case the user's matches should be warned
+   */
+  async publishKeys(userId: string, dto: PublishKeysDto) {
+    this.assertX25519Key(dto.identityKey, 'identityKey');
+    this.assertX25519Key(dto.prekey, 'prekey');
+
+    const existing = await this.keyBundleRepo.findOne({ where: { userId } });
+    const identityChanged = !!existing && existing.identityKey !== dto.identityKey;
+
+    const bundle = await this.keyBundleRepo.save(
+      this.keyBundleRepo.create({
+        ...existing,
+        userId,
+        identityKey: dto.identityKey,
+        fingerprint: this.getFingerprint(dto.identityKey),
+        prekeyId: dto.prekeyId,
+        prekey: dto.prekey,
+        identityChangedAt: identityChanged ? new Date() : existing?.identityChangedAt ?? null,
+      })
+    );
+
+    return { bundle: this.toKeyBundle(bundle), identityChanged };
+  }
+
+  /**
+   * Get the keys of a user the requester has an active match with
+   * @throws NotFoundException if they are not matched or no keys are published
+   */
+  async getKeyBundle(requesterId: string, userId: string): Promise<KeyBundle> {
+    if (requesterId !== userId) {
+      const match = await this.matchRepo.findOne({
+        where: [
+          { user1Id: requesterId, user2Id: userId, active: true },
+          { user1Id: userId, user2Id: requesterId, active: true },
+        ],
+      });
+      if (!match) {
+        throw new NotFoundException('Keys not found');
+      }
+    }
+
+    const bundle = await this.keyBundleRepo.findOne({ where: { userId } });
+    if (!bundle) {
+      throw new NotFoundException('Keys not found');
+    }
+
+    return this.toKeyBundle(bundle);
+  }
+
+  private assertX25519Key(key: string, field: string) {
+    if (Buffer.from(key, 'base64').length !== X25519_KEY_LENGTH) {
+      throw new BadRequestException(`${field} must be a raw X25519 public key`);
+    }
+  }
+
+  private getFingerprint(identityKey: string): string {
+    return createHash('sha256').update(Buffer.from(identityKey, 'base64')).digest('hex');
+  }
+
+  private toKeyBundle(bundle: KeyBundleEntity): KeyBundle {
+    return {
+      userId: bundle.userId,
+      identityKey: bundle.identityKey,
+      fingerprint: bundle.fingerprint,
+      prekeyId: bundle.prekeyId,
+      prekey: bundle.prekey,
+      identityChangedAt: bundle.identityChangedAt,
+    };
+  }
+}
@@ -0,0 +1,109 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { MessageEncryptionBackfillService } from './message-encryption-backfill.service';
+import { MessageEntity } from '../message.entity/message.entity';
+import { EncryptionService } from '../../common/services/encryption.service';
+
+describe('MessageEncryptionBackfillService', () => {
+  let service: MessageEncryptionBackfillService;
+
+  const messageRepo = {
+    count: jest.fn(),
+    find: jest.fn(),
+    update: jest.fn(),
+  };
+  const encryptionService = {
+    encryptMessage: jest.fn(),
+    decryptMessages: jest.fn(),
+  };
+
+  const match = { user1Id: 'sender', user2Id: 'recipient' };
+  const makeMessage = (id: string, overrides: Record<string, any> = {}) => ({
+    id,
+    senderId: 'sender',
+    match,
+    content: `plain-${id}`,
+    isEncrypted: false,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MessageEncryptionBackfillService,
+        { provide: getRepositoryToken(MessageEntity), useValue: messageRepo },
+        { provide: EncryptionService, useValue: encryptionService },
+      ],
+    }).compile();
+
+    service = module.get<MessageEncryptionBackfillService>(MessageEncryptionBackfillService);
+  });
+
+  it('should encrypt plaintext-only messages for the recipient', async () => {
+    messageRepo.count.mockResolvedValue(1);
+    messageRepo.find.mockResolvedValueOnce([makeMessage('a')]).mockResolvedValueOnce([]);
+    encryptionService.encryptMessage.mockResolvedValue({
+      encryptedData: 'cipher',
+      iv: 'iv',
+      authTag: 'tag',
+      algorithm: 'AES-256-GCM',
+      keyId: 'key',
+    });
+
+    const result = await service.run();
+
+    expect(encryptionService.encryptMessage).toHaveBeenCalledWith('plain-a', 'sender', 'recipient');
+    expect(messageRepo.update).toHaveBeenCalledWith(
+      { id: 'a' },
+      expect.objectContaining({ encryptedContent: 'cipher', isEncrypted: true, content: null })
+    );
+    expect(result).toEqual(expect.objectContaining({ processed: 1, encrypted: 1, failed: 0 }));
+  });
+
+  it('should only clear the plaintext when the ciphertext matches', async () => {
+    messageRepo.count.mockResolvedValue(1);
+    messageRepo.find
+      .mockResolvedValueOnce([
+        makeMessage('a', { isEncrypted: true, encryptedContent: 'cipher', iv: 'iv', authTag: 'tag', keyId: 'key' }),
+      ])
+      .mockResolvedValueOnce([]);
+    encryptionService.decryptMessages.mockResolvedValue(['plain-a']);
+
+    const result = await service.run();
+
+    expect(encryptionService.decryptMessages).toHaveBeenCalledWith([expect.anything()], 'recipient');
+    expect(encryptionService.encryptMessage).not.toHaveBeenCalled();
+    expect(messageRepo.update).toHaveBeenCalledWith({ id: 'a' }, { content: null });
+    expect(result.purged).toBe(1);
+  });
+
+  it('should report progress per batch and keep going past failures', async () => {
+    messageRepo.count.mockResolvedValue(3);
+    messageRepo.find
+      .mockResolvedValueOnce([makeMessage('a'), makeMessage('b', { match: null })])
+      .mockResolvedValueOnce([makeMessage('c')])
+      .mockResolvedValueOnce([]);
+    encryptionService.encryptMessage.mockResolvedValue({ encryptedData: 'cipher' });
+    const onProgress = jest.fn();
+
+    const result = await service.run({ batchSize: 2, onProgress });
+
+    expect(onProgress).toHaveBeenCalledTimes(2);
+    expect(onProgress).toHaveBeenNthCalledWith(1, expect.objectContaining({ processed: 2, failed: 1, lastId: 'b' }));
+    expect(result).toEqual(expect.objectContaining({ total: 3, processed: 3, encrypted: 2, failed: 1, lastId: 'c' }));
+  });
+
+  it('should resume after a given message', async () => {
+    messageRepo.count.mockResolvedValue(0);
+    messageRepo.find.mockResolvedValue([]);
+
+    const result = await service.run({ after: 'b' });
+
+    expect(messageRepo.find).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ id: expect.anything() }),
+    }));
+    expect(result.lastId).toBe('b');
+  });
+});
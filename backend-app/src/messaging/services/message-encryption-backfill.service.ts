@@ -0,0 +1,144 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, MoreThan, Not, Repository } from 'typeorm';
+import { MessageEntity } from '../message.entity/message.entity';
+import { EncryptionService, EncryptedData } from '../../common/services/encryption.service';
+
+/**
+ * Options for a backfill run
+ */
+export interface BackfillOptions {
+  batchSize?: number;
+  // Resume after this message ID, as reported by an earlier run
+  after?: string;
+  onProgress?: (progress: BackfillProgress) => void;
+}
+
+/**
+ * Progress of a backfill run, reported after every batch
+ */
+export interface BackfillProgress {
+  total: number;
+  processed: number;
+  encrypted: number;
+  purged: number;
+  failed: number;
+  lastId: string | null;
+}
+
+const DEFAULT_BATCH_SIZE = 200;
+
+/**
+ * Service that removes legacy plaintext from stored messages. Rows that
+ * only have plaintext are encrypted for their recipient; rows that already
+ * have matching ciphertext just lose the plaintext copy.
+ */
+@Injectable()
+export class MessageEncryptionBackfillService {
+  private readonly logger = new Logger(MessageEncryptionBackfillService.name);
+
+  constructor(
+    @InjectRepository(MessageEntity)
+    private readonly messageRepo: Repository<MessageEntity>,
+    private readonly encryptionService: EncryptionService,
+  ) {}
+
+  /**
+   * Process every message that still has plaintext, in ID order. Each row
+   * is committed on its own, so an interrupted run can be started again
+   * and will only pick up the rows that are left.
+   */
+  async run(options: BackfillOptions = {}): Promise<BackfillProgress> {
+    const batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+    const pending = () => ({ content: Not(IsNull()) });
+
+    const progress: BackfillProgress = {
+      total: await this.messageRepo.count({
+        where: options.after ? { ...pending(), id: MoreThan(options.after) } : pending(),
+      }),
+      processed: 0,
+      encrypted: 0,
+      purged: 0,
+      failed: 0,
+      lastId: options.after || null,
+    };
+
+    for (;;) {
+      const batch = await this.messageRepo.find({
+        where: progress.lastId ? { ...pending(), id: MoreThan(progress.lastId) } : pending(),
+        relations: ['match'],
+        order: { id: 'ASC' },
+        take: batchSize,
+      });
+      if (!batch.length) break;
+
+      for (const message of batch) {
+        try {
+          const result = await this.backfillMessage(message);
+          progress[result]++;
+        } catch (error) {
+          // Failed rows keep their plaintext and are retried by the next run
+          progress.failed++;
+          this.logger.error(`Failed to backfill message ${message.id}: ${error.message}`, error.stack);
+        }
+        progress.processed++;
+      }
+
+      progress.lastId = batch[batch.length - 1].id;
+      options.onProgress?.({ ...progress });
+    }
+
+    return progress;
+  }
+
+  private async backfillMessage(message: MessageEntity): Promise<'encrypted' | 'purged'> {
+    if (!message.match) {
+      throw new Error('Message has no match');
+    }
+    const recipientId = message.match.user1Id === message.senderId
+      ? message.match.user2Id
+      : message.match.user1Id;
+    const content = message.content as string;
+
+    // Keep the existing ciphertext only if it holds the same content
+    if (await this.hasMatchingCiphertext(message, recipientId, content)) {
+      await this.messageRepo.update({ id: message.id }, { content: null });
+      return 'purged';
+    }
+
+    const encryptedData = await this.encryptionService.encryptMessage(content, message.senderId, recipientId);
+    await this.messageRepo.update(
+      { id: message.id },
+      {
+        encryptedContent: encryptedData.encryptedData,
+        iv: encryptedData.iv,
+        authTag: encryptedData.authTag,
+        algorithm: encryptedData.algorithm,
+        keyId: encryptedData.keyId,
+        isEncrypted: true,
+        content: null,
+      }
+    );
+    return 'encrypted';
+  }
+
+  private async hasMatchingCiphertext(
+    message: MessageEntity,
+    recipientId: string,
+    content: string,
+  ): Promise<boolean> {
+    if (!message.isEncrypted || !message.encryptedContent || !message.iv || !message.authTag || !message.keyId) {
+      return false;
+    }
+
+    const encrypted: EncryptedData = {
+      encryptedData: message.encryptedContent,
+      iv: message.iv,
+      authTag: message.authTag,
+      algorithm: message.algorithm || 'AES-256-GCM',
+      keyId: message.keyId,
+    };
+    const [decrypted] = await this.encryptionService.decryptMessages([encrypted], recipientId);
+    return decrypted === content;
+  }
+}
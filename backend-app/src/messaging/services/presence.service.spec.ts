@@ -0,0 +1,81 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { PresenceService } from './presence.service';
+import { RedisService } from '../../cache/redis.service';
+
+describe('PresenceService', () => {
+  let service: PresenceService;
+  let store: Map<string, any>;
+
+  const redisService = {
+    get: jest.fn(async (key: string) => store.get(key) ?? null),
+    set: jest.fn(async (key: string, value: any) => {
+      store.set(key, value);
+    }),
+    delete: jest.fn(async (key: string) => {
+      store.delete(key);
+    }),
+    increment: jest.fn(async (key: string) => {
+      store.set(key, (store.get(key) || 0) + 1);
+      return store.get(key);
+    }),
+    decrement: jest.fn(async (key: string) => {
+      store.set(key, (store.get(key) || 0) - 1);
+      return store.get(key);
+    }),
+    expire: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    store = new Map();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PresenceService,
+        { provide: RedisService, useValue: redisService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((_key: string, defaultValue?: any) => defaultValue) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PresenceService>(PresenceService);
+  });
+
+  it('should report users without a connection as offline', async () => {
+    await expect(service.getPresence('u1')).resolves.toEqual({
+      userId: 'u1',
+      status: 'offline',
+      lastSeen: null,
+    });
+  });
+
+  it('should mark connected users online with an expiring status', async () => {
+    const presence = await service.connect('u1');
+
+    expect(presence.status).toBe('online');
+    expect(redisService.set).toHaveBeenCalledWith('presence:status:u1', 'online', 120);
+    expect((await service.getPresence('u1')).status).toBe('online');
+  });
+
+  it('should keep users online until their last connection closes', async () => {
+    await service.connect('u1');
+    await service.connect('u1');
+
+    expect((await service.disconnect('u1')).status).toBe('online');
+
+    const presence = await service.disconnect('u1');
+    expect(presence.status).toBe('offline');
+    expect(presence.lastSeen).toBeInstanceOf(Date);
+    expect((await service.getPresence('u1')).status).toBe('offline');
+  });
+
+  it('should track away users', async () => {
+    await service.connect('u1');
+    await service.setStatus('u1', 'away');
+
+    expect((await service.getPresence('u1')).status).toBe('away');
+  });
+});
@@ -0,0 +1,94 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RedisService } from '../../cache/redis.service';
+
+export type PresenceStatus = 'online' | 'away' | 'offline';
+
+export interface Presence {
+  userId: string;
+  status: PresenceStatus;
+  lastSeen: Date | null;
+}
+
+/**
+ * Service for tracking whether users are connected to chat.
+ * Online and away states lapse unless clients keep sending heartbeats,
+ * so a crashed instance cannot leave users online forever.
+ */
+@Injectable()
+export class PresenceService {
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Record a new socket connection for the user
+   */
+  async connect(userId: string): Promise<Presence> {
+    await this.redisService.increment(this.getConnectionsKey(userId), this.getTtl());
+    return this.setStatus(userId, 'online');
+  }
+
+  /**
+   * Record a closed socket connection. The user goes offline once their
+   * last connection closes.
+   */
+  async disconnect(userId: string): Promise<Presence> {
+    const connections = await this.redisService.decrement(this.getConnectionsKey(userId));
+    if (connections > 0) {
+      return this.getPresence(userId);
+    }
+
+    await this.redisService.delete(this.getConnectionsKey(userId));
+    await this.redisService.delete(this.getStatusKey(userId));
+    const lastSeen = await this.touchLastSeen(userId);
+    return { userId, status: 'offline', lastSeen };
+  }
+
+  /**
+   * Set the user's status, also serving as a heartbeat
+   */
+  async setStatus(userId: string, status: Exclude<PresenceStatus, 'offline'>): Promise<Presence> {
+    const ttl = this.getTtl();
+    await this.redisService.set(this.getStatusKey(userId), status, ttl);
+    await this.redisService.expire(this.getConnectionsKey(userId), ttl);
+    const lastSeen = await this.touchLastSeen(userId);
+    return { userId, status, lastSeen };
+  }
+
+  /**
+   * Get the current presence of a user
+   */
+  async getPresence(userId: string): Promise<Presence> {
+    const status = await this.redisService.get<PresenceStatus>(this.getStatusKey(userId));
+    const lastSeen = await this.redisService.get<string>(this.getLastSeenKey(userId));
+    return {
+      userId,
+      status: status || 'offline',
+      lastSeen: lastSeen ? new Date(lastSeen) : null,
+    };
+  }
+
+  private async touchLastSeen(userId: string): Promise<Date> {
+    const now = new Date();
+    await this.redisService.set(this.getLastSeenKey(userId), now.toISOString());
+    return now;
+  }
+
+  private getTtl(): number {
+    return this.configService.get<number>('messaging.presenceTtlSeconds', 120);
+  }
+
+  private getStatusKey(userId: string): string {
+    return `presence:status:${userId}`;
+  }
+
+  private getConnectionsKey(userId: string): string {
+    return `presence:connections:${userId}`;
+  }
+
+  private getLastSeenKey(userId: string): string {
+    return `presence:lastSeen:${userId}`;
+  }
+}
@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner, TableColumn, TableIndex } from 'typeorm';
+
+/**
+ * Migration to add an active flag to users
+ * Candidate generation only recommends active accounts
+ */
+export class AddIsActiveToUsers1713496400000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'users',
+      new TableColumn({
+        name: 'isActive',
+        type: 'boolean',
+        default: true,
+      })
+    );
+
+    // Index to support candidate pre-filtering and keyset pagination
+    await queryRunner.createIndex(
+      'users',
+      new TableIndex({
+        name: 'IDX_USERS_ACTIVE_CREATED',
+        columnNames: ['isActive', 'createdAt', 'id'],
+      })
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('users', 'IDX_USERS_ACTIVE_CREATED');
+    await queryRunner.dropColumn('users', 'isActive');
+  }
+}
@@ -0,0 +1,78 @@
+import { MigrationInterface, QueryRunner, Table, TableForeignKey, TableIndex } from 'typeorm';
+
+/**
+ * Migration to add the superlike swipe direction and profile boosts
+ */
+export class AddSuperLikesAndProfileBoosts1713496500000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "swipes_direction_enum" ADD VALUE IF NOT EXISTS 'superlike'`
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'profile_boosts',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'userId',
+            type: 'uuid',
+          },
+          {
+            name: 'startsAt',
+            type: 'timestamp',
+          },
+          {
+            name: 'expiresAt',
+            type: 'timestamp',
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'now()',
+          },
+        ],
+      }),
+      true
+    );
+
+    await queryRunner.createForeignKey(
+      'profile_boosts',
+      new TableForeignKey({
+        columnNames: ['userId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'users',
+        onDelete: 'CASCADE',
+      })
+    );
+
+    // Candidate ranking looks up active boosts by user
+    await queryRunner.createIndex(
+      'profile_boosts',
+      new TableIndex({
+        name: 'IDX_PROFILE_BOOSTS_USER_EXPIRES',
+        columnNames: ['userId', 'expiresAt'],
+      })
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('profile_boosts', true, true, true);
+
+    // Postgres cannot drop a single enum value, so convert superlikes back
+    // to likes and recreate the type without it
+    await queryRunner.query(`UPDATE "swipes" SET "direction" = 'like' WHERE "direction" = 'superlike'`);
+    await queryRunner.query(`ALTER TYPE "swipes_direction_enum" RENAME TO "swipes_direction_enum_old"`);
+    await queryRunner.query(`CREATE TYPE "swipes_direction_enum" AS ENUM('like', 'dislike')`);
+    await queryRunner.query(
+      `ALTER TABLE "swipes" ALTER COLUMN "direction" TYPE "swipes_direction_enum" USING "direction"::text::"swipes_direction_enum"`
+    );
+    await queryRunner.query(`DROP TYPE "swipes_direction_enum_old"`);
+  }
+}
@@ -0,0 +1,180 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn, TableForeignKey, TableIndex } from 'typeorm';
+
+/**
+ * Migration to support unmatching, blocking and reporting users
+ */
+export class AddBlocksAndReports1713496600000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('matches', [
+      new TableColumn({
+        name: 'unmatchedAt',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'unmatchedBy',
+        type: 'uuid',
+        isNullable: true,
+      }),
+    ]);
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'user_blocks',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'blockerId',
+            type: 'uuid',
+          },
+          {
+            name: 'blockedId',
+            type: 'uuid',
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'now()',
+          },
+        ],
+      }),
+      true
+    );
+
+    await queryRunner.createIndex(
+      'user_blocks',
+      new TableIndex({
+        name: 'IDX_USER_BLOCKS_PAIR',
+        columnNames: ['blockerId', 'blockedId'],
+        isUnique: true,
+      })
+    );
+
+    await queryRunner.createIndex(
+      'user_blocks',
+      new TableIndex({
+        name: 'IDX_USER_BLOCKS_BLOCKED',
+        columnNames: ['blockedId'],
+      })
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'reports',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'reporterId',
+            type: 'uuid',
+          },
+          {
+            name: 'reportedUserId',
+            type: 'uuid',
+          },
+          {
+            name: 'category',
+            type: 'enum',
+            enum: [
+              'harassment',
+              'spam',
+              'inappropriate_content',
+              'fake_profile',
+              'underage',
+              'scam',
+              'other',
+            ],
+          },
+          {
+            name: 'description',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'messageIds',
+            type: 'jsonb',
+            default: "'[]'",
+          },
+          {
+            name: 'status',
+            type: 'enum',
+            enum: ['open', 'resolved', 'rejected'],
+            default: "'open'",
+          },
+          {
+            name: 'resolutionComment',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'resolvedAt',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'now()',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'now()',
+          },
+        ],
+      }),
+      true
+    );
+
+    await queryRunner.createIndex(
+      'reports',
+      new TableIndex({
+        name: 'IDX_REPORTS_STATUS_CREATED',
+        columnNames: ['status', 'createdAt'],
+      })
+    );
+
+    await queryRunner.createIndex(
+      'reports',
+      new TableIndex({
+        name: 'IDX_REPORTS_REPORTED_USER',
+        columnNames: ['reportedUserId'],
+      })
+    );
+
+    for (const [table, columns] of [
+      ['user_blocks', ['blockerId', 'blockedId']],
+      ['reports', ['reporterId', 'reportedUserId']],
+    ] as const) {
+      for (const column of columns) {
+        await queryRunner.createForeignKey(
+          table,
+          new TableForeignKey({
+            columnNames: [column],
+            referencedColumnNames: ['id'],
+            referencedTableName: 'users',
+            onDelete: 'CASCADE',
+          })
+        );
+      }
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('reports', true, true, true);
+    await queryRunner.dropTable('user_blocks', true, true, true);
+    await queryRunner.dropColumn('matches', 'unmatchedBy');
+    await queryRunner.dropColumn('matches', 'unmatchedAt');
+  }
+}
@@ -0,0 +1,85 @@
+import { MigrationInterface, QueryRunner, TableColumn, TableForeignKey, TableIndex } from 'typeorm';
+
+/**
+ * Migration to add moderator assignment, resolution actions and user
+ * suspensions to the report queue
+ */
+export class AddModerationWorkflow1713496700000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TYPE "reports_status_enum" ADD VALUE IF NOT EXISTS 'in_review'`);
+    await queryRunner.query(`ALTER TYPE audit_resource ADD VALUE IF NOT EXISTS 'report'`);
+
+    await queryRunner.addColumns('reports', [
+      new TableColumn({
+        name: 'assignedModeratorId',
+        type: 'uuid',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'assignedAt',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'actionTaken',
+        type: 'enum',
+        enum: ['none', 'warn', 'suspend', 'delete_content'],
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'resolvedBy',
+        type: 'uuid',
+        isNullable: true,
+      }),
+    ]);
+
+    await queryRunner.createForeignKey(
+      'reports',
+      new TableForeignKey({
+        columnNames: ['assignedModeratorId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'users',
+        onDelete: 'SET NULL',
+      })
+    );
+
+    await queryRunner.createIndex(
+      'reports',
+      new TableIndex({
+        name: 'IDX_REPORTS_ASSIGNED_MODERATOR',
+        columnNames: ['assignedModeratorId'],
+      })
+    );
+
+    await queryRunner.addColumn(
+      'users',
+      new TableColumn({
+        name: 'suspendedUntil',
+        type: 'timestamp',
+        isNullable: true,
+      })
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('users', 'suspendedUntil');
+
+    const reports = await queryRunner.getTable('reports');
+    const moderatorForeignKey = reports?.foreignKeys.find(fk =>
+      fk.columnNames.includes('assignedModeratorId')
+    );
+    if (moderatorForeignKey) {
+      await queryRunner.dropForeignKey('reports', moderatorForeignKey);
+    }
+    await queryRunner.dropIndex('reports', 'IDX_REPORTS_ASSIGNED_MODERATOR');
+    await queryRunner.dropColumns('reports', [
+      'assignedModeratorId',
+      'assignedAt',
+      'actionTaken',
+      'resolvedBy',
+    ]);
+
+    // Enum values cannot be dropped; put in-review reports back in the queue
+    await queryRunner.query(`UPDATE "reports" SET "status" = 'open' WHERE "status" = 'in_review'`);
+  }
+}
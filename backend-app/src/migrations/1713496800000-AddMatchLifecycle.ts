@@ -0,0 +1,74 @@
+import { MigrationInterface, QueryRunner, TableColumn, TableIndex } from 'typeorm';
+
+/**
+ * Migration to add the match lifecycle: matches wait for a first message
+ * and expire if nobody writes in time
+ */
+export class AddMatchLifecycle1713496800000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('matches', [
+      new TableColumn({
+        name: 'status',
+        type: 'enum',
+        enum: ['pending_first_message', 'active', 'expired', 'unmatched'],
+        default: `'pending_first_message'`,
+      }),
+      new TableColumn({
+        name: 'expiresAt',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'expiryWarningSentAt',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'extendedAt',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'extendedBy',
+        type: 'uuid',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'firstMessageAt',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+    ]);
+
+    // Existing matches predate the first-message window and never expire
+    await queryRunner.query(`UPDATE "matches" SET "status" = 'active' WHERE "active" = true`);
+    await queryRunner.query(`UPDATE "matches" SET "status" = 'unmatched' WHERE "active" = false`);
+    await queryRunner.query(`
+      UPDATE "matches" m SET "firstMessageAt" = first."createdAt"
+      FROM (
+        SELECT "matchId", MIN("createdAt") AS "createdAt" FROM "messages" GROUP BY "matchId"
+      ) first
+      WHERE first."matchId" = m."id"
+    `);
+
+    await queryRunner.createIndex(
+      'matches',
+      new TableIndex({
+        name: 'IDX_MATCHES_STATUS_EXPIRES',
+        columnNames: ['status', 'expiresAt'],
+      })
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('matches', 'IDX_MATCHES_STATUS_EXPIRES');
+    await queryRunner.dropColumns('matches', [
+      'status',
+      'expiresAt',
+      'expiryWarningSentAt',
+      'extendedAt',
+      'extendedBy',
+      'firstMessageAt',
+    ]);
+  }
+}
@@ -0,0 +1,50 @@
+import { MigrationInterface, QueryRunner, TableColumn, TableIndex } from 'typeorm';
+
+/**
+ * Migration to track the latest activity of each match, so conversation
+ * lists can be ordered without scanning messages, and to add profile photos
+ */
+export class AddConversationActivity1713496900000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'matches',
+      new TableColumn({
+        name: 'lastActivityAt',
+        type: 'timestamp',
+        default: 'CURRENT_TIMESTAMP',
+      })
+    );
+
+    await queryRunner.query(`UPDATE "matches" SET "lastActivityAt" = "createdAt"`);
+    await queryRunner.query(`
+      UPDATE "matches" m SET "lastActivityAt" = latest."createdAt"
+      FROM (
+        SELECT "matchId", MAX("createdAt") AS "createdAt" FROM "messages" GROUP BY "matchId"
+      ) latest
+      WHERE latest."matchId" = m."id"
+    `);
+
+    await queryRunner.createIndex(
+      'matches',
+      new TableIndex({
+        name: 'IDX_MATCHES_LAST_ACTIVITY',
+        columnNames: ['lastActivityAt', 'id'],
+      })
+    );
+
+    await queryRunner.addColumn(
+      'users',
+      new TableColumn({
+        name: 'profilePhotoId',
+        type: 'varchar',
+        isNullable: true,
+      })
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('users', 'profilePhotoId');
+    await queryRunner.dropIndex('matches', 'IDX_MATCHES_LAST_ACTIVITY');
+    await queryRunner.dropColumn('matches', 'lastActivityAt');
+  }
+}
@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+/**
+ * Migration to add delivery and read receipt timestamps to messages
+ */
+export class AddMessageReceipts1713497000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('messages', [
+      new TableColumn({
+        name: 'deliveredAt',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'readAt',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumns('messages', ['deliveredAt', 'readAt']);
+  }
+}
@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner, TableColumn, TableIndex } from 'typeorm';
+
+/**
+ * Migration to let messages reference an uploaded media attachment
+ */
+export class AddMessageAttachments1713497100000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('messages', [
+      new TableColumn({
+        name: 'mediaId',
+        type: 'varchar',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'mediaType',
+        type: 'varchar',
+        isNullable: true,
+      }),
+    ]);
+
+    await queryRunner.createIndex(
+      'messages',
+      new TableIndex({
+        name: 'IDX_MESSAGES_MEDIA',
+        columnNames: ['mediaId'],
+      })
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('messages', 'IDX_MESSAGES_MEDIA');
+    await queryRunner.dropColumns('messages', ['mediaId', 'mediaType']);
+  }
+}
@@ -0,0 +1,30 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+/**
+ * Migration to support editing, unsending and per-user deletion of messages
+ */
+export class AddMessageEditing1713497200000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('messages', [
+      new TableColumn({
+        name: 'editedAt',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'unsentAt',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'hiddenFor',
+        type: 'jsonb',
+        default: "'[]'",
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumns('messages', ['editedAt', 'unsentAt', 'hiddenFor']);
+  }
+}
@@ -0,0 +1,78 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn, TableForeignKey } from 'typeorm';
+
+/**
+ * Migration to add the key directory for end-to-end encrypted messages and
+ * the per-recipient ciphertext stored with them
+ */
+export class AddEndToEndKeys1713497300000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'key_bundles',
+        columns: [
+          {
+            name: 'userId',
+            type: 'uuid',
+            isPrimary: true,
+          },
+          {
+            name: 'identityKey',
+            type: 'text',
+          },
+          {
+            name: 'fingerprint',
+            type: 'varchar',
+          },
+          {
+            name: 'prekeyId',
+            type: 'int',
+          },
+          {
+            name: 'prekey',
+            type: 'text',
+          },
+          {
+            name: 'identityChangedAt',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'now()',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'now()',
+          },
+        ],
+      }),
+      true
+    );
+
+    await queryRunner.createForeignKey(
+      'key_bundles',
+      new TableForeignKey({
+        columnNames: ['userId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'users',
+        onDelete: 'CASCADE',
+      })
+    );
+
+    await queryRunner.addColumn(
+      'messages',
+      new TableColumn({
+        name: 'e2eEnvelopes',
+        type: 'jsonb',
+        isNullable: true,
+      })
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('messages', 'e2eEnvelopes');
+    await queryRunner.dropTable('key_bundles');
+  }
+}
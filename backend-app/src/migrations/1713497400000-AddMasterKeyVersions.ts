@@ -0,0 +1,120 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn, TableIndex } from 'typeorm';
+
+/**
+ * Migration to record which master key wraps each encryption key and to
+ * track the jobs that re-wrap keys after a master key rotation
+ */
+export class AddMasterKeyVersions1713497400000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Existing keys were all wrapped with ENCRYPTION_MASTER_KEY, which is version 1
+    await queryRunner.addColumn(
+      'encryption_keys',
+      new TableColumn({
+        name: 'masterKeyVersion',
+        type: 'int',
+        default: 1,
+      })
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'key_rotation_jobs',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'uuid',
+          },
+          {
+            name: 'status',
+            type: 'enum',
+            enum: ['running', 'completed', 'failed'],
+            default: "'running'",
+          },
+          {
+            name: 'phase',
+            type: 'enum',
+            enum: ['keys', 'messages'],
+            default: "'keys'",
+          },
+          {
+            name: 'targetVersion',
+            type: 'int',
+          },
+          {
+            name: 'reencryptMessages',
+            type: 'boolean',
+            default: false,
+          },
+          {
+            name: 'batchSize',
+            type: 'int',
+            default: 100,
+          },
+          {
+            name: 'checkpoint',
+            type: 'varchar',
+            isNullable: true,
+          },
+          {
+            name: 'keysRewrapped',
+            type: 'int',
+            default: 0,
+          },
+          {
+            name: 'messagesReencrypted',
+            type: 'int',
+            default: 0,
+          },
+          {
+            name: 'failed',
+            type: 'int',
+            default: 0,
+          },
+          {
+            name: 'error',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'startedBy',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'now()',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'now()',
+          },
+          {
+            name: 'completedAt',
+            type: 'timestamp',
+            isNullable: true,
+          },
+        ],
+      }),
+      true
+    );
+
+    await queryRunner.createIndex(
+      'key_rotation_jobs',
+      new TableIndex({
+        name: 'IDX_KEY_ROTATION_JOBS_STATUS',
+        columnNames: ['status'],
+      })
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('key_rotation_jobs', 'IDX_KEY_ROTATION_JOBS_STATUS');
+    await queryRunner.dropTable('key_rotation_jobs');
+    await queryRunner.dropColumn('encryption_keys', 'masterKeyVersion');
+  }
+}
@@ -0,0 +1,89 @@
+import { MigrationInterface, QueryRunner, Table, TableForeignKey, TableIndex } from 'typeorm';
+
+/**
+ * Migration to add device sessions, which hold the hashed refresh token of
+ * each signed-in device
+ */
+export class AddSessions1713497500000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'sessions',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'uuid',
+          },
+          {
+            name: 'userId',
+            type: 'uuid',
+          },
+          {
+            name: 'refreshTokenHash',
+            type: 'varchar',
+          },
+          {
+            name: 'userAgent',
+            type: 'varchar',
+            isNullable: true,
+          },
+          {
+            name: 'ipAddress',
+            type: 'varchar',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'now()',
+          },
+          {
+            name: 'lastUsedAt',
+            type: 'timestamp',
+          },
+          {
+            name: 'expiresAt',
+            type: 'timestamp',
+          },
+          {
+            name: 'revokedAt',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'revokedReason',
+            type: 'enum',
+            enum: ['logout', 'revoked', 'reuse_detected', 'password_reset'],
+            isNullable: true,
+          },
+        ],
+      }),
+      true
+    );
+
+    await queryRunner.createIndex(
+      'sessions',
+      new TableIndex({
+        name: 'IDX_SESSIONS_USER',
+        columnNames: ['userId'],
+      })
+    );
+
+    await queryRunner.createForeignKey(
+      'sessions',
+      new TableForeignKey({
+        columnNames: ['userId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'users',
+        onDelete: 'CASCADE',
+      })
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('sessions');
+  }
+}
@@ -0,0 +1,30 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+/**
+ * Migration to allow accounts without a password, created through OAuth
+ */
+export class MakePasswordOptional1713497600000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.changeColumn(
+      'users',
+      'passwordHash',
+      new TableColumn({
+        name: 'passwordHash',
+        type: 'varchar',
+        isNullable: true,
+      })
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Fails while OAuth-only accounts exist
+    await queryRunner.changeColumn(
+      'users',
+      'passwordHash',
+      new TableColumn({
+        name: 'passwordHash',
+        type: 'varchar',
+      })
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn, TableForeignKey } from 'typeorm';
+
+/**
+ * Migration to add TOTP two-factor authentication and record whether a
+ * session passed it
+ */
+export class AddTwoFactorAuth1713497700000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'user_mfa',
+        columns: [
+          {
+            name: 'userId',
+            type: 'uuid',
+            isPrimary: true,
+          },
+          {
+            name: 'encryptedSecret',
+            type: 'text',
+          },
+          {
+            name: 'iv',
+            type: 'varchar',
+          },
+          {
+            name: 'authTag',
+            type: 'varchar',
+          },
+          {
+            name: 'keyId',
+            type: 'varchar',
+          },
+          {
+            name: 'enabled',
+            type: 'boolean',
+            default: false,
+          },
+          {
+            name: 'enabledAt',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'lastUsedStep',
+            type: 'int',
+            isNullable: true,
+          },
+          {
+            name: 'backupCodeHashes',
+            type: 'jsonb',
+            default: "'[]'",
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'now()',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'now()',
+          },
+        ],
+      }),
+      true
+    );
+
+    await queryRunner.createForeignKey(
+      'user_mfa',
+      new TableForeignKey({
+        columnNames: ['userId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'users',
+        onDelete: 'CASCADE',
+      })
+    );
+
+    await queryRunner.addColumn(
+      'sessions',
+      new TableColumn({
+        name: 'mfaVerified',
+        type: 'boolean',
+        default: false,
+      })
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('sessions', 'mfaVerified');
+    await queryRunner.dropTable('user_mfa');
+  }
+}
@@ -0,0 +1,24 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+/**
+ * Migration to record when a user confirmed their email address
+ */
+export class AddEmailVerification1713497900000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'users',
+      new TableColumn({
+        name: 'emailVerifiedAt',
+        type: 'timestamp',
+        isNullable: true,
+      })
+    );
+
+    // Accounts created before verification existed keep their features
+    await queryRunner.query(`UPDATE "users" SET "emailVerifiedAt" = "createdAt"`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('users', 'emailVerifiedAt');
+  }
+}
@@ -0,0 +1,110 @@
+import { MigrationInterface, QueryRunner, Table, TableForeignKey, TableIndex } from 'typeorm';
+
+/**
+ * Migration to create the review queue for selfie identity verification
+ */
+export class AddVerificationRequests1713498000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TYPE audit_resource ADD VALUE IF NOT EXISTS 'verification'`);
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'verification_requests',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'userId',
+            type: 'uuid',
+          },
+          {
+            name: 'pose',
+            type: 'enum',
+            enum: ['thumbs_up', 'peace_sign', 'hand_on_cheek', 'point_at_camera', 'three_fingers', 'salute'],
+          },
+          {
+            name: 'selfieMediaId',
+            type: 'varchar',
+          },
+          {
+            name: 'status',
+            type: 'enum',
+            enum: ['pending', 'approved', 'rejected'],
+            default: "'pending'",
+          },
+          {
+            name: 'reason',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'reviewedBy',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'reviewedAt',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'now()',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'now()',
+          },
+        ],
+      }),
+      true
+    );
+
+    await queryRunner.createIndex(
+      'verification_requests',
+      new TableIndex({
+        name: 'IDX_VERIFICATION_REQUESTS_STATUS_CREATED',
+        columnNames: ['status', 'createdAt'],
+      })
+    );
+
+    await queryRunner.createIndex(
+      'verification_requests',
+      new TableIndex({
+        name: 'IDX_VERIFICATION_REQUESTS_USER',
+        columnNames: ['userId'],
+      })
+    );
+
+    await queryRunner.createForeignKey(
+      'verification_requests',
+      new TableForeignKey({
+        columnNames: ['userId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'users',
+        onDelete: 'CASCADE',
+      })
+    );
+
+    await queryRunner.createForeignKey(
+      'verification_requests',
+      new TableForeignKey({
+        columnNames: ['reviewedBy'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'users',
+        onDelete: 'SET NULL',
+      })
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('verification_requests', true, true, true);
+  }
+}
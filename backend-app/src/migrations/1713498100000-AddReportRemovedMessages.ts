@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+/**
+ * Migration to keep a copy of the messages a moderator deletes on the report
+ */
+export class AddReportRemovedMessages1713498100000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'reports',
+      new TableColumn({
+        name: 'removedMessages',
+        type: 'jsonb',
+        default: "'[]'",
+      })
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('reports', 'removedMessages');
+  }
+}
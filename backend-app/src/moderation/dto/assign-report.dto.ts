@@ -0,0 +1,8 @@
+import { IsOptional, IsUUID } from 'class-validator';
+
+export class AssignReportDto {
+  // Defaults to the moderator making the request
+  @IsOptional()
+  @IsUUID()
+  moderatorId?: string;
+}
@@ -0,0 +1,21 @@
+import { ArrayMaxSize, IsArray, IsEnum, IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+import { ReportCategory } from '../entities/report.entity';
+
+export class CreateReportDto {
+  @IsUUID()
+  reportedUserId: string;
+
+  @IsEnum(ReportCategory)
+  category: ReportCategory;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  description?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsUUID('all', { each: true })
+  messageIds?: string[];
+}
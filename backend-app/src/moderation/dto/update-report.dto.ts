@@ -0,0 +1,22 @@
+import { IsEnum, IsIn, IsInt, IsOptional, IsString, Max, MaxLength, Min, ValidateIf } from 'class-validator';
+import { ModerationAction, ReportStatus } from '../entities/report.entity';
+
+export class UpdateReportDto {
+  @IsIn([ReportStatus.RESOLVED, ReportStatus.REJECTED])
+  status: ReportStatus.RESOLVED | ReportStatus.REJECTED;
+
+  @IsOptional()
+  @IsEnum(ModerationAction)
+  action?: ModerationAction;
+
+  @ValidateIf(dto => dto.action === ModerationAction.SUSPEND)
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  suspensionDays?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  comment?: string;
+}
@@ -0,0 +1,128 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { UserEntity } from '../../user/user.entity/user.entity';
+import { MessageEntity } from '../../messaging/message.entity/message.entity';
+
+/**
+ * Enum for the reason a user was reported
+ */
+export enum ReportCategory {
+  HARASSMENT = 'harassment',
+  SPAM = 'spam',
+  INAPPROPRIATE_CONTENT = 'inappropriate_content',
+  FAKE_PROFILE = 'fake_profile',
+  UNDERAGE = 'underage',
+  SCAM = 'scam',
+  OTHER = 'other',
+}
+
+/**
+ * Enum for the moderation status of a report
+ */
+export enum ReportStatus {
+  OPEN = 'open',
+  IN_REVIEW = 'in_review',
+  RESOLVED = 'resolved',
+  REJECTED = 'rejected',
+}
+
+/**
+ * Enum for the action a moderator took when resolving a report
+ */
+export enum ModerationAction {
+  NONE = 'none',
+  WARN = 'warn',
+  SUSPEND = 'suspend',
+  DELETE_CONTENT = 'delete_content',
+}
+
+/**
+ * Copy of a message deleted by a moderator, as it was stored. Encrypted
+ * content stays encrypted.
+ */
+export type RemovedMessage = Pick<
+  MessageEntity,
+  | 'id'
+  | 'senderId'
+  | 'matchId'
+  | 'content'
+  | 'encryptedContent'
+  | 'iv'
+  | 'authTag'
+  | 'algorithm'
+  | 'keyId'
+  | 'e2eEnvelopes'
+  | 'mediaId'
+  | 'mediaType'
+  | 'createdAt'
+>;
+
+/**
+ * Entity for a user report waiting in the moderation queue
+ */
+@Entity('reports')
+@Index('IDX_REPORTS_STATUS_CREATED', ['status', 'createdAt'])
+export class ReportEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  reporterId: string;
+
+  @Index('IDX_REPORTS_REPORTED_USER')
+  @Column({ type: 'uuid' })
+  reportedUserId: string;
+
+  @Column({ type: 'enum', enum: ReportCategory })
+  category: ReportCategory;
+
+  @Column({ type: 'text', nullable: true })
+  description: string | null;
+
+  // Messages attached as evidence
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  messageIds: string[];
+
+  // Evidence deleted by a moderator, kept so the decision can be audited
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  removedMessages: RemovedMessage[];
+
+  @Column({ type: 'enum', enum: ReportStatus, default: ReportStatus.OPEN })
+  status: ReportStatus;
+
+  @Index('IDX_REPORTS_ASSIGNED_MODERATOR')
+  @Column({ type: 'uuid', nullable: true })
+  assignedModeratorId: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  assignedAt: Date | null;
+
+  @Column({ type: 'enum', enum: ModerationAction, nullable: true })
+  actionTaken: ModerationAction | null;
+
+  @Column({ type: 'text', nullable: true })
+  resolutionComment: string | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  resolvedBy: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  resolvedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'reporterId' })
+  reporter: UserEntity;
+
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'reportedUserId' })
+  reportedUser: UserEntity;
+
+  @ManyToOne(() => UserEntity, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'assignedModeratorId' })
+  assignedModerator: UserEntity;
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ModerationService } from './moderation.service';
+import { ReportEntity } from './entities/report.entity';
+import { UserEntity } from '../user/user.entity/user.entity';
+import { MessageEntity } from '../messaging/message.entity/message.entity';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { MediaModule } from '../media/media.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([ReportEntity, UserEntity, MessageEntity]),
+    NotificationsModule,
+    MediaModule,
+  ],
+  providers: [ModerationService],
+  exports: [ModerationService],
+})
+export class ModerationModule {}
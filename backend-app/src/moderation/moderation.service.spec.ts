@@ -0,0 +1,304 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { In } from 'typeorm';
+import { ModerationService } from './moderation.service';
+import { ModerationAction, ReportCategory, ReportEntity, ReportStatus } from './entities/report.entity';
+import { UserEntity } from '../user/user.entity/user.entity';
+import { MessageEntity } from '../messaging/message.entity/message.entity';
+import { AuditLogService, AuditAction, AuditResource } from '../common/services/audit-log.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { MediaService } from '../media/media.service';
+
+describe('ModerationService', () => {
+  let service: ModerationService;
+  let reportRepo: any;
+  let userRepo: any;
+  let messageRepo: any;
+  let auditLogService: any;
+  let notificationsService: any;
+  let mediaService: any;
+
+  const conversation = { user1Id: 'reported', user2Id: 'reporter' };
+  const otherConversation = { user1Id: 'reported', user2Id: 'someone-else' };
+
+  beforeEach(async () => {
+    reportRepo = {
+      create: jest.fn(data => data),
+      save: jest.fn(data => Promise.resolve({ id: 'report-1', status: ReportStatus.OPEN, ...data })),
+      findOne: jest.fn(),
+      findAndCount: jest.fn().mockResolvedValue([[], 0]),
+      count: jest.fn().mockResolvedValue(0),
+    };
+    userRepo = {
+      findOne: jest.fn().mockResolvedValue({ id: 'reported' }),
+      update: jest.fn(),
+    };
+    messageRepo = { find: jest.fn().mockResolvedValue([]), delete: jest.fn() };
+    auditLogService = { log: jest.fn() };
+    notificationsService = { sendNotification: jest.fn() };
+    mediaService = { deleteFiles: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ModerationService,
+        { provide: getRepositoryToken(ReportEntity), useValue: reportRepo },
+        { provide: getRepositoryToken(UserEntity), useValue: userRepo },
+        { provide: getRepositoryToken(MessageEntity), useValue: messageRepo },
+        { provide: AuditLogService, useValue: auditLogService },
+        { provide: NotificationsService, useValue: notificationsService },
+        { provide: MediaService, useValue: mediaService },
+      ],
+    }).compile();
+
+    service = module.get<ModerationService>(ModerationService);
+  });
+
+  describe('createReport', () => {
+    const dto = {
+      reportedUserId: 'reported',
+      category: ReportCategory.HARASSMENT,
+    };
+
+    it('should queue an open report', async () => {
+      const report = await service.createReport('reporter', { ...dto, description: 'Rude messages' });
+
+      expect(report).toMatchObject({
+        reporterId: 'reporter',
+        reportedUserId: 'reported',
+        category: ReportCategory.HARASSMENT,
+        description: 'Rude messages',
+        messageIds: [],
+        status: ReportStatus.OPEN,
+      });
+      expect(auditLogService.log).toHaveBeenCalledWith(
+        'reporter',
+        AuditAction.CREATE,
+        AuditResource.REPORT,
+        'report-1',
+        expect.objectContaining({ reportedUserId: 'reported' }),
+      );
+    });
+
+    it('should reject reporting yourself', async () => {
+      await expect(
+        service.createReport('reporter', { ...dto, reportedUserId: 'reporter' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject an unknown user', async () => {
+      userRepo.findOne.mockResolvedValue(null);
+
+      await expect(service.createReport('reporter', dto)).rejects.toThrow(NotFoundException);
+    });
+
+    it('should accept messages from the conversation as evidence', async () => {
+      messageRepo.find.mockResolvedValue([
+        { id: 'm1', match: conversation },
+        { id: 'm2', match: conversation },
+      ]);
+
+      const report = await service.createReport('reporter', { ...dto, messageIds: ['m1', 'm2', 'm1'] });
+
+      expect(report.messageIds).toEqual(['m1', 'm2']);
+    });
+
+    it('should reject messages from another conversation', async () => {
+      messageRepo.find.mockResolvedValue([{ id: 'm1', match: otherConversation }]);
+
+      await expect(
+        service.createReport('reporter', { ...dto, messageIds: ['m1'] }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject messages that do not exist', async () => {
+      messageRepo.find.mockResolvedValue([{ id: 'm1', match: conversation }]);
+
+      await expect(
+        service.createReport('reporter', { ...dto, messageIds: ['m1', 'missing'] }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('getReports', () => {
+    it('should filter by status and category and paginate', async () => {
+      await service.getReports({
+        page: 3,
+        limit: 10,
+        status: ReportStatus.OPEN,
+        category: ReportCategory.SPAM,
+      });
+
+      expect(reportRepo.findAndCount).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { status: ReportStatus.OPEN, category: ReportCategory.SPAM },
+          skip: 20,
+          take: 10,
+        }),
+      );
+    });
+  });
+
+  describe('assignReport', () => {
+    it('should put the report in review with the moderator', async () => {
+      reportRepo.findOne.mockResolvedValue({ id: 'report-1', status: ReportStatus.OPEN });
+      userRepo.findOne.mockResolvedValue({ id: 'moderator', role: 'admin' });
+
+      const report = await service.assignReport('report-1', 'moderator', 'lead');
+
+      expect(report).toMatchObject({
+        status: ReportStatus.IN_REVIEW,
+        assignedModeratorId: 'moderator',
+      });
+      expect(auditLogService.log).toHaveBeenCalledWith(
+        'lead',
+        AuditAction.UPDATE,
+        AuditResource.REPORT,
+        'report-1',
+        expect.objectContaining({ change: 'assigned', moderatorId: 'moderator' }),
+      );
+    });
+
+    it('should only assign to moderators', async () => {
+      reportRepo.findOne.mockResolvedValue({ id: 'report-1', status: ReportStatus.OPEN });
+      userRepo.findOne.mockResolvedValue({ id: 'member', role: 'user' });
+
+      await expect(service.assignReport('report-1', 'member', 'lead')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('updateReportStatus', () => {
+    const openReport = () => ({
+      id: 'report-1',
+      reportedUserId: 'reported',
+      category: ReportCategory.HARASSMENT,
+      status: ReportStatus.IN_REVIEW,
+      messageIds: ['m1', 'm2'],
+    });
+
+    it('should close a pending report', async () => {
+      reportRepo.findOne.mockResolvedValue(openReport());
+
+      const report = await service.updateReportStatus('report-1', 'moderator', {
+        status: ReportStatus.RESOLVED,
+        comment: 'No violation found after review',
+      });
+
+      expect(report.status).toBe(ReportStatus.RESOLVED);
+      expect(report.actionTaken).toBe(ModerationAction.NONE);
+      expect(report.resolvedBy).toBe('moderator');
+      expect(report.resolvedAt).toBeInstanceOf(Date);
+    });
+
+    it('should not reopen a reviewed report', async () => {
+      reportRepo.findOne.mockResolvedValue({ id: 'report-1', status: ReportStatus.REJECTED });
+
+      await expect(
+        service.updateReportStatus('report-1', 'moderator', { status: ReportStatus.RESOLVED }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should not take action on a rejected report', async () => {
+      reportRepo.findOne.mockResolvedValue(openReport());
+
+      await expect(
+        service.updateReportStatus('report-1', 'moderator', {
+          status: ReportStatus.REJECTED,
+          action: ModerationAction.WARN,
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should warn the reported user', async () => {
+      reportRepo.findOne.mockResolvedValue(openReport());
+
+      await service.updateReportStatus('report-1', 'moderator', {
+        status: ReportStatus.RESOLVED,
+        action: ModerationAction.WARN,
+      });
+
+      expect(notificationsService.sendNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'reported', type: 'moderation_warning' }),
+      );
+    });
+
+    it('should suspend the reported user for the given days', async () => {
+      reportRepo.findOne.mockResolvedValue(openReport());
+
+      await service.updateReportStatus('report-1', 'moderator', {
+        status: ReportStatus.RESOLVED,
+        action: ModerationAction.SUSPEND,
+        suspensionDays: 7,
+      });
+
+      const { suspendedUntil } = userRepo.update.mock.calls[0][1];
+      const days = (suspendedUntil.getTime() - Date.now()) / (24 * 60 * 60 * 1000);
+      expect(userRepo.update).toHaveBeenCalledWith('reported', expect.anything());
+      expect(days).toBeCloseTo(7);
+    });
+
+    it('should delete the reported user\'s messages and keep a copy on the report', async () => {
+      reportRepo.findOne.mockResolvedValue(openReport());
+      messageRepo.find.mockResolvedValue([
+        { id: 'm2', senderId: 'reported', matchId: 'match-1', content: 'Offensive', mediaId: null },
+      ]);
+
+      const report = await service.updateReportStatus('report-1', 'moderator', {
+        status: ReportStatus.RESOLVED,
+        action: ModerationAction.DELETE_CONTENT,
+      });
+
+      // The reporter's own messages among the evidence are left alone
+      expect(messageRepo.find).toHaveBeenCalledWith({
+        where: { id: expect.anything(), senderId: 'reported' },
+      });
+      expect(messageRepo.delete).toHaveBeenCalledWith({ id: In(['m2']) });
+      expect(report.removedMessages).toEqual([
+        expect.objectContaining({ id: 'm2', senderId: 'reported', content: 'Offensive' }),
+      ]);
+      expect(auditLogService.log).toHaveBeenCalledWith(
+        'moderator',
+        AuditAction.DELETE,
+        AuditResource.MESSAGE,
+        'm2',
+        { reportId: 'report-1' },
+      );
+      expect(auditLogService.log).not.toHaveBeenCalledWith(
+        'moderator',
+        AuditAction.DELETE,
+        AuditResource.MESSAGE,
+        'm1',
+        expect.anything(),
+      );
+    });
+
+    it('should refuse to delete when no evidence is from the reported user', async () => {
+      reportRepo.findOne.mockResolvedValue(openReport());
+
+      await expect(
+        service.updateReportStatus('report-1', 'moderator', {
+          status: ReportStatus.RESOLVED,
+          action: ModerationAction.DELETE_CONTENT,
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(messageRepo.delete).not.toHaveBeenCalled();
+    });
+
+    it('should delete attachments of the reported messages', async () => {
+      reportRepo.findOne.mockResolvedValue(openReport());
+      messageRepo.find.mockResolvedValue([
+        { id: 'm1', senderId: 'reported', mediaId: 'media-1' },
+        { id: 'm2', senderId: 'reported', mediaId: null },
+      ]);
+
+      await service.updateReportStatus('report-1', 'moderator', {
+        status: ReportStatus.RESOLVED,
+        action: ModerationAction.DELETE_CONTENT,
+      });
+
+      expect(mediaService.deleteFiles).toHaveBeenCalledWith(['media-1']);
+    });
+  });
+});
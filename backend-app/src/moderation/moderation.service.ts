@@ -0,0 +1,303 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { FindOptionsWhere, In, Repository } from 'typeorm';
+import { ModerationAction, ReportCategory, ReportEntity, ReportStatus } from './entities/report.entity';
+import { CreateReportDto } from './dto/create-report.dto';
+import { UpdateReportDto } from './dto/update-report.dto';
+import { UserEntity } from '../user/user.entity/user.entity';
+import { MessageEntity } from '../messaging/message.entity/message.entity';
+import { AuditLogService, AuditAction, AuditResource } from '../common/services/audit-log.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { MediaService } from '../media/media.service';
+
+/**
+ * Options for listing the report queue
+ */
+export interface ReportQueryOptions {
+  page: number;
+  limit: number;
+  status?: ReportStatus;
+  category?: ReportCategory;
+  assignedModeratorId?: string;
+}
+
+// Number of recent reports shown in a user's report history
+const REPORT_HISTORY_LIMIT = 20;
+
+// Statuses of reports still waiting for a decision
+const PENDING_STATUSES = [ReportStatus.OPEN, ReportStatus.IN_REVIEW];
+
+/**
+ * Service for user reports and the moderation queue
+ */
+@Injectable()
+export class ModerationService {
+  constructor(
+    @InjectRepository(ReportEntity)
+    private readonly reportRepo: Repository<ReportEntity>,
+    @InjectRepository(UserEntity)
+    private readonly userRepo: Repository<UserEntity>,
+    @InjectRepository(MessageEntity)
+    private readonly messageRepo: Repository<MessageEntity>,
+    private readonly auditLogService: AuditLogService,
+    private readonly notificationsService: NotificationsService,
+    private readonly mediaService: MediaService,
+  ) {}
+
+  /**
+   * Report a user, optionally attaching messages as evidence
+   * @param reporterId The user filing the report
+   * @param dto The report details
+   */
+  async createReport(reporterId: string, dto: CreateReportDto): Promise<ReportEntity> {
+    const { reportedUserId } = dto;
+    if (reporterId === reportedUserId) {
+      throw new BadRequestException('You cannot report yourself');
+    }
+
+    const reportedUser = await this.userRepo.findOne({ where: { id: reportedUserId } });
+    if (!reportedUser) {
+      throw new NotFoundException('User not found');
+    }
+
+    const messageIds = [...new Set(dto.messageIds || [])];
+    await this.validateEvidence(reporterId, reportedUserId, messageIds);
+
+    const report = this.reportRepo.create({
+      reporterId,
+      reportedUserId,
+      category: dto.category,
+      description: dto.description || null,
+      messageIds,
+    });
+    const saved = await this.reportRepo.save(report);
+
+    await this.auditLogService.log(reporterId, AuditAction.CREATE, AuditResource.REPORT, saved.id, {
+      reportedUserId,
+      category: dto.category,
+    });
+
+    return saved;
+  }
+
+  /**
+   * Get a page of the report queue, oldest first
+   */
+  async getReports(options: ReportQueryOptions) {
+    const where: FindOptionsWhere<ReportEntity> = {};
+    if (options.status) where.status = options.status;
+    if (options.category) where.category = options.category;
+    if (options.assignedModeratorId) where.assignedModeratorId = options.assignedModeratorId;
+
+    const [reports, total] = await this.reportRepo.findAndCount({
+      where,
+      order: { createdAt: 'ASC' },
+      skip: (options.page - 1) * options.limit,
+      take: options.limit,
+    });
+
+    return { reports, total, page: options.page, limit: options.limit };
+  }
+
+  /**
+   * Assign a pending report to a moderator
+   * @param id The report ID
+   * @param moderatorId The moderator taking the report
+   * @param assignedBy The admin making the assignment
+   */
+  async assignReport(id: string, moderatorId: string, assignedBy: string): Promise<ReportEntity> {
+    const report = await this.getPendingReport(id);
+
+    const moderator = await this.userRepo.findOne({ where: { id: moderatorId } });
+    if (!moderator || moderator.role !== 'admin') {
+      throw new BadRequestException('Reports can only be assigned to moderators');
+    }
+
+    const previousModeratorId = report.assignedModeratorId;
+    report.assignedModeratorId = moderatorId;
+    report.assignedAt = new Date();
+    report.status = ReportStatus.IN_REVIEW;
+    const saved = await this.reportRepo.save(report);
+
+    await this.auditLogService.log(assignedBy, AuditAction.UPDATE, AuditResource.REPORT, id, {
+      change: 'assigned',
+      moderatorId,
+      previousModeratorId,
+    });
+
+    return saved;
+  }
+
+  /**
+   * Close a pending report as resolved or rejected, applying the chosen
+   * action to the reported user
+   * @param id The report ID
+   * @param moderatorId The moderator closing the report
+   * @param dto The decision and action
+   */
+  async updateReportStatus(id: string, moderatorId: string, dto: UpdateReportDto): Promise<ReportEntity> {
+    const report = await this.getPendingReport(id);
+    const action = dto.action || ModerationAction.NONE;
+
+    if (dto.status === ReportStatus.REJECTED && action !== ModerationAction.NONE) {
+      throw new BadRequestException('A rejected report cannot have an action');
+    }
+
+    switch (action) {
+      case ModerationAction.WARN:
+        await this.warnUser(report, moderatorId, dto.comment);
+        break;
+      case ModerationAction.SUSPEND:
+        await this.suspendUser(report, moderatorId, dto.suspensionDays!);
+        break;
+      case ModerationAction.DELETE_CONTENT:
+        await this.deleteReportedContent(report, moderatorId);
+        break;
+    }
+
+    report.status = dto.status;
+    report.actionTaken = action;
+    report.resolutionComment = dto.comment || null;
+    report.resolvedBy = moderatorId;
+    report.resolvedAt = new Date();
+    const saved = await this.reportRepo.save(report);
+
+    await this.auditLogService.log(moderatorId, AuditAction.UPDATE, AuditResource.REPORT, id, {
+      change: 'closed',
+      status: dto.status,
+      action,
+      reportedUserId: report.reportedUserId,
+    });
+
+    return saved;
+  }
+
+  /**
+   * Reports filed against a user, most recent first
+   */
+  async getReportHistory(userId: string) {
+    const [reports, total] = await this.reportRepo.findAndCount({
+      where: { reportedUserId: userId },
+      order: { createdAt: 'DESC' },
+      take: REPORT_HISTORY_LIMIT,
+    });
+    const pending = await this.reportRepo.count({
+      where: { reportedUserId: userId, status: In(PENDING_STATUSES) },
+    });
+
+    return { total, pending, reports };
+  }
+
+  private async getPendingReport(id: string): Promise<ReportEntity> {
+    const report = await this.reportRepo.findOne({ where: { id } });
+    if (!report) {
+      throw new NotFoundException(`Report with ID ${id} not found`);
+    }
+    if (!PENDING_STATUSES.includes(report.status)) {
+      throw new BadRequestException('Report has already been reviewed');
+    }
+    return report;
+  }
+
+  private async warnUser(report: ReportEntity, moderatorId: string, comment?: string): Promise<void> {
+    await this.notificationsService.sendNotification({
+      userId: report.reportedUserId,
+      type: 'moderation_warning',
+      content: {
+        title: 'Community Guidelines Warning',
+        body: comment || 'Your recent activity was reported and goes against our community guidelines.',
+        category: report.category,
+      },
+    });
+
+    await this.auditLogService.log(moderatorId, AuditAction.UPDATE, AuditResource.USER, report.reportedUserId, {
+      change: 'warned',
+      reportId: report.id,
+    });
+  }
+
+  private async suspendUser(report: ReportEntity, moderatorId: string, days: number): Promise<void> {
+    const suspendedUntil = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+    await this.userRepo.update(report.reportedUserId, { suspendedUntil });
+
+    await this.auditLogService.log(moderatorId, AuditAction.UPDATE, AuditResource.USER, report.reportedUserId, {
+      change: 'suspended',
+      suspendedUntil,
+      reportId: report.id,
+    });
+  }
+
+  /**
+   * Delete the reported user's messages among the evidence. The reporter's
+   * own messages stay, and a copy of each deleted message is kept on the
+   * report.
+   */
+  private async deleteReportedContent(report: ReportEntity, moderatorId: string): Promise<void> {
+    const messages = report.messageIds.length
+      ? await this.messageRepo.find({
+          where: { id: In(report.messageIds), senderId: report.reportedUserId },
+        })
+      : [];
+    if (!messages.length) {
+      throw new BadRequestException('Report has no content from the reported user to delete');
+    }
+
+    report.removedMessages = messages.map(message => ({
+      id: message.id,
+      senderId: message.senderId,
+      matchId: message.matchId,
+      content: message.content,
+      encryptedContent: message.encryptedContent,
+      iv: message.iv,
+      authTag: message.authTag,
+      algorithm: message.algorithm,
+      keyId: message.keyId,
+      e2eEnvelopes: message.e2eEnvelopes,
+      mediaId: message.mediaId,
+      mediaType: message.mediaType,
+      createdAt: message.createdAt,
+    }));
+    await this.reportRepo.save(report);
+
+    const messageIds = messages.map(message => message.id);
+    const attachmentIds = messages
+      .map(message => message.mediaId)
+      .filter((mediaId): mediaId is string => !!mediaId);
+
+    await this.messageRepo.delete({ id: In(messageIds) });
+    await this.mediaService.deleteFiles(attachmentIds);
+
+    for (const messageId of messageIds) {
+      await this.auditLogService.log(moderatorId, AuditAction.DELETE, AuditResource.MESSAGE, messageId, {
+        reportId: report.id,
+      });
+    }
+  }
+
+  /**
+   * Evidence must come from a conversation between the reporter and the
+   * reported user
+   */
+  private async validateEvidence(
+    reporterId: string,
+    reportedUserId: string,
+    messageIds: string[],
+  ): Promise<void> {
+    if (!messageIds.length) return;
+
+    const messages = await this.messageRepo.find({
+      where: { id: In(messageIds) },
+      relations: ['match'],
+    });
+    const participants = [reporterId, reportedUserId].sort().join(':');
+    const isFromConversation = (message: MessageEntity) =>
+      !!message.match &&
+      [message.match.user1Id, message.match.user2Id].sort().join(':') === participants;
+
+    if (messages.length !== messageIds.length || !messages.every(isFromConversation)) {
+      throw new BadRequestException(
+        'Evidence must be messages from your conversation with the reported user'
+      );
+    }
+  }
+}
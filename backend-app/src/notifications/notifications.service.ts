@@ -32,6 +32,14 @@ export class NotificationsService {
       title: 'Someone Likes You',
       body: `${liker} liked your profile! Like them back to match.`,
     }),
+    superLike: (liker: string) => ({
+      title: 'You Got a Super Like',
+      body: `${liker} super liked you! Check out their profile.`,
+    }),
+    matchExpiring: (matchedUser: string, hoursLeft: number) => ({
+      title: 'Your Match Is Expiring',
+      body: `Your match with ${matchedUser} expires in ${hoursLeft} ${hoursLeft === 1 ? 'hour' : 'hours'}. Say hello before it's gone!`,
+    }),
     dailyPicks: () => ({
       title: 'Daily Picks Ready',
       body: 'Your top daily matches are ready to view!',
@@ -87,6 +95,21 @@ export class NotificationsService {
     });
   }
   
+  async notifyMatchExpiring(userId: string, matchId: string, matchedUserName: string, expiresAt: Date) {
+    const hoursLeft = Math.max(Math.ceil((expiresAt.getTime() - Date.now()) / (60 * 60 * 1000)), 1);
+    const template = this.notificationTemplates.matchExpiring(matchedUserName, hoursLeft);
+    return this.sendNotification({
+      userId,
+      type: 'match_expiring',
+      content: {
+        matchId,
+        matchedUserName,
+        expiresAt,
+        ...template
+      }
+    });
+  }
+  
   async notifyNewMessage(userId: string, senderId: string, senderName: string, messagePreview: string) {
     const template = this.notificationTemplates.newMessage(senderName);
     return this.sendNotification({
@@ -114,6 +137,19 @@ export class NotificationsService {
     });
   }
 
+  async notifySuperLike(userId: string, likerId: string, likerName: string) {
+    const template = this.notificationTemplates.superLike(likerName);
+    return this.sendNotification({
+      userId,
+      type: 'superlike',
+      content: {
+        likerId,
+        likerName,
+        ...template
+      }
+    });
+  }
+  
   async getUserNotifications(userId: string) {
     return this.notificationRepository.find({
       where: { userId },
@@ -179,6 +215,13 @@ export class NotificationsService {
     return { success: true, count: result.affected || 0 };
   }
   
+  // Emit a real-time event to all of a user's connected sockets
+  emitToUser(userId: string, event: string, data?: unknown) {
+    if (this.server) {
+      this.server.to(`user-${userId}`).emit(event, data);
+    }
+  }
+  
   // Helper method to register a user to the notification socket room
   registerUserSocket(userId: string, socketId: string) {
     if (this.server) {
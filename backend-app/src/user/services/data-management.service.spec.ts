@@ -0,0 +1,87 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Connection } from 'typeorm';
+import { DataManagementService } from './data-management.service';
+import { UserEntity } from '../user.entity/user.entity';
+import { DataExportEntity } from '../entities/data-export.entity';
+import { MatchEntity } from '../../matching/match.entity/match.entity';
+import { MessageEntity } from '../../messaging/message.entity/message.entity';
+import { EncryptionService } from '../../common/services/encryption.service';
+import { AuditLogService } from '../../common/services/audit-log.service';
+import { MailService } from '../../mail/mail.service';
+import { MediaService } from '../../media/media.service';
+
+describe('DataManagementService', () => {
+  let service: DataManagementService;
+
+  const queryRunner = {
+    connect: jest.fn(),
+    startTransaction: jest.fn(),
+    commitTransaction: jest.fn(),
+    rollbackTransaction: jest.fn(),
+    release: jest.fn(),
+    query: jest.fn(),
+    manager: {
+      find: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+  };
+  const userRepository = {
+    findOne: jest.fn(),
+  };
+  const mediaService = {
+    deleteFiles: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    userRepository.findOne.mockResolvedValue({ id: 'user-1' });
+    queryRunner.manager.find.mockImplementation(async entity => {
+      if (entity === MatchEntity) return [{ id: 'match-1' }];
+      return [{ id: 'message-1', mediaId: 'file-1' }, { id: 'message-2', mediaId: 'file-2' }];
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DataManagementService,
+        { provide: getRepositoryToken(UserEntity), useValue: userRepository },
+        { provide: getRepositoryToken(DataExportEntity), useValue: {} },
+        { provide: Connection, useValue: { createQueryRunner: () => queryRunner } },
+        { provide: EncryptionService, useValue: {} },
+        { provide: AuditLogService, useValue: { log: jest.fn() } },
+        { provide: MailService, useValue: {} },
+        { provide: MediaService, useValue: mediaService },
+      ],
+    }).compile();
+
+    service = module.get<DataManagementService>(DataManagementService);
+  });
+
+  describe('deleteUserData', () => {
+    it('should delete the files attached to the deleted conversations', async () => {
+      await service.deleteUserData('user-1', { deleteMessages: true });
+
+      expect(queryRunner.manager.find).toHaveBeenCalledWith(MessageEntity, expect.objectContaining({
+        select: ['id', 'mediaId'],
+      }));
+      expect(queryRunner.commitTransaction).toHaveBeenCalled();
+      expect(mediaService.deleteFiles).toHaveBeenCalledWith(['file-1', 'file-2']);
+    });
+
+    it('should keep the files when messages are kept', async () => {
+      await service.deleteUserData('user-1');
+
+      expect(queryRunner.manager.find).not.toHaveBeenCalled();
+      expect(mediaService.deleteFiles).toHaveBeenCalledWith([]);
+    });
+
+    it('should keep the files when the deletion is rolled back', async () => {
+      queryRunner.manager.delete.mockRejectedValueOnce(new Error('connection lost'));
+
+      await expect(service.deleteUserData('user-1', { deleteMessages: true })).rejects.toThrow('connection lost');
+      expect(queryRunner.rollbackTransaction).toHaveBeenCalled();
+      expect(mediaService.deleteFiles).not.toHaveBeenCalled();
+    });
+  });
+});
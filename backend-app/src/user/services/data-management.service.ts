@@ -1,10 +1,15 @@
 import { Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, Connection } from 'typeorm';
+import { Repository, Connection, EntityManager, In, IsNull, Not } from 'typeorm';
 import { UserEntity } from '../user.entity/user.entity';
+import { MatchEntity } from '../../matching/match.entity/match.entity';
+import { MessageEntity } from '../../messaging/message.entity/message.entity';
+import { MediaService } from '../../media/media.service';
 import { DataExportEntity, ExportFormat, ExportStatus } from '../entities/data-export.entity';
 import { EncryptionService } from '../../common/services/encryption.service';
 import { AuditLogService, AuditAction, AuditResource } from '../../common/services/audit-log.service';
+import { MailService } from '../../mail/mail.service';
+import { MailTemplate } from '../../mail/mail-templates';
 import { Request } from 'express';
 
 /**
@@ -77,6 +82,8 @@ export class DataManagementService {
     @InjectRepository(DataExportEntity)
     private readonly dataExportRepository: Repository<DataExportEntity>,
     private readonly auditLogService: AuditLogService,
+    private readonly mailService: MailService,
+    private readonly mediaService: MediaService,
   ) {}
 
   /**
@@ -198,7 +205,10 @@ export class DataManagementService {
           createdAt: user.createdAt,
           // Add other user fields as needed
         },
-        profile: categories[DataCategory.PROFILE] ? user.profile : undefined,
+        // Profile fields live on the user row
+        profile: categories[DataCategory.PROFILE]
+          ? { age: user.age, bio: user.bio, location: user.location, profilePhotoId: user.profilePhotoId }
+          : undefined,
         preferences: categories[DataCategory.PREFERENCES] ? user.preferences : undefined,
         matches: categories[DataCategory.MATCHES] ? matches : undefined,
         messages: categories[DataCategory.MESSAGES] ? messages : undefined,
@@ -314,6 +324,7 @@ export class DataManagementService {
     const queryRunner = this.connection.createQueryRunner();
     await queryRunner.connect();
     await queryRunner.startTransaction();
+    let completedExport: DataExportEntity;
 
     try {
       // Get the export request
@@ -395,6 +406,7 @@ export class DataManagementService {
       );
 
       await queryRunner.commitTransaction();
+      completedExport = exportRequest;
     } catch (error) {
       await queryRunner.rollbackTransaction();
       
@@ -418,6 +430,22 @@ export class DataManagementService {
     } finally {
       await queryRunner.release();
     }
+
+    await this.sendExportReadyEmail(completedExport);
+  }
+
+  /**
+   * Email the user the download link of a completed export
+   */
+  private async sendExportReadyEmail(exportRequest: DataExportEntity) {
+    const user = await this.userRepository.findOne({ where: { id: exportRequest.userId } });
+    if (!user) return;
+
+    await this.mailService.sendTemplate(user.email, MailTemplate.DATA_EXPORT_READY, {
+      name: user.name,
+      downloadUrl: exportRequest.downloadUrl,
+      expiresAt: exportRequest.expiresAt,
+    });
   }
 
   /**
@@ -430,6 +458,7 @@ export class DataManagementService {
     await queryRunner.connect();
     await queryRunner.startTransaction();
 
+    let attachmentIds: string[] = [];
     try {
       // Log the deletion request
       await this.auditLogService.log(
@@ -478,6 +507,7 @@ export class DataManagementService {
         
         // Delete messages if requested
         if (options.deleteMessages) {
+          attachmentIds = await this.findConversationAttachments(queryRunner.manager, userId);
           await queryRunner.query(
             `DELETE FROM messages WHERE sender_id = $1 OR match_id IN 
              (SELECT id FROM matches WHERE user1_id = $1 OR user2_id = $1)`,
@@ -553,6 +583,28 @@ export class DataManagementService {
       // Release query runner
       await queryRunner.release();
     }
+
+    // Files live outside the database, so they go once the rows are gone
+    await this.mediaService.deleteFiles(attachmentIds);
+  }
+
+  /**
+   * IDs of the files attached to the messages deleted with a user's data:
+   * everything they sent and every message in their matches
+   */
+  private async findConversationAttachments(manager: EntityManager, userId: string): Promise<string[]> {
+    const matches = await manager.find(MatchEntity, {
+      where: [{ user1Id: userId }, { user2Id: userId }],
+      select: ['id'],
+    });
+    const attachments = await manager.find(MessageEntity, {
+      where: [
+        { senderId: userId, mediaId: Not(IsNull()) },
+        { matchId: In(matches.map(match => match.id)), mediaId: Not(IsNull()) },
+      ],
+      select: ['id', 'mediaId'],
+    });
+    return attachments.map(message => message.mediaId as string);
   }
   
   /**
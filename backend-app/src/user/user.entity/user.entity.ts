@@ -12,17 +12,22 @@ export class UserEntity {
   @Column({ unique: true })
   email: string;
 
-  @Column()
-  passwordHash: string;
+  // Null until the address is confirmed through the emailed link
+  @Column({ type: 'timestamp', nullable: true })
+  emailVerifiedAt: Date | null;
+
+  // Null for accounts created through OAuth
+  @Column({ type: 'varchar', nullable: true })
+  passwordHash: string | null;
 
-  @Column({ nullable: true })
-  oauthGoogleId: string;
+  @Column({ type: 'varchar', nullable: true })
+  oauthGoogleId: string | null;
 
-  @Column({ nullable: true })
-  oauthFacebookId: string;
+  @Column({ type: 'varchar', nullable: true })
+  oauthFacebookId: string | null;
 
-  @Column({ nullable: true })
-  oauthAppleId: string;
+  @Column({ type: 'varchar', nullable: true })
+  oauthAppleId: string | null;
 
   @Column()
   name: string;
@@ -36,6 +41,10 @@ export class UserEntity {
   @Column({ type: 'text', nullable: true })
   bio: string;
 
+  // Media file ID of the profile photo
+  @Column({ type: 'varchar', nullable: true })
+  profilePhotoId: string | null;
+
   @Column('json', { nullable: true })
   preferences: any;
 
@@ -45,6 +54,16 @@ export class UserEntity {
   @Column({ default: false })
   verificationStatus: boolean;
 
+  @Column({ default: true })
+  isActive: boolean;
+
+  @Column({ type: 'timestamp', nullable: true })
+  suspendedUntil: Date | null;
+
+  // Set after too many failed logins
+  @Column({ type: 'timestamp', nullable: true })
+  lockedUntil: Date | null;
+
   @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
   createdAt: Date;
 
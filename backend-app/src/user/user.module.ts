@@ -1,4 +1,4 @@
-import { Module } from '@nestjs/common';
+import { forwardRef, Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { UserService } from './user.service';
 import { UserController } from './user.controller';
@@ -12,6 +12,7 @@ import { ConsentPreferenceEntity } from './entities/consent-preference.entity';
 import { ConsentHistoryEntity } from './entities/consent-history.entity';
 import { DataExportEntity } from './entities/data-export.entity';
 import { CommonModule } from '../common/common.module';
+import { MediaModule } from '../media/media.module';
 
 @Module({
   imports: [
@@ -23,6 +24,8 @@ import { CommonModule } from '../common/common.module';
       DataExportEntity
     ]),
     CommonModule,
+    // MediaModule imports this module for UserService
+    forwardRef(() => MediaModule),
   ],
   providers: [
     UserService, 
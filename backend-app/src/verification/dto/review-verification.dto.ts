@@ -0,0 +1,14 @@
+import { IsIn, IsNotEmpty, IsOptional, IsString, MaxLength, ValidateIf } from 'class-validator';
+import { VerificationStatus } from '../entities/verification-request.entity';
+
+export class ReviewVerificationDto {
+  @IsIn([VerificationStatus.APPROVED, VerificationStatus.REJECTED])
+  status: VerificationStatus.APPROVED | VerificationStatus.REJECTED;
+
+  // Required when rejecting, so the user knows what to fix
+  @ValidateIf(dto => dto.status === VerificationStatus.REJECTED)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason?: string;
+}
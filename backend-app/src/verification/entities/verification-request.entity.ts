@@ -0,0 +1,74 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { UserEntity } from '../../user/user.entity/user.entity';
+
+/**
+ * Enum for the review status of a verification request
+ */
+export enum VerificationStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+}
+
+/**
+ * Enum for the poses a verification selfie can be asked to show. A random
+ * pose proves the selfie was taken for this request and not copied.
+ */
+export enum VerificationPose {
+  THUMBS_UP = 'thumbs_up',
+  PEACE_SIGN = 'peace_sign',
+  HAND_ON_CHEEK = 'hand_on_cheek',
+  POINT_AT_CAMERA = 'point_at_camera',
+  THREE_FINGERS = 'three_fingers',
+  SALUTE = 'salute',
+}
+
+/**
+ * Entity for a selfie submitted for identity verification, waiting in the
+ * admin review queue
+ */
+@Entity('verification_requests')
+@Index('IDX_VERIFICATION_REQUESTS_STATUS_CREATED', ['status', 'createdAt'])
+export class VerificationRequestEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index('IDX_VERIFICATION_REQUESTS_USER')
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  // Pose the user was asked to copy
+  @Column({ type: 'enum', enum: VerificationPose })
+  pose: VerificationPose;
+
+  // Media file ID of the selfie
+  @Column({ type: 'varchar' })
+  selfieMediaId: string;
+
+  @Column({ type: 'enum', enum: VerificationStatus, default: VerificationStatus.PENDING })
+  status: VerificationStatus;
+
+  // Shown to the user when the selfie is rejected
+  @Column({ type: 'text', nullable: true })
+  reason: string | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  reviewedBy: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  reviewedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: UserEntity;
+
+  @ManyToOne(() => UserEntity, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'reviewedBy' })
+  reviewer: UserEntity;
+}
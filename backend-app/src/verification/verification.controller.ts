@@ -0,0 +1,38 @@
+import { Controller, Get, Post, Req, UploadedFile, UseGuards, UseInterceptors } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Request } from 'express';
+import { VerificationService } from './verification.service';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+
+@Controller('verification')
+@UseGuards(JwtAuthGuard)
+export class VerificationController {
+  constructor(private readonly verificationService: VerificationService) {}
+
+  @Get()
+  async getStatus(@Req() request: Request) {
+    return this.verificationService.getStatus(this.getUserId(request));
+  }
+
+  @Post('challenge')
+  async createChallenge(@Req() request: Request) {
+    return this.verificationService.createChallenge(this.getUserId(request));
+  }
+
+  @Post('selfie')
+  @UseInterceptors(FileInterceptor('file'))
+  async submitSelfie(
+    @UploadedFile() file: Express.Multer.File,
+    @Req() request: Request
+  ) {
+    return this.verificationService.submitSelfie(this.getUserId(request), file);
+  }
+
+  private getUserId(request: Request): string {
+    const userId = request.user?.id;
+    if (!userId) {
+      throw new Error('User ID not found in request');
+    }
+    return userId;
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { VerificationService } from './verification.service';
+import { VerificationController } from './verification.controller';
+import { VerificationRequestEntity } from './entities/verification-request.entity';
+import { UserEntity } from '../user/user.entity/user.entity';
+import { AuthModule } from '../auth/auth.module';
+import { MediaModule } from '../media/media.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([VerificationRequestEntity, UserEntity]),
+    AuthModule,
+    MediaModule,
+    NotificationsModule,
+  ],
+  providers: [VerificationService],
+  controllers: [VerificationController],
+  exports: [VerificationService],
+})
+export class VerificationModule {}
@@ -0,0 +1,161 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { VerificationService } from './verification.service';
+import { VerificationPose, VerificationRequestEntity, VerificationStatus } from './entities/verification-request.entity';
+import { UserEntity } from '../user/user.entity/user.entity';
+import { RedisService } from '../cache/redis.service';
+import { MediaService } from '../media/media.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { AuditLogService } from '../common/services/audit-log.service';
+
+describe('VerificationService', () => {
+  let service: VerificationService;
+
+  const requestRepo = {
+    create: jest.fn(data => ({ id: 'request-1', status: VerificationStatus.PENDING, reason: null, ...data })),
+    save: jest.fn(request => Promise.resolve(request)),
+    exists: jest.fn(),
+    findOne: jest.fn(),
+    findAndCount: jest.fn(),
+  };
+  const userRepo = {
+    findOne: jest.fn(),
+    update: jest.fn(),
+  };
+  const redisService = {
+    get: jest.fn(),
+    set: jest.fn(),
+    delete: jest.fn(),
+  };
+  const mediaService = {
+    uploadFile: jest.fn(),
+  };
+  const notificationsService = {
+    sendNotification: jest.fn(),
+  };
+  const auditLogService = {
+    log: jest.fn(),
+  };
+
+  const selfie = { mimetype: 'image/jpeg', buffer: Buffer.from('jpeg') } as Express.Multer.File;
+  const pendingRequest = () => ({
+    id: 'request-1',
+    userId: 'user-1',
+    pose: VerificationPose.SALUTE,
+    selfieMediaId: 'media-1',
+    status: VerificationStatus.PENDING,
+  }) as VerificationRequestEntity;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    userRepo.findOne.mockResolvedValue({ id: 'user-1', verificationStatus: false });
+    requestRepo.exists.mockResolvedValue(false);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VerificationService,
+        { provide: getRepositoryToken(VerificationRequestEntity), useValue: requestRepo },
+        { provide: getRepositoryToken(UserEntity), useValue: userRepo },
+        { provide: RedisService, useValue: redisService },
+        { provide: MediaService, useValue: mediaService },
+        { provide: NotificationsService, useValue: notificationsService },
+        { provide: AuditLogService, useValue: auditLogService },
+      ],
+    }).compile();
+
+    service = module.get<VerificationService>(VerificationService);
+  });
+
+  describe('createChallenge', () => {
+    it('should store a random pose for the selfie', async () => {
+      const challenge = await service.createChallenge('user-1');
+
+      expect(Object.values(VerificationPose)).toContain(challenge.pose);
+      expect(challenge.instructions).toEqual(expect.any(String));
+      expect(redisService.set).toHaveBeenCalledWith('verification:challenge:user-1', challenge.pose, 600);
+    });
+
+    it('should refuse users who are already verified', async () => {
+      userRepo.findOne.mockResolvedValue({ id: 'user-1', verificationStatus: true });
+
+      await expect(service.createChallenge('user-1')).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('should refuse while a selfie is waiting for review', async () => {
+      requestRepo.exists.mockResolvedValue(true);
+
+      await expect(service.createChallenge('user-1')).rejects.toBeInstanceOf(ConflictException);
+    });
+  });
+
+  describe('submitSelfie', () => {
+    it('should queue the selfie with the challenged pose', async () => {
+      redisService.get.mockResolvedValue(VerificationPose.THUMBS_UP);
+      mediaService.uploadFile.mockResolvedValue({ id: 'media-1' });
+
+      const request = await service.submitSelfie('user-1', selfie);
+
+      expect(mediaService.uploadFile).toHaveBeenCalledWith(selfie, expect.objectContaining({
+        userId: 'user-1',
+        purpose: 'verification',
+      }));
+      expect(requestRepo.create).toHaveBeenCalledWith({
+        userId: 'user-1',
+        pose: VerificationPose.THUMBS_UP,
+        selfieMediaId: 'media-1',
+      });
+      expect(redisService.delete).toHaveBeenCalledWith('verification:challenge:user-1');
+      expect(request).toEqual(expect.objectContaining({ status: VerificationStatus.PENDING }));
+      expect(request).not.toHaveProperty('selfieMediaId');
+    });
+
+    it('should require a current challenge', async () => {
+      redisService.get.mockResolvedValue(null);
+
+      await expect(service.submitSelfie('user-1', selfie)).rejects.toBeInstanceOf(BadRequestException);
+      expect(mediaService.uploadFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reviewRequest', () => {
+    it('should give approved users the verified badge', async () => {
+      requestRepo.findOne.mockResolvedValue(pendingRequest());
+
+      const request = await service.reviewRequest('request-1', 'admin-1', { status: VerificationStatus.APPROVED });
+
+      expect(userRepo.update).toHaveBeenCalledWith('user-1', { verificationStatus: true });
+      expect(request).toEqual(expect.objectContaining({
+        status: VerificationStatus.APPROVED,
+        reviewedBy: 'admin-1',
+      }));
+      expect(notificationsService.sendNotification).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'user-1',
+        type: 'verification_approved',
+      }));
+    });
+
+    it('should tell rejected users why', async () => {
+      requestRepo.findOne.mockResolvedValue(pendingRequest());
+
+      await service.reviewRequest('request-1', 'admin-1', {
+        status: VerificationStatus.REJECTED,
+        reason: 'Your face is not visible',
+      });
+
+      expect(userRepo.update).not.toHaveBeenCalled();
+      expect(notificationsService.sendNotification).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'verification_rejected',
+        content: expect.objectContaining({ body: 'Your face is not visible' }),
+      }));
+    });
+
+    it('should not review a request twice', async () => {
+      requestRepo.findOne.mockResolvedValue({ ...pendingRequest(), status: VerificationStatus.REJECTED });
+
+      await expect(
+        service.reviewRequest('request-1', 'admin-1', { status: VerificationStatus.APPROVED })
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
+});
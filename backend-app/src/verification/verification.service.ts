@@ -0,0 +1,236 @@
+import { BadRequestException, ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { FindOptionsWhere, Repository } from 'typeorm';
+import { randomInt } from 'crypto';
+import { VerificationPose, VerificationRequestEntity, VerificationStatus } from './entities/verification-request.entity';
+import { ReviewVerificationDto } from './dto/review-verification.dto';
+import { UserEntity } from '../user/user.entity/user.entity';
+import { RedisService } from '../cache/redis.service';
+import { MediaService } from '../media/media.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { AuditLogService, AuditAction, AuditResource } from '../common/services/audit-log.service';
+
+/**
+ * Options for listing the verification queue
+ */
+export interface VerificationQueryOptions {
+  page: number;
+  limit: number;
+  status?: VerificationStatus;
+}
+
+// Instructions shown to the user for each pose
+const POSE_INSTRUCTIONS: Record<VerificationPose, string> = {
+  [VerificationPose.THUMBS_UP]: 'Give a thumbs up next to your face',
+  [VerificationPose.PEACE_SIGN]: 'Make a peace sign next to your face',
+  [VerificationPose.HAND_ON_CHEEK]: 'Rest one hand on your cheek',
+  [VerificationPose.POINT_AT_CAMERA]: 'Point at the camera',
+  [VerificationPose.THREE_FINGERS]: 'Hold up three fingers next to your face',
+  [VerificationPose.SALUTE]: 'Salute the camera',
+};
+
+// Time to take the selfie after the pose is shown
+const CHALLENGE_TTL_SECONDS = 10 * 60;
+
+/**
+ * Service for selfie identity verification. The user copies a random pose
+ * in a selfie, and an admin compares it with their profile photos. Approved
+ * users get the verified badge.
+ */
+@Injectable()
+export class VerificationService {
+  constructor(
+    @InjectRepository(VerificationRequestEntity)
+    private readonly requestRepo: Repository<VerificationRequestEntity>,
+    @InjectRepository(UserEntity)
+    private readonly userRepo: Repository<UserEntity>,
+    private readonly redisService: RedisService,
+    private readonly mediaService: MediaService,
+    private readonly notificationsService: NotificationsService,
+    private readonly auditLogService: AuditLogService,
+  ) {}
+
+  /**
+   * Pick the pose the user has to copy in their selfie
+   * @throws BadRequestException if the user is already verified
+   * @throws ConflictException if a selfie is already waiting for review
+   */
+  async createChallenge(userId: string) {
+    await this.assertCanSubmit(userId);
+
+    const poses = Object.values(VerificationPose);
+    const pose = poses[randomInt(poses.length)];
+    await this.redisService.set(this.challengeKey(userId), pose, CHALLENGE_TTL_SECONDS);
+
+    return {
+      pose,
+      instructions: POSE_INSTRUCTIONS[pose],
+      expiresAt: new Date(Date.now() + CHALLENGE_TTL_SECONDS * 1000),
+    };
+  }
+
+  /**
+   * Submit the selfie for the user's current challenge to the review queue
+   * @throws BadRequestException if there is no current challenge or the file
+   * is not an image
+   */
+  async submitSelfie(userId: string, file: Express.Multer.File) {
+    if (!file?.mimetype?.startsWith('image/')) {
+      throw new BadRequestException('The selfie must be an image');
+    }
+    await this.assertCanSubmit(userId);
+
+    const pose = await this.redisService.get<VerificationPose>(this.challengeKey(userId));
+    if (!pose) {
+      throw new BadRequestException('Start a new verification challenge; the previous one expired');
+    }
+    await this.redisService.delete(this.challengeKey(userId));
+
+    const selfie = await this.mediaService.uploadFile(file, {
+      userId,
+      purpose: 'verification',
+      resize: true,
+      maxWidth: 1200,
+      maxHeight: 1200,
+    });
+
+    const request = await this.requestRepo.save(
+      this.requestRepo.create({ userId, pose, selfieMediaId: selfie.id })
+    );
+
+    await this.auditLogService.log(userId, AuditAction.CREATE, AuditResource.VERIFICATION, request.id, { pose });
+
+    return this.toUserView(request);
+  }
+
+  /**
+   * Whether the user is verified, and how their latest request went
+   */
+  async getStatus(userId: string) {
+    const user = await this.userRepo.findOne({ where: { id: userId } });
+    if (!user) throw new NotFoundException('User not found');
+
+    const latest = await this.requestRepo.findOne({ where: { userId }, order: { createdAt: 'DESC' } });
+    return {
+      verified: user.verificationStatus,
+      latestRequest: latest ? this.toUserView(latest) : null,
+    };
+  }
+
+  /**
+   * Get a page of the review queue, oldest first, with the profile details
+   * the selfie is compared against
+   */
+  async getRequests(options: VerificationQueryOptions) {
+    const where: FindOptionsWhere<VerificationRequestEntity> = {};
+    if (options.status) where.status = options.status;
+
+    const [requests, total] = await this.requestRepo.findAndCount({
+      where,
+      relations: ['user'],
+      order: { createdAt: 'ASC' },
+      skip: (options.page - 1) * options.limit,
+      take: options.limit,
+    });
+
+    return {
+      verifications: requests.map(({ user, ...request }) => ({
+        ...request,
+        pose: { code: request.pose, instructions: POSE_INSTRUCTIONS[request.pose] },
+        user: user && {
+          id: user.id,
+          name: user.name,
+          age: user.age,
+          profilePhotoId: user.profilePhotoId,
+        },
+      })),
+      total,
+      page: options.page,
+      limit: options.limit,
+    };
+  }
+
+  /**
+   * Get the selfie of a request for review
+   */
+  async getSelfie(id: string) {
+    const request = await this.requestRepo.findOne({ where: { id } });
+    if (!request) {
+      throw new NotFoundException(`Verification request with ID ${id} not found`);
+    }
+    return this.mediaService.getFile(request.selfieMediaId);
+  }
+
+  /**
+   * Approve or reject a pending request. Approval gives the user the
+   * verified badge; either way the user is notified.
+   * @param id The request ID
+   * @param reviewerId The admin reviewing the request
+   */
+  async reviewRequest(id: string, reviewerId: string, dto: ReviewVerificationDto) {
+    const request = await this.requestRepo.findOne({ where: { id } });
+    if (!request) {
+      throw new NotFoundException(`Verification request with ID ${id} not found`);
+    }
+    if (request.status !== VerificationStatus.PENDING) {
+      throw new BadRequestException('Verification request has already been reviewed');
+    }
+
+    const approved = dto.status === VerificationStatus.APPROVED;
+    if (approved) {
+      await this.userRepo.update(request.userId, { verificationStatus: true });
+    }
+
+    request.status = dto.status;
+    request.reason = dto.reason || null;
+    request.reviewedBy = reviewerId;
+    request.reviewedAt = new Date();
+    const saved = await this.requestRepo.save(request);
+
+    await this.notificationsService.sendNotification({
+      userId: request.userId,
+      type: approved ? 'verification_approved' : 'verification_rejected',
+      content: approved
+        ? { title: 'You are verified', body: 'Your profile now shows the verified badge.' }
+        : { title: 'Verification not approved', body: dto.reason!, requestId: request.id },
+    });
+
+    await this.auditLogService.log(reviewerId, AuditAction.UPDATE, AuditResource.VERIFICATION, id, {
+      change: 'reviewed',
+      status: dto.status,
+      userId: request.userId,
+    });
+
+    return saved;
+  }
+
+  private async assertCanSubmit(userId: string) {
+    const user = await this.userRepo.findOne({ where: { id: userId } });
+    if (!user) throw new NotFoundException('User not found');
+    if (user.verificationStatus) {
+      throw new BadRequestException('Your profile is already verified');
+    }
+
+    if (await this.requestRepo.exists({ where: { userId, status: VerificationStatus.PENDING } })) {
+      throw new ConflictException('Your selfie is already waiting for review');
+    }
+  }
+
+  /**
+   * Fields of a request the user may see; reviewer details stay internal
+   */
+  private toUserView(request: VerificationRequestEntity) {
+    return {
+      id: request.id,
+      status: request.status,
+      pose: request.pose,
+      reason: request.reason,
+      createdAt: request.createdAt,
+      reviewedAt: request.reviewedAt,
+    };
+  }
+
+  private challengeKey(userId: string) {
+    return `verification:challenge:${userId}`;
+  }
+}
@@ -0,0 +1,143 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import * as E2E from '../utils/e2e';
+
+/**
+ * Result of checking a match's identity key against the pinned one
+ */
+export interface IdentityStatus {
+  safetyNumber: string;
+  // The key differs from the one this device trusted before
+  changed: boolean;
+}
+
+/**
+ * Hook for end-to-end encrypted chat
+ * Keeps the device's keys published and encrypts/decrypts message envelopes
+ */
+export function useE2EEncryption(apiUrl: string) {
+  const [keys, setKeys] = useState<E2E.LocalKeys | null>(null);
+  const [ownBundle, setOwnBundle] = useState<E2E.KeyBundle | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const bundlesRef = useRef<Map<string, E2E.KeyBundle>>(new Map());
+
+  const request = useCallback(async (path: string, init: RequestInit = {}) => {
+    const response = await fetch(`${apiUrl}/keys/${path}`, {
+      ...init,
+      headers: {
+        'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Key directory request failed with status ${response.status}`);
+    }
+
+    return response.json();
+  }, [apiUrl]);
+
+  // Load or create the device's keys and publish the public halves
+  useEffect(() => {
+    const initialize = async () => {
+      try {
+        if (!(await E2E.isE2ESupported())) {
+          throw new Error('This browser does not support end-to-end encryption');
+        }
+
+        const { keys } = await E2E.loadOrCreateKeys();
+        const published = await request('me', {
+          method: 'PUT',
+          body: JSON.stringify(await E2E.getPublicBundle(keys)),
+        });
+
+        setKeys(keys);
+        setOwnBundle(published);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to set up end-to-end encryption');
+      }
+    };
+
+    initialize();
+  }, [request]);
+
+  // Get a match's published keys, or null if they have none
+  const getBundle = useCallback(async (userId: string, refresh = false): Promise<E2E.KeyBundle | null> => {
+    if (!refresh && bundlesRef.current.has(userId)) {
+      return bundlesRef.current.get(userId)!;
+    }
+
+    try {
+      const bundle: E2E.KeyBundle = await request(encodeURIComponent(userId));
+      bundlesRef.current.set(userId, bundle);
+      return bundle;
+    } catch {
+      bundlesRef.current.delete(userId);
+      return null;
+    }
+  }, [request]);
+
+  // Encrypt a message for a match and for this user's own history
+  const encryptFor = useCallback(async (
+    recipientId: string,
+    plaintext: string
+  ): Promise<Record<string, E2E.E2EEnvelope> | null> => {
+    if (!keys || !ownBundle) return null;
+
+    const recipient = await getBundle(recipientId);
+    if (!recipient) return null;
+
+    return {
+      [recipientId]: await E2E.encryptEnvelope(plaintext, keys, recipient),
+      [ownBundle.userId]: await E2E.encryptEnvelope(plaintext, keys, ownBundle),
+    };
+  }, [keys, ownBundle, getBundle]);
+
+  // Decrypt the envelope addressed to this user
+  const decrypt = useCallback(async (
+    envelopes: Record<string, E2E.E2EEnvelope> | null | undefined
+  ): Promise<string | null> => {
+    const envelope = ownBundle && envelopes?.[ownBundle.userId];
+    if (!keys || !envelope) return null;
+
+    try {
+      return await E2E.decryptEnvelope(envelope, keys);
+    } catch (err) {
+      console.error('Failed to decrypt message:', err);
+      return null;
+    }
+  }, [keys, ownBundle]);
+
+  // Compare a match's identity key with the one this device trusts.
+  // The first key seen for a user is trusted automatically.
+  const checkIdentity = useCallback(async (userId: string, refresh = false): Promise<IdentityStatus | null> => {
+    const bundle = await getBundle(userId, refresh);
+    if (!bundle || !ownBundle) return null;
+
+    const pinned = E2E.getPinnedIdentityKey(userId);
+    if (!pinned) {
+      E2E.pinIdentityKey(userId, bundle.identityKey);
+    }
+
+    return {
+      safetyNumber: await E2E.getSafetyNumber(ownBundle.identityKey, bundle.identityKey),
+      changed: !!pinned && pinned !== bundle.identityKey,
+    };
+  }, [ownBundle, getBundle]);
+
+  // Trust a match's current identity key after verifying the safety number
+  const acceptIdentity = useCallback((userId: string) => {
+    const bundle = bundlesRef.current.get(userId);
+    if (bundle) {
+      E2E.pinIdentityKey(userId, bundle.identityKey);
+    }
+  }, []);
+
+  return {
+    isReady: !!keys && !!ownBundle,
+    error,
+    encryptFor,
+    decrypt,
+    checkIdentity,
+    acceptIdentity,
+  };
+}
@@ -1,6 +1,8 @@
 import * as React from 'react';
 import { useState, useEffect, useRef } from 'react';
 import { io, Socket } from 'socket.io-client';
+import { useE2EEncryption } from '../hooks/useE2EEncryption';
+import type { E2EEnvelope } from '../utils/e2e';
 import './ChatPage.css';
 
 // Types for our messages and match data
@@ -13,6 +15,8 @@ interface Message {
   read: boolean;
   mediaUrl?: string;
   mediaType?: 'image' | 'video' | 'audio';
+  // Set when the content was encrypted end-to-end
+  e2eEnvelopes?: Record<string, E2EEnvelope> | null;
 }
 
 interface Match {
@@ -38,6 +42,11 @@ export default function ChatPage() {
   const [isTyping, setIsTyping] = useState(false);
   const [typingTimeout, setTypingTimeout] = useState<NodeJS.Timeout | null>(null);
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
+  const [safetyNumber, setSafetyNumber] = useState<string | null>(null);
+  const [identityChanged, setIdentityChanged] = useState(false);
+  
+  // Client-held keys for end-to-end encrypted messages
+  const e2e = useE2EEncryption(SOCKET_URL);
   
   // Reference for chat container to auto-scroll to bottom
   const chatContainerRef = useRef<HTMLDivElement>(null);
@@ -47,8 +56,10 @@ export default function ChatPage() {
 
   // Initialize socket connection and fetch matches
   useEffect(() => {
-    // Initialize Socket.io connection
-    socketRef.current = io(SOCKET_URL);
+    // Initialize Socket.io connection, authenticated with the JWT
+    socketRef.current = io(SOCKET_URL, {
+      auth: { token: localStorage.getItem('token') }
+    });
     
     // Fetch matches from API
     fetchMatches();
@@ -65,18 +76,28 @@ export default function ChatPage() {
   useEffect(() => {
     if (!socketRef.current || !activeMatch) return;
     
-    const roomId = getChatRoomId(currentUserId, activeMatch.userId);
-    
     // Join room for this match
-    socketRef.current.emit('joinRoom', roomId);
+    socketRef.current.emit('joinRoom', { matchId: activeMatch.id });
     
     // Fetch message history for this match
     fetchMessages(activeMatch.userId);
     
+    // Check the match's identity key against the one this device trusts
+    const checkIdentity = async (refresh = false) => {
+      const status = await e2e.checkIdentity(activeMatch.userId, refresh);
+      setSafetyNumber(status?.safetyNumber ?? null);
+      setIdentityChanged(!!status?.changed);
+    };
+    checkIdentity();
+    
     // Listen for new messages
-    socketRef.current.on('newMessage', (data: Message) => {
+    socketRef.current.on('newMessage', async (data: Message) => {
+      const content = data.e2eEnvelopes
+        ? await e2e.decrypt(data.e2eEnvelopes) ?? 'Unable to decrypt this message'
+        : data.content;
       setMessages(prev => [...prev, {
         ...data,
+        content,
         timestamp: new Date(data.timestamp)
       }]);
       
@@ -87,33 +108,68 @@ export default function ChatPage() {
     });
     
     // Listen for typing indicators
-    socketRef.current.on('userTyping', ({ userId }: { userId: string }) => {
+    socketRef.current.on('typing', ({ userId, isTyping }: { userId: string; isTyping: boolean }) => {
       if (userId === activeMatch.userId) {
-        setIsTyping(true);
+        setIsTyping(isTyping);
         
-        // Reset typing indicator after 3 seconds
-        setTimeout(() => setIsTyping(false), 3000);
+        // Reset typing indicator after 3 seconds in case the stop event is lost
+        if (isTyping) {
+          setTimeout(() => setIsTyping(false), 3000);
+        }
       }
     });
     
-    // Listen for read receipts
-    socketRef.current.on('messageRead', ({ messageId }: { messageId: string }) => {
-      setMessages(prev => 
-        prev.map(msg => 
-          msg.id === messageId ? { ...msg, read: true } : msg
-        )
-      );
+    // Listen for read receipts; everything up to the given message was read
+    socketRef.current.on('messagesRead', ({ upToMessageId }: { upToMessageId: string }) => {
+      setMessages(prev => {
+        const index = prev.findIndex(msg => msg.id === upToMessageId);
+        return prev.map((msg, i) =>
+          i <= index && msg.senderId === currentUserId ? { ...msg, read: true } : msg
+        );
+      });
+    });
+    
+    // Listen for edits and unsends, and for deletions made on this user's other devices
+    socketRef.current.on('messageEdited', async ({ id, content, e2eEnvelopes }: {
+      id: string;
+      content: string | null;
+      e2eEnvelopes: Record<string, E2EEnvelope> | null;
+    }) => {
+      const edited = e2eEnvelopes
+        ? await e2e.decrypt(e2eEnvelopes) ?? 'Unable to decrypt this message'
+        : content ?? '';
+      setMessages(prev => prev.map(msg => msg.id === id ? { ...msg, content: edited } : msg));
+    });
+    socketRef.current.on('messageUnsent', ({ id }: { id: string }) => {
+      setMessages(prev => prev.map(msg =>
+        msg.id === id ? { ...msg, content: 'Message unsent', mediaUrl: undefined, mediaType: undefined } : msg
+      ));
+    });
+    socketRef.current.on('messageDeleted', ({ id }: { id: string }) => {
+      setMessages(prev => prev.filter(msg => msg.id !== id));
+    });
+    
+    // The server tells matches when a user's identity key is replaced
+    socketRef.current.on('identityKeyChanged', ({ userId }: { userId: string }) => {
+      if (userId === activeMatch.userId) {
+        checkIdentity(true);
+      }
     });
     
     // Clean up listeners when changing active match
     return () => {
       if (socketRef.current) {
+        socketRef.current.emit('leaveRoom', { matchId: activeMatch.id });
         socketRef.current.off('newMessage');
-        socketRef.current.off('userTyping');
-        socketRef.current.off('messageRead');
+        socketRef.current.off('typing');
+        socketRef.current.off('messagesRead');
+        socketRef.current.off('messageEdited');
+        socketRef.current.off('messageUnsent');
+        socketRef.current.off('messageDeleted');
+        socketRef.current.off('identityKeyChanged');
       }
     };
-  }, [activeMatch]);
+  }, [activeMatch, e2e.checkIdentity, e2e.decrypt]);
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
@@ -215,22 +271,25 @@ export default function ChatPage() {
   };
 
   // Generate a consistent room ID for two users
-  const getChatRoomId = (userId1: string, userId2: string) => {
-    return [userId1, userId2].sort().join('-');
+  // Mark the conversation as read up to a message
+  const markMessageAsRead = (messageId: string) => {
+    if (!socketRef.current || !activeMatch) return;
+    
+    socketRef.current.emit('markRead', { matchId: activeMatch.id, upToMessageId: messageId });
   };
 
-  // Mark a message as read
-  const markMessageAsRead = (messageId: string) => {
-    if (!socketRef.current) return;
+  // Trust the match's new identity key once the safety number was verified
+  const handleVerifyIdentity = () => {
+    if (!activeMatch) return;
     
-    socketRef.current.emit('markMessageRead', { messageId });
+    e2e.acceptIdentity(activeMatch.userId);
+    setIdentityChanged(false);
   };
 
   // Handle sending a message
-  const handleSend = () => {
+  const handleSend = async () => {
     if (!message.trim() || !socketRef.current || !activeMatch) return;
     
-    const roomId = getChatRoomId(currentUserId, activeMatch.userId);
     const newMessage: Omit<Message, 'id'> = {
       senderId: currentUserId,
       recipientId: activeMatch.userId,
@@ -239,11 +298,15 @@ export default function ChatPage() {
       read: false
     };
     
+    // Encrypt on this device when both users have published keys; otherwise
+    // the server encrypts the message at rest
+    const envelopes = await e2e.encryptFor(activeMatch.userId, newMessage.content);
+    
     // Emit message to server
-    socketRef.current.emit('sendMessage', {
-      room: roomId,
-      ...newMessage
-    });
+    socketRef.current.emit('sendMessage', envelopes
+      ? { matchId: activeMatch.id, envelopes }
+      : { matchId: activeMatch.id, content: newMessage.content }
+    );
     
     // Add message to UI immediately (optimistic update)
     setMessages(prev => [...prev, { ...newMessage, id: `temp-${Date.now()}` }]);
@@ -264,10 +327,7 @@ export default function ChatPage() {
     if (!socketRef.current || !activeMatch) return;
     
     // Emit typing event
-    socketRef.current.emit('userTyping', {
-      room: getChatRoomId(currentUserId, activeMatch.userId),
-      userId: currentUserId
-    });
+    socketRef.current.emit('typingStart', { matchId: activeMatch.id });
     
     // Clear previous timeout
     if (typingTimeout) {
@@ -277,10 +337,7 @@ export default function ChatPage() {
     // Set new timeout
     setTypingTimeout(setTimeout(() => {
       if (socketRef.current) {
-        socketRef.current.emit('userStoppedTyping', {
-          room: getChatRoomId(currentUserId, activeMatch.userId),
-          userId: currentUserId
-        });
+        socketRef.current.emit('typingStop', { matchId: activeMatch.id });
       }
     }, 2000));
   };
@@ -293,13 +350,10 @@ export default function ChatPage() {
   };
 
   // Handle file upload
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file || !socketRef.current || !activeMatch) return;
     
-    // In a real app, you'd upload to a server and get a URL back
-    // For demo purposes, we'll just use a placeholder
-    
     // Determine media type
     let mediaType: 'image' | 'video' | 'audio' | undefined;
     if (file.type.startsWith('image/')) mediaType = 'image';
@@ -307,25 +361,38 @@ export default function ChatPage() {
     else if (file.type.startsWith('audio/')) mediaType = 'audio';
     else return; // Unsupported file type
     
-    const roomId = getChatRoomId(currentUserId, activeMatch.userId);
-    const newMessage: Omit<Message, 'id'> = {
-      senderId: currentUserId,
-      recipientId: activeMatch.userId,
-      content: `Sent a ${mediaType}`,
-      timestamp: new Date(),
-      read: false,
-      mediaUrl: URL.createObjectURL(file), // This would be a server URL in production
-      mediaType
-    };
-    
-    // Emit message to server
-    socketRef.current.emit('sendMessage', {
-      room: roomId,
-      ...newMessage
-    });
-    
-    // Add message to UI immediately (optimistic update)
-    setMessages(prev => [...prev, { ...newMessage, id: `temp-${Date.now()}` }]);
+    try {
+      // Upload the file first, then reference it from the message
+      const body = new FormData();
+      body.append('matchId', activeMatch.id);
+      body.append('file', file);
+      const response = await fetch(`${SOCKET_URL}/messaging/attachments`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${localStorage.getItem('token')}` },
+        body
+      });
+      if (!response.ok) throw new Error(`Upload failed with status ${response.status}`);
+      const attachment: { id: string } = await response.json();
+      
+      socketRef.current.emit('sendMessage', {
+        matchId: activeMatch.id,
+        mediaId: attachment.id
+      });
+      
+      // Add message to UI immediately (optimistic update)
+      setMessages(prev => [...prev, {
+        id: `temp-${Date.now()}`,
+        senderId: currentUserId,
+        recipientId: activeMatch.userId,
+        content: '',
+        timestamp: new Date(),
+        read: false,
+        mediaUrl: URL.createObjectURL(file), // Local preview until the server copy loads
+        mediaType
+      }]);
+    } catch (error) {
+      console.error('Error uploading attachment:', error);
+    }
   };
 
   // Format timestamp
@@ -389,6 +456,18 @@ export default function ChatPage() {
               </div>
             </div>
             
+            {identityChanged && (
+              <div className="safety-warning">
+                <p>
+                  {activeMatch.name}'s safety number has changed. This can mean they
+                  reinstalled the app or signed in on a new device. Compare the new
+                  number with them before sharing anything sensitive.
+                </p>
+                {safetyNumber && <code className="safety-number">{safetyNumber}</code>}
+                <button onClick={handleVerifyIdentity}>Mark as verified</button>
+              </div>
+            )}
+            
             <div className="chat-messages" ref={chatContainerRef}>
               {isLoading ? (
                 <div className="loading">Loading messages...</div>
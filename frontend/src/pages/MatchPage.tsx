@@ -4,12 +4,28 @@ import { useState, useEffect } from 'react';
 export default function MatchPage() {
   const [profiles, setProfiles] = useState<any[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
+  const [verifiedOnly, setVerifiedOnly] = useState(false);
 
   useEffect(() => {
-    fetch('http://localhost:3000/api/matching/recommendations')
+    const query = verifiedOnly ? '?verifiedOnly=true' : '';
+    fetch(`http://localhost:3000/api/matching/recommendations${query}`)
       .then((res) => res.json())
-      .then((data) => setProfiles(data));
-  }, []);
+      .then((data) => {
+        setProfiles(data);
+        setCurrentIndex(0);
+      });
+  }, [verifiedOnly]);
+
+  const verifiedToggle = (
+    <label>
+      <input
+        type="checkbox"
+        checked={verifiedOnly}
+        onChange={(e) => setVerifiedOnly(e.target.checked)}
+      />
+      Verified profiles only
+    </label>
+  );
 
   const handleSwipe = async (direction: 'like' | 'dislike') => {
     const profile = profiles[currentIndex];
@@ -25,15 +41,26 @@ export default function MatchPage() {
     }
   };
 
-  if (currentIndex >= profiles.length) return <div>No more profiles</div>;
+  if (currentIndex >= profiles.length) {
+    return (
+      <div>
+        {verifiedToggle}
+        <p>No more profiles</p>
+      </div>
+    );
+  }
 
   const profile = profiles[currentIndex];
 
   return (
     <div>
       <h2>Discover</h2>
+      {verifiedToggle}
       <div>
-        <p>{profile.name}, {profile.age}</p>
+        <p>
+          {profile.name}, {profile.age}
+          {profile.verified && <span title="Photo verified"> ✓ Verified</span>}
+        </p>
         <button onClick={() => handleSwipe('like')}>Like</button>
         <button onClick={() => handleSwipe('dislike')}>Dislike</button>
       </div>
@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import {
+  Container,
+  Paper,
+  Typography,
+  Box,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+
+type UnlockState = 'unlocking' | 'unlocked' | 'failed';
+
+export default function UnlockAccountPage() {
+  const [searchParams] = useSearchParams();
+  const [state, setState] = useState<UnlockState>('unlocking');
+
+  useEffect(() => {
+    const token = searchParams.get('token');
+    if (!token) {
+      setState('failed');
+      return;
+    }
+
+    fetch('http://localhost:3000/api/auth/unlock', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token }),
+    })
+      .then(response => setState(response.ok ? 'unlocked' : 'failed'))
+      .catch(() => setState('failed'));
+  }, [searchParams]);
+
+  return (
+    <Container component="main" maxWidth="xs">
+      <Box sx={{ marginTop: 8 }}>
+        <Paper elevation={3} sx={{ padding: 4, width: '100%' }}>
+          <Typography component="h1" variant="h5" align="center" gutterBottom>
+            Unlock your account
+          </Typography>
+
+          {state === 'unlocking' && (
+            <Box display="flex" justifyContent="center" sx={{ mt: 2 }}>
+              <CircularProgress />
+            </Box>
+          )}
+          {state === 'unlocked' && (
+            <Alert severity="success" sx={{ mt: 2 }}>
+              Your account is unlocked. <Link to="/login">Sign in</Link>
+            </Alert>
+          )}
+          {state === 'failed' && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              This unlock link is invalid or has expired. Your account unlocks by itself once the lockout ends.
+            </Alert>
+          )}
+        </Paper>
+      </Box>
+    </Container>
+  );
+}
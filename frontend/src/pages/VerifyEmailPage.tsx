@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import {
+  Container,
+  Paper,
+  Typography,
+  Box,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+
+type VerifyState = 'verifying' | 'verified' | 'failed';
+
+export default function VerifyEmailPage() {
+  const [searchParams] = useSearchParams();
+  const [state, setState] = useState<VerifyState>('verifying');
+
+  useEffect(() => {
+    const token = searchParams.get('token');
+    if (!token) {
+      setState('failed');
+      return;
+    }
+
+    fetch('http://localhost:3000/api/auth/verify-email', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token }),
+    })
+      .then(response => setState(response.ok ? 'verified' : 'failed'))
+      .catch(() => setState('failed'));
+  }, [searchParams]);
+
+  return (
+    <Container component="main" maxWidth="xs">
+      <Box sx={{ marginTop: 8 }}>
+        <Paper elevation={3} sx={{ padding: 4, width: '100%' }}>
+          <Typography component="h1" variant="h5" align="center" gutterBottom>
+            Confirm your email
+          </Typography>
+
+          {state === 'verifying' && (
+            <Box display="flex" justifyContent="center" sx={{ mt: 2 }}>
+              <CircularProgress />
+            </Box>
+          )}
+          {state === 'verified' && (
+            <Alert severity="success" sx={{ mt: 2 }}>
+              Your email address is confirmed. <Link to="/">Start matching</Link>
+            </Alert>
+          )}
+          {state === 'failed' && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              This verification link is invalid or has expired. Sign in to have a new one sent.
+            </Alert>
+          )}
+        </Paper>
+      </Box>
+    </Container>
+  );
+}
@@ -7,6 +7,9 @@ import ProtectedRoute from './components/ProtectedRoute';
 const HomePage = React.lazy(() => import('./pages/HomePage'));
 const LoginPage = React.lazy(() => import('./pages/LoginPage'));
 const RegisterPage = React.lazy(() => import('./pages/RegisterPage'));
+const UnlockAccountPage = React.lazy(() => import('./pages/UnlockAccountPage'));
+const VerifyEmailPage = React.lazy(() => import('./pages/VerifyEmailPage'));
+const ResetPasswordPage = React.lazy(() => import('./pages/ResetPasswordPage'));
 const ProfilePage = React.lazy(() => import('./pages/ProfilePage'));
 const MatchPage = React.lazy(() => import('./pages/MatchPage'));
 const ChatPage = React.lazy(() => import('./pages/ChatPage'));
@@ -28,6 +31,9 @@ export default function AppRoutes() {
           <Routes>
             <Route path="/login" element={<LoginPage />} />
             <Route path="/register" element={<RegisterPage />} />
+            <Route path="/unlock-account" element={<UnlockAccountPage />} />
+            <Route path="/verify-email" element={<VerifyEmailPage />} />
+            <Route path="/reset-password" element={<ResetPasswordPage />} />
             <Route path="/" element={
               <ProtectedRoute>
                 <HomePage />
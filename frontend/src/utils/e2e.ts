@@ -0,0 +1,274 @@
+/**
+ * End-to-end encryption for chat messages
+ *
+ * Each device holds an X25519 identity key pair and a prekey pair; only
+ * the public halves are published to the server's key directory. A message is encrypted once per recipient:
+ *
+ *   DH(IK_sender, PK_recipient) || DH(EK, IK_recipient) || DH(EK, PK_recipient)
+ *     -> HKDF-SHA-256 -> AES-256-GCM key
+ *
+ * where EK is a fresh ephemeral key pair. The sender also encrypts a copy
+ * for itself so its own history stays readable.
+ */
+import { base64ToBuffer, bufferToBase64 } from './encryption';
+
+const CURVE = 'X25519';
+const CIPHER = 'AES-GCM';
+const IV_LENGTH = 12; // bytes
+const HKDF_INFO = new TextEncoder().encode('10date-e2e-v1');
+const STORAGE_KEY = 'e2eKeys';
+const PINNED_KEYS_STORAGE_KEY = 'e2ePinnedIdentityKeys';
+
+/**
+ * Public keys of a user, as returned by the key directory
+ */
+export interface KeyBundle {
+  userId: string;
+  identityKey: string;
+  fingerprint: string;
+  prekeyId: number;
+  prekey: string;
+  identityChangedAt: string | null;
+}
+
+/**
+ * Message content encrypted for one recipient
+ */
+export interface E2EEnvelope {
+  senderIdentityKey: string;
+  ephemeralKey: string;
+  prekeyId: number;
+  iv: string;
+  ciphertext: string;
+}
+
+/**
+ * The device's key pairs, private halves included
+ */
+export interface LocalKeys {
+  identity: CryptoKeyPair;
+  prekeyId: number;
+  prekey: CryptoKeyPair;
+}
+
+interface StoredKeyPair {
+  publicKey: string;
+  privateKey: JsonWebKey;
+}
+
+interface StoredKeys {
+  identity: StoredKeyPair;
+  prekeyId: number;
+  prekey: StoredKeyPair;
+}
+
+/**
+ * Check if the browser supports X25519 in the Web Crypto API
+ */
+export async function isE2ESupported(): Promise<boolean> {
+  try {
+    await crypto.subtle.generateKey({ name: CURVE }, false, ['deriveBits']);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Load the device's keys, generating them on first use
+ * @returns The keys and whether they were just generated and need publishing
+ */
+export async function loadOrCreateKeys(): Promise<{ keys: LocalKeys; created: boolean }> {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (stored) {
+    return { keys: await deserializeKeys(JSON.parse(stored)), created: false };
+  }
+
+  const keys: LocalKeys = {
+    identity: await generateKeyPair(),
+    prekeyId: 1,
+    prekey: await generateKeyPair(),
+  };
+  await saveKeys(keys);
+  return { keys, created: true };
+}
+
+/**
+ * Get the public keys to publish to the key directory
+ */
+export async function getPublicBundle(keys: LocalKeys) {
+  return {
+    identityKey: await exportPublicKey(keys.identity.publicKey),
+    prekeyId: keys.prekeyId,
+    prekey: await exportPublicKey(keys.prekey.publicKey),
+  };
+}
+
+/**
+ * Encrypt a message for a recipient's published keys
+ */
+export async function encryptEnvelope(
+  plaintext: string,
+  keys: LocalKeys,
+  recipient: Pick<KeyBundle, 'identityKey' | 'prekeyId' | 'prekey'>
+): Promise<E2EEnvelope> {
+  const ephemeral = await generateKeyPair();
+  const recipientIdentity = await importPublicKey(recipient.identityKey);
+  const recipientPrekey = await importPublicKey(recipient.prekey);
+
+  const key = await deriveMessageKey([
+    await deriveBits(keys.identity.privateKey, recipientPrekey),
+    await deriveBits(ephemeral.privateKey, recipientIdentity),
+    await deriveBits(ephemeral.privateKey, recipientPrekey),
+  ]);
+
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: CIPHER, iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+
+  return {
+    senderIdentityKey: await exportPublicKey(keys.identity.publicKey),
+    ephemeralKey: await exportPublicKey(ephemeral.publicKey),
+    prekeyId: recipient.prekeyId,
+    iv: bufferToBase64(iv),
+    ciphertext: bufferToBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+/**
+ * Decrypt an envelope addressed to this device
+ * @throws Error if the prekey is unknown or the ciphertext was tampered with
+ */
+export async function decryptEnvelope(envelope: E2EEnvelope, keys: LocalKeys): Promise<string> {
+  if (envelope.prekeyId !== keys.prekeyId) {
+    throw new Error(`Unknown prekey ${envelope.prekeyId}`);
+  }
+
+  const senderIdentity = await importPublicKey(envelope.senderIdentityKey);
+  const ephemeral = await importPublicKey(envelope.ephemeralKey);
+
+  const key = await deriveMessageKey([
+    await deriveBits(keys.prekey.privateKey, senderIdentity),
+    await deriveBits(keys.identity.privateKey, ephemeral),
+    await deriveBits(keys.prekey.privateKey, ephemeral),
+  ]);
+
+  const plaintext = await crypto.subtle.decrypt(
+    { name: CIPHER, iv: base64ToBuffer(envelope.iv) },
+    key,
+    base64ToBuffer(envelope.ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Compute the safety number two users compare to verify each other's keys.
+ * Both sides get the same number regardless of who computes it.
+ * @returns 60 digits in groups of five
+ */
+export async function getSafetyNumber(identityKeyA: string, identityKeyB: string): Promise<string> {
+  const [first, second] = [identityKeyA, identityKeyB].sort();
+  const digest = new Uint8Array(await crypto.subtle.digest(
+    'SHA-512',
+    concat([base64ToBuffer(first), base64ToBuffer(second)])
+  ));
+
+  // Five bytes of the digest per group, reduced to five digits
+  const groups: string[] = [];
+  for (let offset = 0; offset < 60; offset += 5) {
+    const value = digest
+      .slice(offset, offset + 5)
+      .reduce((total, byte) => total * 256 + byte, 0) % 100000;
+    groups.push(value.toString().padStart(5, '0'));
+  }
+  return groups.join(' ');
+}
+
+/**
+ * Get the identity key this device last verified for a user
+ */
+export function getPinnedIdentityKey(userId: string): string | null {
+  const pinned: Record<string, string> = JSON.parse(localStorage.getItem(PINNED_KEYS_STORAGE_KEY) || '{}');
+  return pinned[userId] || null;
+}
+
+/**
+ * Trust a user's current identity key
+ */
+export function pinIdentityKey(userId: string, identityKey: string): void {
+  const pinned: Record<string, string> = JSON.parse(localStorage.getItem(PINNED_KEYS_STORAGE_KEY) || '{}');
+  pinned[userId] = identityKey;
+  localStorage.setItem(PINNED_KEYS_STORAGE_KEY, JSON.stringify(pinned));
+}
+
+async function generateKeyPair(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey({ name: CURVE }, true, ['deriveBits']) as Promise<CryptoKeyPair>;
+}
+
+async function deriveBits(privateKey: CryptoKey, publicKey: CryptoKey): Promise<Uint8Array> {
+  const bits = await crypto.subtle.deriveBits({ name: CURVE, public: publicKey }, privateKey, 256);
+  return new Uint8Array(bits);
+}
+
+async function deriveMessageKey(secrets: Uint8Array[]): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', concat(secrets), 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(32), info: HKDF_INFO },
+    material,
+    { name: CIPHER, length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function exportPublicKey(key: CryptoKey): Promise<string> {
+  return bufferToBase64(new Uint8Array(await crypto.subtle.exportKey('raw', key)));
+}
+
+async function importPublicKey(key: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', base64ToBuffer(key), { name: CURVE }, true, []);
+}
+
+async function saveKeys(keys: LocalKeys): Promise<void> {
+  const stored: StoredKeys = {
+    identity: await serializeKeyPair(keys.identity),
+    prekeyId: keys.prekeyId,
+    prekey: await serializeKeyPair(keys.prekey),
+  };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+}
+
+async function deserializeKeys(stored: StoredKeys): Promise<LocalKeys> {
+  return {
+    identity: await deserializeKeyPair(stored.identity),
+    prekeyId: stored.prekeyId,
+    prekey: await deserializeKeyPair(stored.prekey),
+  };
+}
+
+async function serializeKeyPair(pair: CryptoKeyPair): Promise<StoredKeyPair> {
+  return {
+    publicKey: await exportPublicKey(pair.publicKey),
+    privateKey: await crypto.subtle.exportKey('jwk', pair.privateKey),
+  };
+}
+
+async function deserializeKeyPair(pair: StoredKeyPair): Promise<CryptoKeyPair> {
+  return {
+    publicKey: await importPublicKey(pair.publicKey),
+    privateKey: await crypto.subtle.importKey('jwk', pair.privateKey, { name: CURVE }, true, ['deriveBits']),
+  };
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}